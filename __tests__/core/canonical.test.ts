@@ -1,4 +1,23 @@
-import { canonicalize } from '../../core/canonical';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { blake3 } from '@noble/hashes/blake3';
+import { canonicalize, canonicalizeJcs, canonicalizerFor, CANONICALIZATION_JCS } from '../../core/canonical';
+import { hashAtomic } from '../../core/crypto';
+import * as minicore from '../../minicore/src/signer';
+import * as minicoreCore from '../../minicore/core/signer';
+import * as playground from '../../playground/src/lib/jsonatomic';
+import type { Atomic } from '../../types';
+
+interface Vector {
+  name: string;
+  input: string;
+  canonical?: string;
+  hash?: string;
+  error?: boolean;
+}
+
+const vectorFile = JSON.parse(readFileSync(join(__dirname, '../../test-vectors/canonicalization.json'), 'utf-8'));
+const vectors: Vector[] = vectorFile.vectors;
 
 describe('Canonical JSON Serialization', () => {
   describe('primitives', () => {
@@ -152,3 +171,49 @@ describe('Canonical JSON Serialization', () => {
     });
   });
 });
+
+describe('RFC 8785 (JCS) canonicalization', () => {
+  const implementations: Array<[string, (value: unknown) => string]> = [
+    ['core', canonicalizeJcs],
+    ['minicore', minicore.canonicalizeJcs],
+    ['minicore/core', minicoreCore.canonicalizeJcs],
+    ['playground', playground.canonicalizeJcs],
+  ];
+
+  describe.each(implementations)('%s', (_, canonicalizeWith) => {
+    it.each(vectors.filter(v => !v.error).map(v => [v.name, v] as const))('should match vector: %s', (_name, vector) => {
+      const canonical = canonicalizeWith(JSON.parse(vector.input));
+      const hash = Buffer.from(blake3(new TextEncoder().encode(canonical), { context: vectorFile.hash.context })).toString('hex');
+
+      expect(canonical).toBe(vector.canonical);
+      expect(hash).toBe(vector.hash);
+    });
+
+    it.each(vectors.filter(v => v.error).map(v => [v.name, v] as const))('should reject vector: %s', (_name, vector) => {
+      expect(() => canonicalizeWith(JSON.parse(vector.input))).toThrow();
+    });
+  });
+
+  it('should hash minicore/core spans as core hashes atomics, under both canonicalizations', () => {
+    const legacy = { entity_type: 'function', this: 'ünïcode', trace_id: 't-1', input: { b: 1e21, a: [1.5, 'x'] } };
+    const jcs = { ...legacy, canonicalization: CANONICALIZATION_JCS };
+
+    expect(minicoreCore.hashSpan(legacy)).toBe(hashAtomic(legacy as Atomic));
+    expect(minicoreCore.hashSpan(jcs)).toBe(hashAtomic(jcs as Atomic));
+  });
+
+  it('should leave out undefined members and write undefined array items as null', () => {
+    expect(canonicalizeJcs({ a: undefined, b: [undefined, 1] })).toBe('{"b":[null,1]}');
+    expect(canonicalize({ a: undefined })).toBe('{"a":null}');
+  });
+
+  it('should reject non-finite numbers', () => {
+    expect(() => canonicalizeJcs({ n: NaN })).toThrow('non-finite');
+  });
+
+  it('should select the canonicalization by id', () => {
+    expect(canonicalizerFor(undefined)).toBe(canonicalize);
+    expect(canonicalizerFor(CANONICALIZATION_JCS)).toBe(canonicalizeJcs);
+    expect(() => canonicalizerFor('JsonAtomic/c14n/v9')).toThrow('Unknown canonicalization');
+  });
+});
@@ -181,6 +181,21 @@ describe('Cryptographic Operations', () => {
 
       expect(hash1).toBe(hash2);
     });
+
+    it('should hash with the canonicalization the atomic names', async () => {
+      const legacy: Atomic = { ...sampleAtomic, this: { ratio: 1e21 } };
+      const jcs: Atomic = { ...legacy, canonicalization: 'JsonAtomic/jcs/v1' };
+      const { privateKey } = generateKeyPair();
+      const signedLegacy = { ...legacy, ...(await signAtomic(legacy, privateKey)) };
+      const signedJcs = { ...jcs, ...(await signAtomic(jcs, privateKey)) };
+
+      expect(hashAtomic(jcs)).not.toBe(hashAtomic(legacy));
+      expect(hashAtomic(signedLegacy)).toBe(signedLegacy.hash);
+      expect(hashAtomic(signedJcs)).toBe(signedJcs.hash);
+      expect(verifySignature(signedLegacy) && verifySignature(signedJcs)).toBe(true);
+      expect(hashAtomic({ ...signedLegacy, canonicalization: 'JsonAtomic/jcs/v1' })).not.toBe(signedLegacy.hash);
+      expect(() => hashAtomic({ ...legacy, canonicalization: 'JsonAtomic/c14n/v9' as any })).toThrow('Unknown canonicalization');
+    });
   });
 
   describe('generateKeyPair', () => {
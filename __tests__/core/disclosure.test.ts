@@ -0,0 +1,136 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { commitFields, disclosureReport, redactAtomic } from '../../core/disclosure';
+import { generateKeyPair, hashAtomic, signAtomic, verifySignature } from '../../core/crypto';
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import type { Atomic } from '../../types';
+
+function makeAtomic(): Atomic {
+  return {
+    schema_version: '1.1.0',
+    entity_type: 'function',
+    intent: 'run_code',
+    this: 'build',
+    trace_id: 'trace-1',
+    did: { actor: 'ci', action: 'run' },
+    input: { args: ['make'], env: { TOKEN: 'secret', REGION: 'eu' } },
+    output: { stdout: 'token=secret', result: 0 },
+    metadata: { created_at: '2024-01-01T00:00:00.000Z', owner_id: 'user-42' },
+  };
+}
+
+describe('Selective disclosure', () => {
+  it('should hash committed atomics over their commitments', () => {
+    const atomic = commitFields(makeAtomic());
+
+    expect(Object.keys(atomic.disclosure!.salts)).toContain('/input/env/TOKEN');
+    expect(hashAtomic(atomic)).toMatch(/^[a-f0-9]{64}$/);
+    expect(hashAtomic(atomic)).not.toBe(hashAtomic(makeAtomic()));
+
+    const changed = { ...atomic, output: { ...atomic.output, result: 1 } };
+    expect(hashAtomic(changed)).not.toBe(hashAtomic(atomic));
+  });
+
+  it('should keep hash and signature valid after redaction', async () => {
+    const { privateKey, publicKey } = generateKeyPair();
+    const atomic = commitFields(makeAtomic());
+    const { hash, signature } = await signAtomic(atomic, privateKey);
+    Object.assign(atomic, { hash, signature });
+
+    const redacted = redactAtomic(atomic, ['input.env', '/output/stdout', 'metadata.owner_id']);
+
+    expect(redacted.input).toEqual({ args: ['make'] });
+    expect(redacted.output).toEqual({ result: 0 });
+    expect(redacted.metadata).toEqual({ created_at: '2024-01-01T00:00:00.000Z' });
+    expect(JSON.stringify(redacted)).not.toContain('secret');
+    expect(hashAtomic(redacted)).toBe(hash);
+    expect(verifySignature(redacted, publicKey)).toBe(true);
+
+    expect(disclosureReport(redacted.disclosure!).redacted).toEqual([
+      '/input/env/REGION',
+      '/input/env/TOKEN',
+      '/metadata/owner_id',
+      '/output/stdout',
+    ]);
+  });
+
+  it('should drop parents left empty by a redaction', () => {
+    const atomic = commitFields(makeAtomic());
+    const redacted = redactAtomic(atomic, ['output.stdout', 'output.result']);
+
+    expect(redacted.output).toBeUndefined();
+    expect(hashAtomic(redacted)).toBe(hashAtomic(atomic));
+  });
+
+  it('should detect disclosed values that were altered', () => {
+    const atomic = commitFields(makeAtomic());
+    const hash = hashAtomic(atomic);
+    const redacted = redactAtomic(atomic, ['input.env']);
+
+    redacted.output!.stdout = 'token=[hidden]';
+    expect(hashAtomic(redacted)).not.toBe(hash);
+
+    // A field without a salt was added after commitment
+    const extended = redactAtomic(atomic, ['input.env']);
+    extended.input!.env = { TOKEN: 'other' };
+    expect(() => hashAtomic(extended)).toThrow(/no salt/);
+  });
+
+  it('should refuse to redact atomics without commitments or missing fields', () => {
+    expect(() => redactAtomic(makeAtomic(), ['input.env'])).toThrow(/field commitments/);
+    expect(() => redactAtomic(commitFields(makeAtomic()), ['input.missing'])).toThrow(/No disclosed field/);
+  });
+
+  describe('with the ledger', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'disclosure-test-'));
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    });
+
+    it('should verify a redacted excerpt and report its disclosed fields', async () => {
+      const { privateKey, publicKey } = generateKeyPair();
+      const ledgerPath = join(dir, 'ledger.jsonl');
+      const ledger = new Ledger(ledgerPath, { signingKeyHex: privateKey, selectiveDisclosure: true });
+      await ledger.append(makeAtomic());
+      await ledger.append({ ...makeAtomic(), this: 'deploy' });
+
+      const { atomics } = await ledger.scan({ limit: 10 });
+      expect(atomics[1].prev).toBe(atomics[0].hash);
+
+      const excerptPath = join(dir, 'excerpt.jsonl');
+      const excerpt = atomics.map(a => redactAtomic(a, ['input.env', 'output.stdout', 'metadata.owner_id']));
+      writeFileSync(excerptPath, excerpt.map(a => JSON.stringify(a)).join('\n') + '\n');
+
+      const summary = await new LedgerVerifier(publicKey).verifyFile(excerptPath);
+      expect(summary.invalid).toBe(0);
+      expect(summary.valid).toBe(2);
+      expect(summary.results[0].disclosure?.redacted).toContain('/output/stdout');
+      expect(summary.results[1].disclosure?.disclosed).toContain('/prev');
+      expect(summary.results[0].disclosure?.disclosed).toContain('/input/args');
+    });
+
+    it('should report commitments that do not match as a hash mismatch', async () => {
+      const ledgerPath = join(dir, 'ledger.jsonl');
+      const ledger = new Ledger(ledgerPath, { selectiveDisclosure: true });
+      await ledger.append(makeAtomic());
+
+      const [atomic] = (await ledger.scan({ limit: 1 })).atomics;
+      const redacted = redactAtomic(atomic, ['input.env']);
+      delete redacted.disclosure!.salts['/output/stdout'];
+      writeFileSync(ledgerPath, JSON.stringify(redacted) + '\n');
+
+      const summary = await new LedgerVerifier().verifyFile(ledgerPath);
+      expect(summary.results[0].error?.code).toBe('HASH_MISMATCH');
+      expect(summary.results[0].error?.message).toContain('no salt');
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { checkMultiSig, cosignAtomic, MultiSigError, requireSignatures } from '../../core/multisig';
+import { generateKeyPair, hashAtomic, signAtomic } from '../../core/crypto';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import type { Atomic } from '../../types';
+
+describe('Multi-signature atomics', () => {
+  const alice = generateKeyPair();
+  const bob = generateKeyPair();
+  const carol = generateKeyPair();
+  const mallory = generateKeyPair();
+
+  async function decision(): Promise<Atomic> {
+    const atomic: Atomic = {
+      schema_version: '1.1.0',
+      entity_type: 'decision',
+      this: 'approve-release',
+      trace_id: 'release-42',
+      did: { actor: 'alice', action: 'approve' },
+      metadata: { created_at: '2024-01-01T00:00:00.000Z' },
+    };
+    requireSignatures(atomic, { threshold: 2, public_keys: [alice.publicKey, bob.publicKey, carol.publicKey] });
+    const { hash, signature } = await signAtomic(atomic, alice.privateKey);
+    return { ...atomic, hash, signature };
+  }
+
+  it('should add co-signatures without changing the hash', async () => {
+    const signed = await decision();
+    expect(checkMultiSig(signed)).toMatchObject({ status: 'not_met', signers: [alice.publicKey], threshold: 2 });
+
+    const cosigned = cosignAtomic(signed, bob.privateKey);
+    expect(cosigned.hash).toBe(signed.hash);
+    expect(hashAtomic(cosigned)).toBe(signed.hash);
+    expect(cosigned.signature).toEqual(signed.signature);
+    expect(checkMultiSig(cosigned)).toMatchObject({ status: 'met', signers: [alice.publicKey, bob.publicKey] });
+  });
+
+  it('should refuse co-signatures outside the policy', async () => {
+    const signed = await decision();
+
+    expect(() => cosignAtomic(signed, mallory.privateKey)).toThrow(/not in the atomic's multisig policy/);
+    expect(() => cosignAtomic(signed, alice.privateKey)).toThrow(/already signed/);
+    expect(() => cosignAtomic({ ...signed, this: 'approve-other' }, bob.privateKey)).toThrow(/does not match its hash/);
+    expect(() => requireSignatures(signed, { threshold: 1, public_keys: [alice.publicKey] })).toThrow(MultiSigError);
+    expect(() => requireSignatures({ ...signed, hash: undefined }, { threshold: 4, public_keys: [alice.publicKey] }))
+      .toThrow(/between 1 and 1/);
+  });
+
+  it('should not count forged, duplicate or unlisted signatures', async () => {
+    const signed = await decision();
+    const forged = { ...cosignAtomic(signed, bob.privateKey) };
+    forged.cosignatures = [{ ...forged.cosignatures![0], public_key: carol.publicKey }];
+    const { signature: malloryCosignature } = await signAtomic(signed, mallory.privateKey);
+    forged.cosignatures.push({ ...malloryCosignature!, public_key: mallory.publicKey }, signed.signature!);
+
+    expect(checkMultiSig(forged)).toMatchObject({
+      status: 'not_met',
+      signers: [alice.publicKey],
+      rejected: [carol.publicKey, mallory.publicKey],
+    });
+  });
+
+  it('should fail verification when the threshold is not met', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'multisig-test-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    try {
+      const signed = await decision();
+      const other = await decision();
+      other.trace_id = 'release-43';
+      const { hash, signature } = await signAtomic({ ...other, hash: undefined, signature: undefined }, alice.privateKey);
+      const unmet = { ...other, hash, signature };
+
+      const ledgerPath = join(dir, 'ledger.jsonl');
+      const lines = [cosignAtomic(signed, carol.privateKey), unmet];
+      writeFileSync(ledgerPath, lines.map(a => JSON.stringify(a)).join('\n') + '\n');
+
+      const summary = await new LedgerVerifier().verifyFile(ledgerPath, { chainMode: 'trace' });
+      expect(summary.results.map(r => r.error?.code)).toEqual([undefined, 'THRESHOLD_NOT_MET']);
+      expect(summary.results[1].error?.details).toMatchObject({ threshold: 2, signers: [alice.publicKey] });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { webcrypto } from 'crypto';
+import {
+  addPqSignature,
+  generateKeyPair,
+  hashAtomic,
+  signAtomic,
+  signHash,
+  verifyHashSignature,
+  verifySignature,
+} from '../../core/crypto';
+import { LedgerVerifier, type SignaturePolicy } from '../../core/ledger/verifyLedger';
+import type { Atomic, SignatureAlg } from '../../types';
+
+describe('Signature algorithms', () => {
+  function makeAtomic(trace: string): Atomic {
+    return {
+      schema_version: '1.1.0',
+      entity_type: 'file',
+      this: `doc-${trace}`,
+      trace_id: trace,
+      did: { actor: 'alice', action: 'create' },
+      metadata: { created_at: '2024-01-01T00:00:00.000Z' },
+    };
+  }
+
+  it.each<SignatureAlg>(['Ed25519', 'ES256', 'ES256K'])('should sign and verify with %s', async (alg) => {
+    const keys = generateKeyPair(alg);
+    const atomic = makeAtomic('t1');
+    const { hash, signature } = await signAtomic(atomic, keys.privateKey, alg);
+    const signed = { ...atomic, hash, signature };
+
+    expect(signature).toMatchObject({ alg, public_key: keys.publicKey });
+    expect(verifySignature(signed)).toBe(true);
+    expect(verifySignature(signed, generateKeyPair(alg).publicKey)).toBe(false);
+    expect(verifySignature({ ...signed, signature: { ...signature!, alg: alg === 'ES256' ? 'ES256K' : 'ES256' } })).toBe(false);
+  });
+
+  it('should verify ES256 signatures made with WebCrypto', async () => {
+    const { privateKey, publicKey } = await webcrypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'],
+    );
+    const atomic = makeAtomic('t1');
+    const hash = hashAtomic(atomic);
+    const sig = await webcrypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' }, privateKey, new TextEncoder().encode(hash),
+    );
+    const rawPublicKey = await webcrypto.subtle.exportKey('raw', publicKey);
+
+    const signed: Atomic = {
+      ...atomic,
+      hash,
+      signature: {
+        alg: 'ES256',
+        public_key: Buffer.from(rawPublicKey).toString('hex'),
+        sig: Buffer.from(sig).toString('hex'),
+      },
+    };
+    expect(verifySignature(signed)).toBe(true);
+  });
+
+  it('should verify a ledger mixing algorithms and reject unknown ones', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'signature-alg-test-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    try {
+      const lines: Atomic[] = [];
+      for (const alg of ['Ed25519', 'ES256', 'ES256K', 'ES256'] as SignatureAlg[]) {
+        const atomic = makeAtomic(`${alg}-${lines.length}`);
+        const { hash, signature } = await signAtomic(atomic, generateKeyPair(alg).privateKey, alg);
+        lines.push({ ...atomic, hash, signature });
+      }
+      lines[3].signature = { ...lines[3].signature!, alg: 'RS256' as SignatureAlg };
+
+      const ledgerPath = join(dir, 'ledger.jsonl');
+      writeFileSync(ledgerPath, lines.map(a => JSON.stringify(a)).join('\n') + '\n');
+
+      const summary = await new LedgerVerifier().verifyFile(ledgerPath, { chainMode: 'trace' });
+      expect(summary.results.map(r => r.error?.code)).toEqual([undefined, undefined, undefined, 'INVALID_SIGNATURE_ALG']);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    }
+  });
+});
+
+describe('Hybrid post-quantum signatures', () => {
+  const classical = generateKeyPair();
+  const mlDsa = generateKeyPair('ML-DSA-65');
+
+  async function hybrid(trace: string, pq = true): Promise<Atomic> {
+    const atomic: Atomic = {
+      schema_version: '1.1.0',
+      entity_type: 'decision',
+      this: `record-${trace}`,
+      trace_id: trace,
+      did: { actor: 'archive', action: 'seal' },
+      metadata: { created_at: '2024-01-01T00:00:00.000Z' },
+    };
+    const { hash, signature } = await signAtomic(atomic, classical.privateKey);
+    return pq ? addPqSignature({ ...atomic, hash, signature }, mlDsa.privateKey) : { ...atomic, hash, signature };
+  }
+
+  async function verify(lines: Atomic[], signaturePolicy?: SignaturePolicy) {
+    const dir = mkdtempSync(join(tmpdir(), 'hybrid-signature-test-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    try {
+      const ledgerPath = join(dir, 'ledger.jsonl');
+      writeFileSync(ledgerPath, lines.map(a => JSON.stringify(a)).join('\n') + '\n');
+      const summary = await new LedgerVerifier().verifyFile(ledgerPath, { chainMode: 'trace', signaturePolicy });
+      return summary.results.map(r => r.error?.code);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+      jest.restoreAllMocks();
+    }
+  }
+
+  it('should sign the same hash with a post-quantum key', async () => {
+    const signed = await hybrid('t1');
+
+    expect(signed.pq_signature).toMatchObject({ alg: 'ML-DSA-65', public_key: mlDsa.publicKey });
+    expect(hashAtomic(signed)).toBe(signed.hash);
+    expect(verifySignature(signed)).toBe(true);
+    expect(verifyHashSignature(signed.hash!, signed.pq_signature!)).toBe(true);
+    expect(() => addPqSignature(signed, classical.privateKey, 'Ed25519')).toThrow(/post-quantum/);
+    expect(() => addPqSignature({ ...signed, this: 'other' }, mlDsa.privateKey)).toThrow(/does not match its hash/);
+  });
+
+  it('should verify SLH-DSA signatures', () => {
+    const keys = generateKeyPair('SLH-DSA-SHA2-128f');
+    const signature = signHash('ab'.repeat(32), keys.privateKey, 'SLH-DSA-SHA2-128f');
+
+    expect(signature.public_key).toBe(keys.publicKey);
+    expect(verifyHashSignature('ab'.repeat(32), signature)).toBe(true);
+    expect(verifyHashSignature('cd'.repeat(32), signature)).toBe(false);
+  });
+
+  it('should require either signature or both, and fail on any invalid one', async () => {
+    const both = await hybrid('both');
+    const classicalOnly = await hybrid('classical', false);
+    const pqOnly = { ...(await hybrid('pq')), signature: undefined };
+    const forgedPq = await hybrid('forged');
+    forgedPq.pq_signature = { ...forgedPq.pq_signature!, sig: both.pq_signature!.sig };
+    const classicalPq = { ...(await hybrid('classical-pq')) };
+    classicalPq.pq_signature = signHash(classicalPq.hash!, classical.privateKey);
+    const lines = [both, classicalOnly, pqOnly, forgedPq, classicalPq];
+
+    expect(await verify(lines)).toEqual([undefined, undefined, undefined, 'INVALID_SIGNATURE', 'INVALID_SIGNATURE_ALG']);
+    expect(await verify(lines, 'both')).toEqual([
+      undefined,
+      'HYBRID_SIGNATURE_REQUIRED',
+      'HYBRID_SIGNATURE_REQUIRED',
+      'INVALID_SIGNATURE',
+      'INVALID_SIGNATURE_ALG',
+    ]);
+  });
+});
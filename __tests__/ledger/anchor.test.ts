@@ -0,0 +1,88 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Ledger } from '../../core/ledger/ledger';
+import { anchorDigest, createAnchor, readAnchors, verifyAnchor } from '../../core/ledger/anchor';
+import {
+  readTstInfo,
+  requestTimestamp,
+  TestTimestampAuthority,
+  verifyTimestampToken,
+} from '../../core/ledger/timestamp';
+import { generateKeyPair } from '../../core/crypto';
+import { makeTaskAtomic, useTempLedger } from './helpers';
+
+describe('Ledger anchoring', () => {
+  const temp = useTempLedger('anchor');
+  let tsa: TestTimestampAuthority;
+
+  beforeEach(() => {
+    tsa = new TestTimestampAuthority();
+  });
+
+  it('should issue and verify RFC 3161 tokens', async () => {
+    const digest = anchorDigest('ab'.repeat(32));
+    const { token, info } = await requestTimestamp(tsa, digest);
+
+    expect(readTstInfo(token)).toEqual(info);
+    expect(info).toMatchObject({ hash_alg: 'sha256', digest: digest.toString('hex') });
+    expect(verifyTimestampToken(token, digest, { trustedCertificates: [tsa.certificatePem] })).toMatchObject({
+      valid: true,
+      trusted: true,
+      signer: 'CN=JsonAtomic Test TSA',
+    });
+
+    const other = anchorDigest('cd'.repeat(32));
+    expect(verifyTimestampToken(token, other)).toMatchObject({ valid: false, error: { code: 'IMPRINT_MISMATCH' } });
+    expect(verifyTimestampToken(token, digest, { trustedCertificates: [new TestTimestampAuthority().certificatePem] }))
+      .toMatchObject({ valid: false, error: { code: 'UNTRUSTED_TSA' } });
+
+    // Flip a byte of the signature (the last bytes of the token)
+    const forged = Buffer.from(token);
+    forged[forged.length - 1] ^= 1;
+    expect(verifyTimestampToken(forged, digest)).toMatchObject({ valid: false, error: { code: 'INVALID_TSA_SIGNATURE' } });
+  });
+
+  it('should anchor the ledger root and detect later changes', async () => {
+    const { privateKey } = generateKeyPair();
+    const ledger = new Ledger(temp.ledgerPath, { signingKeyHex: privateKey });
+    for (let i = 1; i <= 3; i++) {
+      await ledger.append(makeTaskAtomic(i));
+    }
+    await ledger.append(await createAnchor(temp.ledgerPath, tsa, { actor: 'ops', tsa: 'test' }));
+    await ledger.append(makeTaskAtomic(4));
+
+    const [anchor] = await readAnchors(temp.ledgerPath);
+    expect(anchor.input).toMatchObject({ scheme: 'rfc3161', subject: 'merkle_root', tree_size: 3 });
+    expect(verifyAnchor(anchor, temp.ledgerPath, { trustedCertificates: [tsa.certificatePem] })).toMatchObject({
+      valid: true,
+      trusted: true,
+      tree_size: 3,
+    });
+
+    // Drop the second atomic: the first three entries no longer have the anchored root
+    const lines = readFileSync(temp.ledgerPath, 'utf-8').split('\n');
+    writeFileSync(temp.ledgerPath, [lines[0], ...lines.slice(2)].join('\n'));
+    expect(verifyAnchor(anchor, temp.ledgerPath)).toMatchObject({
+      valid: false,
+      error: { code: 'ANCHOR_STATE_MISMATCH' },
+    });
+  });
+
+  it('should anchor the last hash', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    await ledger.append(makeTaskAtomic(1));
+    await ledger.append(makeTaskAtomic(2));
+    const last = (await ledger.scan({ limit: 10 })).atomics[1].hash;
+    await ledger.append(await createAnchor(temp.ledgerPath, tsa, { actor: 'ops', tsa: 'test', subject: 'last_hash' }));
+
+    const [anchor] = await readAnchors(temp.ledgerPath);
+    expect(anchor.input).toMatchObject({ subject: 'last_hash', tree_size: 2, value: last });
+    expect(verifyAnchor(anchor, temp.ledgerPath, { trustedCertificates: [tsa.certificatePem] })).toMatchObject({ valid: true });
+    // Any TSA's token verifies against its own certificate: without a pinned one it proves nothing
+    expect(verifyAnchor(anchor, temp.ledgerPath)).toMatchObject({ valid: false, error: { code: 'TSA_NOT_PINNED' } });
+
+    const altered = { ...anchor, input: { ...anchor.input, tree_size: 1 } };
+    expect(verifyAnchor(altered, temp.ledgerPath)).toMatchObject({ valid: false, error: { code: 'HASH_MISMATCH' } });
+    await expect(createAnchor(join(temp.dir, 'empty.jsonl'), tsa, { actor: 'ops', tsa: 'test' })).rejects.toThrow(/empty/);
+  });
+});
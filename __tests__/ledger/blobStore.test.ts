@@ -0,0 +1,103 @@
+import { readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import {
+  blobHash,
+  externalizeBlobs,
+  FileBlobStore,
+  isBlobRef,
+  resolveBlobs,
+} from '../../core/ledger/blobStore';
+import { generateKeyPair } from '../../core/crypto';
+import type { Atomic } from '../../types';
+import { useTempLedger } from './helpers';
+
+function makeRunAtomic(n: number, stdout: string, bytes?: Buffer): Atomic {
+  return {
+    schema_version: '1.1.0',
+    entity_type: 'function',
+    this: `build-${n}`,
+    trace_id: `trace-${n}`,
+    did: { actor: 'ci', action: 'run' },
+    input: { args: ['make'], ...(bytes ? { bytes_b64: bytes.toString('base64') } : {}) },
+    output: { stdout, stderr: '' },
+    metadata: { created_at: new Date().toISOString() },
+  };
+}
+
+describe('Blob store', () => {
+  const temp = useTempLedger('blob');
+  let store: FileBlobStore;
+
+  beforeEach(() => {
+    store = new FileBlobStore(join(temp.dir, 'blobs'));
+  });
+
+  it('should move large payloads out of the ledger line and restore them', async () => {
+    const log = 'compiling…\n'.repeat(200);
+    const bytes = Buffer.alloc(3000, 7);
+    const ledger = new Ledger(temp.ledgerPath, { blobs: { store, threshold: 1024 } });
+    await ledger.append(makeRunAtomic(1, log, bytes));
+
+    const line = readFileSync(temp.ledgerPath, 'utf-8');
+    expect(line).not.toContain('compiling');
+    expect(line.length).toBeLessThan(2000);
+
+    const [stored] = (await ledger.scan({ limit: 10 })).atomics;
+    expect(stored.output!.stdout).toEqual({
+      scheme: 'JsonAtomic/blob/v1',
+      hash: blobHash(Buffer.from(log)),
+      size: Buffer.byteLength(log),
+      media_type: 'text/plain; charset=utf-8',
+      encoding: 'utf-8',
+    });
+    expect(stored.input!.bytes_b64).toMatchObject({ hash: blobHash(bytes), size: 3000, encoding: 'base64' });
+    expect(stored.output!.stderr).toBe('');
+
+    const resolved = await resolveBlobs(stored, store);
+    expect(resolved.output!.stdout).toBe(log);
+    expect(resolved.input!.bytes_b64).toBe(bytes.toString('base64'));
+  });
+
+  it('should store identical payloads once and keep small ones inline', async () => {
+    const log = 'x'.repeat(5000);
+    const atomics = [makeRunAtomic(1, log), makeRunAtomic(2, log), makeRunAtomic(3, 'ok')];
+    for (const atomic of atomics) {
+      await externalizeBlobs(atomic, store, 1024);
+    }
+
+    expect(isBlobRef(atomics[0].output!.stdout)).toBe(true);
+    expect(atomics[1].output!.stdout).toEqual(atomics[0].output!.stdout);
+    expect(atomics[2].output!.stdout).toBe('ok');
+    expect(await store.has(blobHash(Buffer.from(log)))).toBe(true);
+    await expect(externalizeBlobs({ ...makeRunAtomic(4, log), hash: 'ab'.repeat(32) }, store)).rejects.toThrow(/before the atomic is hashed/);
+  });
+
+  it('should report missing and altered blobs when verifying', async () => {
+    const { privateKey } = generateKeyPair();
+    const ledger = new Ledger(temp.ledgerPath, { signingKeyHex: privateKey, blobs: { store, threshold: 100 } });
+    await ledger.append(makeRunAtomic(1, 'a'.repeat(500)));
+    await ledger.append(makeRunAtomic(2, 'b'.repeat(500)));
+    await ledger.append(makeRunAtomic(3, 'short'));
+    const blobPath = (c: string) => {
+      const hash = blobHash(Buffer.from(c.repeat(500)));
+      return join(temp.dir, 'blobs', hash.slice(0, 2), hash);
+    };
+
+    const verifier = new LedgerVerifier();
+    expect(await verifier.verifyFile(temp.ledgerPath, { blobs: store })).toMatchObject({ valid: 3, invalid: 0 });
+
+    writeFileSync(blobPath('a'), 'tampered');
+    unlinkSync(blobPath('b'));
+    const summary = await verifier.verifyFile(temp.ledgerPath, { blobs: store });
+
+    expect(summary).toMatchObject({ valid: 1, invalid: 2 });
+    expect(summary.results.filter(r => !r.valid).map(r => [r.line, r.error!.code, r.error!.details!.pointer])).toEqual([
+      [1, 'BLOB_MISMATCH', '/output/stdout'],
+      [2, 'BLOB_MISSING', '/output/stdout'],
+    ]);
+    // Without a blob store the atomics still verify: their hashes cover the references
+    expect(await verifier.verifyFile(temp.ledgerPath)).toMatchObject({ valid: 3, invalid: 0 });
+  });
+});
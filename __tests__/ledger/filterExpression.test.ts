@@ -0,0 +1,139 @@
+import { Ledger } from '../../core/ledger/ledger';
+import {
+  compileFilter,
+  FilterSyntaxError,
+  indexHints,
+  parseFilter,
+} from '../../core/ledger/filterExpression';
+import { FileSystemLedgerRepository } from '../../core/infrastructure/repositories/FileSystemLedgerRepository';
+import type { Atomic } from '../../types';
+import { useTempLedger } from './helpers';
+
+function makeAtomic(overrides: Partial<Atomic> = {}): Atomic {
+  return {
+    schema_version: '1.1.0',
+    entity_type: 'function',
+    this: 'payments/charge',
+    trace_id: 'trace-1',
+    did: { actor: 'llm', action: 'complete' },
+    status: { state: 'failed', message: 'upstream timeout' },
+    when: { started_at: '2024-01-15T10:00:00.000Z' },
+    output: { stderr: 'Request TIMEOUT after 30s', result: 3 },
+    metadata: { created_at: '2024-01-15T10:00:00.000Z', tenant_id: 'acme', tags: ['pii', 'billing'] },
+    ...overrides,
+  };
+}
+
+describe('Filter expressions', () => {
+  const atomic = makeAtomic();
+  const matches = (where: string, target: Atomic = atomic) => compileFilter(where)(target);
+
+  it('should compare field paths', () => {
+    expect(matches('did.actor = "llm"')).toBe(true);
+    expect(matches('did.actor == llm')).toBe(true);
+    expect(matches('status.state != "failed"')).toBe(false);
+    expect(matches('output.result >= 3 AND output.result < 4')).toBe(true);
+    expect(matches('output.result > "3"')).toBe(false);
+  });
+
+  it('should compare timestamps as instants', () => {
+    expect(matches('when.started_at >= "2024-01-01" AND when.started_at < "2024-02-01"')).toBe(true);
+    expect(matches('when.started_at > "2024-01-15T11:00:00+02:00"')).toBe(true);
+    expect(matches('metadata.created_at between "2024-01-15" and "2024-01-15T10:00:00Z"')).toBe(true);
+    expect(matches('metadata.created_at between "2024-01-16" and "2024-01-31"')).toBe(false);
+  });
+
+  it('should support in, exists, startswith and matches', () => {
+    expect(matches('did.actor in ("agent", "llm")')).toBe(true);
+    expect(matches('entity_type in [law, contract]')).toBe(false);
+    expect(matches('status.message exists')).toBe(true);
+    expect(matches('did.reason exists')).toBe(false);
+    expect(matches('this startswith "payments/"')).toBe(true);
+    expect(matches('output.stderr matches /timeout/i')).toBe(true);
+    expect(matches('output.stderr ~ "timeout"')).toBe(false);
+  });
+
+  it('should match any element of an array field', () => {
+    expect(matches('metadata.tags = "pii"')).toBe(true);
+    expect(matches('metadata.tags in ("secret")')).toBe(false);
+  });
+
+  it('should combine with AND, OR, NOT and parentheses', () => {
+    expect(matches('did.actor = "agent" OR status.state = "failed" AND trace_id = "trace-1"')).toBe(true);
+    expect(matches('(did.actor = "agent" OR status.state = "failed") AND trace_id = "trace-2"')).toBe(false);
+    expect(matches('NOT did.reason exists && !(entity_type = law)')).toBe(true);
+    expect(matches('not did.actor = "llm"')).toBe(false);
+  });
+
+  it('should not match missing fields with comparisons', () => {
+    expect(matches('did.reason != "x"')).toBe(false);
+    expect(matches('input.args.length > 0')).toBe(false);
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => parseFilter('did.actor = ')).toThrow(FilterSyntaxError);
+    expect(() => parseFilter('did.actor "llm"')).toThrow(/Expected an operator/);
+    expect(() => parseFilter('(did.actor = "llm"')).toThrow(/Expected '\)'/);
+    expect(() => parseFilter('did..actor = 1')).toThrow(/Invalid field path/);
+    expect(() => parseFilter('this = "x" extra')).toThrow(/position 11/);
+  });
+
+  it('should reject unsafe regular expressions and oversized input', () => {
+    expect(() => parseFilter('this matches /(a+)+$/')).toThrow(/Nested quantifiers/);
+    expect(() => parseFilter('this matches /^(a|a)*$/')).toThrow(/Alternations/);
+    expect(() => parseFilter('this matches /^((?:a|b)c)+$/')).toThrow(/Alternations/);
+    expect(() => parseFilter('this matches /^(a)\\1$/')).toThrow(/Backreferences/);
+    expect(() => parseFilter('this matches /^(?:ab)+[|+]*(x|y)?$/')).not.toThrow();
+    expect(() => parseFilter('this matches /x/', { regex: false })).toThrow(/not accepted/);
+    expect(() => parseFilter('this matches /x/g')).toThrow(/flags/);
+    expect(() => parseFilter(`this = "${'x'.repeat(5000)}"`)).toThrow(/longer than/);
+    expect(() => parseFilter('NOT '.repeat(40) + 'this exists')).toThrow(/nested deeper/);
+  });
+
+  it('should derive index hints from top-level equality', () => {
+    expect(indexHints(parseFilter('trace_id = "t" AND metadata.tenant_id = acme AND did.actor = llm'))).toEqual({
+      trace_id: 't',
+      tenant_id: 'acme',
+    });
+    expect(indexHints(parseFilter('trace_id = "t" OR entity_type = law'))).toEqual({});
+  });
+
+  describe('in queries', () => {
+    const temp = useTempLedger('filter');
+
+    async function fill(ledger: Ledger): Promise<void> {
+      await ledger.append(makeAtomic({ this: 'a', trace_id: 'trace-1' }));
+      await ledger.append(makeAtomic({ this: 'b', trace_id: 'trace-2', did: { actor: 'agent', action: 'run' } }));
+      await ledger.append(makeAtomic({ this: 'c', trace_id: 'trace-1', status: { state: 'completed' } }));
+    }
+
+    it('should filter Ledger.query', async () => {
+      const ledger = new Ledger(temp.ledgerPath);
+      await fill(ledger);
+
+      const failed = await ledger.query({ where: 'status.state = "failed"' });
+      expect(failed.map(a => a.this)).toEqual(['a', 'b']);
+
+      const combined = await ledger.query({ trace_id: 'trace-1', where: 'NOT status.state = "completed"' });
+      expect(combined.map(a => a.this)).toEqual(['a']);
+
+      const indexed = await ledger.query({ where: 'trace_id = "trace-2" AND did.actor = agent' });
+      expect(indexed.map(a => a.this)).toEqual(['b']);
+
+      await expect(ledger.query({ where: 'status.state =' })).rejects.toThrow(FilterSyntaxError);
+    });
+
+    it('should filter FileSystemLedgerRepository.query', async () => {
+      await fill(new Ledger(temp.ledgerPath));
+      const repository = new FileSystemLedgerRepository(temp.ledgerPath);
+
+      const result = await repository.query({ where: 'did.actor = "llm" AND status.state in (completed)' });
+      expect(result.isSuccess).toBe(true);
+      expect(result.value.map(a => a.this)).toEqual(['c']);
+
+      const invalid = await repository.query({ where: 'did.actor in' });
+      expect(invalid.isFailure).toBe(true);
+      expect(invalid.error.message).toContain('Invalid filter expression');
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { join } from 'path';
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import { analyzeForks, createForkResolution, ForkResolutionError } from '../../core/ledger/forkAnalysis';
+import { Keyring } from '../../core/ledger/keyring';
+import { generateKeyPair } from '../../core/crypto';
+import type { Atomic } from '../../types';
+import { makeAtomic, useTempLedger } from './helpers';
+
+function by(actor: string): Partial<Atomic> {
+  return { did: { actor, action: 'run' } };
+}
+
+describe('Fork analysis', () => {
+  const temp = useTempLedger('fork-analysis');
+  const node1 = generateKeyPair();
+  const node2 = generateKeyPair();
+
+  /** trace-1: A <- B, and A <- C <- D written by another node; trace-2: E */
+  async function forkedLedger(): Promise<Record<'a' | 'b' | 'c' | 'd', string>> {
+    const first = new Ledger(temp.ledgerPath, { chainMode: 'trace', signingKeyHex: node1.privateKey });
+    const { atomic: a } = await first.appendAtomic(makeAtomic('trace-1', 1, by('node-1')));
+    const { atomic: b } = await first.appendAtomic(makeAtomic('trace-1', 2, by('node-1')));
+
+    const second = new Ledger(temp.ledgerPath, { chainMode: 'trace', signingKeyHex: node2.privateKey });
+    const { atomic: c } = await second.appendAtomic({ ...makeAtomic('trace-1', 3, by('node-2')), prev: a.hash });
+    const { atomic: d } = await second.appendAtomic(makeAtomic('trace-1', 4, by('node-2')));
+    await second.append(makeAtomic('trace-2', 5, by('node-2')));
+
+    return { a: a.hash!, b: b.hash!, c: c.hash!, d: d.hash! };
+  }
+
+  it('should rebuild branches from the common ancestor', async () => {
+    const { a, b, c, d } = await forkedLedger();
+
+    const forks = await analyzeForks(temp.ledgerPath, { chainMode: 'trace' });
+    expect(forks).toHaveLength(1);
+    const [fork] = forks;
+    expect(fork.trace_id).toBe('trace-1');
+    expect(fork.common_ancestor).toMatchObject({ hash: a, line: 1, actor: 'node-1', signer: node1.publicKey });
+    expect(fork.resolution).toBeUndefined();
+
+    expect(fork.branches.map(branch => [branch.head, branch.length, branch.longest])).toEqual([
+      [d, 2, true],
+      [b, 1, false],
+    ]);
+    expect(fork.branches[0].atomics.map(atomic => [atomic.hash, atomic.line])).toEqual([[c, 3], [d, 4]]);
+    expect(fork.branches[0]).toMatchObject({
+      signers: [node2.publicKey],
+      actors: ['node-2'],
+      first_at: '2024-01-01T00:00:03.000Z',
+      last_at: '2024-01-01T00:00:04.000Z',
+    });
+    expect(fork.branches[1].signers).toEqual([node1.publicKey]);
+
+    // Other traces did not fork
+    expect(await analyzeForks(temp.ledgerPath, { chainMode: 'trace', traceId: 'trace-2' })).toEqual([]);
+  });
+
+  it('should honor a signed fork resolution in verification', async () => {
+    const { b, c, d } = await forkedLedger();
+    const verifier = new LedgerVerifier();
+    const keyring = new Keyring([
+      { public_key: node1.publicKey, owner: '*' },
+      { public_key: node2.publicKey, owner: '*' },
+    ]);
+
+    const before = await verifier.verifyFile(temp.ledgerPath, { chainMode: 'trace', keyring });
+    expect(before.results.map(r => r.error?.code)).toEqual([undefined, undefined, 'FORK_DETECTED', 'FORK_DETECTED', undefined]);
+
+    const [fork] = await analyzeForks(temp.ledgerPath, { chainMode: 'trace' });
+    const resolution = createForkResolution(fork, d, { actor: 'auditor', reason: 'node-1 lost its lease', chainMode: 'trace' });
+    expect(resolution.input).toMatchObject({ canonical: [c, d], rejected: [b] });
+
+    const ledger = new Ledger(temp.ledgerPath, { chainMode: 'trace', signingKeyHex: node1.privateKey });
+    const { atomic: stored } = await ledger.appendAtomic(resolution);
+    await ledger.append(makeAtomic('trace-1', 6));
+
+    const after = await verifier.verifyFile(temp.ledgerPath, { chainMode: 'trace', keyring });
+    expect(after.results.map(r => [r.line, r.error?.code])).toEqual([
+      [1, undefined],
+      [2, 'REJECTED_BRANCH'],
+      [3, undefined],
+      [4, undefined],
+      [5, undefined],
+      [6, undefined],
+      [7, undefined],
+    ]);
+    expect(after).toMatchObject({ valid: 6, invalid: 0, rejected: 1 });
+    expect(after.forks).toBeUndefined();
+
+    const [resolved] = await analyzeForks(temp.ledgerPath, { chainMode: 'trace' });
+    expect(resolved.resolution).toMatchObject({ hash: stored.hash, line: 6, actor: 'auditor', reason: 'node-1 lost its lease' });
+    expect(resolved.branches.map(branch => branch.canonical)).toEqual([true, false]);
+    expect(() => createForkResolution(resolved, b, { actor: 'auditor' })).toThrow(/already resolved/);
+  });
+
+  it('should analyze a fork after an earlier one was resolved', async () => {
+    const { b, d } = await forkedLedger();
+    const keyring = new Keyring([
+      { public_key: node1.publicKey, owner: '*' },
+      { public_key: node2.publicKey, owner: '*' },
+    ]);
+    const ledger = new Ledger(temp.ledgerPath, { chainMode: 'trace', signingKeyHex: node1.privateKey });
+
+    const [first] = await analyzeForks(temp.ledgerPath, { chainMode: 'trace' });
+    const { atomic: resolution } = await ledger.appendAtomic(createForkResolution(first, d, { actor: 'auditor', chainMode: 'trace' }));
+    // Forks again off the resolution; the rejected branch grows too
+    const { atomic: x } = await ledger.appendAtomic(makeAtomic('trace-1', 7));
+    const { atomic: y } = await ledger.appendAtomic({ ...makeAtomic('trace-1', 8), prev: resolution.hash });
+    await ledger.append({ ...makeAtomic('trace-1', 9), prev: b });
+
+    const forks = await analyzeForks(temp.ledgerPath, { chainMode: 'trace' });
+    expect(forks.map(fork => fork.common_ancestor?.line)).toEqual([1, 6]);
+    expect(forks[0].resolution?.hash).toBe(resolution.hash);
+    expect(forks[0].branches.map(branch => branch.atomics.map(atomic => atomic.line))).toEqual([[3, 4, 6, 7], [2, 9]]);
+
+    const [, second] = forks;
+    expect(second.resolution).toBeUndefined();
+    expect(second.branches.map(branch => branch.head)).toEqual([x.hash, y.hash]);
+    const { atomic: again } = await ledger.appendAtomic(createForkResolution(second, y.hash!, { actor: 'auditor', chainMode: 'trace' }));
+    expect(again.input).toMatchObject({ fork_point: resolution.hash, canonical: [y.hash], rejected: [x.hash] });
+
+    const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath, { chainMode: 'trace', keyring });
+    expect(summary.results.filter(r => r.error).map(r => [r.line, r.error?.code])).toEqual([
+      [2, 'REJECTED_BRANCH'],
+      [7, 'REJECTED_BRANCH'],
+      [9, 'REJECTED_BRANCH'],
+    ]);
+    expect((await analyzeForks(temp.ledgerPath, { chainMode: 'trace' })).map(fork => !!fork.resolution)).toEqual([true, true]);
+  });
+
+  it('should ignore resolutions whose signature is not trusted', async () => {
+    const { d } = await forkedLedger();
+    const [fork] = await analyzeForks(temp.ledgerPath, { chainMode: 'trace' });
+    await new Ledger(temp.ledgerPath, { chainMode: 'trace' }).append(createForkResolution(fork, d, { actor: 'auditor', chainMode: 'trace' }));
+
+    // Unsigned
+    const unsigned = await new LedgerVerifier().verifyFile(temp.ledgerPath, { chainMode: 'trace' });
+    expect(unsigned.results.filter(r => r.error?.code === 'FORK_DETECTED').map(r => r.line)).toEqual([3, 4, 6]);
+    expect(unsigned.rejected).toBeUndefined();
+
+    // Signed by a key other than the verification key
+    const signedPath = join(temp.dir, 'signed.jsonl');
+    const signed = new Ledger(signedPath, { chainMode: 'trace', signingKeyHex: node1.privateKey });
+    const { atomic: a } = await signed.appendAtomic(makeAtomic('trace-1', 1));
+    await signed.append(makeAtomic('trace-1', 2));
+    await signed.append({ ...makeAtomic('trace-1', 3), prev: a.hash });
+    const [other] = await analyzeForks(signedPath, { chainMode: 'trace' });
+    await new Ledger(signedPath, { chainMode: 'trace', signingKeyHex: node2.privateKey }).append(
+      createForkResolution(other, other.branches[1].head, { actor: 'auditor', chainMode: 'trace' })
+    );
+
+    const pinned = await new LedgerVerifier(node1.publicKey).verifyFile(signedPath, { chainMode: 'trace' });
+    expect(pinned.results.map(r => r.error?.code)).toEqual([undefined, undefined, 'FORK_DETECTED', 'FORK_DETECTED']);
+    expect(pinned.rejected).toBeUndefined();
+
+    // Signed, but with no key or keyring to trust it by
+    const unpinned = await new LedgerVerifier().verifyFile(signedPath, { chainMode: 'trace' });
+    expect(unpinned.results.filter(r => r.error?.code === 'FORK_DETECTED').map(r => r.line)).toEqual([3, 4]);
+    expect(unpinned.rejected).toBeUndefined();
+  });
+
+  it('should resolve forks of the global chain', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    const { atomic: a } = await ledger.appendAtomic(makeAtomic('trace-1', 1));
+    await ledger.append(makeAtomic('trace-2', 2));
+    await ledger.append({ ...makeAtomic('trace-3', 3), prev: a.hash });
+
+    const before = await new LedgerVerifier().verifyFile(temp.ledgerPath);
+    expect(before.results.map(r => r.error?.code)).toEqual([undefined, undefined, 'FORK_DETECTED']);
+    expect(before.forks?.get('global')).toHaveLength(2);
+
+    const [fork] = await analyzeForks(temp.ledgerPath);
+    expect(fork.trace_id).toBeUndefined();
+    expect(fork.common_ancestor?.line).toBe(1);
+    expect(() => createForkResolution(fork, 'f'.repeat(64), { actor: 'auditor' })).toThrow(ForkResolutionError);
+
+    const signing = new Ledger(temp.ledgerPath, { signingKeyHex: node1.privateKey });
+    await signing.append(createForkResolution(fork, fork.branches[1].head, { actor: 'auditor' }));
+
+    const summary = await new LedgerVerifier(node1.publicKey).verifyFile(temp.ledgerPath);
+    expect(summary.results.map(r => r.error?.code)).toEqual([undefined, 'REJECTED_BRANCH', undefined, undefined]);
+    expect(summary.invalid).toBe(0);
+  });
+});
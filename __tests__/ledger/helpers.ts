@@ -0,0 +1,69 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Atomic } from '../../types';
+
+/**
+ * Step `n` of a trace, created `n` seconds into 2024
+ */
+export function makeAtomic(traceId: string, n: number, overrides: Partial<Atomic> = {}): Atomic {
+  return {
+    schema_version: '1.1.0',
+    entity_type: 'function',
+    this: `step-${n}`,
+    trace_id: traceId,
+    did: { actor: 'tester', action: 'run' },
+    metadata: { created_at: new Date(Date.UTC(2024, 0, 1, 0, 0, n)).toISOString() },
+    ...overrides,
+  };
+}
+
+/**
+ * Overrides dating an atomic
+ */
+export function createdAt(timestamp: string): Partial<Atomic> {
+  return { metadata: { created_at: timestamp } };
+}
+
+/**
+ * A CI task in a trace of its own, created now
+ */
+export function makeTaskAtomic(n: number): Atomic {
+  return {
+    schema_version: '1.1.0',
+    entity_type: 'function',
+    this: `task-${n}`,
+    trace_id: `trace-${n}`,
+    did: { actor: 'ci', action: 'run' },
+    metadata: { created_at: new Date().toISOString() },
+  };
+}
+
+export interface TempLedger {
+  /** Directory of the current test, removed after it */
+  dir: string;
+  /** `ledger.jsonl` in that directory (not created) */
+  ledgerPath: string;
+}
+
+/**
+ * Give each test of the enclosing block a fresh temporary directory, with
+ * console.log silenced. The paths change per test: read them inside tests
+ * and hooks, not when the block is defined.
+ */
+export function useTempLedger(name: string): TempLedger {
+  const temp: TempLedger = { dir: '', ledgerPath: '' };
+
+  beforeEach(() => {
+    temp.dir = mkdtempSync(join(tmpdir(), `${name}-test-`));
+    temp.ledgerPath = join(temp.dir, 'ledger.jsonl');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    rmSync(temp.dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  return temp;
+}
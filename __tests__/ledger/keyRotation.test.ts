@@ -0,0 +1,128 @@
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import { Keyring } from '../../core/ledger/keyring';
+import { createKeyRotation, readKeyRotation } from '../../core/ledger/keyRotation';
+import { generateKeyPair, signAtomic } from '../../core/crypto';
+import type { Atomic, Signature } from '../../types';
+import { makeTaskAtomic, useTempLedger } from './helpers';
+
+describe('Key rotation', () => {
+  const temp = useTempLedger('rotation');
+  const oldKeys = generateKeyPair();
+  const newKeys = generateKeyPair('ES256');
+  const retired = { privateKeyHex: oldKeys.privateKey };
+  const next = { privateKeyHex: newKeys.privateKey, alg: 'ES256' as const };
+
+  async function rotate(): Promise<Atomic> {
+    const ledger = new Ledger(temp.ledgerPath);
+    const rotation = createKeyRotation(retired, next, { actor: 'ops', reason: 'yearly', prev: ledger.getChainHeads().global });
+    await ledger.append(rotation);
+    return rotation;
+  }
+
+  it('should be signed by the outgoing and the incoming key', () => {
+    const rotation = createKeyRotation(retired, next, { actor: 'ops' });
+
+    expect(rotation.input).toEqual({ retired_key: oldKeys.publicKey, new_key: newKeys.publicKey, new_alg: 'ES256' });
+    expect(rotation.signature!.public_key).toBe(oldKeys.publicKey);
+    expect(rotation.cosignatures!.map(s => [s.public_key, s.alg])).toEqual([[newKeys.publicKey, 'ES256']]);
+    expect(readKeyRotation(rotation, 7)).toMatchObject({ line: 7, retired_key: oldKeys.publicKey, new_key: newKeys.publicKey });
+    expect(() => createKeyRotation(retired, retired, { actor: 'ops' })).toThrow(/key being retired/);
+  });
+
+  it('should extend a pinned key to the new key after the rotation only', async () => {
+    await new Ledger(temp.ledgerPath, { signingKeyHex: oldKeys.privateKey }).append(makeTaskAtomic(1));
+    await rotate();
+    await new Ledger(temp.ledgerPath, { signingKeyHex: newKeys.privateKey, signingAlg: 'ES256' }).append(makeTaskAtomic(2));
+
+    const verifier = new LedgerVerifier();
+    expect(await verifier.verifyFile(temp.ledgerPath, { publicKeyHex: oldKeys.publicKey })).toMatchObject({ valid: 3, invalid: 0 });
+
+    // The retired key keeps signing
+    await new Ledger(temp.ledgerPath, { signingKeyHex: oldKeys.privateKey }).append(makeTaskAtomic(3));
+    const summary = await verifier.verifyFile(temp.ledgerPath, { publicKeyHex: oldKeys.publicKey });
+
+    expect(summary).toMatchObject({ valid: 3, invalid: 1 });
+    expect(summary.results.find(r => !r.valid)).toMatchObject({
+      line: 4,
+      error: { code: 'KEY_RETIRED', details: { public_key: oldKeys.publicKey, rotation_line: 2, new_key: newKeys.publicKey } },
+    });
+  });
+
+  it('should judge the pinned key, not the key a signature names', async () => {
+    await new Ledger(temp.ledgerPath, { signingKeyHex: oldKeys.privateKey }).append(makeTaskAtomic(1));
+    await rotate();
+    const ledger = new Ledger(temp.ledgerPath);
+
+    // Signed by the retired key, with the embedded key left out
+    const atomic: Atomic = { ...makeTaskAtomic(2), prev: ledger.getChainHeads().global, canonicalization: 'JsonAtomic/jcs/v1' };
+    const { hash, signature } = await signAtomic(atomic, oldKeys.privateKey);
+    const { public_key: _publicKey, ...anonymous } = signature!;
+    await ledger.append({ ...atomic, hash, signature: anonymous as Signature });
+
+    const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath, { publicKeyHex: oldKeys.publicKey });
+    expect(summary.results.find(r => !r.valid)).toMatchObject({
+      line: 3,
+      error: { code: 'KEY_RETIRED', details: { public_key: oldKeys.publicKey } },
+    });
+  });
+
+  it('should flag the new key before the rotation', async () => {
+    await new Ledger(temp.ledgerPath, { signingKeyHex: newKeys.privateKey, signingAlg: 'ES256' }).append(makeTaskAtomic(1));
+    await rotate();
+
+    const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath, { publicKeyHex: oldKeys.publicKey });
+
+    expect(summary).toMatchObject({ valid: 1, invalid: 1 });
+    expect(summary.results[0]).toMatchObject({ line: 1, error: { code: 'KEY_NOT_YET_VALID', details: { rotation_line: 2 } } });
+
+    // Without a key or keyring to trust it by, a rotation signs for itself: it is not honored
+    expect(await new LedgerVerifier().verifyFile(temp.ledgerPath)).toMatchObject({ valid: 2, invalid: 0 });
+  });
+
+  it('should keep honoring rotations from the verified prefix of a checkpoint', async () => {
+    const incremental = { signingKeyHex: generateKeyPair().privateKey };
+    await new Ledger(temp.ledgerPath, { signingKeyHex: oldKeys.privateKey }).append(makeTaskAtomic(1));
+    await rotate();
+    const verifier = new LedgerVerifier();
+    expect(await verifier.verifyFile(temp.ledgerPath, { publicKeyHex: oldKeys.publicKey, incremental })).toMatchObject({ invalid: 0 });
+
+    await new Ledger(temp.ledgerPath, { signingKeyHex: oldKeys.privateKey }).append(makeTaskAtomic(2));
+    const summary = await verifier.verifyFile(temp.ledgerPath, { publicKeyHex: oldKeys.publicKey, incremental });
+
+    expect(summary.resumed).toMatchObject({ lines: 2 });
+    expect(summary.results).toMatchObject([{ line: 3, error: { code: 'KEY_RETIRED', details: { rotation_line: 2 } } }]);
+  });
+
+  it('should ignore rotations the trusted key did not sign', async () => {
+    // One chain per trace, so the later atomic's signature is checked on its own
+    const stranger = generateKeyPair();
+    await new Ledger(temp.ledgerPath, { chainMode: 'trace', signingKeyHex: oldKeys.privateKey }).append(makeTaskAtomic(1));
+    await new Ledger(temp.ledgerPath, { chainMode: 'trace' }).append(
+      createKeyRotation({ privateKeyHex: stranger.privateKey }, next, { actor: 'intruder' })
+    );
+    await new Ledger(temp.ledgerPath, { chainMode: 'trace', signingKeyHex: newKeys.privateKey, signingAlg: 'ES256' })
+      .append(makeTaskAtomic(2));
+
+    const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath, { chainMode: 'trace', publicKeyHex: oldKeys.publicKey });
+
+    expect(summary.results.map(r => [r.line, r.error?.code])).toEqual([
+      [1, undefined],
+      [2, 'INVALID_SIGNATURE'],
+      [3, 'INVALID_SIGNATURE'],
+    ]);
+  });
+
+  it('should hand keyring trust over to the new key', async () => {
+    const keyring = new Keyring([{ public_key: oldKeys.publicKey, owner: '*', label: 'node-1' }]);
+    await new Ledger(temp.ledgerPath, { signingKeyHex: oldKeys.privateKey }).append(makeTaskAtomic(1));
+    const rotation = await rotate();
+    keyring.rotate(oldKeys.publicKey, newKeys.publicKey, new Date(rotation.signature!.signed_at!), 'node-2');
+    await new Ledger(temp.ledgerPath, { signingKeyHex: newKeys.privateKey, signingAlg: 'ES256' }).append(makeTaskAtomic(2));
+
+    expect(keyring.get(oldKeys.publicKey)).toMatchObject({ revocation_reason: 'rotated' });
+    expect(keyring.get(newKeys.publicKey)).toMatchObject({ owner: '*', valid_from: rotation.signature!.signed_at, label: 'node-2' });
+    expect(await new LedgerVerifier().verifyFile(temp.ledgerPath, { keyring })).toMatchObject({ valid: 3, invalid: 0 });
+    expect(() => keyring.rotate(oldKeys.publicKey, generateKeyPair().publicKey)).toThrow(/already revoked/);
+  });
+});
@@ -0,0 +1,124 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Keyring, KeyringError } from '../../core/ledger/keyring';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import { generateKeyPair, signAtomic } from '../../core/crypto';
+import type { Atomic, Signature } from '../../types';
+import { makeAtomic, useTempLedger } from './helpers';
+
+describe('Keyring', () => {
+  const alice = generateKeyPair();
+  const node = generateKeyPair();
+  const stranger = generateKeyPair();
+
+  const keyring = new Keyring([
+    {
+      public_key: alice.publicKey,
+      owner: 'alice',
+      valid_from: '2024-01-01T00:00:00Z',
+      valid_to: '2025-01-01T00:00:00Z',
+      revoked_at: '2024-07-01T00:00:00Z',
+      revocation_reason: 'rotated',
+    },
+    { public_key: node.publicKey, owner: '*' },
+  ]);
+
+  const signature = (publicKey: string, signedAt?: string): Signature => ({
+    alg: 'Ed25519',
+    public_key: publicKey,
+    sig: '00',
+    ...(signedAt ? { signed_at: signedAt } : {}),
+  });
+
+  it('should trust keys within their window, for their owner', () => {
+    expect(keyring.check(signature(alice.publicKey, '2024-03-01T00:00:00Z'), 'alice')).toBeNull();
+    expect(keyring.check(signature(node.publicKey, '2030-01-01T00:00:00Z'), 'anyone')).toBeNull();
+  });
+
+  it('should flag unknown, not yet valid, revoked and misused keys', () => {
+    const code = (sig: Signature, actor = 'alice') => keyring.check(sig, actor)?.code;
+
+    expect(code(signature(stranger.publicKey, '2024-03-01T00:00:00Z'))).toBe('UNTRUSTED_KEY');
+    expect(code(signature(alice.publicKey, '2023-12-31T23:59:59Z'))).toBe('KEY_NOT_YET_VALID');
+    expect(code(signature(alice.publicKey, '2024-07-01T00:00:00Z'))).toBe('KEY_REVOKED');
+    expect(code(signature(alice.publicKey))).toBe('MISSING_SIGNED_AT');
+    expect(code(signature(alice.publicKey, '2024-03-01T00:00:00Z'), 'bob')).toBe('KEY_NOT_ALLOWED_FOR_ACTOR');
+    expect(keyring.check(signature(alice.publicKey, '2024-08-01T00:00:00Z'), 'alice')?.details).toMatchObject({
+      revoked_at: '2024-07-01T00:00:00Z',
+      reason: 'rotated',
+    });
+  });
+
+  it('should flag expired keys and every signature of a compromised key', () => {
+    const expiring = new Keyring([{ public_key: alice.publicKey, owner: 'alice', valid_to: '2025-01-01T00:00:00Z' }]);
+    expect(expiring.check(signature(alice.publicKey, '2025-01-01T00:00:00Z'), 'alice')?.code).toBe('KEY_EXPIRED');
+
+    const compromised = new Keyring([{ public_key: node.publicKey, owner: '*', compromised: true }]);
+    expect(compromised.check(signature(node.publicKey, '2020-01-01T00:00:00Z'), 'alice')?.code).toBe('KEY_REVOKED');
+  });
+
+  it('should load, validate and save keyring files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'keyring-test-'));
+    try {
+      const path = join(dir, 'keyring.json');
+      keyring.save(path);
+      const loaded = Keyring.load(path);
+      expect(loaded.entries()).toEqual(keyring.entries());
+
+      loaded.revoke(node.publicKey, new Date('2024-02-01T00:00:00Z'), 'node retired');
+      expect(loaded.get(node.publicKey.toUpperCase())?.revoked_at).toBe('2024-02-01T00:00:00.000Z');
+      expect(loaded.fingerprint()).not.toBe(keyring.fingerprint());
+
+      writeFileSync(path, JSON.stringify({ version: 2, keys: [] }));
+      expect(() => Keyring.load(path)).toThrow(KeyringError);
+      expect(() => new Keyring([{ public_key: 'abc', owner: 'x' }])).toThrow(/Invalid public key/);
+      expect(() => new Keyring([{ public_key: node.publicKey, owner: 'x', valid_to: 'soon' }])).toThrow(/valid_to/);
+      expect(
+        () => new Keyring([{ public_key: node.publicKey, owner: 'x' }, { public_key: node.publicKey, owner: 'y' }])
+      ).toThrow(/listed twice/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe('in verification', () => {
+    const temp = useTempLedger('keyring-verify');
+
+    it('should report signatures the keyring does not trust', async () => {
+      const lines: Atomic[] = [];
+      const add = async (actor: string, privateKey: string, signedAt: string) => {
+        const atomic = makeAtomic(`trace-${lines.length + 1}`, lines.length + 1, { did: { actor, action: 'run' } });
+        const { hash, signature } = await signAtomic(atomic, privateKey);
+        lines.push({ ...atomic, hash, signature: { ...signature!, signed_at: signedAt } });
+      };
+      await add('alice', alice.privateKey, '2024-03-01T00:00:00Z');
+      await add('alice', alice.privateKey, '2024-08-01T00:00:00Z');
+      await add('bob', alice.privateKey, '2024-03-01T00:00:00Z');
+      await add('bob', node.privateKey, '2024-03-01T00:00:00Z');
+      await add('bob', stranger.privateKey, '2024-03-01T00:00:00Z');
+
+      writeFileSync(temp.ledgerPath, lines.map(a => JSON.stringify(a)).join('\n') + '\n');
+
+      const summary = await new LedgerVerifier(stranger.publicKey).verifyFile(temp.ledgerPath, { chainMode: 'trace', keyring });
+      expect(summary.results.map(r => r.error?.code)).toEqual([
+        undefined,
+        'KEY_REVOKED',
+        'KEY_NOT_ALLOWED_FOR_ACTOR',
+        undefined,
+        'UNTRUSTED_KEY',
+      ]);
+      expect(summary.valid).toBe(2);
+
+      // Without a keyring, the pinned key decides
+      const pinned = await new LedgerVerifier(stranger.publicKey).verifyFile(temp.ledgerPath, { chainMode: 'trace' });
+      expect(pinned.results.map(r => r.error?.code)).toEqual([
+        'INVALID_SIGNATURE',
+        'INVALID_SIGNATURE',
+        'INVALID_SIGNATURE',
+        'INVALID_SIGNATURE',
+        undefined,
+      ]);
+    });
+  });
+});
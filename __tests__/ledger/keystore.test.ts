@@ -0,0 +1,72 @@
+import { readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Keystore, KeystoreError, resolvePrivateKey } from '../../core/ledger/keystore';
+import { generateKeyPair, signAtomic, verifySignature } from '../../core/crypto';
+import type { Atomic } from '../../types';
+import { useTempLedger } from './helpers';
+
+describe('Keystore', () => {
+  const temp = useTempLedger('keystore');
+  let keystore: Keystore;
+
+  beforeEach(() => {
+    keystore = new Keystore(temp.dir);
+  });
+
+  it('should keep private keys encrypted at rest', async () => {
+    const entry = await keystore.create('node-1', 'correct horse', { metadata: { owner: 'ops' } });
+    const [file] = readdirSync(temp.dir).filter(f => f.endsWith('.json'));
+    const stored = readFileSync(join(temp.dir, file), 'utf-8');
+    const unlocked = keystore.unlock('node-1', 'correct horse');
+
+    expect(entry).toMatchObject({ label: 'node-1', alg: 'Ed25519', metadata: { owner: 'ops' } });
+    expect(JSON.parse(stored)).toMatchObject({ kdf: { name: 'scrypt' }, public_key: entry.public_key });
+    expect(stored).not.toContain(unlocked.privateKeyHex);
+    expect(keystore.unlock(entry.id, 'correct horse').privateKeyHex).toBe(unlocked.privateKeyHex);
+    expect(() => keystore.unlock('node-1', 'wrong horse')).toThrow(/Wrong passphrase/);
+  });
+
+  it('should import, list and delete keys by label', async () => {
+    const keys = generateKeyPair('ES256');
+    await keystore.create('partner', 'secret', { alg: 'ES256', privateKeyHex: keys.privateKey });
+    await keystore.create('node-1', 'secret');
+
+    expect(keystore.list().map(k => [k.label, k.alg])).toEqual([['partner', 'ES256'], ['node-1', 'Ed25519']]);
+    expect(keystore.get('partner').public_key).toBe(keys.publicKey);
+    await expect(keystore.create('partner', 'secret')).rejects.toThrow(/already exists/);
+
+    await keystore.delete('partner');
+    expect(keystore.list().map(k => k.label)).toEqual(['node-1']);
+    expect(() => keystore.get('partner')).toThrow(KeystoreError);
+  });
+
+  it('should refuse a key whose algorithm was changed on disk', async () => {
+    const entry = await keystore.create('node-1', 'secret');
+    const path = join(temp.dir, `${entry.id}.json`);
+    writeFileSync(path, JSON.stringify({ ...JSON.parse(readFileSync(path, 'utf-8')), alg: 'ES256K' }));
+
+    expect(() => keystore.unlock('node-1', 'secret')).toThrow(/Wrong passphrase/);
+  });
+
+  it('should sign with a key reference instead of raw hex', async () => {
+    const entry = await keystore.create('archive', 'secret', { alg: 'ES256K' });
+    const raw = generateKeyPair();
+    const passphrase = jest.fn(() => 'secret');
+
+    expect(resolvePrivateKey(raw.privateKey, () => keystore, passphrase)).toEqual({ privateKeyHex: raw.privateKey });
+    expect(passphrase).not.toHaveBeenCalled();
+
+    const key = resolvePrivateKey('keystore:archive', () => keystore, passphrase);
+    const atomic: Atomic = {
+      schema_version: '1.1.0',
+      entity_type: 'file',
+      this: 'report.pdf',
+      did: { actor: 'archive', action: 'seal' },
+    };
+    const { hash, signature } = await signAtomic(atomic, key.privateKeyHex, key.alg);
+
+    expect(signature).toMatchObject({ alg: 'ES256K', public_key: entry.public_key });
+    expect(verifySignature({ ...atomic, hash, signature })).toBe(true);
+    expect(() => resolvePrivateKey('keystore:archive', () => keystore, () => undefined)).toThrow(/passphrase is required/);
+  });
+});
@@ -0,0 +1,143 @@
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import { generateKeyPair, verifySignature } from '../../core/crypto';
+import { makeAtomic, useTempLedger } from './helpers';
+
+describe('Ledger', () => {
+  const temp = useTempLedger('ledger');
+
+  describe('hash chaining', () => {
+    it('should link atomics into a global chain', async () => {
+      const ledger = new Ledger(temp.ledgerPath);
+      const input = makeAtomic('trace-a', 1);
+      const { atomic: a } = await ledger.appendAtomic(input);
+      const { atomic: b } = await ledger.appendAtomic(makeAtomic('trace-b', 2));
+      const { atomic: c } = await ledger.appendAtomic(makeAtomic('trace-a', 3));
+
+      // The caller's object is not touched
+      expect(input).toEqual(makeAtomic('trace-a', 1));
+      expect(a.hash).toHaveLength(64);
+      expect(a.prev).toBeUndefined();
+      expect(b.prev).toBe(a.hash);
+      expect(c.prev).toBe(b.hash);
+
+      const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath);
+      expect(summary.invalid).toBe(0);
+      expect(summary.total).toBe(3);
+    });
+
+    it('should link atomics per trace_id in trace mode', async () => {
+      const ledger = new Ledger(temp.ledgerPath, { chainMode: 'trace' });
+      const { atomic: a } = await ledger.appendAtomic(makeAtomic('trace-a', 1));
+      const { atomic: b } = await ledger.appendAtomic(makeAtomic('trace-b', 2));
+      const { atomic: c } = await ledger.appendAtomic(makeAtomic('trace-a', 3));
+
+      expect(b.prev).toBeUndefined();
+      expect(c.prev).toBe(a.hash);
+
+      const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath, { chainMode: 'trace' });
+      expect(summary.invalid).toBe(0);
+      expect(summary.forks).toBeUndefined();
+    });
+
+    it('should not re-link atomics that arrive already hashed', async () => {
+      const ledger = new Ledger(temp.ledgerPath);
+      await ledger.append(makeAtomic('trace-a', 1));
+
+      const sealed = makeAtomic('trace-a', 2);
+      sealed.hash = 'f'.repeat(64);
+      const { atomic: stored } = await ledger.appendAtomic(sealed);
+
+      expect(stored.prev).toBeUndefined();
+    });
+
+    it('should restore chain heads from an existing file', async () => {
+      const first = new Ledger(temp.ledgerPath);
+      const { atomic: a } = await first.appendAtomic(makeAtomic('trace-a', 1));
+      const { atomic: b } = await first.appendAtomic(makeAtomic('trace-b', 2));
+
+      const reopened = new Ledger(temp.ledgerPath, { chainMode: 'trace' });
+      expect(reopened.getChainHeads()).toEqual({
+        mode: 'trace',
+        global: b.hash,
+        traces: { 'trace-a': a.hash, 'trace-b': b.hash },
+      });
+    });
+
+    it('should sign after linking when a signing key is configured', async () => {
+      const keys = generateKeyPair();
+      const ledger = new Ledger(temp.ledgerPath, { signingKeyHex: keys.privateKey });
+      const { atomic: a } = await ledger.appendAtomic(makeAtomic('trace-a', 1));
+      const { atomic: b } = await ledger.appendAtomic(makeAtomic('trace-a', 2));
+
+      expect(b.prev).toBe(a.hash);
+      expect(verifySignature(b, keys.publicKey)).toBe(true);
+
+      const summary = await new LedgerVerifier(keys.publicKey).verifyFile(temp.ledgerPath);
+      expect(summary.valid).toBe(2);
+    });
+  });
+
+  describe('verification', () => {
+    it('should detect a fork within a trace in trace mode', async () => {
+      const ledger = new Ledger(temp.ledgerPath, { chainMode: 'trace' });
+      const { atomic: a } = await ledger.appendAtomic(makeAtomic('trace-a', 1));
+      await ledger.append(makeAtomic('trace-a', 2));
+
+      const branch = makeAtomic('trace-a', 3);
+      branch.prev = a.hash;
+      await ledger.append(branch);
+
+      const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath, { chainMode: 'trace' });
+      expect(summary.invalid).toBe(1);
+      expect(summary.results[2].error?.code).toBe('FORK_DETECTED');
+      expect(summary.forks?.get('trace-a')).toHaveLength(2);
+    });
+  });
+
+  describe('streaming', () => {
+    it('should stream atomics from a cursor with a filter', async () => {
+      const ledger = new Ledger(temp.ledgerPath);
+      for (let n = 1; n <= 5; n++) {
+        await ledger.append(makeAtomic(n % 2 === 0 ? 'even' : 'odd', n));
+      }
+
+      const seen: string[] = [];
+      for await (const atomic of ledger.stream({ from: '1', filter: a => a.trace_id === 'odd' })) {
+        seen.push(atomic.this);
+      }
+
+      expect(seen).toEqual(['step-3', 'step-5']);
+    });
+
+    it('should follow appends from other ledger instances', async () => {
+      const ledger = new Ledger(temp.ledgerPath);
+      const writer = new Ledger(temp.ledgerPath);
+      await ledger.append(makeAtomic('trace-a', 1));
+
+      const controller = new AbortController();
+      const follower = ledger.follow({ signal: controller.signal, pollIntervalMs: 5000 });
+
+      const next = follower.next();
+      await writer.append(makeAtomic('trace-a', 2));
+      const result = await next;
+
+      expect(result.value?.this).toBe('step-2');
+
+      controller.abort();
+      expect((await follower.next()).done).toBe(true);
+    });
+
+    it('should emit typed append events', async () => {
+      const ledger = new Ledger(temp.ledgerPath);
+      const events: string[] = [];
+      const unsubscribe = ledger.onAppend(event => events.push(`${event.cursor}:${event.atomic.this}`));
+
+      await ledger.append(makeAtomic('trace-a', 1));
+      unsubscribe();
+      await ledger.append(makeAtomic('trace-a', 2));
+
+      expect(events).toEqual(['1:step-1']);
+    });
+  });
+});
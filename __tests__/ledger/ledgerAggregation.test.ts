@@ -0,0 +1,131 @@
+import { Ledger } from '../../core/ledger/ledger';
+import { bucketStart, LedgerAggregator, percentile } from '../../core/ledger/ledgerAggregation';
+import { FileSystemLedgerRepository } from '../../core/infrastructure/repositories/FileSystemLedgerRepository';
+import type { Atomic } from '../../types';
+import { useTempLedger } from './helpers';
+
+function makeAtomic(
+  n: number,
+  actor: string,
+  state: 'completed' | 'failed',
+  startedAt: string,
+  durationMs?: number
+): Atomic {
+  const started = new Date(startedAt);
+  return {
+    schema_version: '1.1.0',
+    entity_type: 'function',
+    intent: 'run_code',
+    this: `step-${n}`,
+    trace_id: `trace-${n}`,
+    did: { actor, action: 'run' },
+    status: { state },
+    when: {
+      started_at: startedAt,
+      ...(durationMs !== undefined ? { completed_at: new Date(started.getTime() + durationMs).toISOString() } : {}),
+    },
+    metadata: { created_at: startedAt, tenant_id: n % 2 === 0 ? 'acme' : 'globex' },
+  };
+}
+
+describe('Ledger aggregation', () => {
+  it('should compute nearest-rank percentiles', () => {
+    const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 90)).toBe(90);
+    expect(percentile(sorted, 99)).toBe(100);
+    expect(percentile(sorted, 0)).toBe(10);
+    expect(percentile([7], 50)).toBe(7);
+  });
+
+  it('should start buckets in UTC, with weeks on Monday', () => {
+    const date = new Date('2024-03-07T15:42:10.500Z'); // Thursday
+    expect(bucketStart(date, 'minute').toISOString()).toBe('2024-03-07T15:42:00.000Z');
+    expect(bucketStart(date, 'hour').toISOString()).toBe('2024-03-07T15:00:00.000Z');
+    expect(bucketStart(date, 'day').toISOString()).toBe('2024-03-07T00:00:00.000Z');
+    expect(bucketStart(date, 'week').toISOString()).toBe('2024-03-04T00:00:00.000Z');
+    expect(bucketStart(new Date('2024-03-10T23:00:00Z'), 'week').toISOString()).toBe('2024-03-04T00:00:00.000Z');
+    expect(bucketStart(date, 'month').toISOString()).toBe('2024-03-01T00:00:00.000Z');
+  });
+
+  it('should group by field paths and time buckets', () => {
+    const aggregator = new LedgerAggregator({ groupBy: ['did.actor'], bucket: 'day' });
+    aggregator.add(makeAtomic(1, 'llm', 'completed', '2024-01-01T10:00:00.000Z', 100));
+    aggregator.add(makeAtomic(2, 'llm', 'failed', '2024-01-01T11:00:00.000Z', 300));
+    aggregator.add(makeAtomic(3, 'agent', 'completed', '2024-01-01T12:00:00.000Z'));
+    aggregator.add(makeAtomic(4, 'llm', 'completed', '2024-01-02T09:00:00.000Z', 50));
+
+    const result = aggregator.result();
+    expect(result.total).toBe(4);
+    expect(result.groups).toEqual([
+      { bucket: '2024-01-01T00:00:00.000Z', key: { 'did.actor': 'agent' }, count: 1, failed: 0, failure_rate: 0 },
+      {
+        bucket: '2024-01-01T00:00:00.000Z',
+        key: { 'did.actor': 'llm' },
+        count: 2,
+        failed: 1,
+        failure_rate: 0.5,
+        duration_ms: { count: 2, min: 100, max: 300, mean: 200, percentiles: { p50: 100, p90: 300, p99: 300 } },
+      },
+      {
+        bucket: '2024-01-02T00:00:00.000Z',
+        key: { 'did.actor': 'llm' },
+        count: 1,
+        failed: 0,
+        failure_rate: 0,
+        duration_ms: { count: 1, min: 50, max: 50, mean: 50, percentiles: { p50: 50, p90: 50, p99: 50 } },
+      },
+    ]);
+  });
+
+  it('should key missing fields as null and count errors as failures', () => {
+    const aggregator = new LedgerAggregator({ groupBy: ['did.reason'], percentiles: [75] });
+    const errored = makeAtomic(1, 'llm', 'completed', '2024-01-01T00:00:00.000Z', 10);
+    errored.status!.result = 'error';
+    aggregator.add(errored);
+
+    const [group] = aggregator.result().groups;
+    expect(group.key).toEqual({ 'did.reason': null });
+    expect(group.failed).toBe(1);
+    expect(group.duration_ms?.percentiles).toEqual({ p75: 10 });
+  });
+
+  it('should reject unknown buckets', () => {
+    expect(() => new LedgerAggregator({ bucket: 'year' as never })).toThrow(/Unknown time bucket/);
+  });
+
+  describe('over a ledger', () => {
+    const temp = useTempLedger('aggregation');
+
+    it('should aggregate with a filter expression', async () => {
+      const ledger = new Ledger(temp.ledgerPath);
+      await ledger.append(makeAtomic(1, 'llm', 'failed', '2024-01-01T10:00:00.000Z', 100));
+      await ledger.append(makeAtomic(2, 'llm', 'completed', '2024-01-01T11:00:00.000Z', 200));
+      await ledger.append(makeAtomic(3, 'agent', 'failed', '2024-02-01T12:00:00.000Z', 300));
+
+      const result = await ledger.aggregate({
+        groupBy: ['metadata.tenant_id', 'status.state'],
+        bucket: 'month',
+        where: 'did.actor = "llm"',
+      });
+
+      expect(result.total).toBe(2);
+      expect(result.groups.map(g => [g.bucket, g.key, g.count])).toEqual([
+        ['2024-01-01T00:00:00.000Z', { 'metadata.tenant_id': 'acme', 'status.state': 'completed' }, 1],
+        ['2024-01-01T00:00:00.000Z', { 'metadata.tenant_id': 'globex', 'status.state': 'failed' }, 1],
+      ]);
+    });
+
+    it('should count repository statuses by state', async () => {
+      const ledger = new Ledger(temp.ledgerPath);
+      await ledger.append(makeAtomic(1, 'llm', 'failed', '2024-01-01T10:00:00.000Z'));
+      await ledger.append(makeAtomic(2, 'llm', 'completed', '2024-01-01T11:00:00.000Z'));
+
+      const stats = await new FileSystemLedgerRepository(temp.ledgerPath).getStats();
+      expect(stats.value.total).toBe(2);
+      expect(Object.fromEntries(stats.value.byType)).toEqual({ function: 2 });
+      expect(Object.fromEntries(stats.value.byStatus)).toEqual({ failed: 1, completed: 1 });
+      expect(await ledger.getStats()).toEqual({ total: 2, by_type: { function: 2 }, by_status: { failed: 1, completed: 1 } });
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { appendFileSync, existsSync, readFileSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { Ledger } from '../../core/ledger/ledger';
+import { acquireLock, repairTornTail, tryAcquireLock } from '../../core/ledger/ledgerFile';
+import { makeAtomic, useTempLedger } from './helpers';
+
+describe('Ledger file safety', () => {
+  const temp = useTempLedger('ledger-file');
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  describe('locking', () => {
+    it('should be exclusive until released', async () => {
+      const release = await acquireLock(temp.ledgerPath);
+      expect(tryAcquireLock(temp.ledgerPath)).toBeNull();
+
+      release();
+      const again = tryAcquireLock(temp.ledgerPath);
+      expect(again).not.toBeNull();
+      again!();
+    });
+
+    it('should time out while another writer holds the lock', async () => {
+      const release = await acquireLock(temp.ledgerPath);
+      await expect(acquireLock(temp.ledgerPath, { timeoutMs: 30 })).rejects.toThrow('Timed out');
+      release();
+    });
+
+    it('should reclaim a lock left by a dead process', () => {
+      writeFileSync(`${temp.ledgerPath}.lock`, JSON.stringify({ pid: 2 ** 22 + 1 }));
+
+      const release = tryAcquireLock(temp.ledgerPath);
+      expect(release).not.toBeNull();
+      release!();
+      expect(existsSync(`${temp.ledgerPath}.lock`)).toBe(false);
+    });
+
+    it('should only remove the lock it owns on release', () => {
+      const release = tryAcquireLock(temp.ledgerPath);
+      // Taken over by another writer (e.g. after this one stalled)
+      writeFileSync(`${temp.ledgerPath}.lock`, JSON.stringify({ pid: process.pid, token: 'other-writer' }));
+
+      release!();
+      expect(JSON.parse(readFileSync(`${temp.ledgerPath}.lock`, 'utf-8')).token).toBe('other-writer');
+    });
+
+    it('should keep a held lock fresh', async () => {
+      const release = tryAcquireLock(temp.ledgerPath, { staleMs: 60 });
+      const old = new Date(Date.now() - 60_000);
+      utimesSync(`${temp.ledgerPath}.lock`, old, old);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(Date.now() - statSync(`${temp.ledgerPath}.lock`).mtimeMs).toBeLessThan(60);
+      release!();
+    });
+
+    it('should judge locks from other hosts by age alone', () => {
+      const lockPath = `${temp.ledgerPath}.lock`;
+      writeFileSync(lockPath, JSON.stringify({ pid: 2 ** 22 + 1, host: 'other-host', token: 'remote' }));
+      expect(tryAcquireLock(temp.ledgerPath)).toBeNull();
+
+      const old = new Date(Date.now() - 60_000);
+      utimesSync(lockPath, old, old);
+      const release = tryAcquireLock(temp.ledgerPath);
+      expect(release).not.toBeNull();
+      release!();
+    });
+  });
+
+  describe('torn tail recovery', () => {
+    it('should leave complete files untouched', () => {
+      writeFileSync(temp.ledgerPath, '{"a":1}\n');
+      expect(repairTornTail(temp.ledgerPath)).toBeNull();
+    });
+
+    it('should truncate an unterminated final line', () => {
+      writeFileSync(temp.ledgerPath, '{"a":1}\n{"b":');
+
+      const report = repairTornTail(temp.ledgerPath);
+      expect(report).toMatchObject({ offset: 8, bytes: 5, content: '{"b":' });
+      expect(readFileSync(temp.ledgerPath, 'utf-8')).toBe('{"a":1}\n');
+    });
+
+    it('should report recovery when a ledger is opened', async () => {
+      const ledger = new Ledger(temp.ledgerPath);
+      await ledger.append(makeAtomic('trace-a', 1));
+      appendFileSync(temp.ledgerPath, '{"schema_version":"1.1');
+
+      const reopened = new Ledger(temp.ledgerPath);
+      expect(reopened.getRecoveryReport()?.bytes).toBe(22);
+
+      const cursor = await reopened.append(makeAtomic('trace-a', 2));
+      expect(cursor).toBe('2');
+    });
+  });
+
+  describe('concurrent appends', () => {
+    it('should derive cursors from the file across ledger instances', async () => {
+      const first = new Ledger(temp.ledgerPath);
+      const second = new Ledger(temp.ledgerPath);
+
+      const cursors = await Promise.all([
+        first.append(makeAtomic('trace-a', 1)),
+        second.append(makeAtomic('trace-a', 2)),
+        first.append(makeAtomic('trace-a', 3)),
+        second.append(makeAtomic('trace-a', 4)),
+      ]);
+
+      expect(cursors.sort()).toEqual(['1', '2', '3', '4']);
+
+      const lines = readFileSync(temp.ledgerPath, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+      expect(lines).toHaveLength(4);
+      for (let i = 1; i < lines.length; i++) {
+        expect(lines[i].prev).toBe(lines[i - 1].hash);
+      }
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { appendFileSync, existsSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerIndex } from '../../core/ledger/ledgerIndex';
+import type { Atomic } from '../../types';
+import { makeAtomic, useTempLedger } from './helpers';
+
+/** Alternating entity types, with a tenant, for the index lookups */
+function indexedAtomic(traceId: string, n: number, tenantId = 'tenant-1'): Atomic {
+  return makeAtomic(traceId, n, {
+    entity_type: n % 2 === 0 ? 'function' : 'file',
+    metadata: { tenant_id: tenantId, created_at: '2024-01-01T00:00:00Z' },
+  });
+}
+
+describe('LedgerIndex', () => {
+  const temp = useTempLedger('ledger-index');
+
+  it('should create a sidecar index next to the ledger', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    await ledger.append(indexedAtomic('trace-a', 1));
+
+    expect(existsSync(`${temp.ledgerPath}.idx`)).toBe(true);
+    expect(new LedgerIndex(temp.ledgerPath).count).toBe(1);
+  });
+
+  it('should resolve hashes to the right ledger lines', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    const atomics = [];
+    for (const atomic of [indexedAtomic('trace-a', 1), indexedAtomic('trace-b', 2), indexedAtomic('trace-a', 3)]) {
+      atomics.push((await ledger.appendAtomic(atomic)).atomic);
+    }
+
+    const index = new LedgerIndex(temp.ledgerPath);
+    const entry = index.getByHash(atomics[1].hash!);
+    expect(entry).toBeDefined();
+    expect(index.read(entry!).this).toBe('step-2');
+  });
+
+  it('should intersect indexed keys', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    await ledger.append(indexedAtomic('trace-a', 1, 'tenant-1'));
+    await ledger.append(indexedAtomic('trace-a', 2, 'tenant-2'));
+    await ledger.append(indexedAtomic('trace-b', 3, 'tenant-1'));
+
+    const index = new LedgerIndex(temp.ledgerPath);
+    expect(index.lookup({ trace_id: 'trace-a' })).toEqual([0, 1]);
+    expect(index.lookup({ trace_id: 'trace-a', tenant_id: 'tenant-1' })).toEqual([0]);
+    expect(index.lookup({ entity_type: 'function' })).toEqual([1]);
+    expect(index.lookup({})).toBeUndefined();
+  });
+
+  it('should catch up with lines appended by another writer', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    await ledger.append(indexedAtomic('trace-a', 1));
+
+    const other = indexedAtomic('trace-b', 2);
+    other.hash = 'a'.repeat(64);
+    appendFileSync(temp.ledgerPath, JSON.stringify(other) + '\n');
+
+    const results = await ledger.query({ trace_id: 'trace-b' });
+    expect(results).toHaveLength(1);
+    await expect(ledger.append({ ...other })).rejects.toThrow('Duplicate atomic detected');
+  });
+
+  it('should rebuild when the ledger was rewritten', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    await ledger.append(indexedAtomic('trace-a', 1));
+    await ledger.append(indexedAtomic('trace-a', 2));
+
+    const replacement = indexedAtomic('trace-z', 9);
+    replacement.hash = 'b'.repeat(64);
+    writeFileSync(temp.ledgerPath, JSON.stringify(replacement) + '\n');
+
+    const index = new LedgerIndex(temp.ledgerPath);
+    expect(index.count).toBe(1);
+    expect(index.has('b'.repeat(64))).toBe(true);
+  });
+
+  it('should rebuild when the index file is corrupt', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    await ledger.append(indexedAtomic('trace-a', 1));
+    appendFileSync(`${temp.ledgerPath}.idx`, '{"offset":');
+
+    const index = new LedgerIndex(temp.ledgerPath);
+    expect(index.count).toBe(1);
+
+    // Only a writer, holding the lock, repairs the file
+    expect(readFileSync(`${temp.ledgerPath}.idx`, 'utf-8')).toContain('{"offset":');
+    await ledger.append(indexedAtomic('trace-a', 2));
+    expect(new LedgerIndex(temp.ledgerPath).count).toBe(2);
+    expect(readFileSync(`${temp.ledgerPath}.idx`, 'utf-8')).not.toContain('{"offset":\n');
+  });
+
+  it('should catch up without writing the index file on reads', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    await ledger.append(indexedAtomic('trace-a', 1));
+    const before = readFileSync(`${temp.ledgerPath}.idx`, 'utf-8');
+
+    // Another writer appends to both the ledger and its index
+    const writer = new Ledger(temp.ledgerPath);
+    await writer.append(indexedAtomic('trace-b', 2));
+    const after = readFileSync(`${temp.ledgerPath}.idx`, 'utf-8');
+    rmSync(`${temp.ledgerPath}.idx`);
+    writeFileSync(`${temp.ledgerPath}.idx`, before);
+
+    expect(await ledger.query({ trace_id: 'trace-b' })).toHaveLength(1);
+    expect(new LedgerIndex(temp.ledgerPath).count).toBe(2);
+    expect(readFileSync(`${temp.ledgerPath}.idx`, 'utf-8')).toBe(before);
+
+    // The next locked append takes in what it finds and appends after it
+    writeFileSync(`${temp.ledgerPath}.idx`, after);
+    await ledger.append(indexedAtomic('trace-a', 3));
+    const lines = readFileSync(`${temp.ledgerPath}.idx`, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(4);
+    expect(readFileSync(`${temp.ledgerPath}.idx`, 'utf-8').startsWith(after)).toBe(true);
+  });
+});
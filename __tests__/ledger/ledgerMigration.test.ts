@@ -0,0 +1,122 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import { migrateLedger, upgradeAtomic } from '../../core/ledger/ledgerMigration';
+import { generateKeyPair } from '../../core/crypto';
+import { makeTaskAtomic, useTempLedger } from './helpers';
+
+/** Lines as v1.0 writers stored them */
+function legacyLines(): string[] {
+  return [
+    {
+      entity_type: 'function',
+      intent: 'run_code',
+      did: { actor: 'llm', action: 'run_code' },
+      input: { prompt: 'add 4 and 7' },
+      metadata: { trace_id: 'trace-1', created_at: '2024-01-01T00:00:00Z' },
+      curr_hash: 'aa'.repeat(32),
+    },
+    {
+      entity_type: 'file',
+      this: 'report.txt',
+      did: 'did:example:user',
+      prev: 'aa'.repeat(32),
+      metadata: { trace_id: 'trace-1', created_at: '2024-01-01T00:01:00Z' },
+      curr_hash: 'bb'.repeat(32),
+      signature: 'cc'.repeat(64),
+    },
+  ].map(atomic => JSON.stringify(atomic));
+}
+
+describe('Ledger migration', () => {
+  const temp = useTempLedger('migration');
+  let targetPath: string;
+  const keys = generateKeyPair();
+
+  beforeEach(() => {
+    targetPath = join(temp.dir, 'ledger.v1.1.0.jsonl');
+  });
+
+  it('should upgrade v1.0 atomics to the 1.1.0 shape', () => {
+    const [prompt, file] = legacyLines().map(line => upgradeAtomic(JSON.parse(line)));
+
+    expect(prompt).toMatchObject({ schema_version: '1.1.0', this: 'run_code', trace_id: 'trace-1' });
+    expect(prompt.metadata).toEqual({ created_at: '2024-01-01T00:00:00Z' });
+    expect(prompt).not.toHaveProperty('curr_hash');
+    expect(file).toMatchObject({ did: { actor: 'did:example:user', action: 'migrate' }, prev: 'aa'.repeat(32) });
+    expect(file).not.toHaveProperty('signature');
+  });
+
+  it('should rewrite a v1.0 ledger into a new verifiable ledger', async () => {
+    const original = legacyLines().join('\n') + '\n';
+    writeFileSync(temp.ledgerPath, original);
+
+    const report = await migrateLedger(temp.ledgerPath, targetPath, { actor: 'ops', signingKeyHex: keys.privateKey, resign: true });
+
+    expect(readFileSync(temp.ledgerPath, 'utf-8')).toBe(original);
+    expect(report).toMatchObject({ atomics: 2, legacy: 2, rewritten: 2, unchanged: 0, resigned: 2, dropped_signatures: 0 });
+
+    const mapping = readFileSync(report.mapping, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    const { atomics } = await new Ledger(targetPath).scan({ limit: 10 });
+    expect(mapping).toEqual([
+      { line: 1, old_hash: 'aa'.repeat(32), new_hash: atomics[0].hash },
+      { line: 2, old_hash: 'bb'.repeat(32), new_hash: atomics[1].hash },
+    ]);
+    // The old chain link now names the new hash
+    expect(atomics[1].prev).toBe(atomics[0].hash);
+
+    const migration = atomics[2];
+    expect(migration).toMatchObject({ this: 'ledger/migration', hash: report.migration, signature: { public_key: keys.publicKey } });
+    expect(migration.input).toMatchObject({
+      source: temp.ledgerPath,
+      source_sha256: createHash('sha256').update(original).digest('hex'),
+      mapping: { sha256: createHash('sha256').update(readFileSync(report.mapping)).digest('hex'), entries: 2 },
+    });
+
+    expect(await new LedgerVerifier().verifyFile(targetPath, { publicKeyHex: keys.publicKey })).toMatchObject({ valid: 3, invalid: 0 });
+  });
+
+  it('should copy 1.1.0 atomics as they are and drop signatures it cannot keep', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { signingKeyHex: keys.privateKey });
+    await ledger.append(makeTaskAtomic(1));
+    await ledger.append(makeTaskAtomic(2));
+    const source = readFileSync(temp.ledgerPath, 'utf-8').trim().split('\n');
+
+    const report = await migrateLedger(temp.ledgerPath, targetPath, { actor: 'ops', signingKeyHex: keys.privateKey });
+
+    expect(report).toMatchObject({ atomics: 2, legacy: 0, rewritten: 0, unchanged: 2 });
+    expect(readFileSync(targetPath, 'utf-8').trim().split('\n').slice(0, 2)).toEqual(source);
+
+    // Without resign, a rewritten atomic loses the signature of its old hash
+    const legacyPath = join(temp.dir, 'legacy.jsonl');
+    writeFileSync(legacyPath, legacyLines().join('\n') + '\n');
+    const legacy = await migrateLedger(legacyPath, join(temp.dir, 'legacy.v1.1.0.jsonl'), { actor: 'ops', signingKeyHex: keys.privateKey });
+    expect(legacy).toMatchObject({ rewritten: 2, resigned: 0, dropped_signatures: 1 });
+  });
+
+  it('should migrate a last line without a newline and digest the source as stored', async () => {
+    const original = legacyLines().join('\n\n');
+    writeFileSync(temp.ledgerPath, original);
+
+    const report = await migrateLedger(temp.ledgerPath, targetPath, { actor: 'ops', signingKeyHex: keys.privateKey });
+
+    expect(report).toMatchObject({ atomics: 2, rewritten: 2 });
+    const { atomics } = await new Ledger(targetPath).scan({ limit: 10 });
+    expect(atomics[2].input).toMatchObject({
+      atomics: 2,
+      source_sha256: createHash('sha256').update(readFileSync(temp.ledgerPath)).digest('hex'),
+    });
+  });
+
+  it('should never migrate in place or over an existing file', async () => {
+    writeFileSync(temp.ledgerPath, legacyLines().join('\n') + '\n');
+    writeFileSync(targetPath, '');
+
+    const options = { actor: 'ops', signingKeyHex: keys.privateKey };
+    await expect(migrateLedger(temp.ledgerPath, temp.ledgerPath, options)).rejects.toThrow(/in place/);
+    await expect(migrateLedger(temp.ledgerPath, targetPath, options)).rejects.toThrow(/already exists/);
+    await expect(migrateLedger(join(temp.dir, 'missing.jsonl'), join(temp.dir, 'new.jsonl'), options)).rejects.toThrow(/not found/);
+  });
+});
@@ -0,0 +1,211 @@
+import { existsSync, renameSync, rmSync } from 'fs';
+import { join } from 'path';
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import { MerkleLog } from '../../core/ledger/merkleLog';
+import {
+  isSegmentGenesis,
+  periodKey,
+  readManifest,
+  recoverSeal,
+  segmentPaths,
+  TenantLedgerRouter,
+} from '../../core/ledger/ledgerRotation';
+import { ledgerRotation, loadConfig } from '../../core/config';
+import type { Atomic } from '../../types';
+import { createdAt, makeAtomic, useTempLedger } from './helpers';
+
+describe('Ledger rotation', () => {
+  const temp = useTempLedger('rotation');
+
+  describe('periodKey', () => {
+    it('should key days, ISO weeks and months in UTC', () => {
+      const date = new Date('2024-12-30T23:59:59.000Z');
+      expect(periodKey('daily', date)).toBe('2024-12-30');
+      expect(periodKey('weekly', date)).toBe('2025-W01');
+      expect(periodKey('monthly', date)).toBe('2024-12');
+      expect(periodKey('weekly', new Date('2021-01-03T12:00:00.000Z'))).toBe('2020-W53');
+      expect(periodKey('size', date)).toBeUndefined();
+    });
+  });
+
+  it('should seal the active file when the month changes', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { rotation: { policy: 'monthly' } });
+    const { atomic: jan1 } = await ledger.appendAtomic(makeAtomic('trace-a', 1, createdAt('2024-01-10T00:00:00.000Z')));
+    const { atomic: jan2 } = await ledger.appendAtomic(makeAtomic('trace-a', 2, createdAt('2024-01-31T23:00:00.000Z')));
+    const { cursor, atomic: feb } = await ledger.appendAtomic(makeAtomic('trace-a', 3, createdAt('2024-02-01T00:00:00.000Z')));
+
+    const manifest = readManifest(temp.ledgerPath);
+    expect(manifest.segments).toHaveLength(1);
+    expect(manifest.segments[0]).toMatchObject({
+      seq: 1,
+      file: 'ledger.000001.jsonl',
+      count: 2,
+      first_hash: jan1.hash,
+      last_hash: jan2.hash,
+      first_at: jan1.metadata!.created_at,
+      last_at: jan2.metadata!.created_at,
+    });
+    expect(existsSync(join(temp.dir, 'ledger.000001.jsonl.idx'))).toBe(true);
+
+    // Active segment: genesis, then the February atomic
+    const { atomics } = await ledger.scan({ limit: 10 });
+    expect(atomics).toHaveLength(4);
+    expect(isSegmentGenesis(atomics[2])).toBe(true);
+    expect(atomics[2].prev).toBe(jan2.hash);
+    expect(feb.prev).toBe(atomics[2].hash);
+    expect(cursor).toBe('4');
+
+    const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath);
+    expect(summary.total).toBe(4);
+    expect(summary.invalid).toBe(0);
+  });
+
+  it('should rotate by size and read transparently across segments', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { rotation: { policy: 'size', maxSizeBytes: 600 } });
+    for (let n = 1; n <= 8; n++) {
+      await ledger.append(makeAtomic(n % 2 === 0 ? 'even' : 'odd', n, createdAt('2024-01-01T00:00:00.000Z')));
+    }
+
+    const segments = readManifest(temp.ledgerPath).segments;
+    expect(segments.length).toBeGreaterThan(1);
+    expect(segmentPaths(temp.ledgerPath)).toHaveLength(segments.length + 1);
+
+    const all = (await ledger.scan({ limit: 100 })).atomics;
+    const steps = all.filter(a => !isSegmentGenesis(a)).map(a => a.this);
+    expect(steps).toEqual(['step-1', 'step-2', 'step-3', 'step-4', 'step-5', 'step-6', 'step-7', 'step-8']);
+
+    const odd = await ledger.query({ trace_id: 'odd' });
+    expect(odd.map(a => a.this)).toEqual(['step-1', 'step-3', 'step-5', 'step-7']);
+
+    const streamed: string[] = [];
+    for await (const atomic of ledger.stream({ from: '2', filter: a => a.trace_id === 'even' })) {
+      streamed.push(atomic.this);
+    }
+    expect(streamed).toEqual(['step-4', 'step-6', 'step-8']);
+
+    expect(new MerkleLog(temp.ledgerPath).size).toBe(all.length);
+
+    const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath);
+    expect(summary.total).toBe(all.length);
+    expect(summary.invalid).toBe(0);
+  });
+
+  it('should take the rotation from the configuration', async () => {
+    const env = process.env;
+    process.env = { ...env };
+    try {
+      delete process.env.LEDGER_ROTATION;
+      delete process.env.LEDGER_MAX_SIZE;
+      expect(ledgerRotation(loadConfig().ledger)).toEqual({ policy: 'monthly', maxSizeBytes: undefined });
+
+      process.env.LEDGER_ROTATION = 'size';
+      expect(() => ledgerRotation(loadConfig().ledger)).toThrow(/LEDGER_MAX_SIZE/);
+
+      process.env.LEDGER_MAX_SIZE = '600';
+      const ledger = new Ledger(temp.ledgerPath, { rotation: ledgerRotation(loadConfig().ledger) });
+      for (let n = 1; n <= 8; n++) {
+        await ledger.append(makeAtomic('trace-a', n, createdAt('2024-01-01T00:00:00.000Z')));
+      }
+      expect(readManifest(temp.ledgerPath).segments.length).toBeGreaterThan(1);
+    } finally {
+      process.env = env;
+    }
+  });
+
+  it('should continue trace chains across segments after reopening', async () => {
+    const options = { chainMode: 'trace' as const, rotation: { policy: 'daily' as const } };
+    const first = new Ledger(temp.ledgerPath, options);
+    const { atomic: a } = await first.appendAtomic(makeAtomic('trace-a', 1, createdAt('2024-03-01T10:00:00.000Z')));
+    await first.append(makeAtomic('trace-b', 2, createdAt('2024-03-02T10:00:00.000Z')));
+
+    const reopened = new Ledger(temp.ledgerPath, options);
+    const { atomic: c } = await reopened.appendAtomic(makeAtomic('trace-a', 3, createdAt('2024-03-02T11:00:00.000Z')));
+
+    expect(c.prev).toBe(a.hash);
+
+    const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath, { chainMode: 'trace' });
+    expect(summary.invalid).toBe(0);
+  });
+
+  it('should follow appends into a new segment', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { rotation: { policy: 'monthly' } });
+    await ledger.append(makeAtomic('trace-a', 1, createdAt('2024-01-01T00:00:00.000Z')));
+
+    const controller = new AbortController();
+    const follower = ledger.follow({
+      signal: controller.signal,
+      pollIntervalMs: 5000,
+      filter: a => !isSegmentGenesis(a),
+    });
+
+    const next = follower.next();
+    await ledger.append(makeAtomic('trace-a', 2, createdAt('2024-02-01T00:00:00.000Z')));
+    expect((await next).value?.this).toBe('step-2');
+
+    controller.abort();
+    expect((await follower.next()).done).toBe(true);
+  });
+
+  it('should detect a missing segment', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { rotation: { policy: 'monthly' } });
+    await ledger.append(makeAtomic('trace-a', 1, createdAt('2024-01-01T00:00:00.000Z')));
+    await ledger.append(makeAtomic('trace-a', 2, createdAt('2024-02-01T00:00:00.000Z')));
+    await ledger.append(makeAtomic('trace-a', 3, createdAt('2024-03-01T00:00:00.000Z')));
+
+    rmSync(join(temp.dir, 'ledger.000001.jsonl'));
+
+    const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath);
+    expect(summary.results[0]).toMatchObject({
+      line: 1,
+      valid: false,
+      error: { code: 'SEGMENT_MISSING', details: { file: 'ledger.000001.jsonl', lines: 1 } },
+    });
+    // The next segment still chains to the missing one's last hash
+    const rest = summary.results.slice(1);
+    expect(rest.map(result => result.line)).toEqual(rest.map((_, n) => n + 2));
+    expect(rest.every(result => result.valid)).toBe(true);
+    expect(summary.invalid).toBe(1);
+    // A Merkle tree without its atomics would misplace every later leaf
+    expect(() => new MerkleLog(temp.ledgerPath).size).toThrow(/ledger.000001.jsonl is missing/);
+  });
+
+  it('should keep one ledger per tenant', async () => {
+    const router = new TenantLedgerRouter(temp.ledgerPath);
+    const forTenant = (tenant: string | undefined, n: number): Atomic => {
+      const atomic = makeAtomic('trace-a', n, createdAt('2024-01-01T00:00:00.000Z'));
+      return tenant ? { ...atomic, metadata: { ...atomic.metadata!, tenant_id: tenant } } : atomic;
+    };
+
+    await router.append(forTenant('acme', 1));
+    await router.append(forTenant('globex', 2));
+    await router.append(forTenant('acme', 3));
+    await router.append(forTenant(undefined, 4));
+
+    expect(router.ledgerFile(forTenant('acme', 5))).toBe(join(temp.dir, 'ledger-acme.jsonl'));
+    const { atomics } = await new Ledger(join(temp.dir, 'ledger-acme.jsonl')).scan({ limit: 10 });
+    expect(atomics.map(atomic => atomic.this)).toEqual(['step-1', 'step-3']);
+    // Each tenant has a chain of its own
+    expect(atomics[1].prev).toBe(atomics[0].hash);
+    expect(await new LedgerVerifier().verifyFile(join(temp.dir, 'ledger-globex.jsonl'))).toMatchObject({ valid: 1, invalid: 0 });
+    expect((await new Ledger(temp.ledgerPath).scan({ limit: 10 })).atomics).toHaveLength(1);
+
+    await expect(router.append(forTenant('../escape', 6))).rejects.toThrow(/Invalid tenant_id/);
+  });
+
+  it('should finish a seal interrupted before the file was moved', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { rotation: { policy: 'monthly' } });
+    await ledger.append(makeAtomic('trace-a', 1, createdAt('2024-01-01T00:00:00.000Z')));
+    await ledger.append(makeAtomic('trace-a', 2, createdAt('2024-02-01T00:00:00.000Z')));
+
+    // Put the sealed segment back as if the crash happened right after the manifest write
+    rmSync(temp.ledgerPath);
+    rmSync(`${temp.ledgerPath}.idx`);
+    renameSync(join(temp.dir, 'ledger.000001.jsonl'), temp.ledgerPath);
+
+    recoverSeal(temp.ledgerPath);
+
+    expect(existsSync(join(temp.dir, 'ledger.000001.jsonl'))).toBe(true);
+    expect(existsSync(temp.ledgerPath)).toBe(false);
+  });
+});
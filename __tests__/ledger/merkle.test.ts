@@ -0,0 +1,186 @@
+import { rmSync } from 'fs';
+import { blake3 } from '@noble/hashes/blake3';
+import {
+  consistencyPath,
+  inclusionPath,
+  merkleRoot,
+  verifyConsistency,
+  verifyInclusion,
+} from '../../core/ledger/merkle';
+import { MerkleLog, signCheckpoint, verifyCheckpoint } from '../../core/ledger/merkleLog';
+import { Ledger } from '../../core/ledger/ledger';
+import { readManifest } from '../../core/ledger/ledgerRotation';
+import { generateKeyPair } from '../../core/crypto';
+import type { Atomic } from '../../types';
+import { makeAtomic, useTempLedger } from './helpers';
+
+function fakeHash(n: number): string {
+  return Buffer.from(blake3(new TextEncoder().encode(`leaf-${n}`))).toString('hex');
+}
+
+describe('Merkle tree', () => {
+  const leaves = Array.from({ length: 13 }, (_, n) => fakeHash(n));
+
+  it('should give different roots for different prefixes', () => {
+    const roots = new Set(leaves.map((_, n) => merkleRoot(leaves, n + 1)));
+    expect(roots.size).toBe(leaves.length);
+    expect(merkleRoot([], 0)).toHaveLength(64);
+  });
+
+  it('should verify inclusion proofs for every leaf of every tree size', () => {
+    for (let size = 1; size <= leaves.length; size++) {
+      const root = merkleRoot(leaves, size);
+      for (let index = 0; index < size; index++) {
+        const proof = {
+          leaf_index: index,
+          tree_size: size,
+          leaf: leaves[index],
+          audit_path: inclusionPath(leaves, index, size),
+          root,
+        };
+        expect(verifyInclusion(proof)).toBe(true);
+      }
+    }
+  });
+
+  it('should verify consistency proofs between every pair of sizes', () => {
+    for (let newSize = 1; newSize <= leaves.length; newSize++) {
+      for (let oldSize = 0; oldSize <= newSize; oldSize++) {
+        const proof = {
+          old_size: oldSize,
+          new_size: newSize,
+          old_root: merkleRoot(leaves, oldSize),
+          new_root: merkleRoot(leaves, newSize),
+          proof: consistencyPath(leaves, oldSize, newSize),
+        };
+        expect(verifyConsistency(proof)).toBe(true);
+      }
+    }
+  });
+
+  it('should reject tampered inclusion proofs', () => {
+    const proof = {
+      leaf_index: 5,
+      tree_size: 11,
+      leaf: leaves[5],
+      audit_path: inclusionPath(leaves, 5, 11),
+      root: merkleRoot(leaves, 11),
+    };
+
+    expect(verifyInclusion({ ...proof, leaf: leaves[6] })).toBe(false);
+    expect(verifyInclusion({ ...proof, leaf_index: 4 })).toBe(false);
+    expect(verifyInclusion({ ...proof, audit_path: proof.audit_path.slice(1) })).toBe(false);
+    expect(verifyInclusion({ ...proof, root: merkleRoot(leaves, 12) })).toBe(false);
+  });
+
+  it('should reject consistency proofs for rewritten history', () => {
+    const rewritten = [...leaves];
+    rewritten[2] = fakeHash(100);
+
+    const proof = {
+      old_size: 6,
+      new_size: 13,
+      old_root: merkleRoot(leaves, 6),
+      new_root: merkleRoot(rewritten, 13),
+      proof: consistencyPath(rewritten, 6, 13),
+    };
+
+    expect(verifyConsistency(proof)).toBe(false);
+  });
+});
+
+describe('MerkleLog', () => {
+  const temp = useTempLedger('merkle');
+
+  it('should prove inclusion and consistency over ledger atomics', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    const atomics: Atomic[] = [];
+    for (const atomic of [1, 2, 3, 4, 5].map(makeAtomic)) {
+      atomics.push((await ledger.appendAtomic(atomic)).atomic);
+    }
+
+    const log = new MerkleLog(temp.ledgerPath);
+    expect(log.size).toBe(5);
+
+    const inclusion = log.proveInclusion(atomics[2].hash!);
+    expect(inclusion.root).toBe(log.root());
+    expect(verifyInclusion(inclusion)).toBe(true);
+
+    const consistency = log.proveConsistency(3);
+    expect(consistency.old_root).toBe(log.root(3));
+    expect(verifyConsistency(consistency)).toBe(true);
+
+    expect(() => log.proveInclusion(atomics[4].hash!, 3)).toThrow();
+    expect(() => log.proveConsistency(2, 9)).toThrow(RangeError);
+  });
+
+  it('should follow the ledger as it grows, is sealed and is rewritten', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { rotation: { policy: 'size', maxSizeBytes: 700 } });
+    const log = new MerkleLog(temp.ledgerPath);
+    for (let n = 1; n <= 3; n++) {
+      await ledger.append(makeAtomic('trace-a', n));
+    }
+    const first = log.checkpoint();
+
+    for (let n = 4; n <= 9; n++) {
+      await ledger.append(makeAtomic('trace-a', n));
+      // Each call only adds what was appended since the last one
+      expect(log.root()).toBe(new MerkleLog(temp.ledgerPath).root());
+    }
+    expect(readManifest(temp.ledgerPath).segments.length).toBeGreaterThan(1);
+    expect(log.size).toBe(new MerkleLog(temp.ledgerPath).size);
+    expect(verifyConsistency(log.proveConsistency(first.tree_size))).toBe(true);
+    expect(log.root(first.tree_size)).toBe(first.root);
+
+    // A ledger that no longer extends the tree is read again
+    rmSync(temp.dir, { recursive: true, force: true });
+    await new Ledger(temp.ledgerPath).append(makeAtomic('trace-a', 10));
+    expect(log.size).toBe(1);
+    expect(log.root()).toBe(new MerkleLog(temp.ledgerPath).root());
+  });
+
+  it('should publish signed checkpoints only when the tree grows', async () => {
+    const keys = generateKeyPair();
+    const ledger = new Ledger(temp.ledgerPath);
+    const log = new MerkleLog(temp.ledgerPath);
+
+    await ledger.append(makeAtomic('trace-a', 1));
+    const first = await log.publishCheckpoint(keys.privateKey);
+    const again = await log.publishCheckpoint(keys.privateKey);
+    await ledger.append(makeAtomic('trace-a', 2));
+    const second = await log.publishCheckpoint(keys.privateKey);
+
+    expect(again).toEqual(first);
+    expect(second.tree_size).toBe(2);
+    expect(log.listCheckpoints()).toHaveLength(2);
+    expect(log.latestCheckpoint()).toEqual(second);
+    expect(verifyCheckpoint(second, keys.publicKey)).toBe(true);
+    expect(verifyConsistency(log.proveConsistency(first.tree_size, second.tree_size))).toBe(true);
+  });
+
+  it('should sign checkpoints with the node key algorithm', async () => {
+    const keys = generateKeyPair('ES256');
+    await new Ledger(temp.ledgerPath).append(makeAtomic('trace-a', 1));
+
+    const checkpoint = await new MerkleLog(temp.ledgerPath).publishCheckpoint(keys.privateKey, 'ES256');
+
+    expect(checkpoint.signature).toMatchObject({ alg: 'ES256', public_key: keys.publicKey });
+    expect(verifyCheckpoint(checkpoint, keys.publicKey)).toBe(true);
+  });
+
+  it('should reject checkpoints that were altered or signed by another key', () => {
+    const keys = generateKeyPair();
+    const other = generateKeyPair();
+    const checkpoint = signCheckpoint(
+      { origin: 'ledger.jsonl', tree_size: 3, root: fakeHash(1), timestamp: '2024-01-01T00:00:00.000Z' },
+      keys.privateKey
+    );
+
+    expect(verifyCheckpoint(checkpoint, keys.publicKey)).toBe(true);
+    expect(verifyCheckpoint({ ...checkpoint, tree_size: 4 }, keys.publicKey)).toBe(false);
+    expect(verifyCheckpoint(checkpoint, other.publicKey)).toBe(false);
+    expect(verifyCheckpoint({ ...checkpoint, signature: undefined }, keys.publicKey)).toBe(false);
+    // Without the node key, a checkpoint that names its own key proves nothing
+    expect(verifyCheckpoint(signCheckpoint({ ...checkpoint, root: fakeHash(2) }, other.privateKey), '')).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import { appendFileSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { pathToFileURL } from 'url';
+import ts from 'typescript';
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import { generateKeyPair } from '../../core/crypto';
+import type { Atomic, VerificationResult } from '../../types';
+import { makeAtomic, useTempLedger } from './helpers';
+
+const ROOT = join(__dirname, '..', '..');
+const WORKER_MODULES = [
+  'core/canonical.ts',
+  'core/crypto.ts',
+  'core/disclosure.ts',
+  'core/multisig.ts',
+  'core/security/crossSign.ts',
+  'core/signatureAlgorithms.ts',
+  'core/ledger/blobStore.ts',
+  'core/ledger/keyring.ts',
+  'core/ledger/ledgerFile.ts',
+  'core/ledger/segmentCompression.ts',
+  'core/ledger/verifyWorker.ts',
+];
+
+/**
+ * Worker threads run plain JavaScript: emit the worker's modules as the
+ * build would, next to a link to node_modules
+ */
+function buildWorker(dir: string): URL {
+  writeFileSync(join(dir, 'package.json'), JSON.stringify({ type: 'module' }));
+  symlinkSync(join(ROOT, 'node_modules'), join(dir, 'node_modules'), 'dir');
+  for (const file of WORKER_MODULES) {
+    const { outputText } = ts.transpileModule(readFileSync(join(ROOT, file), 'utf-8'), {
+      compilerOptions: { module: ts.ModuleKind.ES2022, target: ts.ScriptTarget.ES2022 },
+    });
+    const out = join(dir, file.replace(/\.ts$/, '.js'));
+    mkdirSync(dirname(out), { recursive: true });
+    writeFileSync(out, outputText);
+  }
+  return pathToFileURL(join(dir, 'core/ledger/verifyWorker.js'));
+}
+
+/** Multi-byte payloads of varying length, so lines straddle batch boundaries */
+function makeWideAtomic(traceId: string, n: number): Atomic {
+  return makeAtomic(traceId, n, { input: { args: ['ü'.repeat(n % 7)] } });
+}
+
+describe('Parallel verification', () => {
+  const temp = useTempLedger('parallel-verify');
+  let workerDir: string;
+  let workerUrl: URL;
+  let publicKey: string;
+
+  beforeAll(() => {
+    workerDir = mkdtempSync(join(tmpdir(), 'verify-worker-'));
+    workerUrl = buildWorker(workerDir);
+  });
+
+  afterAll(() => {
+    rmSync(workerDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    const keys = generateKeyPair();
+    publicKey = keys.publicKey;
+    const ledger = new Ledger(temp.ledgerPath, { chainMode: 'trace', signingKeyHex: keys.privateKey });
+    const heads: Atomic[] = [];
+    for (let n = 1; n <= 60; n++) {
+      const atomic = makeWideAtomic(`trace-${n % 4}`, n);
+      if (n === 30) {
+        atomic.prev = heads[1].hash; // fork of trace-2
+      }
+      heads.push((await ledger.appendAtomic(atomic)).atomic);
+    }
+
+    // Tampered, unparsable, unhashed and blank lines, with CRLF endings
+    const lines = readFileSync(temp.ledgerPath, 'utf-8').split('\n');
+    lines[10] = lines[10].replace('step-11', 'step-eleven');
+    lines[20] = '{"trace_id": "trace-0", broken';
+    lines[40] = JSON.stringify(makeWideAtomic('trace-2', 41));
+    lines[45] = '';
+    writeFileSync(temp.ledgerPath, lines.join('\r\n'));
+    appendFileSync(temp.ledgerPath, JSON.stringify(makeWideAtomic('trace-3', 61)));
+  });
+
+  it('should report exactly what the single-threaded verifier reports', async () => {
+    const verifier = new LedgerVerifier(publicKey);
+    const serial = await verifier.verifyFile(temp.ledgerPath, { chainMode: 'trace' });
+    const parallel = await verifier.verifyFile(temp.ledgerPath, {
+      chainMode: 'trace',
+      workers: 2,
+      batchBytes: 2048,
+      workerUrl,
+    });
+
+    expect(serial.invalid).toBeGreaterThan(0);
+    expect(serial.forks?.has('trace-2')).toBe(true);
+    expect(parallel).toEqual(serial);
+    expect(JSON.stringify(parallel.results)).toBe(JSON.stringify(serial.results));
+  });
+
+  it('should stop at the same line on the first error', async () => {
+    const verifier = new LedgerVerifier(publicKey);
+    const serial = await verifier.verifyFile(temp.ledgerPath, { chainMode: 'trace', stopOnError: true });
+    const parallel = await verifier.verifyFile(temp.ledgerPath, {
+      chainMode: 'trace',
+      stopOnError: true,
+      workers: 3,
+      batchBytes: 1024,
+      workerUrl,
+    });
+
+    expect(serial.total).toBe(11);
+    expect(parallel).toEqual(serial);
+  });
+
+  it('should stream results to a sink instead of keeping them', async () => {
+    const streamed: VerificationResult[] = [];
+    const verifier = new LedgerVerifier(publicKey);
+    const summary = await verifier.verifyFile(temp.ledgerPath, {
+      chainMode: 'trace',
+      workers: 2,
+      workerUrl,
+      sink: result => streamed.push(result),
+    });
+
+    expect(summary.results).toEqual([]);
+    expect(streamed).toEqual((await verifier.verifyFile(temp.ledgerPath, { chainMode: 'trace' })).results);
+    expect(streamed.map(r => r.line)).toEqual(Array.from({ length: summary.total }, (_, i) => i + 1));
+  });
+});
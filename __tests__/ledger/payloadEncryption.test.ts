@@ -0,0 +1,132 @@
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import { FileTenantKeyStore } from '../../core/ledger/tenantKeys';
+import {
+  decryptAtomic,
+  encryptAtomic,
+  isEncrypted,
+  TenantKeyDestroyedError,
+} from '../../core/ledger/payloadEncryption';
+import { generateKeyPair } from '../../core/crypto';
+import type { Atomic } from '../../types';
+import { useTempLedger } from './helpers';
+
+function makeLlmAtomic(tenantId: string, n: number): Atomic {
+  return {
+    schema_version: '1.1.0',
+    entity_type: 'function',
+    this: `prompt-${n}`,
+    trace_id: `trace-${n}`,
+    did: { actor: 'llm', action: 'complete' },
+    input: { args: ['What is the customer balance?'] },
+    output: { llm_result: { text: 'The balance is 42.' } },
+    metadata: { created_at: new Date().toISOString(), tenant_id: tenantId },
+  };
+}
+
+describe('Payload encryption', () => {
+  const temp = useTempLedger('encryption');
+  let keyStore: FileTenantKeyStore;
+
+  beforeEach(() => {
+    keyStore = new FileTenantKeyStore(join(temp.dir, 'keys'));
+  });
+
+  it('should store ciphertext and decrypt it with the tenant key', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { encryption: { keyStore } });
+    await ledger.append(makeLlmAtomic('acme', 1));
+
+    expect(readFileSync(temp.ledgerPath, 'utf-8')).not.toContain('balance');
+
+    const [stored] = (await ledger.scan({ limit: 10 })).atomics;
+    expect(isEncrypted(stored.input)).toBe(true);
+    expect(isEncrypted(stored.output)).toBe(true);
+
+    const plain = decryptAtomic(stored, keyStore);
+    expect(plain.input).toEqual({ args: ['What is the customer balance?'] });
+    expect(plain.output).toEqual({ llm_result: { text: 'The balance is 42.' } });
+  });
+
+  it('should leave atomics without customer data in the clear', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { encryption: { keyStore } });
+    const atomic: Atomic = {
+      ...makeLlmAtomic('acme', 1),
+      did: { actor: 'tester', action: 'run' },
+      output: { result: 1 },
+    };
+    const { atomic: stored } = await ledger.appendAtomic(atomic);
+
+    expect(isEncrypted(stored.input)).toBe(false);
+    expect(readdirSync(join(temp.dir, 'keys'))).toEqual([]);
+  });
+
+  it('should verify signatures over the ciphertext without any keys', async () => {
+    const { privateKey, publicKey } = generateKeyPair();
+    const ledger = new Ledger(temp.ledgerPath, { signingKeyHex: privateKey, encryption: { keyStore } });
+    await ledger.append(makeLlmAtomic('acme', 1));
+    await ledger.append(makeLlmAtomic('globex', 2));
+
+    await keyStore.shred('acme');
+
+    const summary = await new LedgerVerifier(publicKey).verifyFile(temp.ledgerPath);
+    expect(summary.total).toBe(2);
+    expect(summary.invalid).toBe(0);
+  });
+
+  it('should make shredded payloads unreadable and leave other tenants alone', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { encryption: { keyStore } });
+    await ledger.append(makeLlmAtomic('acme', 1));
+    await ledger.append(makeLlmAtomic('globex', 2));
+
+    const destroyed = await keyStore.shred('acme');
+    expect(destroyed).toHaveLength(1);
+
+    const [acme, globex] = (await ledger.scan({ limit: 10 })).atomics;
+    expect(() => decryptAtomic(acme, keyStore)).toThrow(TenantKeyDestroyedError);
+    expect(decryptAtomic(globex, keyStore).output).toEqual({ llm_result: { text: 'The balance is 42.' } });
+
+    // A new key is issued for later appends; the old payloads stay lost
+    await ledger.append(makeLlmAtomic('acme', 3));
+    const latest = (await ledger.query({ trace_id: 'trace-3' }))[0];
+    expect(decryptAtomic(latest, keyStore).input).toEqual({ args: ['What is the customer balance?'] });
+    expect(() => decryptAtomic(acme, keyStore)).toThrow(TenantKeyDestroyedError);
+  });
+
+  it('should reject envelopes moved to another tenant or tampered with', async () => {
+    const atomic = await encryptAtomic(makeLlmAtomic('acme', 1), keyStore);
+    await keyStore.activeKey('globex');
+
+    const moved = JSON.parse(JSON.stringify(atomic));
+    moved.output.encrypted.field = 'input';
+    expect(() => decryptAtomic(moved, keyStore)).toThrow();
+
+    const tampered = JSON.parse(JSON.stringify(atomic));
+    const bytes = Buffer.from(tampered.input.encrypted.ciphertext, 'base64');
+    bytes[bytes.length - 1] ^= 1;
+    tampered.input.encrypted.ciphertext = bytes.toString('base64');
+    expect(() => decryptAtomic(tampered, keyStore)).toThrow();
+  });
+
+  it('should require a tenant to encrypt', async () => {
+    const atomic = makeLlmAtomic('acme', 1);
+    delete atomic.metadata!.tenant_id;
+    await expect(encryptAtomic(atomic, keyStore)).rejects.toThrow(/tenant_id/);
+  });
+
+  it('should wrap tenant keys with the master key', async () => {
+    const masterKeyHex = 'ab'.repeat(32);
+    const wrapped = new FileTenantKeyStore(join(temp.dir, 'wrapped'), { masterKeyHex });
+    const atomic = await encryptAtomic(makeLlmAtomic('acme', 1), wrapped);
+
+    const [file] = readdirSync(join(temp.dir, 'wrapped'));
+    const stored = JSON.parse(readFileSync(join(temp.dir, 'wrapped', file), 'utf-8'));
+    expect(stored.keys[0].key).toBeUndefined();
+    expect(stored.keys[0].wrapped).toBeDefined();
+
+    const reopened = new FileTenantKeyStore(join(temp.dir, 'wrapped'), { masterKeyHex });
+    expect(decryptAtomic(atomic, reopened).output).toEqual({ llm_result: { text: 'The balance is 42.' } });
+    expect(() => decryptAtomic(atomic, new FileTenantKeyStore(join(temp.dir, 'wrapped')))).toThrow(/master key/);
+  });
+});
@@ -0,0 +1,142 @@
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import * as zlib from 'zlib';
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import { MerkleLog } from '../../core/ledger/merkleLog';
+import { readLines } from '../../core/ledger/ledgerFile';
+import { compressSealedSegments, readManifest } from '../../core/ledger/ledgerRotation';
+import { compress, compressionOf, decompress, sha256 } from '../../core/ledger/segmentCompression';
+import { createdAt, makeAtomic, useTempLedger } from './helpers';
+
+const hasZstd = typeof (zlib as unknown as { zstdCompressSync?: unknown }).zstdCompressSync === 'function';
+
+async function fillTwoMonths(ledger: Ledger): Promise<void> {
+  for (let n = 1; n <= 4; n++) {
+    await ledger.append(makeAtomic(n % 2 === 0 ? 'even' : 'odd', n, createdAt(`2024-01-0${n}T00:00:00.000Z`)));
+  }
+  await ledger.append(makeAtomic('odd', 5, createdAt('2024-02-01T00:00:00.000Z')));
+}
+
+describe('Segment compression', () => {
+  const temp = useTempLedger('compression');
+
+  it('should detect the codec from the file name', () => {
+    expect(compressionOf('ledger.000001.jsonl.gz')).toBe('gzip');
+    expect(compressionOf('ledger.000001.jsonl.zst')).toBe('zstd');
+    expect(compressionOf('ledger.000001.jsonl')).toBeUndefined();
+  });
+
+  it('should compress segments on seal and read them transparently', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { rotation: { policy: 'monthly', compression: 'gzip' } });
+    await fillTwoMonths(ledger);
+
+    const [segment] = readManifest(temp.ledgerPath).segments;
+    expect(segment.file).toBe('ledger.000001.jsonl.gz');
+    expect(segment.compression).toBe('gzip');
+    expect(existsSync(join(temp.dir, 'ledger.000001.jsonl'))).toBe(false);
+
+    const stored = readFileSync(join(temp.dir, segment.file));
+    expect(segment.compressed_sha256).toBe(sha256(stored));
+    expect(segment.compressed_bytes).toBe(stored.length);
+    expect(segment.sha256).toBe(sha256(decompress(stored, 'gzip')));
+
+    const { atomics } = await ledger.scan({ limit: 100 });
+    expect(atomics.map(a => a.this)).toEqual(['step-1', 'step-2', 'step-3', 'step-4', 'segment/2', 'step-5']);
+
+    const even = await ledger.query({ trace_id: 'even' });
+    expect(even.map(a => a.this)).toEqual(['step-2', 'step-4']);
+
+    const page = await ledger.scan({ cursor: '2', limit: 2 });
+    expect(page.atomics.map(a => a.this)).toEqual(['step-3', 'step-4']);
+    expect(page.next_cursor).toBe('4');
+
+    expect(new MerkleLog(temp.ledgerPath).size).toBe(6);
+
+    const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath);
+    expect(summary.total).toBe(6);
+    expect(summary.invalid).toBe(0);
+  });
+
+  it('should compress already sealed segments without changing what readers see', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { rotation: { policy: 'monthly' } });
+    await fillTwoMonths(ledger);
+    const before = (await ledger.scan({ limit: 100 })).atomics;
+    const root = new MerkleLog(temp.ledgerPath).root();
+
+    const compressed = await compressSealedSegments(temp.ledgerPath, 'gzip');
+
+    expect(compressed).toHaveLength(1);
+    expect(existsSync(join(temp.dir, 'ledger.000001.jsonl.gz.idx'))).toBe(true);
+    expect((await new Ledger(temp.ledgerPath).scan({ limit: 100 })).atomics).toEqual(before);
+    expect(new MerkleLog(temp.ledgerPath).root()).toBe(root);
+    expect(await compressSealedSegments(temp.ledgerPath, 'gzip')).toEqual([]);
+  });
+
+  it('should read lines from an uncompressed offset', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { rotation: { policy: 'monthly', compression: 'gzip' } });
+    await fillTwoMonths(ledger);
+
+    const path = join(temp.dir, 'ledger.000001.jsonl.gz');
+    const all = [];
+    for await (const entry of readLines(path)) {
+      all.push(entry);
+    }
+    const fromThird = [];
+    for await (const entry of readLines(path, all[2].offset)) {
+      fromThird.push(entry);
+    }
+
+    expect(all).toHaveLength(4);
+    expect(fromThird.map(e => e.offset)).toEqual([all[2].offset, all[3].offset]);
+    expect(fromThird[0].line.equals(all[2].line)).toBe(true);
+  });
+
+  it('should report segments that no longer match the manifest checksums', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { rotation: { policy: 'monthly', compression: 'gzip' } });
+    await fillTwoMonths(ledger);
+
+    // Same content, different compressed bytes
+    const path = join(temp.dir, 'ledger.000001.jsonl.gz');
+    const original = decompress(readFileSync(path), 'gzip');
+    writeFileSync(path, zlib.gzipSync(original, { level: 1 }));
+
+    const summary = await new LedgerVerifier().verifyFile(temp.ledgerPath);
+    const errors = summary.results.filter(r => r.error?.code === 'SEGMENT_CHECKSUM_MISMATCH');
+    expect(errors).toHaveLength(1);
+    expect(errors[0].error?.message).toContain('compressed');
+    expect(summary.invalid).toBe(1);
+  });
+
+  it('should rebuild the lost index of a compressed segment by streaming it', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { rotation: { policy: 'monthly', compression: 'gzip' } });
+    await fillTwoMonths(ledger);
+    const indexPath = join(temp.dir, 'ledger.000001.jsonl.gz.idx');
+    const index = readFileSync(indexPath, 'utf-8');
+
+    rmSync(indexPath);
+    expect(() => new Ledger(temp.ledgerPath)).toThrow(/logline-cli compress/);
+
+    expect(await compressSealedSegments(temp.ledgerPath, 'gzip')).toHaveLength(1);
+    expect(readFileSync(indexPath, 'utf-8')).toBe(index);
+    expect((await new Ledger(temp.ledgerPath).scan({ limit: 100 })).atomics).toHaveLength(6);
+  });
+
+  (hasZstd ? it : it.skip)('should compress segments with zstd', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { rotation: { policy: 'monthly', compression: 'zstd' } });
+    await fillTwoMonths(ledger);
+
+    const [segment] = readManifest(temp.ledgerPath).segments;
+    const stored = readFileSync(join(temp.dir, segment.file));
+    expect(segment).toMatchObject({ file: 'ledger.000001.jsonl.zst', compression: 'zstd', compressed_sha256: sha256(stored) });
+    expect(segment.sha256).toBe(sha256(decompress(stored, 'zstd')));
+    expect((await ledger.scan({ limit: 100 })).atomics).toHaveLength(6);
+  });
+
+  (hasZstd ? it.skip : it)('should refuse zstd up front on runtimes without it', async () => {
+    const zstdRuntime = /zstd compression requires Node\.js/;
+    expect(() => new Ledger(temp.ledgerPath, { rotation: { policy: 'monthly', compression: 'zstd' } })).toThrow(zstdRuntime);
+    await expect(compressSealedSegments(temp.ledgerPath, 'zstd')).rejects.toThrow(zstdRuntime);
+    expect(() => compress(Buffer.from('x'), 'zstd')).toThrow(zstdRuntime);
+  });
+});
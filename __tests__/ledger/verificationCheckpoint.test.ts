@@ -0,0 +1,144 @@
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerVerifier } from '../../core/ledger/verifyLedger';
+import {
+  PrefixModifiedError,
+  VerificationCheckpointError,
+  verificationCheckpointPath,
+} from '../../core/ledger/verificationCheckpoint';
+import { generateKeyPair } from '../../core/crypto';
+import { makeAtomic, useTempLedger } from './helpers';
+
+describe('Incremental verification', () => {
+  const temp = useTempLedger('verification-checkpoint');
+  let signingKeyHex: string;
+
+  beforeEach(() => {
+    signingKeyHex = generateKeyPair().privateKey;
+  });
+
+  async function fill(ledger: Ledger, from: number, to: number): Promise<void> {
+    for (let n = from; n <= to; n++) {
+      await ledger.append(makeAtomic(`trace-${n % 2}`, n));
+    }
+  }
+
+  it('should verify only the lines appended since the checkpoint', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    await fill(ledger, 1, 3);
+
+    const verifier = new LedgerVerifier();
+    const first = await verifier.verifyFile(temp.ledgerPath, { incremental: { signingKeyHex } });
+    expect(first.total).toBe(3);
+    expect(first.resumed).toBeUndefined();
+    expect(first.checkpoint).toMatchObject({ lines: 3, offset: readFileSync(temp.ledgerPath).length });
+    expect(existsSync(verificationCheckpointPath(temp.ledgerPath))).toBe(true);
+
+    await fill(ledger, 4, 5);
+    const second = await verifier.verifyFile(temp.ledgerPath, { incremental: { signingKeyHex } });
+    expect(second.resumed).toEqual({ lines: 3, offset: first.checkpoint!.offset });
+    expect(second.total).toBe(2);
+    expect(second.invalid).toBe(0);
+    expect(second.results.map(r => r.line)).toEqual([4, 5]);
+    expect(second.checkpoint?.lines).toBe(5);
+
+    const unchanged = await verifier.verifyFile(temp.ledgerPath, { incremental: { signingKeyHex } });
+    expect(unchanged.total).toBe(0);
+  });
+
+  it('should sign and check checkpoints with a non-Ed25519 key', async () => {
+    await fill(new Ledger(temp.ledgerPath), 1, 3);
+    const incremental = { signingKeyHex: generateKeyPair('ES256K').privateKey, signingAlg: 'ES256K' as const };
+
+    const verifier = new LedgerVerifier();
+    const first = await verifier.verifyFile(temp.ledgerPath, { incremental });
+    expect(first.checkpoint?.signature?.alg).toBe('ES256K');
+    expect(await verifier.verifyFile(temp.ledgerPath, { incremental })).toMatchObject({ total: 0, resumed: { lines: 3 } });
+    await expect(verifier.verifyFile(temp.ledgerPath, { incremental: { signingKeyHex } })).rejects.toThrow(VerificationCheckpointError);
+  });
+
+  it('should carry the chain heads across the checkpoint', async () => {
+    const ledger = new Ledger(temp.ledgerPath, { chainMode: 'trace' });
+    await fill(ledger, 1, 4);
+
+    const verifier = new LedgerVerifier();
+    const options = { chainMode: 'trace' as const, incremental: { signingKeyHex } };
+    await verifier.verifyFile(temp.ledgerPath, options);
+
+    const lines = readFileSync(temp.ledgerPath, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    const branch = makeAtomic('trace-1', 5);
+    branch.prev = lines[0].hash; // trace-1 head is line 3
+    await ledger.append(branch);
+    await fill(ledger, 6, 6);
+
+    const summary = await verifier.verifyFile(temp.ledgerPath, options);
+    expect(summary.results.map(r => [r.line, r.error?.code])).toEqual([
+      [5, 'FORK_DETECTED'],
+      [6, undefined],
+    ]);
+    expect(summary.checkpoint).toBeUndefined();
+
+    // The failed run did not move the checkpoint
+    const again = await verifier.verifyFile(temp.ledgerPath, options);
+    expect(again.resumed?.lines).toBe(4);
+  });
+
+  it('should report a branch off the verified prefix as a full run does', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    const { atomic: a } = await ledger.appendAtomic(makeAtomic('trace-1', 1));
+    await ledger.append(makeAtomic('trace-1', 2));
+
+    const verifier = new LedgerVerifier();
+    const incremental = { signingKeyHex };
+    expect((await verifier.verifyFile(temp.ledgerPath, { incremental })).checkpoint?.lines).toBe(2);
+
+    await ledger.append({ ...makeAtomic('trace-1', 3), prev: a.hash });
+    await ledger.append({ ...makeAtomic('trace-1', 4), prev: 'f'.repeat(64) });
+
+    const full = await verifier.verifyFile(temp.ledgerPath);
+    const resumed = await verifier.verifyFile(temp.ledgerPath, { incremental });
+    expect(resumed.resumed?.lines).toBe(2);
+    expect(resumed.results.map(r => [r.line, r.error?.code])).toEqual([
+      [3, 'FORK_DETECTED'],
+      [4, 'CHAIN_BROKEN'],
+    ]);
+    expect(resumed.results).toEqual(full.results.slice(2));
+  });
+
+  it('should fail clearly when the verified prefix was modified', async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    await fill(ledger, 1, 3);
+    const verifier = new LedgerVerifier();
+    await verifier.verifyFile(temp.ledgerPath, { incremental: { signingKeyHex } });
+
+    const original = readFileSync(temp.ledgerPath, 'utf-8');
+    writeFileSync(temp.ledgerPath, original.replace('step-2', 'step-X'));
+    appendFileSync(temp.ledgerPath, JSON.stringify(makeAtomic('trace-0', 4)) + '\n');
+    await expect(verifier.verifyFile(temp.ledgerPath, { incremental: { signingKeyHex } })).rejects.toThrow(
+      PrefixModifiedError
+    );
+
+    writeFileSync(temp.ledgerPath, original.split('\n').slice(0, 2).join('\n') + '\n');
+    await expect(verifier.verifyFile(temp.ledgerPath, { incremental: { signingKeyHex } })).rejects.toThrow(
+      /modified within its first \d+ bytes \(3 lines\)/
+    );
+  });
+
+  it('should refuse checkpoints not signed by the checkpoint key', async () => {
+    await fill(new Ledger(temp.ledgerPath), 1, 2);
+    const verifier = new LedgerVerifier();
+    await verifier.verifyFile(temp.ledgerPath, { incremental: { signingKeyHex } });
+
+    const path = verificationCheckpointPath(temp.ledgerPath);
+    const checkpoint = JSON.parse(readFileSync(path, 'utf-8'));
+    writeFileSync(path, JSON.stringify({ ...checkpoint, lines: 1 }));
+
+    await expect(verifier.verifyFile(temp.ledgerPath, { incremental: { signingKeyHex } })).rejects.toThrow(
+      VerificationCheckpointError
+    );
+    await expect(
+      verifier.verifyFile(temp.ledgerPath, { incremental: { signingKeyHex: generateKeyPair().privateKey } })
+    ).rejects.toThrow(/not signed by the checkpoint key/);
+  });
+});
@@ -0,0 +1,65 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Ledger } from '../../core/ledger/ledger';
+import { LedgerVerifier, type VerifySummary } from '../../core/ledger/verifyLedger';
+import { renderHtml, renderJUnit, renderReport, renderSarif } from '../../core/ledger/verifyReport';
+import type { Atomic } from '../../types';
+import { makeAtomic, useTempLedger } from './helpers';
+
+describe('Verification reports', () => {
+  const temp = useTempLedger('verify-report');
+  let summary: VerifySummary;
+  const options = { ledgerPath: 'data/ledger.jsonl', generatedAt: new Date('2024-06-01T00:00:00.000Z') };
+
+  beforeEach(async () => {
+    const ledger = new Ledger(temp.ledgerPath);
+    await ledger.append(makeAtomic('trace-a', 1));
+    await ledger.append(makeAtomic('<script>alert(1)</script>', 2));
+    await ledger.append(makeAtomic('trace-a', 3));
+
+    const lines = readFileSync(temp.ledgerPath, 'utf-8').split('\n');
+    lines[1] = lines[1].replace('step-2', 'step-two');
+    writeFileSync(temp.ledgerPath, lines.join('\n') + JSON.stringify(makeAtomic('trace-b', 4)) + '\n');
+
+    summary = await new LedgerVerifier().verifyFile(temp.ledgerPath);
+  });
+
+  it('should render JUnit test cases with error codes and trace ids', () => {
+    const xml = renderJUnit(summary, options);
+
+    expect(xml).toContain('<testsuite name="data/ledger.jsonl" tests="4" failures="2" errors="0" skipped="1"');
+    expect(xml).toContain('<testcase name="line 1" classname="trace-a"/>');
+    expect(xml).toMatch(/<testcase name="line 2" classname="&lt;script&gt;alert\(1\)&lt;\/script&gt;">\s*<failure type="HASH_MISMATCH"/);
+    expect(xml).toMatch(/<testcase name="line 3" classname="trace-a">\s*<failure type="CHAIN_BROKEN"/);
+    expect(xml).toMatch(/<skipped message="MISSING_HASH: Atomic does not have hash field"\/>/);
+  });
+
+  it('should render SARIF results located at ledger lines', () => {
+    const sarif = JSON.parse(renderSarif(summary, { ...options, toolVersion: '1.1.0' }));
+    const [run] = sarif.runs;
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toEqual(['CHAIN_BROKEN', 'HASH_MISMATCH', 'MISSING_HASH']);
+    expect(run.results.map((r: any) => [r.ruleId, r.level, r.locations[0].physicalLocation.region.startLine])).toEqual([
+      ['HASH_MISMATCH', 'error', 2],
+      ['CHAIN_BROKEN', 'error', 3],
+      ['MISSING_HASH', 'warning', 4],
+    ]);
+    expect(run.results[1].properties.trace_id).toBe('trace-a');
+    expect(run.results[1].message.text).toContain('(trace_id: trace-a)');
+    expect(run.results[0].locations[0].physicalLocation.artifactLocation.uri).toBe('data/ledger.jsonl');
+  });
+
+  it('should render a self-contained HTML report', () => {
+    const html = renderHtml(summary, options);
+
+    expect(html).toContain('<span class="status failed">failed</span>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toMatch(/<script|<link|src=|href=/);
+    expect(html).toContain('<code>CHAIN_BROKEN</code>');
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => renderReport('pdf' as never, summary, options)).toThrow(/Unknown report format/);
+  });
+});
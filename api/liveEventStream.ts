@@ -6,7 +6,7 @@
 import { Application } from "https://deno.land/x/oak/mod.ts"
 import { Ledger } from "../core/ledger/ledger.ts"
 
-const ledger = new Ledger("./data/ledger.jsonl")
+const ledger = new Ledger(Deno.env.get("LEDGER_PATH") || "./data/ledger.jsonl")
 const clients: Set<any> = new Set()
 
 const app = new Application()
@@ -24,14 +24,17 @@ app.use(async (ctx, next) => {
   }
 })
 
-// Gera evento SSE após append
-ledger.onSpanAppended = (atomic: any) => {
-  for (const ctx of clients) {
-    ctx.response.write(`event: span_appended\ndata: ${JSON.stringify(atomic)}\n\n`)
+// Gera evento SSE após append (de qualquer processo que escreva no ledger)
+async function broadcastAppends() {
+  for await (const atomic of ledger.follow()) {
+    for (const ctx of clients) {
+      ctx.response.write(`event: span_appended\ndata: ${JSON.stringify(atomic)}\n\n`)
+    }
   }
 }
 
 if (import.meta.main) {
+  broadcastAppends()
   app.listen({ port: 9820 })
   console.log("Live event stream on :9820/events")
 }
\ No newline at end of file
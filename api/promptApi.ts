@@ -4,27 +4,27 @@
  */
 
 import { Router, Application } from "https://deno.land/x/oak/mod.ts"
-import { canonicalize } from "../core/canonical.ts"
-import { blake3 } from "@noble/hashes/blake3"
+import { hashAtomic } from "../core/crypto.ts"
+import type { Atomic } from "../types.ts"
 
 const router = new Router()
 router.post("/prompt", async (ctx) => {
   const { prompt, intent, entity_type, actor } = await ctx.request.body({ type: "json" }).value
 
   // Estrutura atomic
-  const atomic = {
+  const atomic: Atomic = {
+    schema_version: "1.1.0",
     entity_type: entity_type || "function",
     intent: intent || "run_code",
+    this: `prompt/${intent || "run_code"}`,
+    trace_id: crypto.randomUUID(),
     did: { actor: actor || "llm", action: intent || "run_code" },
     input: { prompt },
     metadata: {
-      trace_id: crypto.randomUUID(),
       created_at: new Date().toISOString()
     }
   }
-  const canonical = canonicalize(atomic)
-  const curr_hash = Buffer.from(blake3(new TextEncoder().encode(canonical))).toString("hex")
-  atomic.curr_hash = curr_hash
+  atomic.hash = hashAtomic(atomic)
 
   ctx.response.body = { atomic }
 })
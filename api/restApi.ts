@@ -1,6 +1,17 @@
 import { Application, Router } from "https://deno.land/x/oak/mod.ts"
 import { Ledger } from '../core/ledger/ledger.ts'
 import { LedgerVerifier } from '../core/ledger/verifyLedger.ts'
+import { MerkleLog } from '../core/ledger/merkleLog.ts'
+import { Keyring } from '../core/ledger/keyring.ts'
+import { FilterSyntaxError, parseFilter } from '../core/ledger/filterExpression.ts'
+import { cosignAtomic, MultiSigError } from '../core/multisig.ts'
+import { TIME_BUCKETS, type TimeBucket } from '../core/ledger/ledgerAggregation.ts'
+import { checkCompression } from '../core/ledger/segmentCompression.ts'
+import { FileTenantKeyStore } from '../core/ledger/tenantKeys.ts'
+import { Keystore, resolvePrivateKey } from '../core/ledger/keystore.ts'
+import { FileBlobStore, type BlobStore } from '../core/ledger/blobStore.ts'
+import { S3BlobStore } from '../core/storage/s3Backend.ts'
+import type { ChainMode, RotationPolicy, SignatureAlg } from '../types.ts'
 
 /**
  * REST API Layer: append, scan, query, verify + API Key Auth
@@ -16,9 +27,65 @@ if (!API_KEY || API_KEY === "changeme") {
 }
 
 const LEDGER_PATH = Deno.env.get("LEDGER_PATH") || './data/ledger.jsonl'
-const ledger = new Ledger(LEDGER_PATH)
+const CHAIN_MODE = (Deno.env.get("LEDGER_CHAIN_MODE") || 'global') as ChainMode
+const ROTATION = Deno.env.get("LEDGER_ROTATION") as RotationPolicy | undefined
+const MAX_SIZE = Deno.env.get("LEDGER_MAX_SIZE")
+// Fails at startup, not at the first seal, when the runtime lacks the codec (zstd needs Node.js 22.15+)
+const COMPRESSION = Deno.env.get("LEDGER_COMPRESSION") ? checkCompression(Deno.env.get("LEDGER_COMPRESSION")!) : undefined
+const TENANT_KEYS_DIR = Deno.env.get("TENANT_KEYS_DIR")
+const tenantKeys = TENANT_KEYS_DIR
+  ? new FileTenantKeyStore(TENANT_KEYS_DIR, { masterKeyHex: Deno.env.get("TENANT_MASTER_KEY_HEX") || undefined })
+  : undefined
+const KEYSTORE_DIR = Deno.env.get("KEYSTORE_DIR") || './data/keystore'
+const BLOB_STORE = Deno.env.get("BLOB_STORE")
+const BLOB_THRESHOLD = Deno.env.get("BLOB_THRESHOLD")
+const blobStore: BlobStore | undefined = BLOB_STORE
+  ? (BLOB_STORE === "s3" ? new S3BlobStore() : new FileBlobStore(BLOB_STORE))
+  : undefined
+const signingKey = signingKeyFromEnv("SIGNING_KEY_HEX", "SIGNING_KEY_ALG")
+const pqSigningKey = signingKeyFromEnv("SIGNING_PQ_KEY_HEX", "SIGNING_PQ_KEY_ALG")
+const ledger = new Ledger(LEDGER_PATH, {
+  chainMode: CHAIN_MODE,
+  signingKeyHex: signingKey?.privateKeyHex,
+  signingAlg: signingKey?.alg,
+  pqSigningKeyHex: pqSigningKey?.privateKeyHex,
+  pqSigningAlg: pqSigningKey?.alg,
+  rotation: ROTATION
+    ? { policy: ROTATION, maxSizeBytes: MAX_SIZE ? parseInt(MAX_SIZE) : undefined, compression: COMPRESSION || undefined }
+    : undefined,
+  encryption: tenantKeys ? { keyStore: tenantKeys } : undefined,
+  selectiveDisclosure: Deno.env.get("LEDGER_SELECTIVE_DISCLOSURE") === "true",
+  blobs: blobStore ? { store: blobStore, threshold: BLOB_THRESHOLD ? parseInt(BLOB_THRESHOLD) : undefined } : undefined
+})
+const merkleLog = new MerkleLog(LEDGER_PATH)
+const KEYRING_PATH = Deno.env.get("LEDGER_KEYRING")
 const router = new Router()
 
+/**
+ * A signing key from the environment: raw hex, or a keystore reference
+ * (keystore:<label>) unlocked with KEYSTORE_PASSPHRASE
+ */
+function signingKeyFromEnv(keyVar: string, algVar: string): { privateKeyHex: string; alg?: SignatureAlg } | undefined {
+  const value = Deno.env.get(keyVar)
+  if (!value) {
+    return undefined
+  }
+  const key = resolvePrivateKey(value, () => new Keystore(KEYSTORE_DIR), () => Deno.env.get("KEYSTORE_PASSPHRASE"))
+  return { privateKeyHex: key.privateKeyHex, alg: key.alg ?? (Deno.env.get(algVar) || undefined) as SignatureAlg | undefined }
+}
+
+/**
+ * The `where` filter of a request, checked first: requests may not run
+ * regular expressions against the ledger
+ */
+function whereParam(params: URLSearchParams): string | undefined {
+  const where = params.get("where") || undefined
+  if (where) {
+    parseFilter(where, { regex: false })
+  }
+  return where
+}
+
 function auth(ctx: any): boolean {
   if (!API_KEY) {
     return false
@@ -35,6 +102,23 @@ router
     ctx.response.status = 201
     ctx.response.body = { cursor }
   })
+  .post("/cosign", async (ctx) => {
+    if (!auth(ctx)) return ctx.response.status = 401
+    if (!signingKey) {
+      ctx.response.status = 503
+      ctx.response.body = { error: "SIGNING_KEY_HEX not configured" }
+      return
+    }
+    // Adds this node's signature to a multisig atomic before it is appended
+    const atomic = await ctx.request.body({ type: "json" }).value
+    try {
+      ctx.response.body = cosignAtomic(atomic, signingKey.privateKeyHex, signingKey.alg)
+    } catch (err) {
+      if (!(err instanceof MultiSigError)) throw err
+      ctx.response.status = 400
+      ctx.response.body = { error: err.message }
+    }
+  })
   .get("/scan", async (ctx) => {
     if (!auth(ctx)) return ctx.response.status = 401
     const { limit, cursor, status } = ctx.request.url.searchParams
@@ -43,23 +127,140 @@ router
   })
   .get("/query", async (ctx) => {
     if (!auth(ctx)) return ctx.response.status = 401
-    const { trace_id } = ctx.request.url.searchParams
-    const results = await ledger.query({ trace_id })
-    ctx.response.body = results
+    const params = ctx.request.url.searchParams
+    try {
+      ctx.response.body = await ledger.query({
+        trace_id: params.get("trace_id") || undefined,
+        entity_type: params.get("entity_type") || undefined,
+        tenant_id: params.get("tenant_id") || undefined,
+        where: whereParam(params)
+      })
+    } catch (err) {
+      if (!(err instanceof FilterSyntaxError)) throw err
+      ctx.response.status = 400
+      ctx.response.body = { error: err.message }
+    }
+  })
+  .get("/stats", async (ctx) => {
+    if (!auth(ctx)) return ctx.response.status = 401
+    ctx.response.body = await ledger.getStats()
+  })
+  .get("/stats/aggregate", async (ctx) => {
+    if (!auth(ctx)) return ctx.response.status = 401
+    const params = ctx.request.url.searchParams
+    const bucket = params.get("bucket") || undefined
+    if (bucket && !TIME_BUCKETS.includes(bucket as TimeBucket)) {
+      ctx.response.status = 400
+      ctx.response.body = { error: `bucket must be one of ${TIME_BUCKETS.join(", ")}` }
+      return
+    }
+    try {
+      ctx.response.body = await ledger.aggregate({
+        groupBy: params.get("group_by")?.split(",").filter(Boolean),
+        bucket: bucket as TimeBucket | undefined,
+        timeField: params.get("time_field") || undefined,
+        where: whereParam(params)
+      })
+    } catch (err) {
+      if (!(err instanceof FilterSyntaxError)) throw err
+      ctx.response.status = 400
+      ctx.response.body = { error: err.message }
+    }
   })
   .get("/verify", async (ctx) => {
     if (!auth(ctx)) return ctx.response.status = 401
     const publicKey = Deno.env.get("PUBLIC_KEY_HEX")
     const verifier = new LedgerVerifier(publicKey)
-    const result = await verifier.verifyFile(LEDGER_PATH)
+    const result = await verifier.verifyFile(LEDGER_PATH, {
+      chainMode: CHAIN_MODE,
+      // Reloaded per request so revocations apply without a restart
+      keyring: KEYRING_PATH ? Keyring.load(KEYRING_PATH) : undefined,
+      blobs: blobStore
+    })
     ctx.response.body = result
   })
+  .get("/heads", (ctx) => {
+    if (!auth(ctx)) return ctx.response.status = 401
+    ctx.response.body = ledger.getChainHeads()
+  })
+  .get("/merkle/checkpoint", (ctx) => {
+    if (!auth(ctx)) return ctx.response.status = 401
+    const latest = merkleLog.latestCheckpoint()
+    if (!latest) {
+      ctx.response.status = 404
+      ctx.response.body = { error: "No checkpoint published yet" }
+      return
+    }
+    ctx.response.body = latest
+  })
+  .post("/merkle/checkpoint", async (ctx) => {
+    if (!auth(ctx)) return ctx.response.status = 401
+    if (!signingKey) {
+      ctx.response.status = 503
+      ctx.response.body = { error: "SIGNING_KEY_HEX not configured" }
+      return
+    }
+    ctx.response.status = 201
+    ctx.response.body = await merkleLog.publishCheckpoint(signingKey.privateKeyHex, signingKey.alg)
+  })
+  .get("/merkle/inclusion", (ctx) => {
+    if (!auth(ctx)) return ctx.response.status = 401
+    const params = ctx.request.url.searchParams
+    const hash = params.get("hash")
+    const treeSize = params.get("tree_size")
+    if (!hash) {
+      ctx.response.status = 400
+      ctx.response.body = { error: "hash is required" }
+      return
+    }
+    try {
+      ctx.response.body = merkleLog.proveInclusion(hash, treeSize ? Number(treeSize) : undefined)
+    } catch (err) {
+      ctx.response.status = 404
+      ctx.response.body = { error: String(err) }
+    }
+  })
+  .get("/merkle/consistency", (ctx) => {
+    if (!auth(ctx)) return ctx.response.status = 401
+    const params = ctx.request.url.searchParams
+    const oldSize = params.get("old_size")
+    const newSize = params.get("new_size")
+    if (!oldSize) {
+      ctx.response.status = 400
+      ctx.response.body = { error: "old_size is required" }
+      return
+    }
+    try {
+      ctx.response.body = merkleLog.proveConsistency(Number(oldSize), newSize ? Number(newSize) : undefined)
+    } catch (err) {
+      ctx.response.status = 400
+      ctx.response.body = { error: String(err) }
+    }
+  })
+  .delete("/tenants/:tenant_id/key", async (ctx) => {
+    if (!auth(ctx)) return ctx.response.status = 401
+    if (!tenantKeys) {
+      ctx.response.status = 503
+      ctx.response.body = { error: "TENANT_KEYS_DIR not configured" }
+      return
+    }
+    // Crypto-shredding: the tenant's encrypted payloads become unreadable for good
+    const tenantId = ctx.params.tenant_id!
+    const destroyed = await tenantKeys.shred(tenantId)
+    ctx.response.body = { tenant_id: tenantId, destroyed_keys: destroyed }
+  })
 
 const app = new Application()
 app.use(router.routes())
 app.use(router.allowedMethods())
 
 if (import.meta.main) {
+  // Publica checkpoints assinados periodicamente, se configurado
+  const checkpointInterval = Deno.env.get("CHECKPOINT_INTERVAL_MS")
+  if (checkpointInterval && signingKey) {
+    merkleLog.startCheckpointing(signingKey.privateKeyHex, parseInt(checkpointInterval), signingKey.alg)
+  }
+
   const port = parseInt(Deno.env.get("PORT") || "8000")
   app.listen({ port })
   console.log(`REST API running on http://localhost:${port}`)
@@ -1,45 +1,115 @@
 /**
  * Canonical JSON serialization for deterministic hashing
- * 
- * This implementation follows a simplified approach similar to RFC 8785 (JCS)
- * with the following rules:
- * 
+ *
+ * Two canonicalizations exist, and an atomic names the one its hash was
+ * computed with in `canonicalization` (which the hash covers):
+ *
+ * - `JsonAtomic/jcs/v1`: RFC 8785 (JSON Canonicalization Scheme), what new
+ *   atomics are hashed with and what other implementations should produce.
+ *   See `canonicalizeJcs`.
+ * - `JsonAtomic/c14n/v1`: the original serialization, implied when an atomic
+ *   names none, so atomics hashed before JCS still verify. See `canonicalize`.
+ *
+ * The published vectors in test-vectors/canonicalization.json pin both the
+ * canonical text and its BLAKE3 hash for JCS.
+ */
+
+import type { CanonicalizationId } from '../types.js'
+
+export const CANONICALIZATION_LEGACY: CanonicalizationId = 'JsonAtomic/c14n/v1'
+export const CANONICALIZATION_JCS: CanonicalizationId = 'JsonAtomic/jcs/v1'
+
+/**
+ * The canonicalization an atomic's `canonicalization` field names (none: the original one)
+ */
+export function canonicalizerFor(id: unknown): (value: unknown) => string {
+  if (id === undefined || id === CANONICALIZATION_LEGACY) {
+    return canonicalize
+  }
+  if (id === CANONICALIZATION_JCS) {
+    return canonicalizeJcs
+  }
+  throw new Error(`Unknown canonicalization: ${String(id)}`)
+}
+
+/**
+ * RFC 8785 canonical JSON
+ *
+ * - Object keys are sorted by their UTF-16 code units, without whitespace
+ * - Strings are written as ECMAScript JSON.stringify writes them: only `"`,
+ *   `\` and control characters are escaped. Strings are NOT Unicode
+ *   normalized: RFC 8785 requires them to be kept as they are, so "é" and
+ *   "e" + U+0301 canonicalize (and hash) differently. Lone surrogates are
+ *   rejected.
+ * - Numbers are written as ECMAScript Number.prototype.toString writes them
+ *   (shortest round-trip form, `1e+21` from 1e21 on, -0 as 0); NaN and
+ *   Infinity are rejected
+ * - As in JSON.stringify, `toJSON` is honored, undefined object members are
+ *   left out and undefined array items are written as null
+ */
+export function canonicalizeJcs(value: unknown): string {
+  const json = serializeJcs(value)
+  if (json === undefined) {
+    throw new Error('Cannot canonicalize type: undefined')
+  }
+  return json
+}
+
+function serializeJcs(value: unknown): string | undefined {
+  if (typeof (value as { toJSON?: unknown } | null)?.toJSON === 'function') {
+    value = (value as { toJSON(): unknown }).toJSON()
+  }
+  if (value === null) {
+    return 'null'
+  }
+
+  switch (typeof value) {
+    case 'undefined':
+      return undefined
+    case 'boolean':
+      return value ? 'true' : 'false'
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error('Cannot canonicalize non-finite number')
+      }
+      return String(value)
+    case 'string':
+      if (/[\uD800-\uDFFF]/u.test(value)) {
+        throw new Error('Cannot canonicalize a string with a lone surrogate')
+      }
+      return JSON.stringify(value)
+    case 'object': {
+      if (Array.isArray(value)) {
+        return '[' + value.map(item => serializeJcs(item) ?? 'null').join(',') + ']'
+      }
+      const pairs: string[] = []
+      // Default sort order is by UTF-16 code units, as RFC 8785 requires
+      for (const key of Object.keys(value).sort()) {
+        const member = serializeJcs((value as Record<string, unknown>)[key])
+        if (member !== undefined) {
+          pairs.push(serializeJcs(key) + ':' + member)
+        }
+      }
+      return '{' + pairs.join(',') + '}'
+    }
+  }
+
+  throw new Error(`Cannot canonicalize type: ${typeof value}`)
+}
+
+/**
+ * The original canonical JSON (`JsonAtomic/c14n/v1`), kept so atomics
+ * hashed with it still verify. Close to, but NOT, RFC 8785:
+ *
  * 1. Object keys are sorted lexicographically
  * 2. No whitespace between elements
  * 3. Consistent string escaping via JSON.stringify
  * 4. Numbers are serialized as-is (finite numbers only)
  * 5. Arrays preserve order
- * 
- * IMPORTANT NOTES:
- * - **Unicode normalization**: Strings SHOULD be normalized to NFC (Normalization Form Canonical)
- *   before being passed to this function for maximum cross-platform compatibility.
- *   This function does NOT automatically normalize strings. Applications must ensure
- *   input strings are pre-normalized if deterministic hashing across different Unicode
- *   representations is required.
- * 
- * - **Floating point**: Numbers are converted to strings using JavaScript's
- *   default toString(), which may produce platform-specific representations
- *   for edge cases (e.g., -0, very large exponents). For cross-platform determinism,
- *   consider using integers or string representations for precise numeric values.
- * 
- * - **RFC 8785 Compliance**: This is a custom implementation, NOT fully RFC 8785 compliant.
- *   Main differences:
- *   - No automatic Unicode normalization (must be done by caller)
- *   - Numbers use JavaScript toString() instead of IEEE 754 number serialization
- *   - No special handling for -0 vs +0
- * 
- * For production cross-language compatibility, consider:
- * 1. Using a standard JCS library, OR
- * 2. Documenting exact serialization requirements, OR
- * 3. Using integers/strings for all numeric values
- * 
- * @example
- * // Recommended: Normalize strings before canonicalization
- * const input = { name: "café" }; // May be represented different ways in Unicode
- * const normalized = { name: input.name.normalize('NFC') };
- * const canonical = canonicalize(normalized);
+ * 6. undefined (anywhere) is written as null
+ *
+ * New hashes should use `canonicalizeJcs`.
  */
-
 export function canonicalize(obj: unknown): string {
   if (obj === null || obj === undefined) {
     return 'null'
@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod'
+import type { RotationOptions } from '../ledger/ledgerRotation.js'
 
 const ConfigSchema = z.object({
   app: z.object({
@@ -91,6 +92,17 @@ export function loadConfig(): Config {
   return result.data
 }
 
+/**
+ * `rotation` option of a Ledger built from the configuration: monthly
+ * segments unless LEDGER_ROTATION says otherwise
+ */
+export function ledgerRotation(ledger: Config['ledger'] = getConfig().ledger): RotationOptions {
+  if (ledger.rotationPolicy === 'size' && !ledger.maxSizeBytes) {
+    throw new Error('LEDGER_ROTATION=size requires LEDGER_MAX_SIZE')
+  }
+  return { policy: ledger.rotationPolicy, maxSizeBytes: ledger.maxSizeBytes }
+}
+
 // Singleton instance
 let configInstance: Config | null = null
 
@@ -3,9 +3,10 @@
  */
 
 import { blake3 } from '@noble/hashes/blake3'
-import { ed25519 } from '@noble/curves/ed25519'
-import { canonicalize } from './canonical.js'
-import type { Atomic, Signature } from '../types.js'
+import { canonicalizerFor } from './canonical.js'
+import { hashCommitments } from './disclosure.js'
+import { DEFAULT_PQ_SIGNATURE_ALG, DEFAULT_SIGNATURE_ALG, isPostQuantumAlg, signatureAlgorithm } from './signatureAlgorithms.js'
+import type { Atomic, Signature, SignatureAlg } from '../types.js'
 
 /**
  * Domain separation context for BLAKE3 hashing
@@ -13,14 +14,21 @@ import type { Atomic, Signature } from '../types.js'
 const HASH_CONTEXT = 'JsonAtomic/v1'
 
 /**
- * Generate a deterministic hash for an atomic with domain separation
+ * Generate a deterministic hash for an atomic with domain separation.
+ * Atomics carrying field commitments (`disclosure`) hash the commitments.
  */
 export function hashAtomic(atomic: Atomic): string {
+  if (atomic.disclosure) {
+    return hashCommitments(atomic)
+  }
+
   const atomicForHash = { ...atomic }
   delete (atomicForHash as any).hash
   delete (atomicForHash as any).signature
+  delete (atomicForHash as any).cosignatures
+  delete (atomicForHash as any).pq_signature
   
-  const canonical = canonicalize(atomicForHash)
+  const canonical = canonicalizerFor(atomic.canonicalization)(atomicForHash)
   // Use BLAKE3 with domain separation context
   const hashBytes = blake3(new TextEncoder().encode(canonical), { context: HASH_CONTEXT })
   return Buffer.from(hashBytes).toString('hex')
@@ -31,7 +39,8 @@ export function hashAtomic(atomic: Atomic): string {
  */
 export async function signAtomic(
   atomic: Atomic,
-  privateKeyHex?: string
+  privateKeyHex?: string,
+  alg: SignatureAlg = DEFAULT_SIGNATURE_ALG
 ): Promise<{ hash: string; signature?: Signature }> {
   const hash = hashAtomic(atomic)
   
@@ -40,21 +49,49 @@ export async function signAtomic(
     return { hash }
   }
   
+  return { hash, signature: signHash(hash, privateKeyHex, alg) }
+}
+
+/**
+ * Add a post-quantum signature of the hash beside the classical one (hybrid
+ * signing). Returns a copy; the hash is unchanged.
+ */
+export function addPqSignature(
+  atomic: Atomic,
+  privateKeyHex: string,
+  alg: SignatureAlg = DEFAULT_PQ_SIGNATURE_ALG
+): Atomic {
+  if (!isPostQuantumAlg(alg)) {
+    throw new Error(`Not a post-quantum signature algorithm: ${alg}`)
+  }
+  const hash = hashAtomic(atomic)
+  if (atomic.hash && atomic.hash !== hash) {
+    throw new Error('Atomic does not match its hash')
+  }
+  return { ...atomic, hash, pq_signature: signHash(hash, privateKeyHex, alg) }
+}
+
+/**
+ * Sign a hex hash (atomic, checkpoint, ...) with a private key
+ */
+export function signHash(hash: string, privateKeyHex: string, alg: SignatureAlg = DEFAULT_SIGNATURE_ALG): Signature {
+  const algorithm = signatureAlgorithm(alg)
+  if (!algorithm) {
+    throw new Error(`Unsupported signature algorithm: ${alg}`)
+  }
   const privateKey = Uint8Array.from(Buffer.from(privateKeyHex, 'hex'))
-  const publicKey = ed25519.getPublicKey(privateKey)
-  const signatureBytes = ed25519.sign(
+  const publicKey = algorithm.getPublicKey(privateKey)
+  const signatureBytes = algorithm.sign(
     new TextEncoder().encode(hash),
     privateKey
   )
   
-  const signature: Signature = {
-    alg: 'Ed25519',
+  return {
+    alg,
     public_key: Buffer.from(publicKey).toString('hex'),
     sig: Buffer.from(signatureBytes).toString('hex'),
     signed_at: new Date().toISOString()
   }
-  
-  return { hash, signature }
 }
 
 /**
@@ -68,10 +105,20 @@ export function verifySignature(
     return false
   }
   
-  const signature = atomic.signature
-  
+  return verifyHashSignature(atomic.hash, atomic.signature, publicKeyHex)
+}
+
+/**
+ * Verify a structured signature over a hex hash, with the algorithm it names
+ */
+export function verifyHashSignature(
+  hash: string,
+  signature: Signature,
+  publicKeyHex?: string
+): boolean {
   // Verify signature structure
-  if (signature.alg !== 'Ed25519' || !signature.public_key || !signature.sig) {
+  const algorithm = signatureAlgorithm(signature.alg)
+  if (!algorithm || !signature.public_key || !signature.sig) {
     return false
   }
   
@@ -80,26 +127,26 @@ export function verifySignature(
   const publicKey = Uint8Array.from(Buffer.from(keyToUse, 'hex'))
   const signatureBytes = Uint8Array.from(Buffer.from(signature.sig, 'hex'))
   
-  try {
-    return ed25519.verify(
-      signatureBytes,
-      new TextEncoder().encode(atomic.hash),
-      publicKey
-    )
-  } catch {
-    return false
-  }
+  return algorithm.verify(
+    signatureBytes,
+    new TextEncoder().encode(hash),
+    publicKey
+  )
 }
 
 /**
- * Generate a new Ed25519 key pair
+ * Generate a new key pair (Ed25519 unless another algorithm is given)
  */
-export function generateKeyPair(): {
+export function generateKeyPair(alg: SignatureAlg = DEFAULT_SIGNATURE_ALG): {
   privateKey: string
   publicKey: string
 } {
-  const privateKey = ed25519.utils.randomPrivateKey()
-  const publicKey = ed25519.getPublicKey(privateKey)
+  const algorithm = signatureAlgorithm(alg)
+  if (!algorithm) {
+    throw new Error(`Unsupported signature algorithm: ${alg}`)
+  }
+  const privateKey = algorithm.generatePrivateKey()
+  const publicKey = algorithm.getPublicKey(privateKey)
   
   return {
     privateKey: Buffer.from(privateKey).toString('hex'),
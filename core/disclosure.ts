@@ -0,0 +1,185 @@
+/**
+ * Selective disclosure of atomic fields via salted per-field commitments
+ *
+ * In commitment mode every field of an atomic (each leaf of its object tree,
+ * addressed by JSON pointer: `/input/env`, `/output/stdout`, ...) is committed
+ * as BLAKE3(canonical([salt, pointer, value])) with a random salt, and the
+ * atomic hash covers the sorted map of commitments instead of the fields
+ * themselves. The salts travel in `atomic.disclosure.salts`.
+ *
+ * Redacting a field drops its value and salt and keeps only its commitment
+ * (`disclosure.redacted`), so the redacted atomic still hashes to the same
+ * value and its signature still verifies, while the dropped value cannot be
+ * guessed from the commitment thanks to the salt.
+ *
+ * Arrays and primitives are leaves; objects are descended into (an empty
+ * object is a leaf of its own). Commitments use the atomic's canonicalization.
+ */
+
+import { blake3 } from '@noble/hashes/blake3'
+import { randomBytes } from '@noble/hashes/utils'
+import { canonicalizerFor } from './canonical.js'
+import type { Atomic, FieldDisclosure } from '../types.js'
+
+export const DISCLOSURE_SCHEME = 'JsonAtomic/sd/v1'
+
+const COMMITMENT_CONTEXT = 'JsonAtomic/sd-field/v1'
+const HASH_CONTEXT = 'JsonAtomic/sd/v1'
+const SALT_BYTES = 16
+
+/** Fields outside the commitments: they are derived from them */
+const UNCOMMITTED_FIELDS = new Set(['hash', 'signature', 'cosignatures', 'pq_signature', 'disclosure'])
+
+export interface DisclosureReport {
+  /** Pointers of the fields present in the atomic */
+  disclosed: string[]
+  /** Pointers of the fields dropped from it */
+  redacted: string[]
+}
+
+/**
+ * Put an atomic in commitment mode by giving every field a fresh salt, in
+ * place. Must happen before the atomic is hashed.
+ */
+export function commitFields(atomic: Atomic): Atomic {
+  const salts: Record<string, string> = {}
+  for (const [pointer] of leaves(atomic)) {
+    salts[pointer] = Buffer.from(randomBytes(SALT_BYTES)).toString('hex')
+  }
+  atomic.disclosure = { scheme: DISCLOSURE_SCHEME, salts }
+  return atomic
+}
+
+/**
+ * Hash of an atomic in commitment mode: BLAKE3 over its field commitments
+ */
+export function hashCommitments(atomic: Atomic): string {
+  const disclosure = atomic.disclosure!
+  if (disclosure.scheme !== DISCLOSURE_SCHEME) {
+    throw new Error(`Unsupported disclosure scheme: ${disclosure.scheme}`)
+  }
+
+  const canonicalize = canonicalizerFor(atomic.canonicalization)
+  const commitments: Record<string, string> = { ...(disclosure.redacted || {}) }
+  for (const [pointer, value] of leaves(atomic)) {
+    const salt = disclosure.salts[pointer]
+    if (salt === undefined) {
+      throw new Error(`Field ${pointer} has no salt`)
+    }
+    if (commitments[pointer] !== undefined) {
+      throw new Error(`Field ${pointer} is both disclosed and redacted`)
+    }
+    commitments[pointer] = commitField(salt, pointer, value, canonicalize)
+  }
+  for (const pointer of Object.keys(disclosure.salts)) {
+    if (commitments[pointer] === undefined) {
+      throw new Error(`Salt for ${pointer} matches no field`)
+    }
+  }
+
+  const canonical = canonicalize({ scheme: disclosure.scheme, commitments })
+  return Buffer.from(blake3(new TextEncoder().encode(canonical), { context: HASH_CONTEXT })).toString('hex')
+}
+
+/**
+ * Copy of a committed atomic without the given fields. Paths are JSON
+ * pointers (`/output/stdout`) or dotted (`output.stdout`); redacting an
+ * object redacts everything inside it.
+ */
+export function redactAtomic(atomic: Atomic, paths: string[]): Atomic {
+  if (!atomic.disclosure) {
+    throw new Error('Atomic was not hashed with field commitments; it cannot be redacted')
+  }
+
+  const redacted: Atomic = JSON.parse(JSON.stringify(atomic))
+  const disclosure = redacted.disclosure!
+  disclosure.redacted = { ...(disclosure.redacted || {}) }
+  const canonicalize = canonicalizerFor(atomic.canonicalization)
+
+  for (const path of paths) {
+    const pointer = toPointer(path)
+    if (pointer === '/canonicalization') {
+      throw new Error('The canonicalization id cannot be redacted: the hash depends on it')
+    }
+    const covered = leaves(redacted).filter(([leaf]) => leaf === pointer || leaf.startsWith(pointer + '/'))
+    if (covered.length === 0) {
+      throw new Error(`No disclosed field at ${pointer}`)
+    }
+
+    for (const [leaf, value] of covered) {
+      disclosure.redacted[leaf] = commitField(disclosure.salts[leaf], leaf, value, canonicalize)
+      delete disclosure.salts[leaf]
+    }
+    removeAt(redacted, pointer)
+  }
+
+  return redacted
+}
+
+/**
+ * Which fields of a committed atomic are disclosed and which were redacted
+ */
+export function disclosureReport(disclosure: FieldDisclosure): DisclosureReport {
+  return {
+    disclosed: Object.keys(disclosure.salts).sort(),
+    redacted: Object.keys(disclosure.redacted || {}).sort()
+  }
+}
+
+function commitField(salt: string, pointer: string, value: unknown, canonicalize: (value: unknown) => string): string {
+  const canonical = canonicalize([salt, pointer, value])
+  return Buffer.from(blake3(new TextEncoder().encode(canonical), { context: COMMITMENT_CONTEXT })).toString('hex')
+}
+
+/**
+ * Committed fields of an atomic as [pointer, value] pairs
+ */
+function leaves(atomic: Atomic): Array<[string, unknown]> {
+  const result: Array<[string, unknown]> = []
+  const walk = (value: unknown, pointer: string): void => {
+    if (isPlainObject(value) && (Object.keys(value).length > 0 || pointer === '')) {
+      for (const [key, child] of Object.entries(value)) {
+        if (pointer === '' && UNCOMMITTED_FIELDS.has(key)) continue
+        if (child === undefined) continue
+        walk(child, `${pointer}/${escapePointer(key)}`)
+      }
+    } else {
+      result.push([pointer, value])
+    }
+  }
+  walk(atomic, '')
+  return result
+}
+
+/**
+ * Delete the value at a pointer, then any parent objects left empty
+ */
+function removeAt(atomic: Atomic, pointer: string): void {
+  const keys = pointer.split('/').slice(1).map(unescapePointer)
+  const parents: Array<Record<string, unknown>> = [atomic as unknown as Record<string, unknown>]
+  for (const key of keys.slice(0, -1)) {
+    parents.push(parents[parents.length - 1][key] as Record<string, unknown>)
+  }
+
+  delete parents[parents.length - 1][keys[keys.length - 1]]
+  for (let i = parents.length - 1; i > 0; i--) {
+    if (Object.keys(parents[i]).length > 0) break
+    delete parents[i - 1][keys[i - 1]]
+  }
+}
+
+function toPointer(path: string): string {
+  return path.startsWith('/') ? path : '/' + path.split('.').map(escapePointer).join('/')
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function unescapePointer(key: string): string {
+  return key.replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -23,10 +23,11 @@ export class LLMAwareExecutor {
     })
     const data = await resp.json()
 
-    // Cria span de output
+    // Cria span de output, encadeado ao span de entrada (hash e assinatura são recalculados no append)
+    const { hash, signature: _signature, ...span } = atomic
     const completedAtomic = {
-      ...atomic,
-      prev: atomic.curr_hash,
+      ...span,
+      prev: hash,
       output: {
         llm_result: data,
         raw: data,
@@ -6,13 +6,13 @@
 export function buildSpanGraph(spans: any[]): any {
   const nodes: Record<string, any> = {}
   spans.forEach(span => {
-    nodes[span.metadata?.trace_id] = { ...span, children: [] }
+    nodes[span.trace_id] = { ...span, children: [] }
   })
   // Relaciona filhos
   for (const span of spans) {
     const pid = span.metadata?.parent_id
     if (pid && nodes[pid]) {
-      nodes[pid].children.push(nodes[span.metadata.trace_id])
+      nodes[pid].children.push(nodes[span.trace_id])
     }
   }
   // Retorna todos os roots (sem parent_id)
@@ -22,7 +22,7 @@ export function buildSpanGraph(spans: any[]): any {
 export function spanGraphToDOT(spans: any[]): string {
   let dot = "digraph Spans {\n"
   spans.forEach(span => {
-    const id = span.metadata?.trace_id
+    const id = span.trace_id
     dot += `"${id}" [label="${span.entity_type}\\n${id}"];\n`
     if (span.metadata?.parent_id) {
       dot += `"${span.metadata.parent_id}" -> "${id}";\n`
@@ -3,7 +3,7 @@
  * Uses JSONL files for storage
  */
 
-import { readFileSync, appendFileSync, existsSync, mkdirSync } from 'fs'
+import { existsSync, mkdirSync } from 'fs'
 import { dirname } from 'path'
 import { Result } from '../../domain/Result.js'
 import { Cursor } from '../../domain/value-objects/Cursor.js'
@@ -14,6 +14,14 @@ import {
   DuplicateAtomicError
 } from '../../domain/errors/DomainErrors.js'
 import { hashAtomic } from '../../crypto.js'
+import { LedgerIndex } from '../../ledger/ledgerIndex.js'
+import { appendDurable, readLines, repairTornTail, withLock } from '../../ledger/ledgerFile.js'
+import {
+  indexHints,
+  matchesFilter,
+  parseFilter,
+  type FilterExpression
+} from '../../ledger/filterExpression.js'
 import type { Atomic } from '../../../types.js'
 import type { 
   ILedgerRepository, 
@@ -27,6 +35,7 @@ export class FileSystemLedgerRepository implements ILedgerRepository {
   private ledgerPath: string
   private cache: Map<string, Atomic> = new Map()
   private cacheEnabled: boolean = false
+  private index: LedgerIndex
 
   constructor(ledgerPath: string = './data/ledger.jsonl', enableCache: boolean = false) {
     this.ledgerPath = ledgerPath
@@ -37,6 +46,8 @@ export class FileSystemLedgerRepository implements ILedgerRepository {
     if (!existsSync(dir)) {
       mkdirSync(dir, { recursive: true })
     }
+
+    this.index = new LedgerIndex(ledgerPath)
   }
 
   async append(atomic: Atomic): Promise<Result<Cursor, RepositoryError>> {
@@ -55,30 +66,33 @@ export class FileSystemLedgerRepository implements ILedgerRepository {
 
       const hash = Hash.createUnsafe(atomic.hash)
 
-      // Check for duplicates
-      const existsResult = await this.exists(hash)
-      if (existsResult.isSuccess && existsResult.value) {
-        return Result.fail(
-          new RepositoryError(
-            `Duplicate atomic: ${hash.toShort()}`,
-            new DuplicateAtomicError(hash.value)
+      return await withLock(this.ledgerPath, async () => {
+        // Drop a torn line left by a crashed writer before appending after it
+        repairTornTail(this.ledgerPath)
+
+        // Check for duplicates
+        const existsResult = await this.exists(hash)
+        if (existsResult.isSuccess && existsResult.value) {
+          return Result.fail<Cursor, RepositoryError>(
+            new RepositoryError(
+              `Duplicate atomic: ${hash.toShort()}`,
+              new DuplicateAtomicError(hash.value)
+            )
           )
-        )
-      }
-
-      // Get current line count
-      const lineCount = this.getLineCount()
+        }
 
-      // Append to file
-      const line = JSON.stringify(atomic) + '\n'
-      appendFileSync(this.ledgerPath, line, 'utf-8')
+        // Append to file (fsync'd before the index is updated)
+        const line = JSON.stringify(atomic) + '\n'
+        const offset = appendDurable(this.ledgerPath, line)
+        this.index.add(atomic, offset, Buffer.byteLength(line) - 1)
 
-      // Update cache if enabled
-      if (this.cacheEnabled) {
-        this.cache.set(atomic.hash, atomic)
-      }
+        // Update cache if enabled
+        if (this.cacheEnabled) {
+          this.cache.set(hash.value, atomic)
+        }
 
-      return Result.ok(Cursor.createUnsafe(lineCount + 1))
+        return Result.ok<Cursor, RepositoryError>(Cursor.createUnsafe(this.index.count))
+      })
     } catch (error) {
       return Result.fail(
         new RepositoryError('Failed to append atomic', error)
@@ -93,25 +107,14 @@ export class FileSystemLedgerRepository implements ILedgerRepository {
         return Result.ok(this.cache.get(hash.value) || null)
       }
 
-      if (!existsSync(this.ledgerPath)) {
-        return Result.ok(null)
-      }
-
-      const content = readFileSync(this.ledgerPath, 'utf-8')
-      const lines = content.trim().split('\n').filter(line => line.length > 0)
-
-      for (const line of lines) {
-        try {
-          const atomic = JSON.parse(line)
-          if (atomic.curr_hash === hash.value) {
-            if (this.cacheEnabled) {
-              this.cache.set(hash.value, atomic)
-            }
-            return Result.ok(atomic)
-          }
-        } catch {
-          // Skip invalid lines
+      this.index.sync()
+      const entry = this.index.getByHash(hash.value)
+      if (entry) {
+        const atomic = this.index.read(entry)
+        if (this.cacheEnabled) {
+          this.cache.set(hash.value, atomic)
         }
+        return Result.ok(atomic)
       }
 
       return Result.ok(null)
@@ -128,27 +131,20 @@ export class FileSystemLedgerRepository implements ILedgerRepository {
 
   async scan(options: ScanOptions): Promise<Result<ScanResult, RepositoryError>> {
     try {
-      if (!existsSync(this.ledgerPath)) {
-        return Result.ok({
-          atomics: [],
-          hasMore: false
-        })
-      }
-
-      const content = readFileSync(this.ledgerPath, 'utf-8')
-      const lines = content.trim().split('\n').filter(line => line.length > 0)
+      this.index.sync()
+      const total = this.index.count
 
       const limit = options.limit || 10
       const startIdx = options.cursor ? options.cursor.toNumber() : 0
 
       const atomics: Atomic[] = []
 
-      for (let i = startIdx; i < lines.length && atomics.length < limit; i++) {
+      for (let i = startIdx; i < total && atomics.length < limit; i++) {
         try {
-          const atomic = JSON.parse(lines[i])
+          const atomic = this.index.read(this.index.getLine(i)!)
 
           // Apply filters
-          if (options.status && atomic.status !== options.status) {
+          if (options.status && atomic.status?.state !== options.status) {
             continue
           }
 
@@ -163,7 +159,7 @@ export class FileSystemLedgerRepository implements ILedgerRepository {
       }
 
       const nextIdx = startIdx + atomics.length
-      const hasMore = nextIdx < lines.length
+      const hasMore = nextIdx < total
 
       return Result.ok({
         atomics,
@@ -178,23 +174,35 @@ export class FileSystemLedgerRepository implements ILedgerRepository {
   }
 
   async query(options: QueryOptions): Promise<Result<Atomic[], RepositoryError>> {
+    let where: FilterExpression | undefined
     try {
-      if (!existsSync(this.ledgerPath)) {
-        return Result.ok([])
-      }
+      where = options.where ? parseFilter(options.where) : undefined
+    } catch (error) {
+      return Result.fail(
+        new RepositoryError(`Invalid filter expression: ${(error as Error).message}`, error)
+      )
+    }
+    const hints = where ? indexHints(where) : {}
+
+    try {
+      this.index.sync()
 
-      const content = readFileSync(this.ledgerPath, 'utf-8')
-      const lines = content.trim().split('\n').filter(line => line.length > 0)
+      // Narrow candidates with the index, then check the remaining filters
+      const lines = this.index.lookup({
+        trace_id: options.traceId?.value ?? hints.trace_id,
+        tenant_id: options.tenantId ?? hints.tenant_id,
+        entity_type: options.entityType ?? hints.entity_type
+      }) ?? Array.from({ length: this.index.count }, (_, i) => i)
 
       const results: Atomic[] = []
 
       for (const line of lines) {
         try {
-          const atomic = JSON.parse(line)
+          const atomic = this.index.read(this.index.getLine(line)!)
 
           let matches = true
 
-          if (options.traceId && atomic.metadata?.trace_id !== options.traceId.value) {
+          if (options.traceId && atomic.trace_id !== options.traceId.value) {
             matches = false
           }
 
@@ -224,6 +232,10 @@ export class FileSystemLedgerRepository implements ILedgerRepository {
             }
           }
 
+          if (matches && where && !matchesFilter(where, atomic)) {
+            matches = false
+          }
+
           if (matches) {
             results.push(atomic)
           }
@@ -250,26 +262,21 @@ export class FileSystemLedgerRepository implements ILedgerRepository {
         })
       }
 
-      const content = readFileSync(this.ledgerPath, 'utf-8')
-      const lines = content.trim().split('\n').filter(line => line.length > 0)
-
-      const byType = new Map<string, number>()
+      // Total and types from the index; the rest streams through the atomics
+      this.index.sync()
+      const byType = this.index.entityTypeCounts()
       const byStatus = new Map<string, number>()
       let oldestTimestamp: Date | undefined
       let newestTimestamp: Date | undefined
 
-      for (const line of lines) {
+      for await (const { line } of readLines(this.ledgerPath)) {
         try {
-          const atomic = JSON.parse(line)
-
-          // Count by type
-          const typeCount = byType.get(atomic.entity_type) || 0
-          byType.set(atomic.entity_type, typeCount + 1)
+          const atomic = JSON.parse(line.toString('utf-8'))
 
           // Count by status
-          if (atomic.status) {
-            const statusCount = byStatus.get(atomic.status) || 0
-            byStatus.set(atomic.status, statusCount + 1)
+          if (atomic.status?.state) {
+            const statusCount = byStatus.get(atomic.status.state) || 0
+            byStatus.set(atomic.status.state, statusCount + 1)
           }
 
           // Track timestamps
@@ -288,7 +295,7 @@ export class FileSystemLedgerRepository implements ILedgerRepository {
       }
 
       return Result.ok({
-        total: lines.length,
+        total: this.index.count,
         byType,
         byStatus,
         oldestTimestamp,
@@ -309,14 +316,6 @@ export class FileSystemLedgerRepository implements ILedgerRepository {
     return Result.ok(result.value !== null)
   }
 
-  private getLineCount(): number {
-    if (!existsSync(this.ledgerPath)) {
-      return 0
-    }
-    const content = readFileSync(this.ledgerPath, 'utf-8')
-    return content.trim().split('\n').filter(line => line.length > 0).length
-  }
-
   // Cache management
   public clearCache(): void {
     this.cache.clear()
@@ -30,6 +30,8 @@ export interface QueryOptions {
   tenantId?: string
   fromDate?: Date
   toDate?: Date
+  /** Filter expression (see core/ledger/filterExpression.ts) */
+  where?: string
 }
 
 export interface LedgerStats {
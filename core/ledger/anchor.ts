@@ -0,0 +1,225 @@
+/**
+ * Ledger anchoring with RFC 3161 trusted timestamps
+ *
+ * An anchor is an atomic recording a TSA's timestamp token over the ledger
+ * state: the Merkle root of the first `tree_size` atomics (default) or the
+ * hash of the last one. It proves the ledger had that state no later than
+ * the token's time, independently of the node's own clock and keys:
+ *
+ * ```json
+ * {
+ *   "entity_type": "decision",
+ *   "this": "ledger/anchor",
+ *   "trace_id": "ledger-anchors",
+ *   "did": { "actor": "ops", "action": "anchor" },
+ *   "input": {
+ *     "scheme": "rfc3161",
+ *     "tsa": "https://tsa.example.com",
+ *     "subject": "merkle_root",
+ *     "tree_size": 1200,
+ *     "value": "<root or last hash>",
+ *     "hash_alg": "sha256",
+ *     "token": "<base64 DER timestamp token>",
+ *     "gen_time": "2025-01-01T00:00:00.000Z",
+ *     "serial_number": "<hex>"
+ *   }
+ * }
+ * ```
+ *
+ * The token timestamps SHA-256 of the value's bytes (the hex hash decoded).
+ * Verification recomputes the value from the ledger, so an anchor fails
+ * once any of the atomics it covers changes.
+ */
+
+import { createHash } from 'crypto'
+import { hashAtomic } from '../crypto.js'
+import type { Atomic, LedgerError } from '../../types.js'
+import { readLines } from './ledgerFile.js'
+import { segmentPaths } from './ledgerRotation.js'
+import { MerkleLog } from './merkleLog.js'
+import {
+  requestTimestamp,
+  verifyTimestampToken,
+  type TimestampAuthority,
+  type TstInfo
+} from './timestamp.js'
+
+export const ANCHOR_ACTION = 'anchor'
+
+const ANCHOR_THIS = 'ledger/anchor'
+
+/** trace_id of anchor atomics */
+export const ANCHOR_TRACE_ID = 'ledger-anchors'
+
+/** What an anchor timestamps: the Merkle root, or the last atomic's hash */
+export type AnchorSubject = 'merkle_root' | 'last_hash'
+
+export interface AnchorOptions {
+  actor: string
+  /** Recorded as the TSA that issued the token (its URL) */
+  tsa: string
+  subject?: AnchorSubject
+  createdAt?: Date
+}
+
+export interface AnchorVerification {
+  valid: boolean
+  /** The anchor atomic's hash */
+  hash?: string
+  subject?: AnchorSubject
+  tree_size?: number
+  value?: string
+  /** Token contents, when the token parses */
+  timestamp?: TstInfo
+  /** Subject of the TSA certificate */
+  signer?: string
+  /** The TSA certificate is one of the trusted ones (or issued by one) */
+  trusted?: boolean
+  error?: LedgerError
+}
+
+/** Fields of an anchor's input, as read back (unchecked) */
+interface AnchorInput {
+  scheme?: unknown
+  subject?: AnchorSubject
+  tree_size?: number
+  value?: string
+  token?: string
+}
+
+export class AnchorError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AnchorError'
+  }
+}
+
+/**
+ * Timestamp the current ledger state with a TSA. Returns the unsigned
+ * anchor atomic, to be appended (and signed) like any other.
+ */
+export async function createAnchor(
+  ledgerPath: string,
+  tsa: TimestampAuthority,
+  options: AnchorOptions
+): Promise<Atomic> {
+  const log = new MerkleLog(ledgerPath)
+  const subject = options.subject ?? 'merkle_root'
+  const treeSize = log.size
+  if (treeSize === 0) {
+    throw new AnchorError('Ledger is empty: nothing to anchor')
+  }
+  const value = subject === 'merkle_root' ? log.root(treeSize) : log.leaf(treeSize - 1)
+  const { token, info } = await requestTimestamp(tsa, anchorDigest(value))
+
+  return {
+    schema_version: '1.1.0',
+    entity_type: 'decision',
+    this: ANCHOR_THIS,
+    trace_id: ANCHOR_TRACE_ID,
+    did: { actor: options.actor, action: ANCHOR_ACTION },
+    input: {
+      scheme: 'rfc3161',
+      tsa: options.tsa,
+      subject,
+      tree_size: treeSize,
+      value,
+      hash_alg: 'sha256',
+      token: token.toString('base64'),
+      gen_time: info.gen_time,
+      serial_number: info.serial_number
+    },
+    metadata: { created_at: (options.createdAt ?? new Date()).toISOString() }
+  }
+}
+
+export function isAnchor(atomic: Atomic): boolean {
+  return atomic.this === ANCHOR_THIS && atomic.did?.action === ANCHOR_ACTION
+}
+
+/**
+ * Anchor atomics of a ledger, oldest first. Only lines mentioning the
+ * anchor subject are parsed.
+ */
+export async function readAnchors(ledgerPath: string): Promise<Atomic[]> {
+  const anchors: Atomic[] = []
+  for (const path of segmentPaths(ledgerPath)) {
+    for await (const { line } of readLines(path)) {
+      if (!line.includes(ANCHOR_THIS)) continue
+      try {
+        const atomic: Atomic = JSON.parse(line.toString('utf-8'))
+        if (isAnchor(atomic)) {
+          anchors.push(atomic)
+        }
+      } catch {
+        // Reported by verification
+      }
+    }
+  }
+  return anchors
+}
+
+/**
+ * Verify an anchor against the ledger: its hash, that the anchored value is
+ * still the ledger's root (or atomic) at `tree_size`, and the timestamp
+ * token over it. `trustedCertificates` pins the TSA (PEM or DER); without
+ * it no anchor is valid, as a token signed by any self-made certificate
+ * would verify.
+ */
+export function verifyAnchor(
+  atomic: Atomic,
+  ledgerPath: string,
+  options: { trustedCertificates?: Array<string | Uint8Array> } = {}
+): AnchorVerification {
+  const input = (atomic.input ?? {}) as AnchorInput
+  const result: AnchorVerification = {
+    valid: false,
+    hash: atomic.hash,
+    subject: input.subject,
+    tree_size: input.tree_size,
+    value: input.value
+  }
+  const fail = (code: string, message: string, details?: Record<string, unknown>): AnchorVerification =>
+    ({ ...result, error: { code, message, ...(details ? { details } : {}) } })
+
+  if (!isAnchor(atomic) || input.scheme !== 'rfc3161' || typeof input.token !== 'string' ||
+    typeof input.value !== 'string' || !Number.isSafeInteger(input.tree_size) ||
+    (input.subject !== 'merkle_root' && input.subject !== 'last_hash')) {
+    return fail('INVALID_ANCHOR', 'Not a well-formed RFC 3161 anchor')
+  }
+  const treeSize = input.tree_size as number
+  const value = input.value
+  if (!atomic.hash || hashAtomic(atomic) !== atomic.hash) {
+    return fail('HASH_MISMATCH', 'Anchor atomic does not match its hash')
+  }
+
+  const log = new MerkleLog(ledgerPath)
+  let current: string
+  try {
+    current = input.subject === 'merkle_root' ? log.root(treeSize) : log.leaf(treeSize - 1)
+  } catch (err) {
+    return fail('ANCHOR_STATE_MISMATCH', (err as Error).message)
+  }
+  if (current !== value) {
+    return fail('ANCHOR_STATE_MISMATCH', `Ledger ${input.subject === 'merkle_root' ? 'root' : 'atomic'} at tree size ${treeSize} is not the anchored one`, {
+      expected: value,
+      actual: current
+    })
+  }
+
+  const check = verifyTimestampToken(Buffer.from(input.token, 'base64'), anchorDigest(value), options)
+  if (!check.valid) {
+    return { ...result, ...(check.info ? { timestamp: check.info } : {}), error: check.error }
+  }
+  if (!check.trusted) {
+    return fail('TSA_NOT_PINNED', 'No TSA certificate is pinned, so the token only verifies against the certificate it carries')
+  }
+  return { ...result, valid: true, timestamp: check.info, signer: check.signer, trusted: check.trusted }
+}
+
+/**
+ * What the TSA timestamps: SHA-256 of the anchored hash's bytes
+ */
+export function anchorDigest(value: string): Buffer {
+  return createHash('sha256').update(Buffer.from(value, 'hex')).digest()
+}
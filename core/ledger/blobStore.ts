@@ -0,0 +1,186 @@
+/**
+ * Content-addressed blob store for large atomic payloads
+ *
+ * Large payload fields (`input.bytes_b64`, `input.content`, `output.stdout`,
+ * `output.stderr`) can be moved out of the ledger line into a blob store,
+ * keyed by the BLAKE3 hash of their bytes (plain BLAKE3, as `b3sum` prints
+ * it). The atomic keeps a typed reference in the field instead:
+ *
+ *   { "scheme": "JsonAtomic/blob/v1", "hash": "…", "size": 1048576,
+ *     "media_type": "application/octet-stream", "encoding": "base64" }
+ *
+ * The reference is what the atomic's hash covers, so the atomic stays
+ * verifiable without the blob; the verifier can additionally check that the
+ * blobs exist and still match their hashes. `encoding` tells how the bytes
+ * were written inline: base64 for `bytes_b64`, UTF-8 text otherwise.
+ */
+
+import { blake3 } from '@noble/hashes/blake3'
+import { existsSync, mkdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+import type { Atomic, BlobRef } from '../../types.js'
+import { writeFileAtomic } from './ledgerFile.js'
+
+export const BLOB_SCHEME = 'JsonAtomic/blob/v1'
+/** Inline payloads above this many bytes are externalized (64 KiB) */
+export const DEFAULT_BLOB_THRESHOLD = 64 * 1024
+
+/**
+ * Where blob bytes live. Stores are keyed by BLAKE3 hash: `put` of the same
+ * bytes twice stores them once.
+ */
+export interface BlobStore {
+  /** Store bytes; returns their hash */
+  put(bytes: Uint8Array): Promise<string>
+  /** The bytes stored under a hash, or null if there are none */
+  get(hash: string): Promise<Uint8Array | null>
+  has(hash: string): Promise<boolean>
+}
+
+export interface BlobOptions {
+  store: BlobStore
+  /** Externalize fields larger than this many bytes (default: 64 KiB) */
+  threshold?: number
+}
+
+export type BlobCheck = 'ok' | 'missing' | 'mismatch'
+
+export class BlobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BlobError'
+  }
+}
+
+/** Fields that may be externalized, and how their bytes are written inline */
+const BLOB_FIELDS: Array<{ parent: 'input' | 'output'; field: string; encoding: BlobRef['encoding']; mediaType: string }> = [
+  { parent: 'input', field: 'bytes_b64', encoding: 'base64', mediaType: 'application/octet-stream' },
+  { parent: 'input', field: 'content', encoding: 'utf-8', mediaType: 'text/plain; charset=utf-8' },
+  { parent: 'output', field: 'stdout', encoding: 'utf-8', mediaType: 'text/plain; charset=utf-8' },
+  { parent: 'output', field: 'stderr', encoding: 'utf-8', mediaType: 'text/plain; charset=utf-8' }
+]
+
+/**
+ * Blobs on the local filesystem: `<dir>/<first two hex digits>/<hash>`
+ */
+export class FileBlobStore implements BlobStore {
+  constructor(private dir: string) {
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true })
+    }
+  }
+
+  async put(bytes: Uint8Array): Promise<string> {
+    const hash = blobHash(bytes)
+    const path = this.pathOf(hash)
+    if (!existsSync(path)) {
+      mkdirSync(join(this.dir, hash.slice(0, 2)), { recursive: true })
+      writeFileAtomic(path, Buffer.from(bytes))
+    }
+    return hash
+  }
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    const path = this.pathOf(hash)
+    return existsSync(path) ? new Uint8Array(readFileSync(path)) : null
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return existsSync(this.pathOf(hash))
+  }
+
+  private pathOf(hash: string): string {
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      throw new BlobError(`Invalid blob hash: ${hash}`)
+    }
+    return join(this.dir, hash.slice(0, 2), hash)
+  }
+}
+
+export function blobHash(bytes: Uint8Array): string {
+  return Buffer.from(blake3(bytes)).toString('hex')
+}
+
+export function isBlobRef(value: unknown): value is BlobRef {
+  const ref = value as BlobRef | null
+  return typeof ref === 'object' && ref !== null &&
+    ref.scheme === BLOB_SCHEME &&
+    typeof ref.hash === 'string' &&
+    typeof ref.size === 'number'
+}
+
+/**
+ * Move payload fields larger than `threshold` bytes into the store, in
+ * place. Must happen before the atomic is hashed.
+ */
+export async function externalizeBlobs(
+  atomic: Atomic,
+  store: BlobStore,
+  threshold: number = DEFAULT_BLOB_THRESHOLD
+): Promise<Atomic> {
+  if (atomic.hash) {
+    throw new BlobError('Payloads must be externalized before the atomic is hashed')
+  }
+  for (const { parent, field, encoding, mediaType } of BLOB_FIELDS) {
+    const container = atomic[parent] as Record<string, unknown> | undefined
+    const value = container?.[field]
+    if (typeof value !== 'string' || Buffer.byteLength(value, 'utf-8') <= threshold) continue
+
+    const bytes = Buffer.from(value, encoding === 'base64' ? 'base64' : 'utf-8')
+    const ref: BlobRef = {
+      scheme: BLOB_SCHEME,
+      hash: await store.put(bytes),
+      size: bytes.length,
+      media_type: mediaType,
+      encoding
+    }
+    container![field] = ref
+  }
+  return atomic
+}
+
+/**
+ * Blob references of an atomic, by JSON pointer
+ */
+export function blobRefs(atomic: Atomic): Array<[string, BlobRef]> {
+  const refs: Array<[string, BlobRef]> = []
+  for (const { parent, field } of BLOB_FIELDS) {
+    const value = (atomic[parent] as Record<string, unknown> | undefined)?.[field]
+    if (isBlobRef(value)) {
+      refs.push([`/${parent}/${field}`, value])
+    }
+  }
+  return refs
+}
+
+/**
+ * Whether a referenced blob exists and matches its hash and size
+ */
+export async function checkBlob(ref: BlobRef, store: BlobStore): Promise<BlobCheck> {
+  const bytes = await store.get(ref.hash)
+  if (!bytes) {
+    return 'missing'
+  }
+  return blobHash(bytes) === ref.hash && bytes.length === ref.size ? 'ok' : 'mismatch'
+}
+
+/**
+ * Copy of an atomic with its blob references replaced by the blob contents,
+ * as they were inline. Throws `BlobError` for missing or altered blobs.
+ */
+export async function resolveBlobs(atomic: Atomic, store: BlobStore): Promise<Atomic> {
+  const resolved: Atomic = JSON.parse(JSON.stringify(atomic))
+  for (const [pointer, ref] of blobRefs(atomic)) {
+    const bytes = await store.get(ref.hash)
+    if (!bytes) {
+      throw new BlobError(`Blob ${ref.hash} (${pointer}) is not in the store`)
+    }
+    if (blobHash(bytes) !== ref.hash) {
+      throw new BlobError(`Blob ${ref.hash} (${pointer}) does not match its hash`)
+    }
+    const [, parent, field] = pointer.split('/') as [string, 'input' | 'output', string]
+    const container = resolved[parent] as Record<string, unknown>
+    container[field] = Buffer.from(bytes).toString(ref.encoding === 'base64' ? 'base64' : 'utf-8')
+  }
+  return resolved
+}
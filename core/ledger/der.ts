@@ -0,0 +1,242 @@
+/**
+ * Minimal ASN.1 DER reader and writer
+ *
+ * Enough of X.690 for RFC 3161 timestamps and the CMS and X.509 structures
+ * they carry: definite lengths only, no indefinite-length (BER) encodings.
+ * Parsed nodes keep their exact bytes, so signed structures can be checked
+ * over the encoding they were signed as.
+ */
+
+export const TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31
+} as const
+
+export interface DerNode {
+  tag: number
+  /** Content bytes */
+  value: Buffer
+  /** The whole encoding: tag, length and content */
+  raw: Buffer
+  /** Parsed content of constructed nodes */
+  children: DerNode[]
+}
+
+export class DerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DerError'
+  }
+}
+
+/**
+ * Parse one DER value that spans the whole buffer
+ */
+export function parseDer(bytes: Uint8Array): DerNode {
+  const buffer = Buffer.from(bytes)
+  const [node, end] = readNode(buffer, 0)
+  if (end !== buffer.length) {
+    throw new DerError(`Trailing bytes after DER value (${buffer.length - end})`)
+  }
+  return node
+}
+
+function readNode(buffer: Buffer, offset: number): [DerNode, number] {
+  if (offset + 2 > buffer.length) {
+    throw new DerError('Truncated DER value')
+  }
+  const tag = buffer[offset]
+  if ((tag & 0x1f) === 0x1f) {
+    throw new DerError('Multi-byte DER tags are not supported')
+  }
+
+  let length = buffer[offset + 1]
+  let start = offset + 2
+  if (length & 0x80) {
+    const count = length & 0x7f
+    if (count === 0 || count > 4) {
+      throw new DerError('Unsupported DER length encoding')
+    }
+    length = 0
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + buffer[start + i]
+    }
+    start += count
+  }
+  const end = start + length
+  if (end > buffer.length) {
+    throw new DerError('DER length exceeds the data')
+  }
+
+  const value = buffer.subarray(start, end)
+  const children: DerNode[] = []
+  if (tag & 0x20) {
+    let position = 0
+    while (position < value.length) {
+      const [child, next] = readNode(value, position)
+      children.push(child)
+      position = next
+    }
+  }
+  return [{ tag, value, raw: buffer.subarray(offset, end), children }, end]
+}
+
+/**
+ * Encode a value from its tag and content
+ */
+export function encode(tag: number, content: Uint8Array): Buffer {
+  const length = content.length
+  let header: number[]
+  if (length < 0x80) {
+    header = [tag, length]
+  } else {
+    const bytes: number[] = []
+    for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) {
+      bytes.unshift(rest & 0xff)
+    }
+    header = [tag, 0x80 | bytes.length, ...bytes]
+  }
+  return Buffer.concat([Buffer.from(header), content])
+}
+
+export function sequence(...items: Uint8Array[]): Buffer {
+  return encode(TAG.SEQUENCE, Buffer.concat(items))
+}
+
+/**
+ * SET OF, with its elements sorted as DER requires
+ */
+export function setOf(...items: Uint8Array[]): Buffer {
+  return encode(TAG.SET, Buffer.concat([...items].sort(Buffer.compare)))
+}
+
+/** Context-specific constructed tag `[n]` around the given encodings */
+export function explicit(n: number, ...items: Uint8Array[]): Buffer {
+  return encode(0xa0 | n, Buffer.concat(items))
+}
+
+export function integer(value: bigint | number | Uint8Array): Buffer {
+  let bytes: Buffer
+  if (typeof value === 'bigint' || typeof value === 'number') {
+    let hex = BigInt(value).toString(16)
+    if (hex.length % 2) hex = '0' + hex
+    bytes = Buffer.from(hex, 'hex')
+  } else {
+    bytes = Buffer.from(value)
+    let skip = 0
+    while (skip < bytes.length - 1 && bytes[skip] === 0 && !(bytes[skip + 1] & 0x80)) skip++
+    bytes = bytes.subarray(skip)
+  }
+  // Positive integers must not look negative
+  if (bytes[0] & 0x80) {
+    bytes = Buffer.concat([Buffer.from([0]), bytes])
+  }
+  return encode(TAG.INTEGER, bytes)
+}
+
+export function boolean(value: boolean): Buffer {
+  return encode(TAG.BOOLEAN, Buffer.from([value ? 0xff : 0]))
+}
+
+export function octetString(bytes: Uint8Array): Buffer {
+  return encode(TAG.OCTET_STRING, bytes)
+}
+
+export function bitString(bytes: Uint8Array): Buffer {
+  return encode(TAG.BIT_STRING, Buffer.concat([Buffer.from([0]), bytes]))
+}
+
+export function nullValue(): Buffer {
+  return encode(TAG.NULL, Buffer.alloc(0))
+}
+
+export function utf8String(text: string): Buffer {
+  return encode(TAG.UTF8_STRING, Buffer.from(text, 'utf-8'))
+}
+
+export function oid(dotted: string): Buffer {
+  const parts = dotted.split('.').map(Number)
+  const bytes: number[] = []
+  // The first two arcs share one subidentifier
+  for (const part of [parts[0] * 40 + parts[1], ...parts.slice(2)]) {
+    const chunk: number[] = [part & 0x7f]
+    for (let rest = Math.floor(part / 128); rest > 0; rest = Math.floor(rest / 128)) {
+      chunk.unshift(0x80 | (rest & 0x7f))
+    }
+    bytes.push(...chunk)
+  }
+  return encode(TAG.OID, Buffer.from(bytes))
+}
+
+/**
+ * GeneralizedTime with millisecond precision, in UTC
+ */
+export function generalizedTime(date: Date): Buffer {
+  const iso = date.toISOString()
+  // DER: no trailing zeros in the fraction, and no fraction if it is zero
+  const fraction = iso.slice(20, 23).replace(/0+$/, '')
+  const text = iso.slice(0, 19).replace(/[-:T]/g, '') + (fraction ? '.' + fraction : '') + 'Z'
+  return encode(TAG.GENERALIZED_TIME, Buffer.from(text, 'ascii'))
+}
+
+export function utcTime(date: Date): Buffer {
+  const text = date.toISOString().slice(2, 19).replace(/[-:T]/g, '') + 'Z'
+  return encode(TAG.UTC_TIME, Buffer.from(text, 'ascii'))
+}
+
+export function readOid(node: DerNode): string {
+  expectTag(node, TAG.OID)
+  const subidentifiers: number[] = []
+  let current = 0
+  for (const byte of node.value) {
+    current = current * 128 + (byte & 0x7f)
+    if (!(byte & 0x80)) {
+      subidentifiers.push(current)
+      current = 0
+    }
+  }
+  const [first, ...rest] = subidentifiers
+  const arc = Math.min(Math.floor(first / 40), 2)
+  return [arc, first - arc * 40, ...rest].join('.')
+}
+
+export function readInteger(node: DerNode): bigint {
+  expectTag(node, TAG.INTEGER)
+  return BigInt('0x' + (node.value.toString('hex') || '0'))
+}
+
+/**
+ * GeneralizedTime or UTCTime as a Date
+ */
+export function readTime(node: DerNode): Date {
+  const text = node.value.toString('ascii')
+  const match = node.tag === TAG.GENERALIZED_TIME
+    ? /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d+))?Z$/.exec(text)
+    : node.tag === TAG.UTC_TIME
+      ? /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})()Z$/.exec(text)
+      : null
+  if (!match) {
+    throw new DerError(`Invalid time: ${text}`)
+  }
+  const [, y, mo, d, h, mi, s, fraction] = match
+  const year = y.length === 2 ? (Number(y) < 50 ? 2000 : 1900) + Number(y) : Number(y)
+  const ms = fraction ? Math.round(Number(`0.${fraction}`) * 1000) : 0
+  return new Date(Date.UTC(year, Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s), ms))
+}
+
+export function expectTag(node: DerNode | undefined, tag: number): DerNode {
+  if (!node || node.tag !== tag) {
+    throw new DerError(`Expected DER tag 0x${tag.toString(16)}, found ${node ? '0x' + node.tag.toString(16) : 'nothing'}`)
+  }
+  return node
+}
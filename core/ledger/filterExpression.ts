@@ -0,0 +1,554 @@
+/**
+ * Filter expression language for ledger queries
+ *
+ * A small, safe language (parsed, never evaluated as code) shared by
+ * `Ledger.query`, `FileSystemLedgerRepository.query`, `GET /query?where=`
+ * and `logline-cli query --where`:
+ *
+ *   status.state = "failed" AND when.started_at >= "2024-01-01"
+ *   did.actor in ("llm", "agent") OR NOT did.reason exists
+ *   this startswith "payments/" AND output.stderr matches /timeout/i
+ *   metadata.created_at between "2024-01-01" and "2024-01-31T23:59:59Z"
+ *
+ * - Field paths are dotted (`did.actor`, `metadata.tenant_id`)
+ * - Comparisons: `=` (`==`), `!=`, `<`, `<=`, `>`, `>=`; timestamps compare
+ *   as instants, numbers numerically, other strings by code point
+ * - `in (…)` / `in […]`, `exists`, `startswith`, `matches` (`~`) with a
+ *   `/regex/flags` literal or a string, `between … and …` (inclusive)
+ * - `AND` (`&&`), `OR` (`||`), `NOT` (`!`) and parentheses; keywords are
+ *   case-insensitive; AND binds tighter than OR
+ * - Values: quoted strings, numbers, `true`, `false`, `null`, or bare words
+ *   (`status.state = completed`)
+ *
+ * A missing field matches no comparison (use `exists`). When a field holds an
+ * array, a comparison matches if any element does (`metadata.tags = "pii"`).
+ *
+ * Regular expressions that can backtrack exponentially are refused; the REST
+ * API does not accept `matches` at all.
+ */
+
+import type { Atomic } from '../../types.js'
+
+const MAX_EXPRESSION_LENGTH = 4096
+const MAX_REGEX_LENGTH = 256
+const MAX_DEPTH = 32
+
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+const PATH_SEGMENT = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+export interface ParseFilterOptions {
+  /**
+   * Accept `matches` (default: true). Turn off for untrusted input: a
+   * regular expression can still take polynomial time on long values.
+   */
+  regex?: boolean
+}
+
+export type FilterValue = string | number | boolean | null
+
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>='
+
+export type FilterExpression =
+  | { op: 'and' | 'or'; args: FilterExpression[] }
+  | { op: 'not'; arg: FilterExpression }
+  | { op: 'compare'; path: string[]; operator: ComparisonOperator; value: FilterValue }
+  | { op: 'in'; path: string[]; values: FilterValue[] }
+  | { op: 'exists'; path: string[] }
+  | { op: 'startswith'; path: string[]; prefix: string }
+  | { op: 'matches'; path: string[]; pattern: RegExp }
+
+/**
+ * Equality constraints on indexed fields implied by an expression
+ */
+export interface FilterIndexHints {
+  trace_id?: string
+  tenant_id?: string
+  entity_type?: string
+}
+
+export class FilterSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} at position ${position}`)
+    this.name = 'FilterSyntaxError'
+  }
+}
+
+type TokenType = 'word' | 'string' | 'number' | 'regex' | 'operator' | 'punct' | 'end'
+
+interface Token {
+  type: TokenType
+  text: string
+  position: number
+  value?: FilterValue | RegExp
+}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '=', '<', '>', '~', '!']
+const KEYWORDS = new Set(['and', 'or', 'not', 'in', 'exists', 'startswith', 'matches', 'between', 'true', 'false', 'null'])
+
+export function parseFilter(source: string, options: ParseFilterOptions = {}): FilterExpression {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new FilterSyntaxError(`Expression longer than ${MAX_EXPRESSION_LENGTH} characters`, 0)
+  }
+  return new Parser(tokenize(source), options.regex ?? true).parse()
+}
+
+/**
+ * Predicate for an expression (parsed from source when given a string)
+ */
+export function compileFilter(expression: string | FilterExpression): (atomic: Atomic) => boolean {
+  const parsed = typeof expression === 'string' ? parseFilter(expression) : expression
+  return atomic => evaluate(parsed, atomic)
+}
+
+export function matchesFilter(expression: FilterExpression, atomic: Atomic): boolean {
+  return evaluate(expression, atomic)
+}
+
+/**
+ * Indexed fields the expression pins to one value: a top-level
+ * conjunction of equality comparisons on trace_id, metadata.tenant_id or
+ * entity_type. Used to narrow candidates before evaluating the filter.
+ */
+export function indexHints(expression: FilterExpression): FilterIndexHints {
+  const hints: FilterIndexHints = {}
+  const terms = expression.op === 'and' ? expression.args : [expression]
+  for (const term of terms) {
+    if (term.op !== 'compare' || term.operator !== '=' || typeof term.value !== 'string') {
+      continue
+    }
+    switch (term.path.join('.')) {
+      case 'trace_id':
+        hints.trace_id = term.value
+        break
+      case 'metadata.tenant_id':
+        hints.tenant_id = term.value
+        break
+      case 'entity_type':
+        hints.entity_type = term.value
+        break
+    }
+  }
+  return hints
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const ch = source[i]
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+
+    const start = i
+    if ('()[],'.includes(ch)) {
+      tokens.push({ type: 'punct', text: ch, position: start })
+      i++
+    } else if (ch === '"' || ch === "'") {
+      let text = ''
+      i++
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const escaped = source[i + 1]
+          text += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped
+          i += 2
+        } else {
+          text += source[i++]
+        }
+      }
+      if (i >= source.length) {
+        throw new FilterSyntaxError('Unterminated string', start)
+      }
+      i++
+      tokens.push({ type: 'string', text: source.slice(start, i), position: start, value: text })
+    } else if (ch === '/') {
+      let pattern = ''
+      i++
+      while (i < source.length && source[i] !== '/') {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          pattern += source[i] + source[i + 1]
+          i += 2
+        } else {
+          pattern += source[i++]
+        }
+      }
+      if (i >= source.length) {
+        throw new FilterSyntaxError('Unterminated regular expression', start)
+      }
+      i++
+      let flags = ''
+      while (i < source.length && /[a-z]/i.test(source[i])) {
+        flags += source[i++]
+      }
+      tokens.push({ type: 'regex', text: source.slice(start, i), position: start, value: makeRegex(pattern, flags, start) })
+    } else if (/[-\d]/.test(ch) && /^-?\d/.test(source.slice(i, i + 2))) {
+      const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(i))!
+      i += match[0].length
+      tokens.push({ type: 'number', text: match[0], position: start, value: Number(match[0]) })
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][\w.\-:]*/.exec(source.slice(i))!
+      i += match[0].length
+      tokens.push({ type: 'word', text: match[0], position: start })
+    } else {
+      const operator = OPERATORS.find(op => source.startsWith(op, i))
+      if (!operator) {
+        throw new FilterSyntaxError(`Unexpected character '${ch}'`, start)
+      }
+      i += operator.length
+      tokens.push({ type: 'operator', text: operator, position: start })
+    }
+  }
+
+  tokens.push({ type: 'end', text: '', position: source.length })
+  return tokens
+}
+
+function makeRegex(pattern: string, flags: string, position: number): RegExp {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    throw new FilterSyntaxError(`Regular expression longer than ${MAX_REGEX_LENGTH} characters`, position)
+  }
+  const unsafe = backtrackingHazard(pattern)
+  if (unsafe) {
+    throw new FilterSyntaxError(`${unsafe} are not allowed in regular expressions`, position)
+  }
+  if (!/^[ims]*$/.test(flags)) {
+    throw new FilterSyntaxError(`Unsupported regular expression flags '${flags}'`, position)
+  }
+  try {
+    return new RegExp(pattern, flags)
+  } catch (err) {
+    throw new FilterSyntaxError(`Invalid regular expression: ${(err as Error).message}`, position)
+  }
+}
+
+/**
+ * What in a pattern can backtrack exponentially: a repeated group holding a
+ * quantifier (`(a+)+`) or an alternation (`(a|a)*`), or a backreference.
+ * Conservative: `(foo|bar)+` is refused too.
+ */
+function backtrackingHazard(pattern: string): string | null {
+  // Per open group: whether it holds a quantifier, an alternation
+  const groups: Array<{ quantifier: boolean; alternation: boolean }> = []
+  let inClass = false
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]
+    const group = groups[groups.length - 1]
+    if (ch === '\\') {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? '')) {
+        return 'Backreferences'
+      }
+      i++
+    } else if (inClass) {
+      inClass = ch !== ']'
+    } else if (ch === '[') {
+      inClass = true
+    } else if (ch === '(') {
+      groups.push({ quantifier: false, alternation: false })
+      // Skip the group syntax: (?: (?= (?! (?<= (?<! (?<name>
+      const prefix = /^\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>)/.exec(pattern.slice(i + 1))
+      i += prefix ? prefix[0].length : 0
+    } else if (ch === ')') {
+      const closed = groups.pop()
+      if (closed && repeats(pattern, i + 1)) {
+        if (closed.quantifier) return 'Nested quantifiers'
+        if (closed.alternation) return 'Alternations in repeated groups'
+      }
+      if (closed && groups.length > 0) {
+        groups[groups.length - 1].quantifier ||= closed.quantifier || repeats(pattern, i + 1)
+        groups[groups.length - 1].alternation ||= closed.alternation
+      }
+    } else if (group && ch === '|') {
+      group.alternation = true
+    } else if (group && (ch === '?' || repeats(pattern, i))) {
+      group.quantifier = true
+    }
+  }
+  return null
+}
+
+/** Whether a quantifier that repeats (`*`, `+`, `{n,…}`) starts at `i` */
+function repeats(pattern: string, i: number): boolean {
+  return pattern[i] === '*' || pattern[i] === '+' || /^\{\d+(,\d*)?\}/.test(pattern.slice(i))
+}
+
+class Parser {
+  private pos = 0
+  private depth = 0
+
+  constructor(private tokens: Token[], private regex: boolean) {}
+
+  parse(): FilterExpression {
+    const expression = this.parseOr()
+    const next = this.peek()
+    if (next.type !== 'end') {
+      throw new FilterSyntaxError(`Unexpected '${next.text}'`, next.position)
+    }
+    return expression
+  }
+
+  private parseOr(): FilterExpression {
+    const args = [this.parseAnd()]
+    while (this.acceptKeyword('or') || this.acceptOperator('||')) {
+      args.push(this.parseAnd())
+    }
+    return args.length === 1 ? args[0] : { op: 'or', args }
+  }
+
+  private parseAnd(): FilterExpression {
+    const args = [this.parseNot()]
+    while (this.acceptKeyword('and') || this.acceptOperator('&&')) {
+      args.push(this.parseNot())
+    }
+    return args.length === 1 ? args[0] : { op: 'and', args }
+  }
+
+  private parseNot(): FilterExpression {
+    if (this.acceptKeyword('not') || this.acceptOperator('!')) {
+      return { op: 'not', arg: this.nested(() => this.parseNot()) }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): FilterExpression {
+    if (this.acceptPunct('(')) {
+      const expression = this.nested(() => this.parseOr())
+      this.expectPunct(')')
+      return expression
+    }
+    return this.parsePredicate()
+  }
+
+  private parsePredicate(): FilterExpression {
+    const token = this.next()
+    if (token.type !== 'word' || KEYWORDS.has(token.text.toLowerCase())) {
+      throw new FilterSyntaxError(`Expected a field path but found '${token.text || 'end of input'}'`, token.position)
+    }
+    const path = token.text.split('.')
+    if (!path.every(segment => PATH_SEGMENT.test(segment))) {
+      throw new FilterSyntaxError(`Invalid field path '${token.text}'`, token.position)
+    }
+
+    if (this.acceptKeyword('exists')) {
+      return { op: 'exists', path }
+    }
+    if (this.acceptKeyword('in')) {
+      return { op: 'in', path, values: this.parseList() }
+    }
+    if (this.acceptKeyword('startswith')) {
+      const value = this.parseValue()
+      if (typeof value !== 'string') {
+        throw new FilterSyntaxError('startswith needs a string', this.previous().position)
+      }
+      return { op: 'startswith', path, prefix: value }
+    }
+    if (this.acceptKeyword('matches') || this.acceptOperator('~')) {
+      if (!this.regex) {
+        throw new FilterSyntaxError('Regular expressions are not accepted here', this.previous().position)
+      }
+      return { op: 'matches', path, pattern: this.parsePattern() }
+    }
+    if (this.acceptKeyword('between')) {
+      const low = this.parseValue()
+      if (!this.acceptKeyword('and')) {
+        throw new FilterSyntaxError("Expected 'and' in between", this.peek().position)
+      }
+      const high = this.parseValue()
+      return {
+        op: 'and',
+        args: [
+          { op: 'compare', path, operator: '>=', value: low },
+          { op: 'compare', path, operator: '<=', value: high }
+        ]
+      }
+    }
+
+    const operator = this.next()
+    if (operator.type !== 'operator' || !['=', '==', '!=', '<', '<=', '>', '>='].includes(operator.text)) {
+      throw new FilterSyntaxError(`Expected an operator after '${token.text}'`, operator.position)
+    }
+    return {
+      op: 'compare',
+      path,
+      operator: (operator.text === '==' ? '=' : operator.text) as ComparisonOperator,
+      value: this.parseValue()
+    }
+  }
+
+  private parseList(): FilterValue[] {
+    const open = this.next()
+    if (open.type !== 'punct' || (open.text !== '(' && open.text !== '[')) {
+      throw new FilterSyntaxError("Expected '(' or '[' after in", open.position)
+    }
+    const close = open.text === '(' ? ')' : ']'
+    const values = [this.parseValue()]
+    while (this.acceptPunct(',')) {
+      values.push(this.parseValue())
+    }
+    this.expectPunct(close)
+    return values
+  }
+
+  private parsePattern(): RegExp {
+    const token = this.next()
+    if (token.type === 'regex') {
+      return token.value as RegExp
+    }
+    if (token.type === 'string') {
+      return makeRegex(token.value as string, '', token.position)
+    }
+    throw new FilterSyntaxError('Expected a /regex/ or a string', token.position)
+  }
+
+  private parseValue(): FilterValue {
+    const token = this.next()
+    switch (token.type) {
+      case 'string':
+      case 'number':
+        return token.value as FilterValue
+      case 'word': {
+        const word = token.text.toLowerCase()
+        if (word === 'true') return true
+        if (word === 'false') return false
+        if (word === 'null') return null
+        if (KEYWORDS.has(word)) break
+        return token.text
+      }
+    }
+    throw new FilterSyntaxError(`Expected a value but found '${token.text || 'end of input'}'`, token.position)
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_DEPTH) {
+      throw new FilterSyntaxError(`Expression nested deeper than ${MAX_DEPTH} levels`, this.peek().position)
+    }
+    try {
+      return parse()
+    } finally {
+      this.depth--
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos]
+  }
+
+  private previous(): Token {
+    return this.tokens[this.pos - 1]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos]
+    if (token.type !== 'end') this.pos++
+    return token
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek()
+    if (token.type === 'word' && token.text.toLowerCase() === keyword) {
+      this.pos++
+      return true
+    }
+    return false
+  }
+
+  private acceptOperator(operator: string): boolean {
+    const token = this.peek()
+    if (token.type === 'operator' && token.text === operator) {
+      this.pos++
+      return true
+    }
+    return false
+  }
+
+  private acceptPunct(punct: string): boolean {
+    const token = this.peek()
+    if (token.type === 'punct' && token.text === punct) {
+      this.pos++
+      return true
+    }
+    return false
+  }
+
+  private expectPunct(punct: string): void {
+    if (!this.acceptPunct(punct)) {
+      const token = this.peek()
+      throw new FilterSyntaxError(`Expected '${punct}' but found '${token.text || 'end of input'}'`, token.position)
+    }
+  }
+}
+
+function evaluate(expression: FilterExpression, atomic: Atomic): boolean {
+  switch (expression.op) {
+    case 'and':
+      return expression.args.every(arg => evaluate(arg, atomic))
+    case 'or':
+      return expression.args.some(arg => evaluate(arg, atomic))
+    case 'not':
+      return !evaluate(expression.arg, atomic)
+    case 'exists':
+      return resolvePath(atomic, expression.path) !== undefined
+    case 'compare':
+      return anyValue(resolvePath(atomic, expression.path), v => compare(v, expression.operator, expression.value))
+    case 'in':
+      return anyValue(resolvePath(atomic, expression.path), v => expression.values.some(value => compare(v, '=', value)))
+    case 'startswith':
+      return anyValue(resolvePath(atomic, expression.path), v => typeof v === 'string' && v.startsWith(expression.prefix))
+    case 'matches':
+      return anyValue(resolvePath(atomic, expression.path), v => typeof v === 'string' && expression.pattern.test(v))
+  }
+}
+
+/**
+ * Value at a field path (`['did', 'actor']`), or undefined when missing
+ */
+export function resolvePath(atomic: Atomic, path: string[]): unknown {
+  let value: unknown = atomic
+  for (const segment of path) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return undefined
+    }
+    value = (value as Record<string, unknown>)[segment]
+  }
+  return value
+}
+
+function anyValue(value: unknown, test: (value: unknown) => boolean): boolean {
+  if (value === undefined) {
+    return false
+  }
+  return Array.isArray(value) ? value.some(test) : test(value)
+}
+
+function compare(actual: unknown, operator: ComparisonOperator, expected: FilterValue): boolean {
+  if (operator === '=' || operator === '!=') {
+    const equal = typeof actual === 'string' && typeof expected === 'string' && isTimestamp(actual) && isTimestamp(expected)
+      ? Date.parse(actual) === Date.parse(expected)
+      : actual === expected
+    return operator === '=' ? equal : !equal
+  }
+
+  let order: number
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    order = actual - expected
+  } else if (typeof actual === 'string' && typeof expected === 'string') {
+    order = isTimestamp(actual) && isTimestamp(expected)
+      ? Date.parse(actual) - Date.parse(expected)
+      : actual < expected ? -1 : actual > expected ? 1 : 0
+  } else {
+    return false
+  }
+
+  switch (operator) {
+    case '<': return order < 0
+    case '<=': return order <= 0
+    case '>': return order > 0
+    case '>=': return order >= 0
+  }
+}
+
+function isTimestamp(value: string): boolean {
+  return TIMESTAMP.test(value) && !isNaN(Date.parse(value))
+}
@@ -0,0 +1,378 @@
+/**
+ * Fork analysis and fork resolution
+ *
+ * A fork is a chain (the global chain, or a trace_id's chain) where more
+ * than one atomic extends the same one. The analysis rebuilds every branch
+ * from the `prev` links: the common ancestor the branches grow from, and
+ * for each branch its atomics, signers, timestamps and length.
+ *
+ * A fork resolution is a signed atomic that picks the canonical branch:
+ *
+ * ```json
+ * {
+ *   "entity_type": "decision",
+ *   "this": "ledger/fork-resolution",
+ *   "trace_id": "<forked trace, or ledger-forks for the global chain>",
+ *   "prev": "<canonical head>",
+ *   "did": { "actor": "auditor", "action": "resolve_fork", "reason": "..." },
+ *   "input": {
+ *     "chain_mode": "trace",
+ *     "fork_point": "<common ancestor>",
+ *     "canonical_head": "<hash>",
+ *     "canonical": ["<hashes of the canonical branch>"],
+ *     "rejected": ["<hashes of every other branch>"]
+ *   }
+ * }
+ * ```
+ *
+ * It extends the canonical branch, so later atomics do too. Verification
+ * honors resolutions whose signature verifies: atomics of the canonical
+ * branch are chained as if there had been no fork, and atomics of rejected
+ * branches are reported as such instead of as chain errors.
+ */
+
+import type { Atomic, ChainMode } from '../../types.js'
+import { readLines } from './ledgerFile.js'
+import { isSegmentGenesis, segmentPaths } from './ledgerRotation.js'
+
+export const FORK_RESOLUTION_ACTION = 'resolve_fork'
+
+const FORK_RESOLUTION_THIS = 'ledger/fork-resolution'
+
+/** trace_id of resolutions of global chain forks */
+export const FORK_RESOLUTION_TRACE_ID = 'ledger-forks'
+
+export interface AnalyzeForksOptions {
+  /** Chain layout written by the ledger: one global chain (default) or one per trace_id */
+  chainMode?: ChainMode
+  /** Only analyze this trace_id's chain */
+  traceId?: string
+}
+
+export interface BranchAtomic {
+  hash: string
+  line: number
+  actor?: string
+  /** Public key of the signature, if signed */
+  signer?: string
+  signed_at?: string
+  created_at?: string
+}
+
+export interface ForkBranch {
+  /** Last atomic of the branch */
+  head: string
+  /** Atomics after the common ancestor, oldest first */
+  atomics: BranchAtomic[]
+  length: number
+  signers: string[]
+  actors: string[]
+  first_at?: string
+  last_at?: string
+  /** No other branch has more atomics */
+  longest: boolean
+  /** Set when a fork resolution picked (or rejected) this branch */
+  canonical?: boolean
+}
+
+export interface ForkAnalysis {
+  /** Forked trace; absent for the global chain */
+  trace_id?: string
+  /** Last atomic all branches share, or null when they start from different genesis atomics */
+  common_ancestor: BranchAtomic | null
+  /** Longest first */
+  branches: ForkBranch[]
+  resolution?: {
+    hash: string
+    line: number
+    canonical_head: string
+    actor?: string
+    signer?: string
+    reason?: string
+  }
+}
+
+/** A fork resolution as recorded in its atomic */
+export interface ForkResolution {
+  /** Hash of the resolution atomic */
+  hash: string
+  trace_id?: string
+  chain_mode: ChainMode
+  fork_point: string | null
+  canonical_head: string
+  canonical: string[]
+  rejected: string[]
+}
+
+export class ForkResolutionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ForkResolutionError'
+  }
+}
+
+interface ChainNode extends BranchAtomic {
+  prev?: string
+}
+
+/**
+ * Rebuild the branches of every forked chain of a ledger (sealed segments
+ * included). Keeps a few fields of every atomic in memory: use `traceId`
+ * to analyze one trace of a very large ledger.
+ */
+export async function analyzeForks(ledgerPath: string, options: AnalyzeForksOptions = {}): Promise<ForkAnalysis[]> {
+  const chainMode = options.chainMode || 'global'
+  const chains = new Map<string, ChainNode[]>()
+  const resolutions: Array<{ resolution: ForkResolution; node: ChainNode; reason?: string }> = []
+
+  for await (const { atomic, line } of ledgerAtomics(ledgerPath)) {
+    if (!atomic?.hash) continue
+    if (options.traceId && atomic.trace_id !== options.traceId) continue
+    if (chainMode === 'trace' && (!atomic.trace_id || isSegmentGenesis(atomic))) continue
+
+    const key = chainMode === 'trace' ? atomic.trace_id! : ''
+    const node: ChainNode = {
+      hash: atomic.hash,
+      line,
+      ...(atomic.prev ? { prev: atomic.prev } : {}),
+      ...(typeof atomic.did?.actor === 'string' ? { actor: atomic.did.actor } : {}),
+      ...(atomic.signature?.public_key ? { signer: atomic.signature.public_key } : {}),
+      ...(atomic.signature?.signed_at ? { signed_at: atomic.signature.signed_at } : {}),
+      ...(atomic.metadata?.created_at ? { created_at: atomic.metadata.created_at } : {})
+    }
+    if (!chains.has(key)) {
+      chains.set(key, [])
+    }
+    chains.get(key)!.push(node)
+
+    const resolution = readForkResolution(atomic)
+    if (resolution && resolution.chain_mode === chainMode) {
+      resolutions.push({ resolution, node, reason: atomic.did.reason })
+    }
+  }
+
+  const forks: ForkAnalysis[] = []
+  for (const [key, nodes] of chains) {
+    const traceId = chainMode === 'trace' ? key : undefined
+    const chainResolutions = resolutions.filter(({ resolution }) => resolution.trace_id === traceId)
+
+    for (const fork of analyzeChain(nodes, chainResolutions.map(({ resolution }) => resolution))) {
+      if (traceId !== undefined) {
+        fork.trace_id = traceId
+      }
+
+      const forkPoint = fork.common_ancestor?.hash ?? null
+      const resolved = chainResolutions.find(({ resolution }) => resolution.fork_point === forkPoint)
+      if (resolved) {
+        const { resolution, node, reason } = resolved
+        fork.resolution = {
+          hash: resolution.hash,
+          line: node.line,
+          canonical_head: resolution.canonical_head,
+          ...(node.actor ? { actor: node.actor } : {}),
+          ...(node.signer ? { signer: node.signer } : {}),
+          ...(reason ? { reason } : {})
+        }
+        for (const branch of fork.branches) {
+          branch.canonical = branch.atomics.some(atomic => atomic.hash === resolution.canonical_head)
+        }
+      }
+      forks.push(fork)
+    }
+  }
+  return forks
+}
+
+/**
+ * Build the (unsigned) atomic resolving a fork in favor of the branch
+ * whose head is `canonicalHead`. Append it with a signing ledger, or sign
+ * it, for verification to honor it.
+ */
+export function createForkResolution(
+  fork: ForkAnalysis,
+  canonicalHead: string,
+  options: { actor: string; reason?: string; chainMode?: ChainMode; createdAt?: Date }
+): Atomic {
+  const canonical = fork.branches.find(branch => branch.head === canonicalHead)
+  if (!canonical) {
+    throw new ForkResolutionError(
+      `${canonicalHead} is not the head of a branch of this fork (heads: ${fork.branches.map(b => b.head).join(', ')})`
+    )
+  }
+  if (fork.resolution) {
+    throw new ForkResolutionError(`Fork already resolved by ${fork.resolution.hash} (line ${fork.resolution.line})`)
+  }
+
+  const canonicalHashes = canonical.atomics.map(atomic => atomic.hash)
+  const kept = new Set(canonicalHashes)
+  const rejected = new Set<string>()
+  for (const branch of fork.branches) {
+    for (const atomic of branch.atomics) {
+      if (!kept.has(atomic.hash)) {
+        rejected.add(atomic.hash)
+      }
+    }
+  }
+
+  return {
+    schema_version: '1.1.0',
+    entity_type: 'decision',
+    this: FORK_RESOLUTION_THIS,
+    trace_id: fork.trace_id ?? FORK_RESOLUTION_TRACE_ID,
+    prev: canonicalHead,
+    did: {
+      actor: options.actor,
+      action: FORK_RESOLUTION_ACTION,
+      ...(options.reason ? { reason: options.reason } : {})
+    },
+    input: {
+      chain_mode: options.chainMode || 'global',
+      fork_point: fork.common_ancestor?.hash ?? null,
+      canonical_head: canonicalHead,
+      canonical: canonicalHashes,
+      rejected: Array.from(rejected)
+    },
+    metadata: { created_at: (options.createdAt ?? new Date()).toISOString() }
+  }
+}
+
+/**
+ * The resolution an atomic records, or null if it is not a well-formed fork resolution
+ */
+export function readForkResolution(atomic: Atomic): ForkResolution | null {
+  if (atomic.this !== FORK_RESOLUTION_THIS || atomic.did?.action !== FORK_RESOLUTION_ACTION || !atomic.hash) {
+    return null
+  }
+  const input = atomic.input ?? {}
+  const isHashes = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(hash => typeof hash === 'string')
+  if (
+    (input.chain_mode !== 'global' && input.chain_mode !== 'trace') ||
+    typeof input.canonical_head !== 'string' ||
+    (input.fork_point !== null && typeof input.fork_point !== 'string') ||
+    !isHashes(input.canonical) ||
+    !isHashes(input.rejected)
+  ) {
+    return null
+  }
+  return {
+    hash: atomic.hash,
+    ...(input.chain_mode === 'trace' && atomic.trace_id ? { trace_id: atomic.trace_id } : {}),
+    chain_mode: input.chain_mode,
+    fork_point: input.fork_point as string | null,
+    canonical_head: input.canonical_head,
+    canonical: input.canonical,
+    rejected: input.rejected
+  }
+}
+
+async function* ledgerAtomics(ledgerPath: string): AsyncGenerator<{ atomic: Atomic | null; line: number }> {
+  let lineNumber = 0
+  for (const path of segmentPaths(ledgerPath)) {
+    for await (const { line } of readLines(path)) {
+      lineNumber++
+      let atomic: Atomic | null = null
+      try {
+        atomic = JSON.parse(line.toString('utf-8'))
+      } catch {
+        // Reported by verification
+      }
+      yield { atomic, line: lineNumber }
+    }
+  }
+}
+
+/**
+ * Forks of one chain, one per fork point (an atomic more than one atomic
+ * extends, or the start of the chain when it has several genesis atomics),
+ * in ledger order. Each branch runs from the fork point to a tip, along the
+ * longest path where it forks again; later forks are analyzed on their own.
+ * Atomics a resolution rejected, and what was appended to them, only show in
+ * the fork that resolution resolved.
+ */
+function analyzeChain(nodes: ChainNode[], resolutions: ForkResolution[]): ForkAnalysis[] {
+  const byHash = new Map(nodes.map(node => [node.hash, node]))
+  const rejectedHashes = new Set(resolutions.flatMap(resolution => resolution.rejected))
+  const resolvedPoints = new Set(resolutions.map(resolution => resolution.fork_point ?? ''))
+
+  // Nodes are in ledger order, so a prev is seen before what extends it
+  const children = new Map<string, ChainNode[]>() // '' for genesis atomics
+  const rejected = new Set<string>()
+  for (const node of nodes) {
+    const parent = node.prev && byHash.has(node.prev) ? node.prev : ''
+    if (!children.has(parent)) {
+      children.set(parent, [])
+    }
+    children.get(parent)!.push(node)
+    if (rejectedHashes.has(node.hash) || rejected.has(parent)) {
+      rejected.add(node.hash)
+    }
+  }
+
+  // Longest path from each node down to a tip, skipping rejected atomics
+  // unless the path starts on them
+  const depth = new Map<string, number>()
+  const next = new Map<string, ChainNode>()
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i]
+    let best: ChainNode | undefined
+    for (const child of children.get(node.hash) ?? []) {
+      if (rejected.has(child.hash) && !rejected.has(node.hash)) continue
+      if (!best || depth.get(child.hash)! > depth.get(best.hash)!) {
+        best = child
+      }
+    }
+    depth.set(node.hash, 1 + (best ? depth.get(best.hash)! : 0))
+    if (best) {
+      next.set(node.hash, best)
+    }
+  }
+
+  const forks: ForkAnalysis[] = []
+  const points: Array<ChainNode | null> = [null, ...nodes]
+  for (const point of points) {
+    const key = point?.hash ?? ''
+    if (point && rejected.has(key)) continue
+    const all = children.get(key) ?? []
+    // A resolved fork keeps showing its rejected branches
+    const extending = resolvedPoints.has(key) ? all : all.filter(child => !rejected.has(child.hash))
+    if (extending.length < 2) continue
+
+    const branches: ForkBranch[] = extending.map(first => {
+      const atomics: BranchAtomic[] = []
+      for (let node: ChainNode | undefined = first; node; node = next.get(node.hash)) {
+        atomics.push(toBranchAtomic(node))
+      }
+      const times = atomics.map(atomic => atomic.created_at ?? atomic.signed_at).filter((t): t is string => !!t).sort()
+      return {
+        head: atomics[atomics.length - 1].hash,
+        atomics,
+        length: atomics.length,
+        signers: distinct(atomics.map(atomic => atomic.signer)),
+        actors: distinct(atomics.map(atomic => atomic.actor)),
+        ...(times.length > 0 ? { first_at: times[0], last_at: times[times.length - 1] } : {}),
+        longest: false
+      }
+    })
+
+    const longest = Math.max(...branches.map(branch => branch.length))
+    for (const branch of branches) {
+      branch.longest = branch.length === longest
+    }
+    branches.sort((a, b) => b.length - a.length || a.atomics[0].line - b.atomics[0].line)
+
+    forks.push({
+      common_ancestor: point ? toBranchAtomic(point) : null,
+      branches
+    })
+  }
+  return forks
+}
+
+function toBranchAtomic({ prev: _prev, ...atomic }: ChainNode): BranchAtomic {
+  return atomic
+}
+
+function distinct(values: Array<string | undefined>): string[] {
+  return Array.from(new Set(values.filter((value): value is string => !!value)))
+}
@@ -0,0 +1,145 @@
+/**
+ * Signing key rotation
+ *
+ * A key rotation is an atomic, signed by both the outgoing and the incoming
+ * key, that hands signing over from one to the other at its position in the
+ * ledger:
+ *
+ * ```json
+ * {
+ *   "entity_type": "decision",
+ *   "this": "ledger/key-rotation",
+ *   "trace_id": "ledger-keys",
+ *   "did": { "actor": "ops", "action": "rotate_key", "reason": "scheduled" },
+ *   "input": { "retired_key": "<hex>", "new_key": "<hex>", "new_alg": "Ed25519" },
+ *   "multisig": { "threshold": 2, "public_keys": ["<retired>", "<new>"] },
+ *   "signature": { "public_key": "<retired>", ... },
+ *   "cosignatures": [{ "public_key": "<new>", ... }]
+ * }
+ * ```
+ *
+ * The retired key's signature authorizes the new key; the new key's proves
+ * its holder took part. Verification honors rotations whose signatures
+ * verify under its trust root (a pinned key or a keyring; without one no
+ * rotation counts): the new key is trusted wherever the retired key was (a pinned
+ * `publicKeyHex` extends to it), but only for atomics after the rotation,
+ * and the retired key's signatures after it are flagged. The rotation point
+ * is the ledger position, not `signed_at`, which a stolen key can backdate.
+ */
+
+import { CANONICALIZATION_JCS, canonicalize } from '../canonical.js'
+import { hashAtomic, signHash } from '../crypto.js'
+import { cosignAtomic } from '../multisig.js'
+import { DEFAULT_SIGNATURE_ALG, signatureAlgorithm } from '../signatureAlgorithms.js'
+import type { Atomic, SignatureAlg } from '../../types.js'
+
+export const KEY_ROTATION_ACTION = 'rotate_key'
+
+const KEY_ROTATION_THIS = 'ledger/key-rotation'
+
+/** trace_id of key rotations */
+export const KEY_ROTATION_TRACE_ID = 'ledger-keys'
+
+export interface KeyRotation {
+  hash: string
+  /** Line of the rotation in the ledger, across segments */
+  line: number
+  retired_key: string
+  new_key: string
+  new_alg?: SignatureAlg
+  actor?: string
+  reason?: string
+  signed_at?: string
+}
+
+export interface KeyRotationKey {
+  privateKeyHex: string
+  alg?: SignatureAlg
+}
+
+export class KeyRotationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KeyRotationError'
+  }
+}
+
+/**
+ * Key rotation from one key to the other, signed by the retired key and
+ * co-signed by the new one, ready to append. `prev` links it to the chain
+ * head, since the ledger does not link atomics that arrive signed.
+ */
+export function createKeyRotation(
+  retired: KeyRotationKey,
+  next: KeyRotationKey,
+  options: { actor: string; reason?: string; prev?: string; createdAt?: Date }
+): Atomic {
+  const retiredKey = publicKeyOf(retired)
+  const newKey = publicKeyOf(next)
+  if (retiredKey === newKey) {
+    throw new KeyRotationError('The new key is the key being retired')
+  }
+
+  const rotation: Atomic = {
+    schema_version: '1.1.0',
+    entity_type: 'decision',
+    this: KEY_ROTATION_THIS,
+    trace_id: KEY_ROTATION_TRACE_ID,
+    ...(options.prev ? { prev: options.prev } : {}),
+    did: {
+      actor: options.actor,
+      action: KEY_ROTATION_ACTION,
+      ...(options.reason ? { reason: options.reason } : {})
+    },
+    input: {
+      retired_key: retiredKey,
+      new_key: newKey,
+      new_alg: next.alg ?? DEFAULT_SIGNATURE_ALG
+    },
+    multisig: { threshold: 2, public_keys: [retiredKey, newKey] },
+    canonicalization: CANONICALIZATION_JCS,
+    metadata: { created_at: (options.createdAt ?? new Date()).toISOString() }
+  }
+  rotation.hash = hashAtomic(rotation)
+  rotation.signature = signHash(rotation.hash, retired.privateKeyHex, retired.alg)
+  return cosignAtomic(rotation, next.privateKeyHex, next.alg)
+}
+
+/**
+ * The rotation an atomic records, or null if it is not a well-formed key
+ * rotation signed by its retired key
+ */
+export function readKeyRotation(atomic: Atomic, line: number): KeyRotation | null {
+  if (atomic.this !== KEY_ROTATION_THIS || atomic.did?.action !== KEY_ROTATION_ACTION || !atomic.hash) {
+    return null
+  }
+  const { retired_key: retired, new_key: next, new_alg: newAlg } = atomic.input ?? {}
+  const policy = atomic.multisig
+  if (
+    typeof retired !== 'string' || typeof next !== 'string' || retired === next ||
+    policy?.threshold !== 2 ||
+    canonicalize([...policy.public_keys].sort()) !== canonicalize([retired, next].sort()) ||
+    atomic.signature?.public_key?.toLowerCase() !== retired
+  ) {
+    return null
+  }
+  return {
+    hash: atomic.hash,
+    line,
+    retired_key: retired,
+    new_key: next,
+    ...(typeof newAlg === 'string' ? { new_alg: newAlg as SignatureAlg } : {}),
+    ...(typeof atomic.did.actor === 'string' ? { actor: atomic.did.actor } : {}),
+    ...(typeof atomic.did.reason === 'string' ? { reason: atomic.did.reason } : {}),
+    ...(atomic.signature.signed_at ? { signed_at: atomic.signature.signed_at } : {})
+  }
+}
+
+function publicKeyOf(key: KeyRotationKey): string {
+  const alg = key.alg ?? DEFAULT_SIGNATURE_ALG
+  const algorithm = signatureAlgorithm(alg)
+  if (!algorithm) {
+    throw new KeyRotationError(`Unsupported signature algorithm: ${alg}`)
+  }
+  return Buffer.from(algorithm.getPublicKey(Buffer.from(key.privateKeyHex, 'hex'))).toString('hex')
+}
@@ -0,0 +1,235 @@
+/**
+ * Keyring trust policy for signature verification
+ *
+ * A keyring file lists the keys trusted to sign atomics:
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "keys": [
+ *     { "public_key": "<hex>", "owner": "node-1", "valid_from": "2024-01-01T00:00:00Z",
+ *       "valid_to": "2025-01-01T00:00:00Z" },
+ *     { "public_key": "<hex>", "owner": "*", "revoked_at": "2024-06-01T00:00:00Z",
+ *       "revocation_reason": "rotated" }
+ *   ]
+ * }
+ * ```
+ *
+ * A signature is trusted when its key is listed, its `signed_at` falls in
+ * the key's validity window (`valid_from` inclusive, `valid_to` exclusive)
+ * and before the key's revocation, and the key's owner is the atomic's
+ * `did.actor` (`*` signs for any actor, as a ledger node key does).
+ *
+ * `signed_at` is not covered by the signature, so a stolen key can backdate
+ * it: mark such keys `compromised` to distrust every signature they made.
+ */
+
+import { createHash } from 'crypto'
+import { readFileSync } from 'fs'
+import { canonicalize } from '../canonical.js'
+import { isPublicKeyHex } from '../signatureAlgorithms.js'
+import type { Signature } from '../../types.js'
+import { writeFileAtomic } from './ledgerFile.js'
+
+export const KEYRING_VERSION = 1
+
+export interface KeyringEntry {
+  public_key: string
+  /** `did.actor` the key signs for, or `*` for any actor */
+  owner: string
+  valid_from?: string
+  valid_to?: string
+  revoked_at?: string
+  revocation_reason?: string
+  /** Distrust every signature of the key, whatever its `signed_at` */
+  compromised?: boolean
+  label?: string
+}
+
+export interface KeyringFile {
+  version: number
+  keys: KeyringEntry[]
+}
+
+export type KeyTrustCode =
+  | 'UNTRUSTED_KEY'
+  | 'KEY_REVOKED'
+  | 'MISSING_SIGNED_AT'
+  | 'KEY_NOT_YET_VALID'
+  | 'KEY_EXPIRED'
+  | 'KEY_NOT_ALLOWED_FOR_ACTOR'
+
+export interface KeyTrustFailure {
+  code: KeyTrustCode
+  message: string
+  details: Record<string, unknown>
+}
+
+export class KeyringError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KeyringError'
+  }
+}
+
+export class Keyring {
+  private keys: Map<string, KeyringEntry> = new Map()
+
+  constructor(entries: KeyringEntry[] = []) {
+    for (const entry of entries) {
+      this.add(entry)
+    }
+  }
+
+  static load(path: string): Keyring {
+    let file: KeyringFile
+    try {
+      file = JSON.parse(readFileSync(path, 'utf-8'))
+    } catch (err) {
+      throw new KeyringError(`Unreadable keyring ${path}: ${(err as Error).message}`)
+    }
+    if (file.version !== KEYRING_VERSION || !Array.isArray(file.keys)) {
+      throw new KeyringError(`Unsupported keyring ${path}: expected version ${KEYRING_VERSION} with a keys array`)
+    }
+    return new Keyring(file.keys)
+  }
+
+  save(path: string): void {
+    const file: KeyringFile = { version: KEYRING_VERSION, keys: this.entries() }
+    writeFileAtomic(path, JSON.stringify(file, null, 2) + '\n')
+  }
+
+  entries(): KeyringEntry[] {
+    return Array.from(this.keys.values())
+  }
+
+  get(publicKeyHex: string): KeyringEntry | undefined {
+    return this.keys.get(publicKeyHex.toLowerCase())
+  }
+
+  add(entry: KeyringEntry): void {
+    if (!isPublicKeyHex(entry.public_key)) {
+      throw new KeyringError(`Invalid public key in keyring: ${entry.public_key}`)
+    }
+    if (!entry.owner) {
+      throw new KeyringError(`Key ${entry.public_key} has no owner`)
+    }
+    for (const field of ['valid_from', 'valid_to', 'revoked_at'] as const) {
+      if (entry[field] !== undefined && isNaN(Date.parse(entry[field]!))) {
+        throw new KeyringError(`Invalid ${field} for key ${entry.public_key}: ${entry[field]}`)
+      }
+    }
+    const publicKey = entry.public_key.toLowerCase()
+    if (this.keys.has(publicKey)) {
+      throw new KeyringError(`Key ${publicKey} is listed twice`)
+    }
+    this.keys.set(publicKey, { ...entry, public_key: publicKey })
+  }
+
+  revoke(publicKeyHex: string, at: Date = new Date(), reason?: string): void {
+    const entry = this.get(publicKeyHex)
+    if (!entry) {
+      throw new KeyringError(`Key ${publicKeyHex} is not in the keyring`)
+    }
+    entry.revoked_at = at.toISOString()
+    if (reason) {
+      entry.revocation_reason = reason
+    }
+  }
+
+  /**
+   * Hand a key's trust over to a new key at the time the rotation was
+   * signed: the new key signs for the same owner from `at`, and the retired
+   * key is revoked right after, so its signature of the rotation holds
+   */
+  rotate(retiredKeyHex: string, newKeyHex: string, at: Date = new Date(), label?: string): KeyringEntry {
+    const retired = this.get(retiredKeyHex)
+    if (!retired) {
+      throw new KeyringError(`Key ${retiredKeyHex} is not in the keyring`)
+    }
+    if (retired.revoked_at || retired.compromised) {
+      throw new KeyringError(`Key ${retired.public_key} is already revoked`)
+    }
+    this.add({
+      public_key: newKeyHex,
+      owner: retired.owner,
+      valid_from: at.toISOString(),
+      ...(retired.valid_to ? { valid_to: retired.valid_to } : {}),
+      ...(label ? { label } : {})
+    })
+    this.revoke(retired.public_key, new Date(at.getTime() + 1), 'rotated')
+    return this.get(newKeyHex)!
+  }
+
+  /**
+   * Identifies the trust policy, so results verified under another one are not reused
+   */
+  fingerprint(): string {
+    return createHash('sha256').update(canonicalize(this.entries())).digest('hex')
+  }
+
+  /**
+   * Check a (cryptographically valid) signature against the policy. Returns
+   * null when it is trusted.
+   */
+  check(signature: Signature, actor: unknown): KeyTrustFailure | null {
+    const entry = this.get(String(signature.public_key ?? ''))
+    if (!entry) {
+      return failure('UNTRUSTED_KEY', 'Signing key is not in the keyring', { public_key: signature.public_key })
+    }
+
+    const key = { public_key: entry.public_key, ...(entry.label ? { label: entry.label } : {}) }
+    if (entry.compromised) {
+      return failure('KEY_REVOKED', 'Signing key is compromised', {
+        ...key,
+        revoked_at: entry.revoked_at,
+        reason: entry.revocation_reason
+      })
+    }
+
+    const signedAt = signature.signed_at ? Date.parse(signature.signed_at) : NaN
+    if (isNaN(signedAt)) {
+      return failure('MISSING_SIGNED_AT', 'Signature has no valid signed_at to check against the key validity', {
+        ...key,
+        signed_at: signature.signed_at
+      })
+    }
+
+    const window = { signed_at: signature.signed_at }
+    if (entry.revoked_at && signedAt >= Date.parse(entry.revoked_at)) {
+      return failure('KEY_REVOKED', 'Signed after the signing key was revoked', {
+        ...key,
+        ...window,
+        revoked_at: entry.revoked_at,
+        reason: entry.revocation_reason
+      })
+    }
+    if (entry.valid_from && signedAt < Date.parse(entry.valid_from)) {
+      return failure('KEY_NOT_YET_VALID', 'Signed before the signing key became valid', {
+        ...key,
+        ...window,
+        valid_from: entry.valid_from
+      })
+    }
+    if (entry.valid_to && signedAt >= Date.parse(entry.valid_to)) {
+      return failure('KEY_EXPIRED', 'Signed after the signing key expired', {
+        ...key,
+        ...window,
+        valid_to: entry.valid_to
+      })
+    }
+
+    if (entry.owner !== '*' && entry.owner !== actor) {
+      return failure('KEY_NOT_ALLOWED_FOR_ACTOR', 'Signing key is not allowed to sign for this actor', {
+        ...key,
+        owner: entry.owner,
+        actor
+      })
+    }
+    return null
+  }
+}
+
+function failure(code: KeyTrustCode, message: string, details: Record<string, unknown>): KeyTrustFailure {
+  return { code, message, details }
+}
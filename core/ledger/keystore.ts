@@ -0,0 +1,225 @@
+/**
+ * Passphrase-protected keystore for signing keys
+ *
+ * Each private key is stored encrypted at rest in its own JSON file, next to
+ * the metadata needed to use it without decrypting it (label, algorithm,
+ * public key). The encryption key is derived from a passphrase with scrypt;
+ * the private key is sealed with AES-256-GCM, bound to the key's id,
+ * algorithm and public key so they cannot be swapped between files.
+ *
+ * Signing paths take a key reference (`keystore:<label or id>`) wherever they
+ * take a raw hex private key, so keys stay out of shell history and
+ * environment dumps; only the passphrase has to be supplied.
+ */
+
+import { randomBytes, scryptSync } from 'crypto'
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync } from 'fs'
+import { join } from 'path'
+import { DEFAULT_SIGNATURE_ALG, signatureAlgorithm } from '../signatureAlgorithms.js'
+import type { SignatureAlg } from '../../types.js'
+import { withLock, writeFileAtomic, type LockOptions } from './ledgerFile.js'
+import { open, seal } from './payloadEncryption.js'
+
+export const KEYSTORE_VERSION = 1
+export const KEY_REFERENCE_PREFIX = 'keystore:'
+
+const KEY_AAD = 'JsonAtomic/keystore/v1'
+const SCRYPT = { N: 1 << 15, r: 8, p: 1 }
+const SALT_BYTES = 16
+
+/** What the keystore tells about a key without its passphrase */
+export interface KeystoreEntry {
+  id: string
+  label: string
+  alg: SignatureAlg
+  public_key: string
+  created_at: string
+  metadata?: Record<string, string>
+}
+
+export interface UnlockedKey extends KeystoreEntry {
+  privateKeyHex: string
+}
+
+interface StoredKey extends KeystoreEntry {
+  version: number
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number }
+  /** Private key sealed with the passphrase-derived key */
+  encrypted_key: string
+}
+
+export interface CreateKeyOptions {
+  /** Default: Ed25519 */
+  alg?: SignatureAlg
+  /** Import this private key instead of generating one */
+  privateKeyHex?: string
+  metadata?: Record<string, string>
+}
+
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KeystoreError'
+  }
+}
+
+/**
+ * The label or id a key reference names, or null if the value is not a key reference
+ */
+export function parseKeyReference(value: string): string | null {
+  return value.startsWith(KEY_REFERENCE_PREFIX) ? value.slice(KEY_REFERENCE_PREFIX.length) : null
+}
+
+/**
+ * A private key given as raw hex or as a key reference. Keys from the
+ * keystore come with the algorithm they were created for; the keystore and
+ * passphrase are only asked for when the value is a reference.
+ */
+export function resolvePrivateKey(
+  value: string,
+  keystore: () => Keystore,
+  passphrase: () => string | undefined
+): { privateKeyHex: string; alg?: SignatureAlg } {
+  const name = parseKeyReference(value)
+  if (name === null) {
+    return { privateKeyHex: value }
+  }
+  const secret = passphrase()
+  if (!secret) {
+    throw new KeystoreError(`A passphrase is required to unlock key ${name}`)
+  }
+  const { privateKeyHex, alg } = keystore().unlock(name, secret)
+  return { privateKeyHex, alg }
+}
+
+export class Keystore {
+  private dir: string
+  private lockOptions: LockOptions
+
+  constructor(dir: string, options: { lock?: LockOptions } = {}) {
+    this.dir = dir
+    this.lockOptions = options.lock || {}
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true, mode: 0o700 })
+    }
+  }
+
+  /**
+   * Encrypt a new (or imported) private key under a passphrase
+   */
+  async create(label: string, passphrase: string, options: CreateKeyOptions = {}): Promise<KeystoreEntry> {
+    const alg = options.alg || DEFAULT_SIGNATURE_ALG
+    const algorithm = signatureAlgorithm(alg)
+    if (!algorithm) {
+      throw new KeystoreError(`Unsupported signature algorithm: ${alg}`)
+    }
+    if (!label || label.startsWith('k-')) {
+      throw new KeystoreError(`Invalid key label: ${label || '(empty)'}`)
+    }
+    if (!passphrase) {
+      throw new KeystoreError('A passphrase is required')
+    }
+
+    return withLock(join(this.dir, 'keystore'), () => {
+      if (this.stored().some(key => key.label === label)) {
+        throw new KeystoreError(`A key labelled ${label} already exists`)
+      }
+
+      const privateKey = options.privateKeyHex
+        ? Uint8Array.from(Buffer.from(options.privateKeyHex, 'hex'))
+        : algorithm.generatePrivateKey()
+      const entry: KeystoreEntry = {
+        id: `k-${randomBytes(8).toString('hex')}`,
+        label,
+        alg,
+        public_key: Buffer.from(algorithm.getPublicKey(privateKey)).toString('hex'),
+        created_at: new Date().toISOString(),
+        ...(options.metadata ? { metadata: options.metadata } : {})
+      }
+      const kdf = { name: 'scrypt' as const, salt: randomBytes(SALT_BYTES).toString('hex'), ...SCRYPT }
+      const stored: StoredKey = {
+        version: KEYSTORE_VERSION,
+        ...entry,
+        kdf,
+        encrypted_key: seal(Buffer.from(privateKey), deriveKey(passphrase, kdf), associatedData(entry))
+      }
+      writeFileAtomic(this.pathOf(entry.id), JSON.stringify(stored, null, 2) + '\n')
+      return entry
+    }, this.lockOptions)
+  }
+
+  list(): KeystoreEntry[] {
+    return this.stored()
+      .map(publicPart)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+  }
+
+  /**
+   * A key by label or id
+   */
+  get(name: string): KeystoreEntry {
+    return publicPart(this.find(name))
+  }
+
+  /**
+   * Decrypt a key with its passphrase
+   */
+  unlock(name: string, passphrase: string): UnlockedKey {
+    const stored = this.find(name)
+    let privateKey: Buffer
+    try {
+      privateKey = open(stored.encrypted_key, deriveKey(passphrase, stored.kdf), associatedData(stored))
+    } catch {
+      throw new KeystoreError(`Wrong passphrase for key ${stored.label}`)
+    }
+    return { ...publicPart(stored), privateKeyHex: privateKey.toString('hex') }
+  }
+
+  /**
+   * Destroy a key. Signatures it made still verify with its public key.
+   */
+  async delete(name: string): Promise<KeystoreEntry> {
+    return withLock(join(this.dir, 'keystore'), () => {
+      const stored = this.find(name)
+      rmSync(this.pathOf(stored.id))
+      return publicPart(stored)
+    }, this.lockOptions)
+  }
+
+  private find(name: string): StoredKey {
+    const stored = this.stored().find(key => key.id === name || key.label === name)
+    if (!stored) {
+      throw new KeystoreError(`No key ${name} in keystore ${this.dir}`)
+    }
+    return stored
+  }
+
+  private stored(): StoredKey[] {
+    return readdirSync(this.dir)
+      .filter(file => /^k-[0-9a-f]{16}\.json$/.test(file))
+      .map(file => JSON.parse(readFileSync(join(this.dir, file), 'utf-8')) as StoredKey)
+      .filter(key => key.version === KEYSTORE_VERSION)
+  }
+
+  private pathOf(id: string): string {
+    return join(this.dir, `${id}.json`)
+  }
+}
+
+function deriveKey(passphrase: string, kdf: StoredKey['kdf']): Buffer {
+  return scryptSync(passphrase.normalize('NFKC'), Buffer.from(kdf.salt, 'hex'), 32, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: 256 * kdf.N * kdf.r
+  })
+}
+
+function associatedData(entry: Pick<KeystoreEntry, 'id' | 'alg' | 'public_key'>): string {
+  return [KEY_AAD, entry.id, entry.alg, entry.public_key].join('|')
+}
+
+function publicPart(stored: KeystoreEntry): KeystoreEntry {
+  const { id, label, alg, public_key, created_at, metadata } = stored
+  return { id, label, alg, public_key, created_at, ...(metadata ? { metadata } : {}) }
+}
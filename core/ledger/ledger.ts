@@ -1,18 +1,144 @@
 /**
  * Ledger implementation for append-only atomic storage
+ *
+ * With a rotation policy the ledger is split into sealed segments plus the
+ * active file (see ledgerRotation.ts). Cursors are line numbers across all
+ * segments, and scan/query/stream/follow read every segment in order.
  */
 
-import { readFileSync, appendFileSync, existsSync, mkdirSync } from 'fs'
+import { existsSync, mkdirSync } from 'fs'
 import { dirname } from 'path'
-import type { Atomic, LedgerScanOptions, LedgerQueryOptions } from '../../types.js'
-import { hashAtomic } from '../crypto.js'
+import type {
+  Atomic,
+  ChainMode,
+  LedgerChainHeads,
+  LedgerScanOptions,
+  LedgerQueryOptions,
+  SignatureAlg
+} from '../../types.js'
+import { CANONICALIZATION_JCS } from '../canonical.js'
+import { addPqSignature, hashAtomic, signAtomic } from '../crypto.js'
+import { commitFields } from '../disclosure.js'
+import { LedgerIndex } from './ledgerIndex.js'
+import { ledgerEvents, ledgerKey, type LedgerAppendEvent } from './ledgerEvents.js'
+import {
+  appendDurable,
+  readLines,
+  repairTornTail,
+  tryAcquireLock,
+  withLock,
+  type LockOptions,
+  type TornTailReport
+} from './ledgerFile.js'
+import {
+  LedgerRotator,
+  readManifest,
+  recoverSeal,
+  segmentPaths,
+  type RotationOptions
+} from './ledgerRotation.js'
+import { compressionOf } from './segmentCompression.js'
+import { compileFilter, indexHints, matchesFilter, parseFilter } from './filterExpression.js'
+import {
+  LedgerAggregator,
+  type AggregateOptions,
+  type AggregateResult
+} from './ledgerAggregation.js'
+import { externalizeBlobs, type BlobOptions } from './blobStore.js'
+import {
+  defaultShouldEncrypt,
+  encryptAtomic,
+  type PayloadEncryptionOptions
+} from './payloadEncryption.js'
+
+export interface LedgerOptions {
+  /** Chain atomics as one global chain (default) or one chain per trace_id */
+  chainMode?: ChainMode
+  /** Private key used to sign atomics that arrive unsigned */
+  signingKeyHex?: string
+  /** Algorithm of `signingKeyHex` (default: Ed25519) */
+  signingAlg?: SignatureAlg
+  /** Post-quantum private key: atomics this ledger signs get a `pq_signature` too */
+  pqSigningKeyHex?: string
+  /** Algorithm of `pqSigningKeyHex` (default: ML-DSA-65) */
+  pqSigningAlg?: SignatureAlg
+  /** Sidecar index location (default: `<ledgerPath>.idx`) */
+  indexPath?: string
+  /** Cross-process write lock timing */
+  lock?: LockOptions
+  /** Seal the active file into segments by day, week, month or size (default: never) */
+  rotation?: RotationOptions
+  /** Envelope-encrypt `input`/`output` with per-tenant keys before hashing */
+  encryption?: PayloadEncryptionOptions
+  /** Hash atomics over salted per-field commitments so fields can later be redacted */
+  selectiveDisclosure?: boolean
+  /** Move payloads above a size threshold into a content-addressed blob store */
+  blobs?: BlobOptions
+}
+
+export interface LedgerAppendResult {
+  cursor: string
+  atomic: Atomic
+}
+
+export interface LedgerStreamOptions {
+  /** Cursor (0-based line number) to start from (default: beginning) */
+  from?: string
+  filter?: (atomic: Atomic) => boolean
+}
+
+export interface LedgerFollowOptions extends LedgerStreamOptions {
+  /** Start from this cursor instead of the current end of the ledger */
+  from?: string
+  /** How often to check for appends from other processes (default: 1000ms) */
+  pollIntervalMs?: number
+  /** Stop following when aborted */
+  signal?: AbortSignal
+}
+
+const DEFAULT_FOLLOW_POLL_MS = 1000
+
+interface SegmentView {
+  path: string
+  index: LedgerIndex
+  /** Cursor of the segment's first line */
+  start: number
+}
 
 export class Ledger {
   private ledgerPath: string
-  private cursor: number = 0
+  private headsAt: number = 0
+  private segmentsAt: number = 0
+  private chainMode: ChainMode
+  private signingKeyHex?: string
+  private signingAlg?: SignatureAlg
+  private pqSigningKeyHex?: string
+  private pqSigningAlg?: SignatureAlg
+  private globalHead?: string
+  private traceHeads: Map<string, string> = new Map()
+  private index: LedgerIndex
+  private lockOptions: LockOptions
+  private recovery: TornTailReport | null = null
+  private rotator?: LedgerRotator
+  private sealedIndexes: Map<string, LedgerIndex> = new Map()
+  private encryption?: PayloadEncryptionOptions
+  private selectiveDisclosure: boolean
+  private blobs?: BlobOptions
   
-  constructor(ledgerPath: string = './data/ledger.jsonl') {
+  constructor(ledgerPath: string = './data/ledger.jsonl', options: LedgerOptions = {}) {
     this.ledgerPath = ledgerPath
+    this.chainMode = options.chainMode || 'global'
+    this.signingKeyHex = options.signingKeyHex
+    this.signingAlg = options.signingAlg
+    this.pqSigningKeyHex = options.pqSigningKeyHex
+    this.pqSigningAlg = options.pqSigningAlg
+    this.lockOptions = options.lock || {}
+    this.encryption = options.encryption
+    this.selectiveDisclosure = options.selectiveDisclosure || false
+    this.blobs = options.blobs
+    if (options.rotation) {
+      this.rotator = new LedgerRotator(ledgerPath, options.rotation)
+    }
     
     // Ensure directory exists
     const dir = dirname(ledgerPath)
@@ -20,40 +146,374 @@ export class Ledger {
       mkdirSync(dir, { recursive: true })
     }
     
-    // Initialize cursor
-    if (existsSync(ledgerPath)) {
-      const content = readFileSync(ledgerPath, 'utf-8')
-      const lines = content.trim().split('\n').filter(line => line.length > 0)
-      this.cursor = lines.length
+    // Recover from a crash mid-append. If another writer holds the lock the
+    // tail may still be in flight, so leave it to the next locked append.
+    const release = tryAcquireLock(ledgerPath, this.lockOptions)
+    if (release) {
+      try {
+        recoverSeal(ledgerPath)
+        this.repairTail()
+      } finally {
+        release()
+      }
     }
+    
+    // Initialize chain heads from the sidecar index
+    this.index = new LedgerIndex(ledgerPath, options.indexPath)
+    this.loadHeads()
   }
   
   /**
-   * Append an atomic to the ledger
+   * Append an atomic to the ledger. The caller's object is left as it is:
+   * `appendAtomic()` returns the atomic as stored.
    */
   async append(atomic: Atomic): Promise<string> {
+    return (await this.appendAtomic(atomic)).cursor
+  }
+  
+  /**
+   * Append a copy of an atomic, chained, hashed and signed as configured,
+   * and return it with its cursor
+   */
+  async appendAtomic(input: Atomic): Promise<LedgerAppendResult> {
     // Validate atomic has required fields
-    if (!atomic.entity_type || !atomic.this || !atomic.trace_id) {
+    if (!input.entity_type || !input.this || !input.trace_id) {
       throw new Error('Invalid atomic: missing required fields')
     }
+    const atomic = structuredClone(input)
+    
+    // Encrypt the payload so the hash and signature cover the ciphertext.
+    // Atomics that arrive hashed or signed are stored as they are.
+    if (this.encryption && !atomic.hash && !atomic.signature) {
+      const shouldEncrypt = this.encryption.shouldEncrypt || defaultShouldEncrypt
+      if (shouldEncrypt(atomic)) {
+        await encryptAtomic(atomic, this.encryption.keyStore)
+      }
+    }
     
-    // Add hash if not present
+    // Move large payloads out of the line. Encrypted payloads stay inline:
+    // their ciphertext has no fields to externalize.
+    if (this.blobs && !atomic.hash && !atomic.signature) {
+      await externalizeBlobs(atomic, this.blobs.store, this.blobs.threshold)
+    }
+    
+    const cursor = await withLock(this.ledgerPath, () => this.appendLocked(atomic), this.lockOptions)
+    return { cursor, atomic }
+  }
+  
+  private async appendLocked(atomic: Atomic): Promise<string> {
+    // Pick up lines appended by other writers, and anything a crashed writer left behind
+    recoverSeal(this.ledgerPath)
+    this.repairTail()
+    this.refresh()
+    
+    if (this.rotator?.shouldRotate(this.index, atomic)) {
+      await this.rotate(atomic)
+    }
+    
+    return this.write(atomic)
+  }
+  
+  /**
+   * Seal the active segment and start the next one with its genesis atomic
+   */
+  private async rotate(next: Atomic): Promise<void> {
+    const sealed = await this.rotator!.seal(this.index)
+    this.index.rebuild()
+    await this.write(this.rotator!.genesis(sealed, next))
+  }
+  
+  private async write(atomic: Atomic): Promise<string> {
+    // Link to the current chain head, unless the producer already sealed the atomic
+    if (!atomic.hash && !atomic.signature && atomic.prev === undefined) {
+      const head = this.chainMode === 'trace'
+        ? this.traceHeads.get(atomic.trace_id!)
+        : this.globalHead
+      if (head) {
+        atomic.prev = head
+      }
+    }
+    
+    // Add hash (and signature, when a signing key is configured) if not present
     if (!atomic.hash) {
-      atomic.hash = hashAtomic(atomic)
+      if (!atomic.signature && atomic.canonicalization === undefined) {
+        atomic.canonicalization = CANONICALIZATION_JCS
+      }
+      if (this.selectiveDisclosure && !atomic.signature && !atomic.disclosure) {
+        commitFields(atomic)
+      }
+      if (this.signingKeyHex && !atomic.signature) {
+        const { hash, signature } = await signAtomic(atomic, this.signingKeyHex, this.signingAlg)
+        atomic.hash = hash
+        atomic.signature = signature
+        if (this.pqSigningKeyHex) {
+          atomic.pq_signature = addPqSignature(atomic, this.pqSigningKeyHex, this.pqSigningAlg).pq_signature
+        }
+      } else {
+        atomic.hash = hashAtomic(atomic)
+      }
     }
     
     // Check for duplicates
-    const existing = await this.query({ trace_id: atomic.trace_id })
-    if (existing.length > 0 && existing.some(a => a.hash === atomic.hash)) {
+    if (this.segments().some(segment => segment.index.has(atomic.hash!))) {
       throw new Error('Duplicate atomic detected')
     }
     
-    // Append to file
+    // Append to file (fsync'd before the index is updated)
     const line = JSON.stringify(atomic) + '\n'
-    appendFileSync(this.ledgerPath, line, 'utf-8')
+    const offset = appendDurable(this.ledgerPath, line)
+    this.index.add(atomic, offset, Buffer.byteLength(line) - 1)
     
-    this.cursor++
-    return String(this.cursor)
+    this.trackHead(atomic)
+    this.headsAt = this.index.count
+    this.segmentsAt = readManifest(this.ledgerPath).segments.length
+    
+    const cursor = String(this.count())
+    ledgerEvents.emit('append', { ledgerPath: ledgerKey(this.ledgerPath), atomic, cursor })
+    return cursor
+  }
+  
+  /**
+   * Subscribe to appends made to this ledger file from this process.
+   * Returns a function that unsubscribes.
+   */
+  onAppend(listener: (event: LedgerAppendEvent) => void): () => void {
+    const key = ledgerKey(this.ledgerPath)
+    return ledgerEvents.on('append', event => {
+      if (event.ledgerPath === key) {
+        listener(event)
+      }
+    })
+  }
+  
+  /**
+   * Stream atomics in ledger order without loading the whole file
+   */
+  async *stream(options: LedgerStreamOptions = {}): AsyncGenerator<Atomic> {
+    this.index.sync()
+    const from = options.from ? parseInt(options.from) : 0
+    
+    for (const segment of this.segments()) {
+      if (from >= segment.start + segment.index.count && segment.index !== this.index) {
+        continue
+      }
+      for await (const { line } of readLines(segment.path, this.offsetIn(segment, from))) {
+        const atomic = parseLine(line)
+        if (atomic && (!options.filter || options.filter(atomic))) {
+          yield atomic
+        }
+      }
+    }
+  }
+  
+  /**
+   * Stream atomics and keep yielding new ones as they are appended, by this
+   * process (woken by append events) or by others (picked up by polling)
+   */
+  async *follow(options: LedgerFollowOptions = {}): AsyncGenerator<Atomic> {
+    const signal = options.signal
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_FOLLOW_POLL_MS
+    
+    this.index.sync()
+    // Cursor of the next line to yield; segments are re-resolved on every pass
+    // so rotations by any writer are followed into the new active file
+    let position = options.from === undefined ? this.count() : parseInt(options.from)
+    
+    // Appends made while a pass is reading must not be slept through
+    let appended = false
+    const unsubscribe = this.onAppend(() => { appended = true })
+    
+    try {
+      while (!signal?.aborted) {
+        appended = false
+        this.index.sync()
+        
+        for (const segment of this.segments()) {
+          if (position >= segment.start + segment.index.count && segment.index !== this.index) {
+            continue
+          }
+          for await (const { line } of readLines(segment.path, this.offsetIn(segment, position))) {
+            position++
+            const atomic = parseLine(line)
+            if (atomic && (!options.filter || options.filter(atomic))) {
+              yield atomic
+            }
+            if (signal?.aborted) {
+              return
+            }
+          }
+        }
+        
+        if (!appended) {
+          await this.waitForAppend(pollIntervalMs, signal)
+        }
+      }
+    } finally {
+      unsubscribe()
+    }
+  }
+  
+  /**
+   * Get the current chain heads (last hash globally and per trace_id)
+   */
+  getChainHeads(): LedgerChainHeads {
+    return {
+      mode: this.chainMode,
+      global: this.globalHead,
+      traces: Object.fromEntries(this.traceHeads)
+    }
+  }
+  
+  /**
+   * Torn final line truncated when this ledger was opened or last appended to
+   */
+  getRecoveryReport(): TornTailReport | null {
+    return this.recovery
+  }
+  
+  private waitForAppend(timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer)
+        unsubscribe()
+        signal?.removeEventListener('abort', done)
+        resolve()
+      }
+      const timer = setTimeout(done, timeoutMs)
+      const unsubscribe = this.onAppend(done)
+      signal?.addEventListener('abort', done, { once: true })
+    })
+  }
+  
+  /**
+   * Sealed segments followed by the active file, with the cursor each starts at
+   */
+  private segments(): SegmentView[] {
+    const views: SegmentView[] = []
+    let start = 0
+    
+    for (const path of segmentPaths(this.ledgerPath)) {
+      const index = path === this.ledgerPath ? this.index : this.sealedIndex(path)
+      views.push({ path, index, start })
+      start += index.count
+    }
+    
+    return views
+  }
+  
+  /**
+   * Sealed segments never change, so their indexes are opened once
+   */
+  private sealedIndex(path: string): LedgerIndex {
+    let index = this.sealedIndexes.get(path)
+    if (!index) {
+      index = new LedgerIndex(path)
+      this.sealedIndexes.set(path, index)
+    }
+    return index
+  }
+  
+  /**
+   * Number of lines across all segments
+   */
+  private count(): number {
+    const segments = this.segments()
+    const active = segments[segments.length - 1]
+    return active.start + active.index.count
+  }
+  
+  /**
+   * Byte offset of a cursor within a segment: its start for earlier cursors,
+   * its end for later ones
+   */
+  private offsetIn(segment: SegmentView, cursor: number): number {
+    const entry = segment.index.getLine(Math.max(0, cursor - segment.start))
+    return entry ? entry.offset : segment.index.size
+  }
+  
+  /**
+   * Atomics at the given (ascending) lines of a segment, null where a line
+   * does not parse. Plain files are read at their indexed offsets, compressed
+   * ones in a single sequential pass.
+   */
+  private async *readLinesAt(segment: SegmentView, lines: number[]): AsyncGenerator<Atomic | null> {
+    if (lines.length === 0) {
+      return
+    }
+    
+    if (!compressionOf(segment.path)) {
+      for (const line of lines) {
+        try {
+          yield segment.index.read(segment.index.getLine(line)!)
+        } catch {
+          yield null
+        }
+      }
+      return
+    }
+    
+    const wanted = new Set(lines)
+    const last = lines[lines.length - 1]
+    let current = lines[0]
+    
+    for await (const { line } of readLines(segment.path, segment.index.getLine(current)!.offset)) {
+      if (wanted.has(current)) {
+        yield parseLine(line)
+      }
+      if (++current > last) {
+        return
+      }
+    }
+  }
+  
+  private repairTail(): void {
+    const report = repairTornTail(this.ledgerPath)
+    if (report) {
+      this.recovery = report
+      console.warn(
+        `Ledger ${this.ledgerPath}: truncated torn final line (${report.bytes} bytes at offset ${report.offset})`
+      )
+    }
+  }
+  
+  /**
+   * Sync the index with the file and reload heads if other writers appended
+   */
+  private refresh(): void {
+    this.index.sync()
+    const segmentCount = readManifest(this.ledgerPath).segments.length
+    if (this.index.count !== this.headsAt || segmentCount !== this.segmentsAt) {
+      this.loadHeads()
+    }
+  }
+  
+  private loadHeads(): void {
+    this.globalHead = undefined
+    this.traceHeads = new Map()
+    
+    // Later segments override earlier ones
+    for (const segment of this.segments()) {
+      const heads = segment.index.heads()
+      if (heads.global) {
+        this.globalHead = heads.global
+      }
+      for (const [traceId, hash] of heads.traces) {
+        this.traceHeads.set(traceId, hash)
+      }
+    }
+    
+    this.headsAt = this.index.count
+    this.segmentsAt = readManifest(this.ledgerPath).segments.length
+  }
+  
+  private trackHead(atomic: Atomic): void {
+    if (!atomic.hash) {
+      return
+    }
+    this.globalHead = atomic.hash
+    if (atomic.trace_id) {
+      this.traceHeads.set(atomic.trace_id, atomic.hash)
+    }
   }
   
   /**
@@ -63,35 +523,44 @@ export class Ledger {
     atomics: Atomic[]
     next_cursor?: string
   }> {
-    if (!existsSync(this.ledgerPath)) {
-      return { atomics: [] }
-    }
-    
-    const content = readFileSync(this.ledgerPath, 'utf-8')
-    const lines = content.trim().split('\n').filter(line => line.length > 0)
+    this.refresh()
     
+    const segments = this.segments()
+    const total = this.count()
     const limit = options.limit || 10
     const startIdx = options.cursor ? parseInt(options.cursor) : 0
     
     let atomics: Atomic[] = []
+    let nextIdx = startIdx
     
-    for (let i = startIdx; i < lines.length && atomics.length < limit; i++) {
-      try {
-        const atomic = JSON.parse(lines[i])
+    // Read sequentially so compressed segments are decompressed in one pass
+    scan: for (const segment of segments) {
+      if (nextIdx >= segment.start + segment.index.count) {
+        continue
+      }
+      
+      for await (const { line } of readLines(segment.path, this.offsetIn(segment, nextIdx))) {
+        if (nextIdx >= total || atomics.length >= limit) {
+          break scan
+        }
+        nextIdx++
+        
+        const atomic = parseLine(line)
+        if (!atomic) {
+          console.error(`Error parsing line ${nextIdx}`)
+          continue
+        }
         
         // Apply filters
-        if (options.status && atomic.status !== options.status) {
+        if (options.status && atomic.status?.state !== options.status) {
           continue
         }
         
         atomics.push(atomic)
-      } catch (err) {
-        console.error(`Error parsing line ${i + 1}:`, err)
       }
     }
     
-    const nextIdx = startIdx + atomics.length
-    const hasMore = nextIdx < lines.length
+    const hasMore = nextIdx < total
     
     return {
       atomics,
@@ -103,22 +572,29 @@ export class Ledger {
    * Query ledger by filters
    */
   async query(options: LedgerQueryOptions): Promise<Atomic[]> {
-    if (!existsSync(this.ledgerPath)) {
-      return []
-    }
-    
-    const content = readFileSync(this.ledgerPath, 'utf-8')
-    const lines = content.trim().split('\n').filter(line => line.length > 0)
+    this.refresh()
     
     const results: Atomic[] = []
+    const where = options.where ? parseFilter(options.where) : undefined
+    const hints = where ? indexHints(where) : {}
     
-    for (const line of lines) {
-      try {
-        const atomic = JSON.parse(line)
+    // Narrow candidates with the indexes, then check the remaining filters
+    for (const segment of this.segments()) {
+      const lines = segment.index.lookup({
+        trace_id: options.trace_id ?? hints.trace_id,
+        tenant_id: options.tenant_id ?? hints.tenant_id,
+        entity_type: options.entity_type ?? hints.entity_type
+      }) ?? Array.from({ length: segment.index.count }, (_, i) => i)
+      
+      for await (const atomic of this.readLinesAt(segment, lines)) {
+        if (!atomic) {
+          console.error('Error parsing line in', segment.path)
+          continue
+        }
         
         let matches = true
         
-        if (options.trace_id && atomic.metadata?.trace_id !== options.trace_id) {
+        if (options.trace_id && atomic.trace_id !== options.trace_id) {
           matches = false
         }
         
@@ -134,11 +610,13 @@ export class Ledger {
           matches = false
         }
         
+        if (matches && where && !matchesFilter(where, atomic)) {
+          matches = false
+        }
+        
         if (matches) {
           results.push(atomic)
         }
-      } catch (err) {
-        console.error('Error parsing line:', err)
       }
     }
     
@@ -146,41 +624,59 @@ export class Ledger {
   }
   
   /**
-   * Get ledger statistics
+   * Get ledger statistics: counts come from the segment indexes, statuses
+   * from streaming the atomics
    */
   async getStats(): Promise<{
     total: number
     by_type: Record<string, number>
     by_status: Record<string, number>
   }> {
-    if (!existsSync(this.ledgerPath)) {
-      return { total: 0, by_type: {}, by_status: {} }
-    }
-    
-    const content = readFileSync(this.ledgerPath, 'utf-8')
-    const lines = content.trim().split('\n').filter(line => line.length > 0)
-    
     const byType: Record<string, number> = {}
     const byStatus: Record<string, number> = {}
+    let total = 0
     
-    for (const line of lines) {
-      try {
-        const atomic = JSON.parse(line)
-        
-        byType[atomic.entity_type] = (byType[atomic.entity_type] || 0) + 1
-        
-        if (atomic.status) {
-          byStatus[atomic.status] = (byStatus[atomic.status] || 0) + 1
-        }
-      } catch (err) {
-        // Skip invalid lines
+    this.index.sync()
+    for (const segment of this.segments()) {
+      total += segment.index.count
+      for (const [type, count] of segment.index.entityTypeCounts()) {
+        byType[type] = (byType[type] || 0) + count
+      }
+    }
+    
+    for await (const atomic of this.stream()) {
+      if (atomic.status) {
+        byStatus[atomic.status.state] = (byStatus[atomic.status.state] || 0) + 1
       }
     }
     
     return {
-      total: lines.length,
+      total,
       by_type: byType,
       by_status: byStatus
     }
   }
+  
+  /**
+   * Group atomics by field paths and time buckets, with counts, failure
+   * rates and duration percentiles (see ledgerAggregation.ts)
+   */
+  async aggregate(options: AggregateOptions & { where?: string } = {}): Promise<AggregateResult> {
+    const aggregator = new LedgerAggregator(options)
+    const filter = options.where ? compileFilter(options.where) : undefined
+    
+    for await (const atomic of this.stream({ filter })) {
+      aggregator.add(atomic)
+    }
+    
+    return aggregator.result()
+  }
+}
+
+function parseLine(line: Buffer): Atomic | null {
+  try {
+    return JSON.parse(line.toString('utf-8'))
+  } catch {
+    return null
+  }
 }
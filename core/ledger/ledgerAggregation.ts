@@ -0,0 +1,234 @@
+/**
+ * Aggregations over ledger atomics
+ *
+ * Groups atomics by any field paths (`did.actor`, `metadata.tenant_id`,
+ * `intent`, `status.state`, ...) and, optionally, by UTC time bucket, and
+ * computes for each group:
+ *
+ * - `count`
+ * - `failed` / `failure_rate`: atomics with `status.state = failed` or
+ *   `status.result = error`
+ * - `duration_ms`: min, max, mean and percentiles (nearest rank) of
+ *   `when.completed_at - when.started_at`, over atomics that have both
+ *
+ * An atomic's time is `when.started_at`, falling back to
+ * `metadata.created_at` (or `timeField` when given); atomics without a usable
+ * time are left out of bucketed aggregations. Weeks start on Monday.
+ */
+
+import type { Atomic } from '../../types.js'
+import { resolvePath } from './filterExpression.js'
+
+export type TimeBucket = 'minute' | 'hour' | 'day' | 'week' | 'month'
+
+export const TIME_BUCKETS: TimeBucket[] = ['minute', 'hour', 'day', 'week', 'month']
+
+const DEFAULT_PERCENTILES = [50, 90, 99]
+
+export interface AggregateOptions {
+  /** Field paths to group by, e.g. `['did.actor', 'status.state']` */
+  groupBy?: string[]
+  bucket?: TimeBucket
+  /** Field path that places an atomic in time (default: when.started_at, then metadata.created_at) */
+  timeField?: string
+  /** Duration percentiles to compute (default: 50, 90, 99) */
+  percentiles?: number[]
+}
+
+export interface DurationStats {
+  count: number
+  min: number
+  max: number
+  mean: number
+  /** Keyed `p50`, `p90`, ... */
+  percentiles: Record<string, number>
+}
+
+export interface AggregateGroup {
+  /** Start of the time bucket (ISO 8601, UTC) */
+  bucket?: string
+  /** Value of each group-by path (null when missing) */
+  key: Record<string, string | number | boolean | null>
+  count: number
+  failed: number
+  failure_rate: number
+  duration_ms?: DurationStats
+}
+
+export interface AggregateResult {
+  group_by: string[]
+  bucket?: TimeBucket
+  total: number
+  groups: AggregateGroup[]
+}
+
+interface GroupState {
+  bucket?: string
+  key: AggregateGroup['key']
+  count: number
+  failed: number
+  durations: number[]
+}
+
+/**
+ * Incremental aggregation: feed atomics with `add()`, read with `result()`
+ */
+export class LedgerAggregator {
+  private groupBy: string[][]
+  private groups: Map<string, GroupState> = new Map()
+  private total = 0
+
+  constructor(private options: AggregateOptions = {}) {
+    if (options.bucket && !TIME_BUCKETS.includes(options.bucket)) {
+      throw new Error(`Unknown time bucket: ${options.bucket} (expected ${TIME_BUCKETS.join(', ')})`)
+    }
+    this.groupBy = (options.groupBy || []).map(path => path.split('.'))
+  }
+
+  add(atomic: Atomic): void {
+    let bucket: string | undefined
+    if (this.options.bucket) {
+      const time = timeOf(atomic, this.options.timeField)
+      if (!time) {
+        return
+      }
+      bucket = bucketStart(time, this.options.bucket).toISOString()
+    }
+
+    const key: AggregateGroup['key'] = {}
+    this.groupBy.forEach((path, i) => {
+      key[this.options.groupBy![i]] = groupValue(resolvePath(atomic, path))
+    })
+
+    const id = JSON.stringify([bucket ?? null, ...Object.values(key)])
+    let group = this.groups.get(id)
+    if (!group) {
+      group = { bucket, key, count: 0, failed: 0, durations: [] }
+      this.groups.set(id, group)
+    }
+
+    this.total++
+    group.count++
+    if (isFailure(atomic)) {
+      group.failed++
+    }
+    const duration = durationOf(atomic)
+    if (duration !== undefined) {
+      group.durations.push(duration)
+    }
+  }
+
+  result(): AggregateResult {
+    const percentiles = this.options.percentiles || DEFAULT_PERCENTILES
+    const groups = Array.from(this.groups.values())
+      .sort((a, b) => compareGroups(a, b))
+      .map(group => {
+        const result: AggregateGroup = {
+          ...(group.bucket !== undefined ? { bucket: group.bucket } : {}),
+          key: group.key,
+          count: group.count,
+          failed: group.failed,
+          failure_rate: group.failed / group.count
+        }
+        if (group.durations.length > 0) {
+          result.duration_ms = durationStats(group.durations, percentiles)
+        }
+        return result
+      })
+
+    return {
+      group_by: this.options.groupBy || [],
+      ...(this.options.bucket ? { bucket: this.options.bucket } : {}),
+      total: this.total,
+      groups
+    }
+  }
+}
+
+/**
+ * Start of the UTC bucket an instant falls into
+ */
+export function bucketStart(date: Date, bucket: TimeBucket): Date {
+  const start = new Date(date.getTime())
+  switch (bucket) {
+    case 'minute':
+      start.setUTCSeconds(0, 0)
+      break
+    case 'hour':
+      start.setUTCMinutes(0, 0, 0)
+      break
+    case 'day':
+      start.setUTCHours(0, 0, 0, 0)
+      break
+    case 'week':
+      start.setUTCHours(0, 0, 0, 0)
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7))
+      break
+    case 'month':
+      start.setUTCHours(0, 0, 0, 0)
+      start.setUTCDate(1)
+      break
+  }
+  return start
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+export function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1]
+}
+
+function durationStats(durations: number[], percentiles: number[]): DurationStats {
+  const sorted = [...durations].sort((a, b) => a - b)
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, d) => sum + d, 0) / sorted.length,
+    percentiles: Object.fromEntries(percentiles.map(p => [`p${p}`, percentile(sorted, p)]))
+  }
+}
+
+function isFailure(atomic: Atomic): boolean {
+  return atomic.status?.state === 'failed' || atomic.status?.result === 'error'
+}
+
+function durationOf(atomic: Atomic): number | undefined {
+  if (!atomic.when?.started_at || !atomic.when.completed_at) {
+    return undefined
+  }
+  const duration = Date.parse(atomic.when.completed_at) - Date.parse(atomic.when.started_at)
+  return Number.isFinite(duration) && duration >= 0 ? duration : undefined
+}
+
+function timeOf(atomic: Atomic, timeField?: string): Date | undefined {
+  const value = timeField
+    ? resolvePath(atomic, timeField.split('.'))
+    : atomic.when?.started_at ?? atomic.metadata?.created_at
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined
+  }
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+function groupValue(value: unknown): string | number | boolean | null {
+  if (value === undefined || value === null) {
+    return null
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value
+  }
+  return JSON.stringify(value)
+}
+
+function compareGroups(a: GroupState, b: GroupState): number {
+  if (a.bucket !== b.bucket) {
+    return (a.bucket ?? '') < (b.bucket ?? '') ? -1 : 1
+  }
+  const keyA = JSON.stringify(Object.values(a.key))
+  const keyB = JSON.stringify(Object.values(b.key))
+  return keyA < keyB ? -1 : keyA > keyB ? 1 : 0
+}
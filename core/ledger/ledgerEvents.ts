@@ -0,0 +1,68 @@
+/**
+ * In-process events for ledger appends
+ *
+ * Every `Ledger` instance publishes on the shared `ledgerEvents` emitter, so
+ * followers wake up on appends made through any instance in this process.
+ * Appends from other processes are picked up by `Ledger.follow()` polling.
+ */
+
+import { EventEmitter } from 'events'
+import { resolve } from 'path'
+import type { Atomic } from '../../types.js'
+
+export interface LedgerAppendEvent {
+  /** Absolute path of the ledger file */
+  ledgerPath: string
+  atomic: Atomic
+  cursor: string
+}
+
+export interface LedgerEventMap {
+  append: [LedgerAppendEvent]
+}
+
+export type LedgerEventName = keyof LedgerEventMap
+
+export type LedgerEventListener<K extends LedgerEventName> = (...args: LedgerEventMap[K]) => void
+
+/**
+ * EventEmitter with typed event names and payloads
+ */
+export class LedgerEventEmitter {
+  private emitter = new EventEmitter()
+
+  constructor() {
+    // One listener per follower/subscriber is expected, not a leak
+    this.emitter.setMaxListeners(0)
+  }
+
+  on<K extends LedgerEventName>(event: K, listener: LedgerEventListener<K>): () => void {
+    this.emitter.on(event, listener as (...args: unknown[]) => void)
+    return () => this.off(event, listener)
+  }
+
+  once<K extends LedgerEventName>(event: K, listener: LedgerEventListener<K>): () => void {
+    this.emitter.once(event, listener as (...args: unknown[]) => void)
+    return () => this.off(event, listener)
+  }
+
+  off<K extends LedgerEventName>(event: K, listener: LedgerEventListener<K>): void {
+    this.emitter.off(event, listener as (...args: unknown[]) => void)
+  }
+
+  emit<K extends LedgerEventName>(event: K, ...args: LedgerEventMap[K]): boolean {
+    return this.emitter.emit(event, ...args)
+  }
+}
+
+/**
+ * Process-wide ledger event bus
+ */
+export const ledgerEvents = new LedgerEventEmitter()
+
+/**
+ * Normalize a ledger path so events from different relative paths match
+ */
+export function ledgerKey(ledgerPath: string): string {
+  return resolve(ledgerPath)
+}
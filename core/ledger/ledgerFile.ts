@@ -0,0 +1,466 @@
+/**
+ * Low-level, crash-safe file operations for JSONL ledgers
+ *
+ * - Exclusive advisory lock shared by every process writing the same ledger.
+ *   The lock file names its owner with a random token: only the owner removes
+ *   it, and it keeps the file's mtime fresh while it holds the lock, so a lock
+ *   only goes stale when its holder stopped. Stale locks are reclaimed under a
+ *   second lock file, so two contenders cannot both take over the same one.
+ *   The holder's pid is only consulted on the host that wrote it; on shared
+ *   volumes other hosts go by the mtime alone.
+ * - Durable appends (write + fsync)
+ * - Detection and truncation of a torn final line left by a crash
+ * - Streaming line reads by byte offset
+ * - Atomic whole-file replacement (write temp + fsync + rename)
+ */
+
+import { randomUUID } from 'crypto'
+import {
+  closeSync,
+  existsSync,
+  fstatSync,
+  fsyncSync,
+  ftruncateSync,
+  openSync,
+  read,
+  readFileSync,
+  readSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  utimesSync,
+  writeSync
+} from 'fs'
+import { hostname } from 'os'
+import { promisify } from 'util'
+import { compressionOf, createSegmentReadStream } from './segmentCompression.js'
+
+const LOCK_RETRY_MS = 10
+const READ_CHUNK_SIZE = 1024 * 1024 // 1MB
+const readAsync = promisify(read)
+const DEFAULT_LOCK_TIMEOUT_MS = 10_000
+const DEFAULT_LOCK_STALE_MS = 30_000
+
+export interface LockOptions {
+  /** Give up acquiring the lock after this long */
+  timeoutMs?: number
+  /** Locks older than this are considered abandoned */
+  staleMs?: number
+}
+
+export interface TornTailReport {
+  /** Byte offset where the torn line started (new file size) */
+  offset: number
+  /** Number of bytes removed */
+  bytes: number
+  /** The removed bytes, decoded as UTF-8 */
+  content: string
+  detected_at: string
+}
+
+/**
+ * Acquire an exclusive lock on a ledger, shared across processes.
+ * Resolves with a function that releases the lock.
+ */
+export async function acquireLock(ledgerPath: string, options: LockOptions = {}): Promise<() => void> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS
+  const deadline = Date.now() + timeoutMs
+
+  for (;;) {
+    const release = tryAcquireLock(ledgerPath, options)
+    if (release) {
+      return release
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for ledger lock: ${ledgerPath}.lock`)
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS))
+  }
+}
+
+/**
+ * Try to acquire the ledger lock once, reclaiming it if abandoned.
+ * Returns a release function, or null when another writer holds it.
+ */
+export function tryAcquireLock(ledgerPath: string, options: LockOptions = {}): (() => void) | null {
+  const lockPath = `${ledgerPath}.lock`
+  const staleMs = options.staleMs ?? DEFAULT_LOCK_STALE_MS
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const token = randomUUID()
+    if (createLockFile(lockPath, token)) {
+      return holdLock(lockPath, token, staleMs)
+    }
+
+    const holder = readLockOwner(lockPath)
+    if (!holder || !isStale(lockPath, holder, staleMs) || !reclaimLock(lockPath, holder, staleMs)) {
+      return null
+    }
+  }
+
+  return null
+}
+
+/**
+ * Run a function while holding the ledger lock
+ */
+export async function withLock<T>(
+  ledgerPath: string,
+  fn: () => Promise<T> | T,
+  options: LockOptions = {}
+): Promise<T> {
+  const release = await acquireLock(ledgerPath, options)
+  try {
+    return await fn()
+  } finally {
+    release()
+  }
+}
+
+/**
+ * Append data and fsync before returning. Returns the offset it was written at.
+ */
+export function appendDurable(filePath: string, data: string): number {
+  const fd = openSync(filePath, 'a')
+  try {
+    const offset = fstatSync(fd).size
+    const buffer = Buffer.from(data, 'utf-8')
+    let written = 0
+    while (written < buffer.length) {
+      written += writeSync(fd, buffer, written, buffer.length - written)
+    }
+    fsyncSync(fd)
+    return offset
+  } finally {
+    closeSync(fd)
+  }
+}
+
+/**
+ * Replace a file's content so readers see either the old or the new version
+ */
+export function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  const tmpPath = `${filePath}.tmp`
+  const buffer = typeof data === 'string' ? Buffer.from(data, 'utf-8') : data
+  const fd = openSync(tmpPath, 'w')
+  try {
+    let written = 0
+    while (written < buffer.length) {
+      written += writeSync(fd, buffer, written, buffer.length - written)
+    }
+    fsyncSync(fd)
+  } finally {
+    closeSync(fd)
+  }
+  renameSync(tmpPath, filePath)
+}
+
+export interface ReadLinesOptions {
+  /** Also yield a final line without a newline, for files no one appends to */
+  tail?: boolean
+  /** Sees the bytes as they are read from `fromOffset` (decompressed, for compressed segments) */
+  onData?: (data: Buffer) => void
+}
+
+/**
+ * Read complete lines from a byte offset without loading the file in memory.
+ * A trailing line without a newline is not yielded (it may still be in flight)
+ * unless `tail` is set. Compressed segments are decompressed on the fly;
+ * offsets are uncompressed.
+ */
+export async function* readLines(
+  filePath: string,
+  fromOffset: number = 0,
+  options: ReadLinesOptions = {}
+): AsyncGenerator<{ line: Buffer; offset: number; end: number }> {
+  if (!existsSync(filePath)) {
+    return
+  }
+
+  if (compressionOf(filePath)) {
+    yield* readCompressedLines(filePath, fromOffset, options)
+    return
+  }
+
+  // Opened synchronously so the file is the one `fromOffset` was computed
+  // against, even if the ledger is rotated before the first read completes
+  const fd = openSync(filePath, 'r')
+  const chunk = Buffer.alloc(READ_CHUNK_SIZE)
+  let pending: Buffer = Buffer.alloc(0)
+  let pendingOffset = fromOffset
+  let position = fromOffset
+
+  try {
+    for (;;) {
+      const { bytesRead } = await readAsync(fd, chunk, 0, chunk.length, position)
+      if (bytesRead === 0) break
+      position += bytesRead
+      options.onData?.(chunk.subarray(0, bytesRead))
+
+      let data = Buffer.concat([pending, chunk.subarray(0, bytesRead)])
+      let newline = data.indexOf(0x0a)
+
+      while (newline !== -1) {
+        const end = pendingOffset + newline + 1
+        if (newline > 0) {
+          yield { line: Buffer.from(data.subarray(0, newline)), offset: pendingOffset, end }
+        }
+        pendingOffset = end
+        data = data.subarray(newline + 1)
+        newline = data.indexOf(0x0a)
+      }
+
+      pending = Buffer.from(data)
+    }
+    if (options.tail && pending.length > 0) {
+      yield { line: pending, offset: pendingOffset, end: pendingOffset + pending.length }
+    }
+  } finally {
+    closeSync(fd)
+  }
+}
+
+async function* readCompressedLines(
+  filePath: string,
+  fromOffset: number,
+  options: ReadLinesOptions
+): AsyncGenerator<{ line: Buffer; offset: number; end: number }> {
+  const stream = createSegmentReadStream(filePath)
+  let pending: Buffer = Buffer.alloc(0)
+  let pendingOffset = fromOffset
+  let position = 0
+
+  try {
+    for await (const chunk of stream) {
+      let data: Buffer = chunk as Buffer
+      const chunkStart = position
+      position += data.length
+
+      // Compressed files cannot seek: skip bytes before the requested offset
+      if (position <= fromOffset) {
+        continue
+      }
+      if (chunkStart < fromOffset) {
+        data = data.subarray(fromOffset - chunkStart)
+      }
+      options.onData?.(data)
+
+      data = Buffer.concat([pending, data])
+      let newline = data.indexOf(0x0a)
+
+      while (newline !== -1) {
+        const end = pendingOffset + newline + 1
+        if (newline > 0) {
+          yield { line: Buffer.from(data.subarray(0, newline)), offset: pendingOffset, end }
+        }
+        pendingOffset = end
+        data = data.subarray(newline + 1)
+        newline = data.indexOf(0x0a)
+      }
+
+      pending = Buffer.from(data)
+    }
+    if (options.tail && pending.length > 0) {
+      yield { line: pending, offset: pendingOffset, end: pendingOffset + pending.length }
+    }
+  } finally {
+    stream.destroy()
+  }
+}
+
+/**
+ * Truncate a final line that was not terminated by a newline.
+ * Must be called while holding the ledger lock.
+ */
+export function repairTornTail(filePath: string): TornTailReport | null {
+  if (!existsSync(filePath)) {
+    return null
+  }
+
+  const size = statSync(filePath).size
+  if (size === 0 || lastByte(filePath, size) === 0x0a) {
+    return null
+  }
+
+  const fd = openSync(filePath, 'r+')
+  try {
+    const offset = lastNewline(fd, size) + 1
+    const torn = Buffer.alloc(size - offset)
+    readSync(fd, torn, 0, torn.length, offset)
+    ftruncateSync(fd, offset)
+    fsyncSync(fd)
+
+    return {
+      offset,
+      bytes: torn.length,
+      content: torn.toString('utf-8'),
+      detected_at: new Date().toISOString()
+    }
+  } finally {
+    closeSync(fd)
+  }
+}
+
+function lastByte(filePath: string, size: number): number {
+  const fd = openSync(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(1)
+    readSync(fd, buffer, 0, 1, size - 1)
+    return buffer[0]
+  } finally {
+    closeSync(fd)
+  }
+}
+
+/**
+ * Offset of the last newline before `end`, reading backwards in chunks (-1 if none)
+ */
+function lastNewline(fd: number, end: number): number {
+  const chunk = Buffer.alloc(64 * 1024)
+  let position = end
+  while (position > 0) {
+    const length = Math.min(chunk.length, position)
+    position -= length
+    readSync(fd, chunk, 0, length, position)
+    const index = chunk.subarray(0, length).lastIndexOf(0x0a)
+    if (index !== -1) {
+      return position + index
+    }
+  }
+  return -1
+}
+
+interface LockOwner {
+  pid?: number
+  host?: string
+  token?: string
+  acquired_at?: string
+}
+
+/**
+ * Create the lock file for `token`. False when it already exists.
+ */
+function createLockFile(lockPath: string, token: string): boolean {
+  let fd: number
+  try {
+    fd = openSync(lockPath, 'wx')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false
+    }
+    throw err
+  }
+  try {
+    const owner: LockOwner = { pid: process.pid, host: hostname(), token, acquired_at: new Date().toISOString() }
+    writeSync(fd, JSON.stringify(owner))
+  } finally {
+    closeSync(fd)
+  }
+  return true
+}
+
+/**
+ * Keep the lock fresh while it is held. The release function only removes
+ * the lock file if it still names `token`.
+ */
+function holdLock(lockPath: string, token: string, staleMs: number): () => void {
+  const heartbeat = setInterval(() => {
+    try {
+      if (readLockOwner(lockPath)?.token === token) {
+        const now = new Date()
+        utimesSync(lockPath, now, now)
+      }
+    } catch {
+      // The next beat tries again; the lock only goes stale after staleMs
+    }
+  }, Math.max(1, Math.floor(staleMs / 3)))
+  heartbeat.unref()
+
+  let released = false
+  return () => {
+    if (released) {
+      return
+    }
+    released = true
+    clearInterval(heartbeat)
+    if (readLockOwner(lockPath)?.token === token) {
+      try {
+        unlinkSync(lockPath)
+      } catch {
+        // Already removed
+      }
+    }
+  }
+}
+
+/**
+ * The owner recorded in a lock file, or null when it is gone. A lock file
+ * that does not parse (its owner is still writing it, or crashed doing so)
+ * has an empty owner.
+ */
+function readLockOwner(lockPath: string): LockOwner | null {
+  let content: string
+  try {
+    content = readFileSync(lockPath, 'utf-8')
+  } catch {
+    return null
+  }
+  try {
+    return JSON.parse(content)
+  } catch {
+    return {}
+  }
+}
+
+function isStale(lockPath: string, owner: LockOwner, staleMs: number): boolean {
+  try {
+    if (Date.now() - statSync(lockPath).mtimeMs > staleMs) {
+      return true
+    }
+  } catch {
+    // Removed meanwhile: not ours to reclaim, the next attempt creates it
+    return false
+  }
+  // A pid only means something on the host that wrote it
+  if (typeof owner.pid !== 'number' || (owner.host !== undefined && owner.host !== hostname())) {
+    return false
+  }
+  try {
+    process.kill(owner.pid, 0)
+    return false
+  } catch (err) {
+    // Holder process no longer exists
+    return (err as NodeJS.ErrnoException).code === 'ESRCH'
+  }
+}
+
+/**
+ * Remove a stale lock, unless it changed hands since `owner` was read. Runs
+ * under `<lock>.reclaim` so that a contender that read the same stale owner
+ * cannot remove the lock another one has just taken over.
+ */
+function reclaimLock(lockPath: string, owner: LockOwner, staleMs: number): boolean {
+  const reclaimPath = `${lockPath}.reclaim`
+  if (!createLockFile(reclaimPath, randomUUID())) {
+    // A reclaimer that died mid-way must not block the ledger forever
+    try {
+      if (Date.now() - statSync(reclaimPath).mtimeMs > staleMs) {
+        unlinkSync(reclaimPath)
+      }
+    } catch {
+      // Finished meanwhile
+    }
+    return false
+  }
+
+  try {
+    const current = readLockOwner(lockPath)
+    if (!current || current.token !== owner.token || current.pid !== owner.pid || !isStale(lockPath, current, staleMs)) {
+      return current === null
+    }
+    unlinkSync(lockPath)
+    return true
+  } finally {
+    unlinkSync(reclaimPath)
+  }
+}
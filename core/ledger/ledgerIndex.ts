@@ -0,0 +1,491 @@
+/**
+ * Persistent sidecar index for JSONL ledgers
+ *
+ * Maps hash, trace_id, tenant_id and entity_type to the byte offset of each
+ * ledger line so lookups and duplicate checks don't re-read the whole file.
+ *
+ * On-disk format (`<ledger>.idx`, NDJSON):
+ * - line 1: header `{"version":1}`
+ * - one entry per ledger line, in ledger order
+ *
+ * The index is updated incrementally on append, catches up with lines written
+ * by other processes, and is rebuilt from scratch when it no longer matches
+ * the ledger (truncated/rewritten ledger, torn index line, corrupt entry).
+ * Catching up and rebuilding happen in memory: the sidecar file is only
+ * written by `add()` and `persist()`, which run under the ledger lock, so
+ * readers never write it.
+ *
+ * Compressed (sealed) segments never change: their index is carried over
+ * from the plain segment when it is compressed, offsets refer to the
+ * uncompressed bytes, and a lost one is rebuilt by streaming the segment once
+ * (`buildSegmentIndex`). They are never decompressed whole.
+ */
+
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  openSync,
+  readSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeSync
+} from 'fs'
+import type { Atomic } from '../../types.js'
+import { readLines, writeFileAtomic } from './ledgerFile.js'
+import { compressionOf } from './segmentCompression.js'
+
+const INDEX_VERSION = 1
+const READ_CHUNK_SIZE = 1024 * 1024 // 1MB
+
+export interface LedgerIndexEntry {
+  offset: number
+  length: number
+  hash?: string
+  trace_id?: string
+  tenant_id?: string
+  entity_type?: string
+}
+
+/**
+ * Iterate over the non-empty lines of a file starting at a byte offset,
+ * without loading the whole file in memory
+ */
+export function forEachLine(
+  filePath: string,
+  fromOffset: number,
+  onLine: (line: Buffer, offset: number) => void
+): number {
+  if (compressionOf(filePath)) {
+    throw new Error(`${filePath} is compressed and can only be read as a stream (use readLines)`)
+  }
+
+  const fd = openSync(filePath, 'r')
+  const chunk = Buffer.alloc(READ_CHUNK_SIZE)
+  let pending: Buffer = Buffer.alloc(0)
+  let pendingOffset = fromOffset
+  let position = fromOffset
+
+  try {
+    for (;;) {
+      const bytesRead = readSync(fd, chunk, 0, chunk.length, position)
+      if (bytesRead === 0) break
+      position += bytesRead
+
+      let data = Buffer.concat([pending, chunk.subarray(0, bytesRead)])
+      let dataOffset = pendingOffset
+      let newline = data.indexOf(0x0a)
+
+      while (newline !== -1) {
+        if (newline > 0) {
+          onLine(data.subarray(0, newline), dataOffset)
+        }
+        dataOffset += newline + 1
+        data = data.subarray(newline + 1)
+        newline = data.indexOf(0x0a)
+      }
+
+      pending = Buffer.from(data)
+      pendingOffset = dataOffset
+    }
+  } finally {
+    closeSync(fd)
+  }
+
+  // Bytes after the last newline are not a complete line
+  return pendingOffset
+}
+
+/**
+ * Write the index of a compressed segment, streaming it once. Must be called
+ * while holding the ledger lock.
+ */
+export async function buildSegmentIndex(segmentPath: string, indexPath: string = `${segmentPath}.idx`): Promise<void> {
+  const tmpPath = `${indexPath}.tmp`
+  const fd = openSync(tmpPath, 'w')
+  try {
+    writeSync(fd, JSON.stringify({ version: INDEX_VERSION }) + '\n')
+    for await (const { line, offset } of readLines(segmentPath)) {
+      writeSync(fd, JSON.stringify(entryFor(parseLine(line), offset, line.length)) + '\n')
+    }
+  } catch (err) {
+    closeSync(fd)
+    rmSync(tmpPath, { force: true })
+    throw err
+  }
+  closeSync(fd)
+  renameSync(tmpPath, indexPath)
+}
+
+export class LedgerIndex {
+  private ledgerPath: string
+  private indexPath: string
+  private entries: LedgerIndexEntry[] = []
+  private byHash: Map<string, number> = new Map()
+  private byTraceId: Map<string, number[]> = new Map()
+  private byTenantId: Map<string, number[]> = new Map()
+  private byEntityType: Map<string, number[]> = new Map()
+  private indexedBytes: number = 0
+  /** Entries known to be in the sidecar file, and its size at that point */
+  private persistedCount: number = 0
+  private persistedBytes: number = 0
+  /** The sidecar file no longer matches and must be rewritten on persist */
+  private stale: boolean = false
+
+  constructor(ledgerPath: string, indexPath: string = `${ledgerPath}.idx`) {
+    this.ledgerPath = ledgerPath
+    this.indexPath = indexPath
+    this.open()
+  }
+
+  /**
+   * Number of indexed ledger lines
+   */
+  get count(): number {
+    return this.entries.length
+  }
+
+  /**
+   * Number of ledger bytes covered by the index
+   */
+  get size(): number {
+    return this.indexedBytes
+  }
+
+  /**
+   * Load the index from disk and bring it up to date with the ledger
+   */
+  open(): void {
+    if (!existsSync(this.indexPath) || !this.load()) {
+      this.rebuild()
+      return
+    }
+    this.sync()
+  }
+
+  /**
+   * Catch up with lines appended since the last sync, or rebuild when the
+   * ledger no longer matches what was indexed
+   */
+  sync(): void {
+    if (compressionOf(this.ledgerPath)) {
+      return
+    }
+
+    const ledgerSize = existsSync(this.ledgerPath) ? statSync(this.ledgerPath).size : 0
+
+    if (ledgerSize === this.indexedBytes) {
+      return
+    }
+
+    if (ledgerSize < this.indexedBytes || !this.lastEntryMatches()) {
+      this.rebuild()
+      return
+    }
+
+    this.indexFrom(this.indexedBytes)
+  }
+
+  /**
+   * Discard the index and re-index the whole ledger (in memory; the sidecar
+   * file is rewritten by the next `persist()`)
+   */
+  rebuild(): void {
+    if (compressionOf(this.ledgerPath)) {
+      throw new Error(`The index of compressed segment ${this.ledgerPath} is missing or corrupt; rebuild it with \`logline-cli compress\``)
+    }
+    this.reset()
+    this.stale = true
+    if (existsSync(this.ledgerPath)) {
+      this.indexFrom(0)
+    }
+  }
+
+  /**
+   * Record a line that was just appended to the ledger at `offset`, and
+   * persist the index. Must be called while holding the ledger lock.
+   */
+  add(atomic: Atomic, offset: number, length: number): LedgerIndexEntry {
+    const entry = entryFor(atomic, offset, length)
+    this.track(entry)
+    this.persist()
+    return entry
+  }
+
+  /**
+   * Write what is only indexed in memory to the sidecar file: append the new
+   * entries, or rewrite the file when it no longer matches. Must be called
+   * while holding the ledger lock.
+   */
+  persist(): void {
+    if (!this.stale && !this.adoptPersisted()) {
+      this.stale = true
+    }
+
+    if (this.stale) {
+      const lines = [JSON.stringify({ version: INDEX_VERSION }), ...this.entries.map(entry => JSON.stringify(entry))]
+      const data = lines.join('\n') + '\n'
+      writeFileAtomic(this.indexPath, data)
+      this.persistedBytes = Buffer.byteLength(data)
+      this.persistedCount = this.entries.length
+      this.stale = false
+      return
+    }
+
+    if (this.persistedCount < this.entries.length) {
+      const added = this.entries.slice(this.persistedCount).map(entry => JSON.stringify(entry) + '\n').join('')
+      appendFileSync(this.indexPath, added, 'utf-8')
+      this.persistedBytes += Buffer.byteLength(added)
+      this.persistedCount = this.entries.length
+    }
+  }
+
+  has(hash: string): boolean {
+    return this.byHash.has(hash)
+  }
+
+  getByHash(hash: string): LedgerIndexEntry | undefined {
+    const line = this.byHash.get(hash)
+    return line === undefined ? undefined : this.entries[line]
+  }
+
+  getLine(line: number): LedgerIndexEntry | undefined {
+    return this.entries[line]
+  }
+
+  /**
+   * Line numbers (0-based) matching every provided key, in ledger order.
+   * Returns undefined when no indexed key was provided.
+   */
+  lookup(keys: {
+    trace_id?: string
+    tenant_id?: string
+    entity_type?: string
+  }): number[] | undefined {
+    const candidates: number[][] = []
+    if (keys.trace_id) candidates.push(this.byTraceId.get(keys.trace_id) || [])
+    if (keys.tenant_id) candidates.push(this.byTenantId.get(keys.tenant_id) || [])
+    if (keys.entity_type) candidates.push(this.byEntityType.get(keys.entity_type) || [])
+
+    if (candidates.length === 0) {
+      return undefined
+    }
+
+    candidates.sort((a, b) => a.length - b.length)
+    const [smallest, ...rest] = candidates
+    const others = rest.map(list => new Set(list))
+    return smallest.filter(line => others.every(set => set.has(line)))
+  }
+
+  /**
+   * Number of indexed atomics per entity_type
+   */
+  entityTypeCounts(): Map<string, number> {
+    return new Map([...this.byEntityType].map(([type, lines]) => [type, lines.length]))
+  }
+
+  /**
+   * Hashes of the indexed atomics from a line (0-based) on, in ledger order
+   */
+  hashes(fromLine: number = 0): string[] {
+    const hashes: string[] = []
+    for (let line = fromLine; line < this.entries.length; line++) {
+      const hash = this.entries[line].hash
+      if (hash) hashes.push(hash)
+    }
+    return hashes
+  }
+
+  /**
+   * Last indexed hash, globally and per trace_id
+   */
+  heads(): { global?: string; traces: Map<string, string> } {
+    let global: string | undefined
+    const traces = new Map<string, string>()
+    for (const entry of this.entries) {
+      if (!entry.hash) continue
+      global = entry.hash
+      if (entry.trace_id) {
+        traces.set(entry.trace_id, entry.hash)
+      }
+    }
+    return { global, traces }
+  }
+
+  /**
+   * Read and parse the ledger line at the given entry
+   */
+  read(entry: LedgerIndexEntry): Atomic {
+    return JSON.parse(this.readRaw(entry).toString('utf-8'))
+  }
+
+  private readRaw(entry: LedgerIndexEntry): Buffer {
+    if (compressionOf(this.ledgerPath)) {
+      // No random access into compressed data; sequential readers use readLines()
+      throw new Error(`${this.ledgerPath} is compressed and can only be read as a stream (use readLines)`)
+    }
+
+    const fd = openSync(this.ledgerPath, 'r')
+    try {
+      const buffer = Buffer.alloc(entry.length)
+      readSync(fd, buffer, 0, entry.length, entry.offset)
+      return buffer
+    } finally {
+      closeSync(fd)
+    }
+  }
+
+  private load(): boolean {
+    this.reset()
+    let header = true
+    let valid = true
+
+    // Read a chunk at a time: the index of a large ledger is large too
+    const end = forEachLine(this.indexPath, 0, line => {
+      if (!valid) return
+      try {
+        const parsed = JSON.parse(line.toString('utf-8'))
+        if (header) {
+          header = false
+          valid = parsed.version === INDEX_VERSION
+          return
+        }
+        const entry: LedgerIndexEntry = parsed
+        // Entries must tile the ledger: each one starts where the last ended
+        if (entry.offset < this.indexedBytes || typeof entry.length !== 'number') {
+          valid = false
+          return
+        }
+        this.track(entry)
+      } catch {
+        valid = false
+      }
+    })
+
+    // An entry without its newline was torn while being written
+    if (!valid || header || end !== statSync(this.indexPath).size) {
+      return false
+    }
+
+    this.persistedCount = this.entries.length
+    this.persistedBytes = end
+    this.stale = false
+    return true
+  }
+
+  /**
+   * Whether the sidecar file still holds what was persisted, taking in the
+   * entries other writers appended since when they match this index
+   */
+  private adoptPersisted(): boolean {
+    if (!existsSync(this.indexPath)) {
+      return false
+    }
+    const size = statSync(this.indexPath).size
+    if (size === this.persistedBytes) {
+      return true
+    }
+    if (size < this.persistedBytes) {
+      return false
+    }
+
+    const tail = Buffer.alloc(size - this.persistedBytes)
+    const fd = openSync(this.indexPath, 'r')
+    try {
+      readSync(fd, tail, 0, tail.length, this.persistedBytes)
+    } finally {
+      closeSync(fd)
+    }
+    if (tail[tail.length - 1] !== 0x0a) {
+      return false
+    }
+
+    const lines = tail.toString('utf-8').split('\n').slice(0, -1)
+    for (const [i, line] of lines.entries()) {
+      const known = this.entries[this.persistedCount + i]
+      try {
+        const entry: LedgerIndexEntry = JSON.parse(line)
+        if (!known || entry.offset !== known.offset || entry.length !== known.length) {
+          return false
+        }
+      } catch {
+        return false
+      }
+    }
+
+    this.persistedCount += lines.length
+    this.persistedBytes = size
+    return true
+  }
+
+  private lastEntryMatches(): boolean {
+    const last = this.entries[this.entries.length - 1]
+    if (!last) {
+      return true
+    }
+    try {
+      const atomic = this.read(last)
+      return atomic.hash === last.hash
+    } catch {
+      return last.hash === undefined
+    }
+  }
+
+  private indexFrom(offset: number): void {
+    forEachLine(this.ledgerPath, offset, (line, lineOffset) => {
+      this.track(entryFor(parseLine(line), lineOffset, line.length))
+    })
+  }
+
+  private track(entry: LedgerIndexEntry): void {
+    const line = this.entries.length
+    this.entries.push(entry)
+    this.indexedBytes = entry.offset + entry.length + 1
+
+    if (entry.hash) this.byHash.set(entry.hash, line)
+    if (entry.trace_id) push(this.byTraceId, entry.trace_id, line)
+    if (entry.tenant_id) push(this.byTenantId, entry.tenant_id, line)
+    if (entry.entity_type) push(this.byEntityType, entry.entity_type, line)
+  }
+
+  private reset(): void {
+    this.entries = []
+    this.byHash.clear()
+    this.byTraceId.clear()
+    this.byTenantId.clear()
+    this.byEntityType.clear()
+    this.indexedBytes = 0
+    this.persistedCount = 0
+    this.persistedBytes = 0
+  }
+}
+
+function entryFor(atomic: Partial<Atomic>, offset: number, length: number): LedgerIndexEntry {
+  return {
+    offset,
+    length,
+    hash: atomic.hash,
+    trace_id: atomic.trace_id,
+    tenant_id: atomic.metadata?.tenant_id,
+    entity_type: atomic.entity_type
+  }
+}
+
+function parseLine(line: Buffer): Partial<Atomic> {
+  try {
+    return JSON.parse(line.toString('utf-8'))
+  } catch {
+    // Unparseable lines are still indexed to keep line numbers aligned
+    return {}
+  }
+}
+
+function push(map: Map<string, number[]>, key: string, line: number): void {
+  const lines = map.get(key)
+  if (lines) {
+    lines.push(line)
+  } else {
+    map.set(key, [line])
+  }
+}
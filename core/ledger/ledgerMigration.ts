@@ -0,0 +1,293 @@
+/**
+ * Ledger migration to schema 1.1.0
+ *
+ * Rewrites a ledger into a new file, one line at a time, upgrading v1.0
+ * atomics (see MIGRATION.md) on the way:
+ *
+ * - `curr_hash` becomes `hash`, recomputed with domain separation
+ * - `metadata.trace_id` moves to the top-level `trace_id`
+ * - a string `did` becomes `{ actor, action: "migrate" }`
+ * - `schema_version` is set to 1.1.0, and a missing `this` is filled from
+ *   the intent (or the entity type)
+ *
+ * Chains are rebuilt: a `prev` naming an old hash is pointed at its new
+ * hash, and atomics without one are linked to the chain head as on append.
+ * Atomics that are already 1.1.0, hash to their stored hash and whose `prev`
+ * is unchanged are copied as they are, signatures included. Old signatures
+ * of rewritten atomics cannot cover their new hash: they are dropped, or
+ * replaced with `resign`.
+ *
+ * Next to the new ledger, a mapping file lists each line's old and new
+ * hash (`{ "line": 1, "old_hash": "...", "new_hash": "..." }`), and the new
+ * ledger ends with a signed migration atomic recording the source and the
+ * mapping file's digest:
+ *
+ * ```json
+ * {
+ *   "entity_type": "decision",
+ *   "this": "ledger/migration",
+ *   "trace_id": "ledger-migrations",
+ *   "did": { "actor": "ops", "action": "migrate" },
+ *   "input": {
+ *     "to_schema": "1.1.0",
+ *     "source": "data/ledger.jsonl",
+ *     "source_sha256": "<hex>",
+ *     "atomics": 1200, "legacy": 1180, "rewritten": 1200, "unchanged": 0,
+ *     "resigned": 0, "dropped_signatures": 1180,
+ *     "mapping": { "file": "ledger.v1.1.jsonl.map.jsonl", "sha256": "<hex>", "entries": 1200 }
+ *   }
+ * }
+ * ```
+ *
+ * `source_sha256` is the SHA-256 of the source bytes as stored (segments in
+ * order, compressed ones decompressed), so for a single-file ledger it is
+ * the file's `sha256sum`.
+ *
+ * The source ledger is only read. Old hashes are held in memory to remap
+ * `prev`, the atomics are not.
+ */
+
+import { createHash, randomUUID } from 'crypto'
+import { closeSync, existsSync, fsyncSync, openSync, writeSync } from 'fs'
+import { basename, resolve } from 'path'
+import { CANONICALIZATION_JCS } from '../canonical.js'
+import { hashAtomic, signHash } from '../crypto.js'
+import type { Atomic, ChainMode, Signature, SignatureAlg } from '../../types.js'
+import { Ledger } from './ledger.js'
+import { readLines } from './ledgerFile.js'
+import { segmentPaths } from './ledgerRotation.js'
+
+export const MIGRATION_ACTION = 'migrate'
+
+const MIGRATION_THIS = 'ledger/migration'
+
+/** trace_id of migration atomics */
+export const MIGRATION_TRACE_ID = 'ledger-migrations'
+
+export const MIGRATION_SCHEMA_VERSION = '1.1.0'
+
+/** An atomic as stored by v1.0 writers (or already in the 1.1.0 shape) */
+export interface LegacyAtomic extends Omit<Partial<Atomic>, 'schema_version' | 'did' | 'signature' | 'metadata'> {
+  schema_version?: string
+  did?: Atomic['did'] | string
+  signature?: Signature | string
+  curr_hash?: string
+  metadata?: Partial<NonNullable<Atomic['metadata']>> & { trace_id?: string }
+}
+
+export interface MigrationOptions {
+  actor: string
+  reason?: string
+  /** Signs the migration atomic, and the rewritten atomics with `resign` */
+  signingKeyHex: string
+  signingAlg?: SignatureAlg
+  /** Sign rewritten atomics with the migration key instead of dropping their signatures */
+  resign?: boolean
+  /** How atomics without `prev` are linked (default: global) */
+  chainMode?: ChainMode
+  /** Old to new hash mapping (default: `<target>.map.jsonl`) */
+  mappingPath?: string
+  createdAt?: Date
+}
+
+export interface MigrationReport {
+  source: string
+  target: string
+  mapping: string
+  /** Atomics copied, not counting the migration atomic */
+  atomics: number
+  /** Atomics that were in a v1.0 shape */
+  legacy: number
+  /** Atomics stored under a new hash */
+  rewritten: number
+  /** Atomics copied as they were */
+  unchanged: number
+  resigned: number
+  /** Signatures of rewritten atomics that were not replaced */
+  dropped_signatures: number
+  /** Hash of the migration atomic */
+  migration: string
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MigrationError'
+  }
+}
+
+/**
+ * Whether an atomic has any field in its v1.0 shape, or lacks one 1.1.0 requires
+ */
+export function isLegacyAtomic(atomic: LegacyAtomic): boolean {
+  return atomic.schema_version !== MIGRATION_SCHEMA_VERSION ||
+    atomic.curr_hash !== undefined ||
+    atomic.metadata?.trace_id !== undefined ||
+    typeof atomic.did !== 'object' ||
+    typeof atomic.signature === 'string' ||
+    !atomic.this ||
+    !atomic.trace_id
+}
+
+/**
+ * The 1.1.0 shape of an atomic, without its hash and signatures (which
+ * covered the old shape). An atomic with no trace at all gets a new one.
+ */
+export function upgradeAtomic(atomic: LegacyAtomic): Atomic {
+  const {
+    curr_hash: _currHash,
+    hash: _hash,
+    signature: _signature,
+    cosignatures: _cosignatures,
+    pq_signature: _pqSignature,
+    metadata,
+    did,
+    ...rest
+  } = atomic
+  const { trace_id: legacyTraceId, ...meta } = metadata ?? {}
+
+  return {
+    ...rest,
+    schema_version: MIGRATION_SCHEMA_VERSION,
+    entity_type: rest.entity_type!,
+    this: rest.this || rest.intent || rest.entity_type!,
+    trace_id: rest.trace_id ?? legacyTraceId ?? randomUUID(),
+    did: typeof did === 'object' ? did : { actor: did ?? 'unknown', action: MIGRATION_ACTION },
+    ...(metadata ? { metadata: meta as Atomic['metadata'] } : {})
+  }
+}
+
+/**
+ * Migrate the ledger at `sourcePath` (all its segments, oldest first) into
+ * a new ledger at `targetPath`, which must not exist yet
+ */
+export async function migrateLedger(
+  sourcePath: string,
+  targetPath: string,
+  options: MigrationOptions
+): Promise<MigrationReport> {
+  const mappingPath = options.mappingPath ?? `${targetPath}.map.jsonl`
+  if (resolve(targetPath) === resolve(sourcePath) || resolve(mappingPath) === resolve(sourcePath)) {
+    throw new MigrationError('Refusing to migrate a ledger in place: the target must be a new file')
+  }
+  const sources = segmentPaths(sourcePath)
+  if (!sources.some(path => existsSync(path))) {
+    throw new MigrationError(`Ledger not found: ${sourcePath}`)
+  }
+  for (const path of [targetPath, mappingPath]) {
+    if (existsSync(path)) {
+      throw new MigrationError(`${path} already exists`)
+    }
+  }
+
+  const ledger = new Ledger(targetPath, {
+    chainMode: options.chainMode,
+    ...(options.resign ? { signingKeyHex: options.signingKeyHex, signingAlg: options.signingAlg } : {})
+  })
+  const report: MigrationReport = {
+    source: sourcePath,
+    target: targetPath,
+    mapping: mappingPath,
+    atomics: 0,
+    legacy: 0,
+    rewritten: 0,
+    unchanged: 0,
+    resigned: 0,
+    dropped_signatures: 0,
+    migration: ''
+  }
+  const newHashes = new Map<string, string>()
+  const sourceDigest = createHash('sha256')
+  const mappingDigest = createHash('sha256')
+  const mapping = openSync(mappingPath, 'wx')
+  let lineNumber = 0
+
+  try {
+    for (const path of sources) {
+      // The whole source is migrated, including a last line without a newline
+      const lines = readLines(path, 0, { tail: true, onData: data => sourceDigest.update(data) })
+      for await (const { line } of lines) {
+        lineNumber++
+        const text = line.toString('utf-8')
+        if (!text.trim()) continue
+
+        let source: LegacyAtomic
+        try {
+          source = JSON.parse(text)
+        } catch {
+          throw new MigrationError(`Line ${lineNumber} is not valid JSON`)
+        }
+        const oldHash = source.hash ?? source.curr_hash
+        const prev = source.prev === undefined ? undefined : newHashes.get(source.prev) ?? source.prev
+        const legacy = isLegacyAtomic(source)
+
+        let atomic: Atomic
+        if (!legacy && prev === source.prev && source.hash === hashAtomic(source as Atomic)) {
+          atomic = source as Atomic
+          report.unchanged++
+        } else {
+          atomic = upgradeAtomic(source)
+          if (prev !== undefined) {
+            atomic.prev = prev
+          }
+          if (options.resign) {
+            report.resigned++
+          } else if (source.signature) {
+            report.dropped_signatures++
+          }
+          report.rewritten++
+        }
+        if (legacy) {
+          report.legacy++
+        }
+
+        const { atomic: stored } = await ledger.appendAtomic(atomic)
+        if (oldHash) {
+          newHashes.set(oldHash, stored.hash!)
+        }
+        const entry = JSON.stringify({ line: lineNumber, old_hash: oldHash ?? null, new_hash: stored.hash }) + '\n'
+        writeSync(mapping, entry)
+        mappingDigest.update(entry)
+        report.atomics++
+      }
+    }
+    fsyncSync(mapping)
+  } finally {
+    closeSync(mapping)
+  }
+
+  const heads = ledger.getChainHeads()
+  const head = heads.mode === 'trace' ? heads.traces[MIGRATION_TRACE_ID] : heads.global
+  const migration: Atomic = {
+    schema_version: MIGRATION_SCHEMA_VERSION,
+    entity_type: 'decision',
+    this: MIGRATION_THIS,
+    trace_id: MIGRATION_TRACE_ID,
+    ...(head ? { prev: head } : {}),
+    did: {
+      actor: options.actor,
+      action: MIGRATION_ACTION,
+      ...(options.reason ? { reason: options.reason } : {})
+    },
+    input: {
+      to_schema: MIGRATION_SCHEMA_VERSION,
+      source: sourcePath,
+      source_sha256: sourceDigest.digest('hex'),
+      atomics: report.atomics,
+      legacy: report.legacy,
+      rewritten: report.rewritten,
+      unchanged: report.unchanged,
+      resigned: report.resigned,
+      dropped_signatures: report.dropped_signatures,
+      mapping: { file: basename(mappingPath), sha256: mappingDigest.digest('hex'), entries: report.atomics }
+    },
+    canonicalization: CANONICALIZATION_JCS,
+    metadata: { created_at: (options.createdAt ?? new Date()).toISOString() }
+  }
+  migration.hash = hashAtomic(migration)
+  migration.signature = signHash(migration.hash, options.signingKeyHex, options.signingAlg)
+  await ledger.append(migration)
+
+  report.migration = migration.hash
+  return report
+}
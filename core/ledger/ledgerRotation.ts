@@ -1,35 +1,419 @@
 /**
- * 19. Ledger Rotation (por mês ou tenant)
- * Particiona ledger por mês ou tenant, cria novos arquivos conforme regras.
+ * 19. Ledger Rotation (diária, semanal, mensal, por tamanho ou tenant)
+ *
+ * The active ledger file (e.g. `ledger.jsonl`) is sealed into a numbered
+ * segment (`ledger.000001.jsonl`, moved together with its sidecar index) when
+ * the rotation policy says so: on a new UTC day, ISO week or month, or once
+ * the file reaches a size limit. The next segment starts with a genesis
+ * atomic whose `prev` is the final hash of the sealed segment, so the hash
+ * chain continues across files.
+ *
+ * Sealed segments are listed in `<ledger>.manifest.json` with their hash and
+ * time ranges and SHA-256 checksums. They can be compressed (gzip or zstd) on
+ * seal or later with `compressSealedSegments()`, streaming, never holding a
+ * whole segment in memory; the manifest then records the checksum of both the
+ * compressed file and the original bytes. Readers get every segment, in
+ * order, from `segmentPaths()`.
+ *
+ * `TenantLedgerRouter` partitions a ledger by `metadata.tenant_id` instead,
+ * one ledger file per tenant.
  */
 
-import { Ledger } from "./ledger.js"
-import type { Atomic } from "../../types.js"
+import { existsSync, readFileSync, renameSync, statSync, unlinkSync } from "fs"
+import { basename, dirname, extname, join } from "path"
+import type { Atomic, RotationPolicy } from "../../types.js"
+import { Ledger, type LedgerOptions } from "./ledger.js"
+import { buildSegmentIndex, LedgerIndex } from "./ledgerIndex.js"
+import { withLock, writeFileAtomic, type LockOptions } from "./ledgerFile.js"
+import {
+  checkCompression,
+  compressedName,
+  compressFile,
+  sha256File,
+  uncompressedName,
+  type SegmentCompression
+} from "./segmentCompression.js"
+
+const MANIFEST_VERSION = 1
+const GENESIS_ACTOR = "ledger"
+const GENESIS_ACTION = "segment_genesis"
+
+/** trace_id shared by all segment genesis atomics */
+export const SEGMENT_TRACE_ID = "ledger-segments"
+
+export interface RotationOptions {
+  policy: RotationPolicy
+  /** Seal the active segment once it reaches this many bytes (required by the size policy) */
+  maxSizeBytes?: number
+  /** Compress segments as they are sealed */
+  compression?: SegmentCompression
+}
+
+export interface LedgerSegment {
+  seq: number
+  /** File name, relative to the ledger directory */
+  file: string
+  count: number
+  /** Size of the original (uncompressed) segment */
+  bytes: number
+  /** SHA-256 of the original (uncompressed) segment */
+  sha256?: string
+  compression?: SegmentCompression
+  compressed_bytes?: number
+  compressed_sha256?: string
+  first_hash?: string
+  last_hash?: string
+  first_at?: string
+  last_at?: string
+  sealed_at: string
+}
+
+export interface LedgerManifest {
+  version: number
+  segments: LedgerSegment[]
+}
+
+export function manifestPath(ledgerPath: string): string {
+  return `${ledgerPath}.manifest.json`
+}
+
+export function readManifest(ledgerPath: string): LedgerManifest {
+  const path = manifestPath(ledgerPath)
+  if (!existsSync(path)) {
+    return { version: MANIFEST_VERSION, segments: [] }
+  }
+  return JSON.parse(readFileSync(path, "utf-8"))
+}
+
+function writeManifest(ledgerPath: string, manifest: LedgerManifest): void {
+  writeFileAtomic(manifestPath(ledgerPath), JSON.stringify(manifest, null, 2) + "\n")
+}
+
+export function segmentPath(ledgerPath: string, segment: LedgerSegment): string {
+  return join(dirname(ledgerPath), segment.file)
+}
+
+/**
+ * Sealed segments in order, followed by the active ledger file
+ */
+export function segmentPaths(ledgerPath: string): string[] {
+  const sealed = readManifest(ledgerPath).segments
+    .map(segment => segmentPath(ledgerPath, segment))
+    .filter(path => existsSync(path))
+  return [...sealed, ledgerPath]
+}
+
+export function isSegmentGenesis(atomic: Atomic): boolean {
+  return atomic.trace_id === SEGMENT_TRACE_ID &&
+    atomic.did?.actor === GENESIS_ACTOR &&
+    atomic.did?.action === GENESIS_ACTION
+}
+
+/**
+ * Period an instant falls into under a time-based policy (UTC). Keys of the
+ * same policy sort chronologically.
+ */
+export function periodKey(policy: RotationPolicy, date: Date): string | undefined {
+  switch (policy) {
+    case "daily":
+      return date.toISOString().slice(0, 10)
+    case "weekly":
+      return isoWeek(date)
+    case "monthly":
+      return date.toISOString().slice(0, 7)
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Finish a seal interrupted after the manifest was written but before the
+ * active file was moved. Must be called while holding the ledger lock.
+ */
+export function recoverSeal(ledgerPath: string): void {
+  const segments = readManifest(ledgerPath).segments
+  const last = segments[segments.length - 1]
+  if (!last) {
+    return
+  }
+
+  const target = segmentPath(ledgerPath, last)
+  if (existsSync(target) || !existsSync(ledgerPath) || statSync(ledgerPath).size !== last.bytes) {
+    return
+  }
+
+  moveSegment(ledgerPath, target)
+}
+
+/**
+ * Compress a sealed segment in place: stream the compressed file, point the
+ * manifest at it, then remove the original. The segment's index moves with
+ * it (it is rebuilt if missing). Must be called while holding the ledger
+ * lock.
+ */
+export async function compressSegment(
+  ledgerPath: string,
+  seq: number,
+  compression: SegmentCompression
+): Promise<LedgerSegment> {
+  const manifest = readManifest(ledgerPath)
+  const segment = manifest.segments.find(s => s.seq === seq)
+  if (!segment) {
+    throw new Error(`Segment ${seq} is not in the manifest of ${ledgerPath}`)
+  }
+
+  const source = join(dirname(ledgerPath), uncompressedName(segment.file))
+  if (segment.compression) {
+    const current = segmentPath(ledgerPath, segment)
+    // Finish a compression interrupted after the manifest was written
+    if (existsSync(`${source}.idx`) && !existsSync(`${current}.idx`)) {
+      renameSync(`${source}.idx`, `${current}.idx`)
+    }
+    if (existsSync(source)) {
+      unlinkSync(source)
+    }
+    if (!existsSync(`${current}.idx`)) {
+      await buildSegmentIndex(current)
+    }
+    return segment
+  }
+
+  checkCompression(compression)
+  // Bring the index up to date while the segment can still be read at random
+  new LedgerIndex(source).persist()
+
+  const file = compressedName(segment.file, compression)
+  const target = join(dirname(ledgerPath), file)
+  let compressed
+  try {
+    compressed = await compressFile(source, target, compression, segment.sha256)
+  } catch (err) {
+    throw new Error(`Segment ${segment.file}: ${(err as Error).message}`)
+  }
+
+  Object.assign(segment, { file, compression, ...compressed })
+  writeManifest(ledgerPath, manifest)
+
+  if (existsSync(`${source}.idx`)) {
+    renameSync(`${source}.idx`, `${target}.idx`)
+  }
+  unlinkSync(source)
+
+  return segment
+}
+
+/**
+ * Compress every sealed segment that is not compressed yet, and rebuild the
+ * missing index of any that is
+ */
+export async function compressSealedSegments(
+  ledgerPath: string,
+  compression: SegmentCompression,
+  lockOptions: LockOptions = {}
+): Promise<LedgerSegment[]> {
+  checkCompression(compression)
+  return withLock(ledgerPath, async () => {
+    const segments: LedgerSegment[] = []
+    for (const segment of readManifest(ledgerPath).segments) {
+      if (segment.compression && existsSync(`${segmentPath(ledgerPath, segment)}.idx`)) {
+        continue
+      }
+      segments.push(await compressSegment(ledgerPath, segment.seq, compression))
+    }
+    return segments
+  }, lockOptions)
+}
 
 export class LedgerRotator {
-  private basePath: string
-  private mode: "monthly" | "tenant"
+  private ledgerPath: string
+  private options: RotationOptions
+
+  constructor(ledgerPath: string, options: RotationOptions) {
+    if (options.policy === "size" && !options.maxSizeBytes) {
+      throw new Error("Size-based rotation requires maxSizeBytes")
+    }
+    if (options.compression) {
+      checkCompression(options.compression)
+    }
+    this.ledgerPath = ledgerPath
+    this.options = options
+  }
+
+  get policy(): RotationPolicy {
+    return this.options.policy
+  }
+
+  /**
+   * Whether the active segment must be sealed before `next` is appended
+   */
+  shouldRotate(active: LedgerIndex, next: Atomic): boolean {
+    if (active.count === 0) {
+      return false
+    }
+
+    const first = readLine(active, 0)
+    // A segment holding nothing but its genesis has nothing to seal
+    if (active.count === 1 && first && isSegmentGenesis(first)) {
+      return false
+    }
+
+    if (this.options.policy === "size") {
+      return active.size >= this.options.maxSizeBytes!
+    }
+
+    const current = periodKey(this.options.policy, timestampOf(first))!
+    const upcoming = periodKey(this.options.policy, timestampOf(next))!
+    return upcoming > current
+  }
+
+  /**
+   * Seal the active segment: record it in the manifest, then move the ledger
+   * file and its index to the segment name. Must be called while holding the
+   * ledger lock, with `active` in sync with the file.
+   */
+  async seal(active: LedgerIndex): Promise<LedgerSegment> {
+    const manifest = readManifest(this.ledgerPath)
+    const previous = manifest.segments[manifest.segments.length - 1]
+    const seq = previous ? previous.seq + 1 : 1
+
+    const first = readLine(active, 0)
+    const last = readLine(active, active.count - 1)
+
+    const segment: LedgerSegment = {
+      seq,
+      file: segmentFileName(this.ledgerPath, seq),
+      count: active.count,
+      bytes: active.size,
+      sha256: sha256File(this.ledgerPath),
+      first_hash: first?.hash,
+      last_hash: last?.hash,
+      first_at: first?.metadata?.created_at,
+      last_at: last?.metadata?.created_at,
+      sealed_at: new Date().toISOString()
+    }
+
+    // The segment keeps its index, which must be complete on disk
+    active.persist()
+    manifest.segments.push(segment)
+    writeManifest(this.ledgerPath, manifest)
+    moveSegment(this.ledgerPath, segmentPath(this.ledgerPath, segment))
+
+    if (this.options.compression) {
+      return compressSegment(this.ledgerPath, seq, this.options.compression)
+    }
+    return segment
+  }
+
+  /**
+   * First atomic of the segment that follows `sealed`. It opens at the time of
+   * `next`, the atomic that triggered the rotation.
+   */
+  genesis(sealed: LedgerSegment, next: Atomic): Atomic {
+    return {
+      schema_version: "1.1.0",
+      entity_type: "decision",
+      this: `segment/${sealed.seq + 1}`,
+      trace_id: SEGMENT_TRACE_ID,
+      prev: sealed.last_hash,
+      did: {
+        actor: GENESIS_ACTOR,
+        action: GENESIS_ACTION,
+        reason: `${this.options.policy} rotation`
+      },
+      input: {
+        previous_segment: uncompressedName(sealed.file),
+        previous_hash: sealed.last_hash,
+        previous_count: sealed.count
+      },
+      metadata: {
+        created_at: timestampOf(next).toISOString()
+      }
+    }
+  }
+}
 
-  constructor(basePath: string, mode: "monthly" | "tenant" = "monthly") {
-    this.basePath = basePath
-    this.mode = mode
+/**
+ * Partitions atomics by tenant: each `metadata.tenant_id` gets its own
+ * ledger next to the base one (`ledger.jsonl` -> `ledger-acme.jsonl`), with
+ * its own chain, index, lock and rotation. Atomics without a tenant go to the
+ * base ledger.
+ */
+export class TenantLedgerRouter {
+  private ledgerPath: string
+  private options: LedgerOptions
+  private ledgers = new Map<string, Ledger>()
+
+  constructor(ledgerPath: string, options: LedgerOptions = {}) {
+    this.ledgerPath = ledgerPath
+    // Each tenant ledger keeps its index next to its own file
+    const { indexPath: _indexPath, ...rest } = options
+    this.options = rest
+  }
+
+  ledgerFile(atomic?: Atomic): string {
+    const tenant = atomic?.metadata?.tenant_id
+    if (!tenant) {
+      return this.ledgerPath
+    }
+    if (!/^[A-Za-z0-9._-]+$/.test(tenant) || /^\.+$/.test(tenant)) {
+      throw new Error(`Invalid tenant_id for a ledger file name: ${tenant}`)
+    }
+    const ext = extname(this.ledgerPath)
+    return join(dirname(this.ledgerPath), `${basename(this.ledgerPath, ext)}-${tenant}${ext}`)
   }
 
-  getCurrentLedgerFile(atomic?: Atomic): string {
-    if (this.mode === "monthly") {
-      const now = atomic?.metadata?.created_at ? new Date(atomic.metadata.created_at) : new Date()
-      const file = `${this.basePath}/ledger-${now.getFullYear()}-${String(now.getMonth()+1).padStart(2,"0")}.ndjson`
-      return file
-    } else if (this.mode === "tenant" && atomic?.metadata?.tenant_id) {
-      return `${this.basePath}/ledger-${atomic.metadata.tenant_id}.ndjson`
+  ledgerFor(atomic?: Atomic): Ledger {
+    const path = this.ledgerFile(atomic)
+    let ledger = this.ledgers.get(path)
+    if (!ledger) {
+      ledger = new Ledger(path, this.options)
+      this.ledgers.set(path, ledger)
     }
-    // Fallback padrão
-    return `${this.basePath}/ledger.ndjson`
+    return ledger
   }
 
   async append(atomic: Atomic): Promise<string> {
-    const file = this.getCurrentLedgerFile(atomic)
-    const ledger = new Ledger(file)
-    return ledger.append(atomic)
+    return this.ledgerFor(atomic).append(atomic)
   }
-}
\ No newline at end of file
+}
+
+function moveSegment(ledgerPath: string, target: string): void {
+  renameSync(ledgerPath, target)
+  // Sealed segments keep their index; a fresh one is built for the new active file
+  if (existsSync(`${ledgerPath}.idx`)) {
+    renameSync(`${ledgerPath}.idx`, `${target}.idx`)
+  }
+}
+
+function segmentFileName(ledgerPath: string, seq: number): string {
+  const ext = extname(ledgerPath)
+  return `${basename(ledgerPath, ext)}.${String(seq).padStart(6, "0")}${ext}`
+}
+
+/**
+ * Atomic at a line of the index, or undefined when the line does not parse
+ */
+function readLine(index: LedgerIndex, line: number): Atomic | undefined {
+  try {
+    return index.read(index.getLine(line)!)
+  } catch {
+    return undefined
+  }
+}
+
+function timestampOf(atomic?: Atomic): Date {
+  const date = atomic?.metadata?.created_at ? new Date(atomic.metadata.created_at) : new Date()
+  return isNaN(date.getTime()) ? new Date() : date
+}
+
+/**
+ * ISO 8601 week, e.g. `2024-W01`
+ */
+function isoWeek(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  // Thursday of this week decides the year
+  day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7))
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1)
+  const week = Math.ceil(((day.getTime() - yearStart) / 86_400_000 + 1) / 7)
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, "0")}`
+}
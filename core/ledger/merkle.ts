@@ -0,0 +1,313 @@
+/**
+ * Merkle tree over atomic hashes (transparency-log style, RFC 9162 §2.1)
+ *
+ * Leaves are the BLAKE3 atomic hashes produced by `hashAtomic`, in ledger
+ * order. Leaf and interior nodes use distinct prefixes (0x00 / 0x01) so a leaf
+ * can never be passed off as a subtree, and BLAKE3 runs with its own domain
+ * separation context.
+ *
+ * `MerkleTree` grows by appending leaves and keeps its complete subtrees, so
+ * roots and proofs cost O(log n) hashes; the functions taking a leaf list
+ * build one first.
+ *
+ * All hashes are hex encoded.
+ */
+
+import { blake3 } from '@noble/hashes/blake3'
+
+const MERKLE_CONTEXT = 'JsonAtomic/merkle/v1'
+const LEAF_PREFIX = 0x00
+const NODE_PREFIX = 0x01
+
+export interface InclusionProof {
+  leaf_index: number
+  tree_size: number
+  /** Atomic hash the proof is for */
+  leaf: string
+  audit_path: string[]
+  root: string
+}
+
+export interface ConsistencyProof {
+  old_size: number
+  new_size: number
+  old_root: string
+  new_root: string
+  proof: string[]
+}
+
+export function hashLeaf(atomicHash: string): string {
+  return digest(LEAF_PREFIX, Buffer.from(atomicHash, 'hex'))
+}
+
+export function hashNode(left: string, right: string): string {
+  return digest(NODE_PREFIX, Buffer.from(left, 'hex'), Buffer.from(right, 'hex'))
+}
+
+/**
+ * Root of the tree over the first `size` leaves (MTH)
+ */
+export function merkleRoot(leaves: string[], size: number = leaves.length): string {
+  return new MerkleTree(leaves.slice(0, size)).root()
+}
+
+/**
+ * Audit path for leaf `index` in the tree over the first `size` leaves (PATH)
+ */
+export function inclusionPath(leaves: string[], index: number, size: number = leaves.length): string[] {
+  if (size > leaves.length) {
+    throw new RangeError(`Leaf ${index} is not in a tree of size ${size}`)
+  }
+  return new MerkleTree(leaves.slice(0, size)).inclusionPath(index)
+}
+
+/**
+ * Proof that the tree of `oldSize` leaves is a prefix of the tree of `newSize` leaves (PROOF)
+ */
+export function consistencyPath(
+  leaves: string[],
+  oldSize: number,
+  newSize: number = leaves.length
+): string[] {
+  if (newSize > leaves.length) {
+    throw new RangeError(`Cannot prove consistency from size ${oldSize} to ${newSize}`)
+  }
+  return new MerkleTree(leaves.slice(0, newSize)).consistencyPath(oldSize)
+}
+
+/**
+ * A tree that grows by appending leaves. It keeps the root of every complete
+ * subtree (2^h leaves starting at a multiple of 2^h), which never changes as
+ * the tree grows, so roots and proofs for any tree size take O(log n) hashes.
+ */
+export class MerkleTree {
+  /** Atomic hashes, in order */
+  readonly leaves: string[] = []
+  /** nodes[h][i]: root of the complete subtree over leaves [i * 2^h, (i + 1) * 2^h), h >= 1 */
+  private nodes: string[][] = []
+
+  constructor(leaves: string[] = []) {
+    for (const leaf of leaves) {
+      this.append(leaf)
+    }
+  }
+
+  get size(): number {
+    return this.leaves.length
+  }
+
+  append(atomicHash: string): void {
+    this.leaves.push(atomicHash)
+    let index = this.leaves.length - 1
+    let node = hashLeaf(atomicHash)
+    // Each leaf at an odd position completes one subtree per level it is odd at
+    for (let level = 1; isOdd(index); level++) {
+      node = hashNode(this.node(level - 1, index - 1), node)
+      index = half(index)
+      if (!this.nodes[level]) {
+        this.nodes[level] = []
+      }
+      this.nodes[level].push(node)
+    }
+  }
+
+  /**
+   * Root of the tree over the first `size` leaves (MTH)
+   */
+  root(size: number = this.size): string {
+    if (!Number.isSafeInteger(size) || size < 0 || size > this.size) {
+      throw new RangeError(`Tree size ${size} is out of range (tree has ${this.size} leaves)`)
+    }
+    if (size === 0) {
+      return Buffer.from(blake3(new Uint8Array(0), { context: MERKLE_CONTEXT })).toString('hex')
+    }
+    return this.subtreeRoot(0, size)
+  }
+
+  /**
+   * Audit path for leaf `index` in the tree over the first `size` leaves (PATH)
+   */
+  inclusionPath(index: number, size: number = this.size): string[] {
+    if (index < 0 || index >= size || size > this.size) {
+      throw new RangeError(`Leaf ${index} is not in a tree of size ${size}`)
+    }
+    return this.path(index, 0, size)
+  }
+
+  /**
+   * Proof that the tree of `oldSize` leaves is a prefix of the tree of `newSize` leaves (PROOF)
+   */
+  consistencyPath(oldSize: number, newSize: number = this.size): string[] {
+    if (oldSize < 0 || oldSize > newSize || newSize > this.size) {
+      throw new RangeError(`Cannot prove consistency from size ${oldSize} to ${newSize}`)
+    }
+    if (oldSize === 0 || oldSize === newSize) {
+      return []
+    }
+    return this.subproof(oldSize, 0, newSize, true)
+  }
+
+  /**
+   * Root of the complete subtree of 2^level leaves at position `index`.
+   * Leaf hashes are not kept: they cost one hash to recompute.
+   */
+  private node(level: number, index: number): string {
+    return level === 0 ? hashLeaf(this.leaves[index]) : this.nodes[level][index]
+  }
+
+  private subtreeRoot(start: number, end: number): string {
+    const n = end - start
+    if (isPowerOfTwo(n) && start % n === 0) {
+      return this.node(Math.log2(n), start / n)
+    }
+    const k = splitPoint(n)
+    return hashNode(this.subtreeRoot(start, start + k), this.subtreeRoot(start + k, end))
+  }
+
+  private path(m: number, start: number, end: number): string[] {
+    const n = end - start
+    if (n === 1) {
+      return []
+    }
+    const k = splitPoint(n)
+    if (m < k) {
+      return [...this.path(m, start, start + k), this.subtreeRoot(start + k, end)]
+    }
+    return [...this.path(m - k, start + k, end), this.subtreeRoot(start, start + k)]
+  }
+
+  private subproof(m: number, start: number, end: number, complete: boolean): string[] {
+    const n = end - start
+    if (m === n) {
+      return complete ? [] : [this.subtreeRoot(start, end)]
+    }
+    const k = splitPoint(n)
+    if (m <= k) {
+      return [...this.subproof(m, start, start + k, complete), this.subtreeRoot(start + k, end)]
+    }
+    return [...this.subproof(m - k, start + k, end, false), this.subtreeRoot(start, start + k)]
+  }
+}
+
+/**
+ * Verify an inclusion proof (RFC 9162 §2.1.3.2)
+ */
+export function verifyInclusion(proof: InclusionProof): boolean {
+  const { leaf_index: index, tree_size: size, audit_path: auditPath } = proof
+  if (!Number.isSafeInteger(index) || !Number.isSafeInteger(size) || index < 0 || index >= size) {
+    return false
+  }
+
+  try {
+    let fn = index
+    let sn = size - 1
+    let r = hashLeaf(proof.leaf)
+
+    for (const p of auditPath) {
+      if (sn === 0) {
+        return false
+      }
+      if (isOdd(fn) || fn === sn) {
+        r = hashNode(p, r)
+        while (!isOdd(fn) && fn !== 0) {
+          fn = half(fn)
+          sn = half(sn)
+        }
+      } else {
+        r = hashNode(r, p)
+      }
+      fn = half(fn)
+      sn = half(sn)
+    }
+
+    return sn === 0 && r === proof.root
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Verify a consistency proof (RFC 9162 §2.1.4.2)
+ */
+export function verifyConsistency(proof: ConsistencyProof): boolean {
+  const { old_size: first, new_size: second } = proof
+  if (!Number.isSafeInteger(first) || !Number.isSafeInteger(second) || first < 0 || first > second) {
+    return false
+  }
+
+  if (first === second) {
+    return proof.proof.length === 0 && proof.old_root === proof.new_root
+  }
+  if (first === 0) {
+    // The empty tree is a prefix of every tree
+    return proof.proof.length === 0
+  }
+
+  try {
+    const nodes = isPowerOfTwo(first) ? [proof.old_root, ...proof.proof] : [...proof.proof]
+    if (nodes.length === 0) {
+      return false
+    }
+
+    let fn = first - 1
+    let sn = second - 1
+    while (isOdd(fn)) {
+      fn = half(fn)
+      sn = half(sn)
+    }
+
+    let fr = nodes[0]
+    let sr = nodes[0]
+
+    for (const c of nodes.slice(1)) {
+      if (sn === 0) {
+        return false
+      }
+      if (isOdd(fn) || fn === sn) {
+        fr = hashNode(c, fr)
+        sr = hashNode(c, sr)
+        while (!isOdd(fn) && fn !== 0) {
+          fn = half(fn)
+          sn = half(sn)
+        }
+      } else {
+        sr = hashNode(sr, c)
+      }
+      fn = half(fn)
+      sn = half(sn)
+    }
+
+    return fr === proof.old_root && sr === proof.new_root && sn === 0
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Largest power of two smaller than n (n > 1)
+ */
+function splitPoint(n: number): number {
+  let k = 1
+  while (k * 2 < n) {
+    k *= 2
+  }
+  return k
+}
+
+function digest(prefix: number, ...parts: Uint8Array[]): string {
+  const data = Buffer.concat([Buffer.from([prefix]), ...parts])
+  return Buffer.from(blake3(data, { context: MERKLE_CONTEXT })).toString('hex')
+}
+
+// Tree sizes can exceed 2^31, so avoid 32-bit bitwise operators
+function isOdd(n: number): boolean {
+  return n % 2 === 1
+}
+
+function half(n: number): number {
+  return Math.floor(n / 2)
+}
+
+function isPowerOfTwo(n: number): boolean {
+  return n > 0 && splitPoint(n * 2) === n
+}
@@ -0,0 +1,299 @@
+/**
+ * Merkle log over a JSONL ledger with signed checkpoints
+ *
+ * Builds the Merkle tree from the atomic hashes in the sidecar indexes of every
+ * ledger segment, in order, produces inclusion and consistency proofs, and
+ * publishes checkpoints (tree size + root) signed with the node key to
+ * `<ledger>.checkpoints.jsonl`.
+ *
+ * The tree is kept between calls and grows with the ledger: sealed segments
+ * are read once, and only lines appended to the active file since the last
+ * call are added. A ledger that no longer extends what was read (truncated
+ * or rewritten) is read again from the start.
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import { basename } from 'path'
+import { blake3 } from '@noble/hashes/blake3'
+import { canonicalize } from '../canonical.js'
+import { signHash, verifyHashSignature } from '../crypto.js'
+import type { Signature, SignatureAlg } from '../../types.js'
+import { LedgerIndex } from './ledgerIndex.js'
+import { appendDurable, withLock } from './ledgerFile.js'
+import { readManifest, segmentPath } from './ledgerRotation.js'
+import { MerkleTree, type ConsistencyProof, type InclusionProof } from './merkle.js'
+
+const CHECKPOINT_CONTEXT = 'JsonAtomic/checkpoint/v1'
+
+export interface MerkleCheckpoint {
+  /** Identifies the log the checkpoint belongs to */
+  origin: string
+  tree_size: number
+  root: string
+  timestamp: string
+  signature?: Signature
+}
+
+export interface MerkleLogOptions {
+  /** Where signed checkpoints are published (default: `<ledgerPath>.checkpoints.jsonl`) */
+  checkpointsPath?: string
+  /** Log identifier recorded in checkpoints (default: ledger file name) */
+  origin?: string
+}
+
+/**
+ * Hash of a checkpoint body (everything but the signature)
+ */
+export function checkpointHash(checkpoint: MerkleCheckpoint): string {
+  const body = { ...checkpoint }
+  delete body.signature
+  return Buffer.from(
+    blake3(new TextEncoder().encode(canonicalize(body)), { context: CHECKPOINT_CONTEXT })
+  ).toString('hex')
+}
+
+export function signCheckpoint(checkpoint: MerkleCheckpoint, privateKeyHex: string, alg?: SignatureAlg): MerkleCheckpoint {
+  return { ...checkpoint, signature: signHash(checkpointHash(checkpoint), privateKeyHex, alg) }
+}
+
+/**
+ * Verify a checkpoint signature against the node key. The key is required:
+ * the one a checkpoint names proves nothing, anyone can sign with their own.
+ */
+export function verifyCheckpoint(checkpoint: MerkleCheckpoint, publicKeyHex: string): boolean {
+  if (!checkpoint.signature || !publicKeyHex) {
+    return false
+  }
+  return verifyHashSignature(checkpointHash(checkpoint), checkpoint.signature, publicKeyHex)
+}
+
+export class MerkleLog {
+  private ledgerPath: string
+  private checkpointsPath: string
+  private origin: string
+  private tree = new MerkleTree()
+  private leafIndexes: Map<string, number> = new Map() // atomic hash -> first leaf index
+  /** Sealed segments whose leaves are in the tree, and how many leaves they hold */
+  private sealedSegments = 0
+  private sealedLeaves = 0
+  /** Index of the active file, lines of it in the tree, and the hash of the last one */
+  private active?: LedgerIndex
+  private activeLines = 0
+  private activeLast?: string
+
+  constructor(ledgerPath: string, options: MerkleLogOptions = {}) {
+    this.ledgerPath = ledgerPath
+    this.checkpointsPath = options.checkpointsPath || `${ledgerPath}.checkpoints.jsonl`
+    this.origin = options.origin || basename(ledgerPath)
+  }
+
+  /**
+   * Current tree size (number of hashed atomics in the ledger)
+   */
+  get size(): number {
+    return this.update().size
+  }
+
+  root(treeSize?: number): string {
+    const tree = this.update()
+    return tree.root(this.checkSize(treeSize, tree))
+  }
+
+  /**
+   * Atomic hash at a leaf index (ledger order)
+   */
+  leaf(index: number): string {
+    const tree = this.update()
+    if (!Number.isSafeInteger(index) || index < 0 || index >= tree.size) {
+      throw new RangeError(`Leaf ${index} is out of range (ledger has ${tree.size} entries)`)
+    }
+    return tree.leaves[index]
+  }
+
+  /**
+   * Prove that an atomic is included in the tree of `treeSize` leaves (default: current)
+   */
+  proveInclusion(atomicHash: string, treeSize?: number): InclusionProof {
+    const tree = this.update()
+    const size = this.checkSize(treeSize, tree)
+    const leafIndex = this.leafIndexes.get(atomicHash) ?? -1
+
+    if (leafIndex === -1 || leafIndex >= size) {
+      throw new Error(`Atomic ${atomicHash} is not in the first ${size} ledger entries`)
+    }
+
+    return {
+      leaf_index: leafIndex,
+      tree_size: size,
+      leaf: atomicHash,
+      audit_path: tree.inclusionPath(leafIndex, size),
+      root: tree.root(size)
+    }
+  }
+
+  /**
+   * Prove that the tree of `oldSize` leaves is a prefix of the tree of `newSize` leaves
+   */
+  proveConsistency(oldSize: number, newSize?: number): ConsistencyProof {
+    const tree = this.update()
+    const size = this.checkSize(newSize, tree)
+
+    return {
+      old_size: oldSize,
+      new_size: size,
+      old_root: tree.root(oldSize),
+      new_root: tree.root(size),
+      proof: tree.consistencyPath(oldSize, size)
+    }
+  }
+
+  /**
+   * Unsigned checkpoint of the current (or given) tree
+   */
+  checkpoint(treeSize?: number): MerkleCheckpoint {
+    const tree = this.update()
+    const size = this.checkSize(treeSize, tree)
+    return {
+      origin: this.origin,
+      tree_size: size,
+      root: tree.root(size),
+      timestamp: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Sign and publish a checkpoint of the current tree. When the tree has not
+   * grown since the latest checkpoint, that checkpoint is returned instead.
+   * `alg` is the node key's algorithm (default: Ed25519).
+   */
+  async publishCheckpoint(privateKeyHex: string, alg?: SignatureAlg): Promise<MerkleCheckpoint> {
+    return withLock(this.checkpointsPath, () => {
+      const latest = this.latestCheckpoint()
+      const checkpoint = this.checkpoint()
+      if (latest && latest.tree_size === checkpoint.tree_size) {
+        return latest
+      }
+
+      const signed = signCheckpoint(checkpoint, privateKeyHex, alg)
+      appendDurable(this.checkpointsPath, JSON.stringify(signed) + '\n')
+      return signed
+    })
+  }
+
+  /**
+   * Publish a checkpoint every `intervalMs`. Returns a function that stops it.
+   */
+  startCheckpointing(privateKeyHex: string, intervalMs: number, alg?: SignatureAlg): () => void {
+    const timer = setInterval(() => {
+      this.publishCheckpoint(privateKeyHex, alg).catch(err => {
+        console.error('Failed to publish checkpoint:', err)
+      })
+    }, intervalMs)
+    return () => clearInterval(timer)
+  }
+
+  listCheckpoints(): MerkleCheckpoint[] {
+    if (!existsSync(this.checkpointsPath)) {
+      return []
+    }
+    return readFileSync(this.checkpointsPath, 'utf-8')
+      .split('\n')
+      .filter(line => line.length > 0)
+      .map(line => JSON.parse(line))
+  }
+
+  latestCheckpoint(): MerkleCheckpoint | null {
+    const checkpoints = this.listCheckpoints()
+    return checkpoints[checkpoints.length - 1] || null
+  }
+
+  /**
+   * Bring the tree up to date with the ledger
+   */
+  private update(): MerkleTree {
+    try {
+      this.extend()
+    } catch (err) {
+      if (!(err instanceof LedgerRewrittenError)) throw err
+      this.reset()
+      this.extend()
+    }
+    return this.tree
+  }
+
+  private extend(): void {
+    const segments = readManifest(this.ledgerPath).segments
+    if (segments.length < this.sealedSegments) {
+      throw new LedgerRewrittenError()
+    }
+    // A newly sealed segment holds what was the active file: the leaves
+    // already taken from it stay, and the rest is added
+    for (const segment of segments.slice(this.sealedSegments)) {
+      const path = segmentPath(this.ledgerPath, segment)
+      // Leaving its atomics out would shift every later leaf
+      if (!existsSync(path)) {
+        throw new Error(`Sealed segment ${segment.file} is missing: the Merkle tree cannot be built without it`)
+      }
+      const hashes = new LedgerIndex(path).hashes()
+      const taken = this.tree.size - this.sealedLeaves
+      if (taken > hashes.length || (taken > 0 && hashes[taken - 1] !== this.tree.leaves[this.tree.size - 1])) {
+        throw new LedgerRewrittenError()
+      }
+      this.add(hashes.slice(Math.max(taken, 0)))
+      this.sealedLeaves += hashes.length
+      this.sealedSegments++
+      this.active = undefined
+    }
+
+    if (!this.active) {
+      this.active = new LedgerIndex(this.ledgerPath)
+      this.activeLines = 0
+      this.activeLast = undefined
+    } else {
+      this.active.sync()
+    }
+    const active = this.active
+    if (active.count < this.activeLines ||
+      (this.activeLines > 0 && active.getLine(this.activeLines - 1)?.hash !== this.activeLast)) {
+      throw new LedgerRewrittenError()
+    }
+    if (active.count > this.activeLines) {
+      this.add(active.hashes(this.activeLines))
+      this.activeLines = active.count
+      this.activeLast = active.getLine(active.count - 1)?.hash
+    }
+  }
+
+  private add(hashes: string[]): void {
+    for (const hash of hashes) {
+      if (!this.leafIndexes.has(hash)) {
+        this.leafIndexes.set(hash, this.tree.size)
+      }
+      this.tree.append(hash)
+    }
+  }
+
+  private reset(): void {
+    this.tree = new MerkleTree()
+    this.leafIndexes.clear()
+    this.sealedSegments = 0
+    this.sealedLeaves = 0
+    this.active = undefined
+  }
+
+  private checkSize(treeSize: number | undefined, tree: MerkleTree): number {
+    const size = treeSize ?? tree.size
+    if (!Number.isSafeInteger(size) || size < 0 || size > tree.size) {
+      throw new RangeError(`Tree size ${size} is out of range (ledger has ${tree.size} entries)`)
+    }
+    return size
+  }
+}
+
+/** The ledger no longer extends the leaves already in the tree */
+class LedgerRewrittenError extends Error {
+  constructor() {
+    super('Ledger was rewritten')
+    this.name = 'LedgerRewrittenError'
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Envelope encryption of atomic payloads (`input` / `output`)
+ *
+ * Each encrypted field gets a fresh data key (DEK); the field is sealed with
+ * AES-256-GCM under the DEK and the DEK is sealed under the tenant's key
+ * (see tenantKeys.ts). The field is replaced by
+ *
+ *   { "encrypted": { "envelope": "JsonAtomic/envelope/v1", "tenant_id", "key_id",
+ *                    "alg": "A256GCM", "field", "wrapped_key", "ciphertext" } }
+ *
+ * Encryption happens before the atomic is hashed and signed, so the hash and
+ * signature cover the ciphertext and the ledger verifies without any keys.
+ * The envelope header is bound to both ciphertexts as associated data: moving
+ * an envelope to another tenant, key or field makes it fail to decrypt.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+import type { Atomic } from '../../types.js'
+import type { TenantKeyStore } from './tenantKeys.js'
+
+export const ENVELOPE_VERSION = 'JsonAtomic/envelope/v1'
+
+const ALG = 'A256GCM'
+const IV_BYTES = 12
+const TAG_BYTES = 16
+
+export type PayloadField = 'input' | 'output'
+
+const PAYLOAD_FIELDS: PayloadField[] = ['input', 'output']
+
+export interface PayloadEnvelope {
+  envelope: typeof ENVELOPE_VERSION
+  tenant_id: string
+  key_id: string
+  alg: typeof ALG
+  field: PayloadField
+  /** DEK sealed under the tenant key (base64: iv | tag | ciphertext) */
+  wrapped_key: string
+  /** Field JSON sealed under the DEK (base64: iv | tag | ciphertext) */
+  ciphertext: string
+}
+
+export interface PayloadEncryptionOptions {
+  keyStore: TenantKeyStore
+  /** Which atomics to encrypt (default: `defaultShouldEncrypt`) */
+  shouldEncrypt?: (atomic: Atomic) => boolean
+}
+
+/**
+ * The key needed to read a payload was destroyed (crypto-shredded)
+ */
+export class TenantKeyDestroyedError extends Error {
+  constructor(public tenantId: string, public keyId: string) {
+    super(`Key ${keyId} of tenant ${tenantId} was destroyed; the payload is unrecoverable`)
+    this.name = 'TenantKeyDestroyedError'
+  }
+}
+
+/**
+ * Atomics carrying customer data: LLM calls and file writes
+ */
+export function defaultShouldEncrypt(atomic: Atomic): boolean {
+  return atomic.intent === 'file_write' ||
+    atomic.did?.actor === 'llm' ||
+    atomic.output?.llm_result !== undefined
+}
+
+export function isEncrypted(payload: unknown): payload is { encrypted: PayloadEnvelope } {
+  const envelope = (payload as { encrypted?: PayloadEnvelope } | undefined)?.encrypted
+  return typeof envelope === 'object' && envelope !== null && envelope.envelope === ENVELOPE_VERSION
+}
+
+/**
+ * Replace the `input` and `output` of an atomic with envelopes, in place.
+ * Fields that are absent or already encrypted are left alone.
+ */
+export async function encryptAtomic(atomic: Atomic, keyStore: TenantKeyStore): Promise<Atomic> {
+  const fields = PAYLOAD_FIELDS.filter(field => atomic[field] !== undefined && !isEncrypted(atomic[field]))
+  if (fields.length === 0) {
+    return atomic
+  }
+
+  const tenantId = atomic.metadata?.tenant_id
+  if (!tenantId) {
+    throw new Error(`Atomic ${atomic.this} needs metadata.tenant_id to encrypt its payload`)
+  }
+
+  const tenantKey = await keyStore.activeKey(tenantId)
+  for (const field of fields) {
+    const header = { envelope: ENVELOPE_VERSION, tenant_id: tenantId, key_id: tenantKey.id, alg: ALG, field } as const
+    const aad = associatedData(header)
+    const dek = randomBytes(32)
+
+    const envelope: PayloadEnvelope = {
+      ...header,
+      wrapped_key: seal(dek, tenantKey.key, aad),
+      ciphertext: seal(Buffer.from(JSON.stringify(atomic[field]), 'utf-8'), dek, aad)
+    }
+    atomic[field] = { encrypted: envelope }
+  }
+  return atomic
+}
+
+/**
+ * Copy of an atomic with its envelopes opened. Throws
+ * `TenantKeyDestroyedError` when the tenant key was shredded.
+ */
+export function decryptAtomic(atomic: Atomic, keyStore: TenantKeyStore): Atomic {
+  const decrypted: Atomic = { ...atomic }
+  for (const field of PAYLOAD_FIELDS) {
+    const payload = atomic[field]
+    if (isEncrypted(payload)) {
+      decrypted[field] = decryptPayload(payload.encrypted, keyStore)
+    }
+  }
+  return decrypted
+}
+
+export function decryptPayload(envelope: PayloadEnvelope, keyStore: TenantKeyStore): Record<string, any> {
+  if (envelope.alg !== ALG) {
+    throw new Error(`Unsupported payload encryption algorithm: ${envelope.alg}`)
+  }
+
+  const tenantKey = keyStore.getKey(envelope.tenant_id, envelope.key_id)
+  if (!tenantKey) {
+    if (keyStore.isShredded(envelope.tenant_id, envelope.key_id)) {
+      throw new TenantKeyDestroyedError(envelope.tenant_id, envelope.key_id)
+    }
+    throw new Error(`Unknown key ${envelope.key_id} for tenant ${envelope.tenant_id}`)
+  }
+
+  const aad = associatedData(envelope)
+  const dek = open(envelope.wrapped_key, tenantKey.key, aad)
+  return JSON.parse(open(envelope.ciphertext, dek, aad).toString('utf-8'))
+}
+
+/**
+ * AES-256-GCM, encoded as base64(iv | tag | ciphertext)
+ */
+export function seal(plaintext: Buffer, key: Buffer, aad: string): string {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  cipher.setAAD(Buffer.from(aad, 'utf-8'))
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')
+}
+
+export function open(sealed: string, key: Buffer, aad: string): Buffer {
+  const data = Buffer.from(sealed, 'base64')
+  if (data.length < IV_BYTES + TAG_BYTES) {
+    throw new Error('Sealed payload is truncated')
+  }
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_BYTES))
+  decipher.setAAD(Buffer.from(aad, 'utf-8'))
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES))
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()])
+}
+
+function associatedData(header: Pick<PayloadEnvelope, 'envelope' | 'tenant_id' | 'key_id' | 'alg' | 'field'>): string {
+  return [header.envelope, header.tenant_id, header.key_id, header.alg, header.field].join('|')
+}
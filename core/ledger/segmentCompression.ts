@@ -0,0 +1,230 @@
+/**
+ * Compression codecs for sealed ledger segments
+ *
+ * A compressed segment keeps its original name plus the codec extension
+ * (`ledger.000001.jsonl.gz`, `ledger.000001.jsonl.zst`). Offsets in its index
+ * and everything readers see refer to the original, uncompressed bytes.
+ *
+ * Segments are compressed and decompressed as streams, so their size is not
+ * bounded by memory. zstd uses the codec built into node:zlib (Node.js
+ * 22.15+); on older runtimes it is refused up front by `checkCompression`.
+ */
+
+import { createHash, type Hash } from 'crypto'
+import { closeSync, createReadStream, createWriteStream, fsyncSync, openSync, readSync, renameSync, rmSync } from 'fs'
+import { Readable, Transform, Writable } from 'stream'
+import { pipeline } from 'stream/promises'
+import * as zlib from 'zlib'
+
+export type SegmentCompression = 'gzip' | 'zstd'
+
+export const SEGMENT_COMPRESSIONS: SegmentCompression[] = ['gzip', 'zstd']
+
+const EXTENSIONS: Record<SegmentCompression, string> = {
+  gzip: '.gz',
+  zstd: '.zst'
+}
+
+const READ_CHUNK_SIZE = 1024 * 1024 // 1MB
+
+// Not in the Node 20 typings; present at runtime from Node.js 22.15
+const zstd = zlib as unknown as {
+  zstdCompressSync?: (data: Buffer) => Buffer
+  zstdDecompressSync?: (data: Buffer) => Buffer
+  createZstdCompress?: () => Transform
+  createZstdDecompress?: () => Transform
+}
+
+/** A compressed copy of a file, as `compressFile` wrote it */
+export interface CompressedFile {
+  /** SHA-256 of the uncompressed bytes */
+  sha256: string
+  compressed_bytes: number
+  compressed_sha256: string
+}
+
+/**
+ * The codec, if this runtime can use it. Throws with the reason otherwise,
+ * so configuration fails when it is read rather than at the first seal.
+ */
+export function checkCompression(compression: string): SegmentCompression {
+  if (!SEGMENT_COMPRESSIONS.includes(compression as SegmentCompression)) {
+    throw new Error(`Unknown segment compression: ${compression} (expected ${SEGMENT_COMPRESSIONS.join(' or ')})`)
+  }
+  if (compression === 'zstd') {
+    requireZstd()
+  }
+  return compression as SegmentCompression
+}
+
+/**
+ * Codec of a segment file, from its extension
+ */
+export function compressionOf(filePath: string): SegmentCompression | undefined {
+  for (const [compression, ext] of Object.entries(EXTENSIONS)) {
+    if (filePath.endsWith(ext)) {
+      return compression as SegmentCompression
+    }
+  }
+  return undefined
+}
+
+export function compressedName(file: string, compression: SegmentCompression): string {
+  return file + EXTENSIONS[compression]
+}
+
+/**
+ * Name of a segment file without its codec extension
+ */
+export function uncompressedName(file: string): string {
+  const compression = compressionOf(file)
+  return compression ? file.slice(0, -EXTENSIONS[compression].length) : file
+}
+
+export function compress(data: Buffer, compression: SegmentCompression): Buffer {
+  if (compression === 'gzip') {
+    return zlib.gzipSync(data, { level: zlib.constants.Z_BEST_COMPRESSION })
+  }
+  return requireZstd().zstdCompressSync!(data)
+}
+
+export function decompress(data: Buffer, compression: SegmentCompression): Buffer {
+  if (compression === 'gzip') {
+    return zlib.gunzipSync(data)
+  }
+  return requireZstd().zstdDecompressSync!(data)
+}
+
+/**
+ * Uncompressed bytes of a segment file, streamed. When `onRawChunk` is given
+ * it receives the bytes as stored on disk (e.g. to checksum them).
+ */
+export function createSegmentReadStream(
+  filePath: string,
+  onRawChunk?: (chunk: Buffer) => void
+): Readable {
+  const raw = createReadStream(filePath)
+  if (onRawChunk) {
+    raw.on('data', chunk => onRawChunk(chunk as Buffer))
+  }
+
+  const compression = compressionOf(filePath)
+  if (!compression) {
+    return raw
+  }
+
+  const decoder = decompressor(compression)
+  raw.on('error', err => decoder.emit('error', err))
+  return raw.pipe(decoder) as unknown as Readable
+}
+
+/**
+ * Compress `source` into `target`, hashing the uncompressed and compressed
+ * bytes as they stream through, then decompress what was written to check
+ * it round-trips. `target` appears complete and fsync'd, or not at all.
+ * `expectedSha256` is checked against the source before anything is kept.
+ */
+export async function compressFile(
+  source: string,
+  target: string,
+  compression: SegmentCompression,
+  expectedSha256?: string
+): Promise<CompressedFile> {
+  const tmpPath = `${target}.tmp`
+  const plain = createHash('sha256')
+  const packed = createHash('sha256')
+  let compressedBytes = 0
+
+  try {
+    await pipeline(
+      createReadStream(source),
+      digest(plain),
+      compressor(compression),
+      digest(packed, chunk => { compressedBytes += chunk.length }),
+      createWriteStream(tmpPath)
+    )
+    const checksum = plain.digest('hex')
+    if (expectedSha256 && expectedSha256 !== checksum) {
+      throw new Error(`${source} does not match its recorded checksum`)
+    }
+
+    const unpacked = createHash('sha256')
+    await pipeline(createReadStream(tmpPath), decompressor(compression), digestSink(unpacked))
+    if (unpacked.digest('hex') !== checksum) {
+      throw new Error(`Compressing ${source} with ${compression} did not round-trip`)
+    }
+
+    const fd = openSync(tmpPath, 'r')
+    try {
+      fsyncSync(fd)
+    } finally {
+      closeSync(fd)
+    }
+    renameSync(tmpPath, target)
+    return { sha256: checksum, compressed_bytes: compressedBytes, compressed_sha256: packed.digest('hex') }
+  } catch (err) {
+    rmSync(tmpPath, { force: true })
+    throw err
+  }
+}
+
+export function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * SHA-256 of a file as stored on disk, read in chunks
+ */
+export function sha256File(filePath: string): string {
+  const hash = createHash('sha256')
+  const fd = openSync(filePath, 'r')
+  const chunk = Buffer.alloc(READ_CHUNK_SIZE)
+  try {
+    let bytesRead: number
+    while ((bytesRead = readSync(fd, chunk, 0, chunk.length, null)) > 0) {
+      hash.update(chunk.subarray(0, bytesRead))
+    }
+  } finally {
+    closeSync(fd)
+  }
+  return hash.digest('hex')
+}
+
+function compressor(compression: SegmentCompression): Transform {
+  return compression === 'gzip'
+    ? zlib.createGzip({ level: zlib.constants.Z_BEST_COMPRESSION })
+    : requireZstd().createZstdCompress!()
+}
+
+function decompressor(compression: SegmentCompression): Transform {
+  return compression === 'gzip' ? zlib.createGunzip() : requireZstd().createZstdDecompress!()
+}
+
+/**
+ * Passes bytes through unchanged, hashing them on the way
+ */
+function digest(hash: Hash, onChunk?: (chunk: Buffer) => void): Transform {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk)
+      onChunk?.(chunk)
+      callback(null, chunk)
+    }
+  })
+}
+
+function digestSink(hash: Hash): Writable {
+  return new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk)
+      callback()
+    }
+  })
+}
+
+function requireZstd(): typeof zstd {
+  if (!zstd.zstdCompressSync || !zstd.zstdDecompressSync || !zstd.createZstdCompress || !zstd.createZstdDecompress) {
+    throw new Error(`zstd compression requires Node.js 22.15 or later (running ${process.version})`)
+  }
+  return zstd
+}
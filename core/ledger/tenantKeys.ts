@@ -0,0 +1,171 @@
+/**
+ * Per-tenant key-encryption keys (KEKs) for payload envelope encryption
+ *
+ * Each tenant has one active 256-bit key; every encrypted payload records the
+ * id of the key that wrapped it. Shredding a tenant destroys all of its keys,
+ * which makes every payload wrapped with them permanently unreadable while the
+ * ledger (hashes, signatures, chain) stays intact. Shredded key ids are kept
+ * so readers can tell "destroyed" from "never existed".
+ *
+ * `FileTenantKeyStore` keeps one JSON file per tenant. With a master key the
+ * tenant keys are stored wrapped (AES-256-GCM) instead of in the clear.
+ * Shredding only destroys the copies this store manages: backups of the key
+ * directory must be purged as well.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { existsSync, mkdirSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { withLock, writeFileAtomic, type LockOptions } from './ledgerFile.js'
+import { open, seal } from './payloadEncryption.js'
+
+const KEY_BYTES = 32
+const MASTER_KEY_AAD = 'JsonAtomic/tenant-key/v1'
+
+export interface TenantKey {
+  tenant_id: string
+  id: string
+  key: Buffer
+  created_at: string
+}
+
+export interface TenantKeyStore {
+  /** Current key of a tenant, created on first use */
+  activeKey(tenantId: string): Promise<TenantKey>
+  getKey(tenantId: string, keyId: string): TenantKey | undefined
+  isShredded(tenantId: string, keyId: string): boolean
+  /** Destroy every key of a tenant. Returns the destroyed key ids. */
+  shred(tenantId: string): Promise<string[]>
+}
+
+interface StoredKey {
+  id: string
+  created_at: string
+  /** Hex key, when no master key is configured */
+  key?: string
+  /** Key sealed with the master key */
+  wrapped?: string
+}
+
+interface TenantKeyFile {
+  tenant_id: string
+  keys: StoredKey[]
+  shredded: Array<{ id: string; shredded_at: string }>
+}
+
+export interface FileTenantKeyStoreOptions {
+  /** Wraps tenant keys at rest (hex, 32 bytes) */
+  masterKeyHex?: string
+  lock?: LockOptions
+}
+
+export class FileTenantKeyStore implements TenantKeyStore {
+  private dir: string
+  private masterKey?: Buffer
+  private lockOptions: LockOptions
+
+  constructor(dir: string, options: FileTenantKeyStoreOptions = {}) {
+    this.dir = dir
+    this.lockOptions = options.lock || {}
+    if (options.masterKeyHex) {
+      this.masterKey = Buffer.from(options.masterKeyHex, 'hex')
+      if (this.masterKey.length !== KEY_BYTES) {
+        throw new Error('Tenant master key must be 32 bytes (64 hex characters)')
+      }
+    }
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true, mode: 0o700 })
+    }
+  }
+
+  async activeKey(tenantId: string): Promise<TenantKey> {
+    const current = this.read(tenantId).keys.at(-1)
+    if (current) {
+      return this.unwrap(tenantId, current)
+    }
+
+    return withLock(this.pathOf(tenantId), () => {
+      // Another process may have created it while we waited for the lock
+      const file = this.read(tenantId)
+      const existing = file.keys.at(-1)
+      if (existing) {
+        return this.unwrap(tenantId, existing)
+      }
+
+      const key: TenantKey = {
+        tenant_id: tenantId,
+        id: `k-${randomBytes(8).toString('hex')}`,
+        key: randomBytes(KEY_BYTES),
+        created_at: new Date().toISOString()
+      }
+      file.keys.push(this.wrap(key))
+      this.write(file)
+      return key
+    }, this.lockOptions)
+  }
+
+  getKey(tenantId: string, keyId: string): TenantKey | undefined {
+    const stored = this.read(tenantId).keys.find(k => k.id === keyId)
+    return stored ? this.unwrap(tenantId, stored) : undefined
+  }
+
+  isShredded(tenantId: string, keyId: string): boolean {
+    return this.read(tenantId).shredded.some(k => k.id === keyId)
+  }
+
+  async shred(tenantId: string): Promise<string[]> {
+    return withLock(this.pathOf(tenantId), () => {
+      const file = this.read(tenantId)
+      const shreddedAt = new Date().toISOString()
+      const destroyed = file.keys.map(k => k.id)
+
+      file.shredded.push(...destroyed.map(id => ({ id, shredded_at: shreddedAt })))
+      file.keys = []
+      this.write(file)
+      return destroyed
+    }, this.lockOptions)
+  }
+
+  private read(tenantId: string): TenantKeyFile {
+    const path = this.pathOf(tenantId)
+    if (!existsSync(path)) {
+      return { tenant_id: tenantId, keys: [], shredded: [] }
+    }
+    return JSON.parse(readFileSync(path, 'utf-8'))
+  }
+
+  private write(file: TenantKeyFile): void {
+    writeFileAtomic(this.pathOf(file.tenant_id), JSON.stringify(file, null, 2) + '\n')
+  }
+
+  private wrap(key: TenantKey): StoredKey {
+    const stored: StoredKey = { id: key.id, created_at: key.created_at }
+    if (this.masterKey) {
+      stored.wrapped = seal(key.key, this.masterKey, `${MASTER_KEY_AAD}|${key.tenant_id}|${key.id}`)
+    } else {
+      stored.key = key.key.toString('hex')
+    }
+    return stored
+  }
+
+  private unwrap(tenantId: string, stored: StoredKey): TenantKey {
+    let key: Buffer
+    if (stored.wrapped) {
+      if (!this.masterKey) {
+        throw new Error(`Key ${stored.id} of tenant ${tenantId} is wrapped but no master key is configured`)
+      }
+      key = open(stored.wrapped, this.masterKey, `${MASTER_KEY_AAD}|${tenantId}|${stored.id}`)
+    } else {
+      key = Buffer.from(stored.key!, 'hex')
+    }
+    return { tenant_id: tenantId, id: stored.id, key, created_at: stored.created_at }
+  }
+
+  /**
+   * Tenant ids are arbitrary strings, so files are named by their digest
+   */
+  private pathOf(tenantId: string): string {
+    const digest = createHash('sha256').update(tenantId).digest('hex')
+    return join(this.dir, `${digest}.json`)
+  }
+}
@@ -0,0 +1,497 @@
+/**
+ * RFC 3161 trusted timestamps
+ *
+ * A timestamp authority (TSA) signs a statement that a digest existed at a
+ * given time: the token is a CMS SignedData (RFC 5652) whose content is a
+ * TSTInfo holding the message imprint (hash algorithm + digest), the time
+ * and a serial number, signed over signed attributes that include the
+ * TSTInfo's digest and the TSA certificate's hash (RFC 5816).
+ *
+ * Tokens are verified offline against the certificate they carry: the
+ * imprint must be the expected digest, the signature must verify with the
+ * signer certificate, which must be a time-stamping certificate valid at
+ * the token's time. Pass the TSA certificate (or the CA that issued it) as
+ * trusted to pin the authority; otherwise any TSA's token verifies.
+ *
+ * `TestTimestampAuthority` is an in-process TSA with a throwaway P-256 key
+ * and self-signed certificate, for tests and offline setups.
+ */
+
+import { createHash, generateKeyPairSync, randomBytes, sign, verify, X509Certificate, type KeyObject } from 'crypto'
+import type { LedgerError } from '../../types.js'
+import {
+  bitString,
+  boolean,
+  encode,
+  expectTag,
+  explicit,
+  generalizedTime,
+  integer,
+  octetString,
+  oid,
+  parseDer,
+  readInteger,
+  readOid,
+  readTime,
+  sequence,
+  setOf,
+  TAG,
+  utcTime,
+  utf8String,
+  type DerNode
+} from './der.js'
+
+export type TimestampHash = 'sha256' | 'sha384' | 'sha512'
+
+const OID = {
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha384: '2.16.840.1.101.3.4.2.2',
+  sha512: '2.16.840.1.101.3.4.2.3',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  sha256WithRSA: '1.2.840.113549.1.1.11',
+  sha384WithRSA: '1.2.840.113549.1.1.12',
+  sha512WithRSA: '1.2.840.113549.1.1.13',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+  ecdsaWithSHA384: '1.2.840.10045.4.3.3',
+  ecdsaWithSHA512: '1.2.840.10045.4.3.4',
+  signedData: '1.2.840.113549.1.7.2',
+  tstInfo: '1.2.840.113549.1.9.16.1.4',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingCertificate: '1.2.840.113549.1.9.16.2.12',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  commonName: '2.5.4.3',
+  extKeyUsage: '2.5.29.37',
+  timeStamping: '1.3.6.1.5.5.7.3.8',
+  /** Policy of the test TSA (under the 2.999 example arc) */
+  testPolicy: '2.999.3161.1'
+} as const
+
+const HASH_OIDS: Record<string, TimestampHash | 'sha1'> = {
+  [OID.sha1]: 'sha1',
+  [OID.sha256]: 'sha256',
+  [OID.sha384]: 'sha384',
+  [OID.sha512]: 'sha512'
+}
+
+/** Digest each signature algorithm signs with (rsaEncryption: the signer's digest algorithm) */
+const SIGNATURE_HASHES: Record<string, TimestampHash | null> = {
+  [OID.rsaEncryption]: null,
+  [OID.sha256WithRSA]: 'sha256',
+  [OID.sha384WithRSA]: 'sha384',
+  [OID.sha512WithRSA]: 'sha512',
+  [OID.ecdsaWithSHA256]: 'sha256',
+  [OID.ecdsaWithSHA384]: 'sha384',
+  [OID.ecdsaWithSHA512]: 'sha512'
+}
+
+export const TEST_TSA = 'test'
+
+/**
+ * Where tokens come from: takes a DER TimeStampReq, returns the DER TimeStampResp
+ */
+export interface TimestampAuthority {
+  request(timestampRequest: Uint8Array): Promise<Uint8Array>
+}
+
+export interface TstInfo {
+  policy: string
+  hash_alg: string
+  /** Digest the token timestamps (hex) */
+  digest: string
+  serial_number: string
+  gen_time: string
+  nonce?: string
+}
+
+export type TimestampVerification =
+  | { valid: true; info: TstInfo; signer: string; trusted: boolean }
+  | { valid: false; error: LedgerError; info?: TstInfo }
+
+export class TimestampError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TimestampError'
+  }
+}
+
+/**
+ * A TSA reached over HTTP (RFC 3161 section 3.4)
+ */
+export class HttpTimestampAuthority implements TimestampAuthority {
+  constructor(private url: string, private options: { timeoutMs?: number; headers?: Record<string, string> } = {}) {}
+
+  async request(timestampRequest: Uint8Array): Promise<Uint8Array> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/timestamp-query',
+        accept: 'application/timestamp-reply',
+        ...this.options.headers
+      },
+      body: timestampRequest,
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 30000)
+    })
+    if (!response.ok) {
+      throw new TimestampError(`TSA ${this.url} answered HTTP ${response.status}`)
+    }
+    return new Uint8Array(await response.arrayBuffer())
+  }
+}
+
+/**
+ * The TSA a `--tsa-url` names: `test` for the built-in test TSA, else an HTTP(S) URL
+ */
+export function timestampAuthority(url: string): TimestampAuthority {
+  return url === TEST_TSA ? new TestTimestampAuthority() : new HttpTimestampAuthority(url)
+}
+
+export function createTimestampRequest(
+  digest: Uint8Array,
+  options: { hashAlg?: TimestampHash; nonce?: bigint; certReq?: boolean; policy?: string } = {}
+): Buffer {
+  return sequence(
+    integer(1),
+    sequence(algorithmIdentifier(options.hashAlg ?? 'sha256'), octetString(digest)),
+    ...(options.policy ? [oid(options.policy)] : []),
+    ...(options.nonce !== undefined ? [integer(options.nonce)] : []),
+    ...(options.certReq ?? true ? [boolean(true)] : [])
+  )
+}
+
+/**
+ * Timestamp a digest: returns the DER token after checking that it is for
+ * this digest and request
+ */
+export async function requestTimestamp(
+  tsa: TimestampAuthority,
+  digest: Uint8Array,
+  options: { hashAlg?: TimestampHash; policy?: string } = {}
+): Promise<{ token: Buffer; info: TstInfo }> {
+  const nonce = BigInt('0x' + randomBytes(8).toString('hex'))
+  const response = await tsa.request(createTimestampRequest(digest, { ...options, nonce }))
+  const token = readTimestampResponse(response)
+  const info = readTstInfo(token)
+  if (info.digest !== Buffer.from(digest).toString('hex')) {
+    throw new TimestampError('TSA timestamped a different digest')
+  }
+  if (info.nonce !== nonce.toString(16)) {
+    throw new TimestampError('TSA response does not answer this request (nonce mismatch)')
+  }
+  return { token, info }
+}
+
+/**
+ * The token of a TimeStampResp; throws `TimestampError` if the TSA refused
+ */
+export function readTimestampResponse(response: Uint8Array): Buffer {
+  let root: DerNode
+  try {
+    root = expectTag(parseDer(response), TAG.SEQUENCE)
+  } catch (err) {
+    throw new TimestampError(`Malformed TSA response: ${(err as Error).message}`)
+  }
+  const [statusInfo, token] = root.children
+  const status = Number(readInteger(statusInfo.children[0]))
+  // 0: granted, 1: granted with modifications
+  if (status > 1 || !token) {
+    const text = statusInfo.children[1]?.children.map(s => s.value.toString('utf-8')).join('; ')
+    throw new TimestampError(`TSA refused the request (status ${status}${text ? `: ${text}` : ''})`)
+  }
+  return Buffer.from(token.raw)
+}
+
+/**
+ * The TSTInfo of a token, without verifying it
+ */
+export function readTstInfo(token: Uint8Array): TstInfo {
+  try {
+    return tstInfoOf(signedDataOf(parseDer(token)).tstInfo)
+  } catch (err) {
+    throw new TimestampError(`Malformed timestamp token: ${(err as Error).message}`)
+  }
+}
+
+/**
+ * Verify a token for a digest. `trustedCertificates` (PEM or DER) pins the
+ * TSA: the signer certificate must be one of them or issued by one.
+ */
+export function verifyTimestampToken(
+  token: Uint8Array,
+  digest: Uint8Array,
+  options: { trustedCertificates?: Array<string | Uint8Array> } = {}
+): TimestampVerification {
+  const fail = (code: string, message: string, info?: TstInfo): TimestampVerification =>
+    ({ valid: false, error: { code, message }, ...(info ? { info } : {}) })
+
+  let parsed: ReturnType<typeof signedDataOf>
+  let info: TstInfo
+  try {
+    parsed = signedDataOf(parseDer(token))
+    info = tstInfoOf(parsed.tstInfo)
+  } catch (err) {
+    return fail('MALFORMED_TOKEN', `Malformed timestamp token: ${(err as Error).message}`)
+  }
+
+  if (info.digest !== Buffer.from(digest).toString('hex')) {
+    return fail('IMPRINT_MISMATCH', 'Token timestamps a different digest', info)
+  }
+
+  try {
+    const { signerInfo, certificates, tstInfo } = parsed
+    const [, sid, digestAlgorithm, signedAttrs, signatureAlgorithm, signature] = signerInfo.children
+    if (signedAttrs?.tag !== 0xa0) {
+      return fail('MALFORMED_TOKEN', 'Signer info has no signed attributes', info)
+    }
+    const digestHash = HASH_OIDS[readOid(digestAlgorithm.children[0])]
+    if (!digestHash || digestHash === 'sha1') {
+      return fail('UNSUPPORTED_ALGORITHM', 'Unsupported digest algorithm in signer info', info)
+    }
+
+    // The signed attributes must bind the TSTInfo
+    const attributes = new Map(signedAttrs.children.map(attr => [readOid(attr.children[0]), attr.children[1].children[0]]))
+    if (attributes.get(OID.contentType) && readOid(attributes.get(OID.contentType)!) !== OID.tstInfo) {
+      return fail('MALFORMED_TOKEN', 'Signed content is not a TSTInfo', info)
+    }
+    const messageDigest = attributes.get(OID.messageDigest)
+    if (!messageDigest || !messageDigest.value.equals(createHash(digestHash).update(contentOf(tstInfo)).digest())) {
+      return fail('MESSAGE_DIGEST_MISMATCH', 'Signed attributes do not match the TSTInfo', info)
+    }
+
+    // Signer: the certificate the signer info names
+    const signerCert = certificates.find(cert => certificateMatches(cert, sid))
+    if (!signerCert) {
+      return fail('SIGNER_NOT_FOUND', 'Token does not carry the TSA certificate', info)
+    }
+    const certificate = new X509Certificate(signerCert.raw)
+    const essCheck = checkSigningCertificate(attributes, signerCert.raw)
+    if (essCheck) {
+      return fail('SIGNER_NOT_FOUND', essCheck, info)
+    }
+
+    const sigOid = readOid(signatureAlgorithm.children[0])
+    if (!(sigOid in SIGNATURE_HASHES)) {
+      return fail('UNSUPPORTED_ALGORITHM', `Unsupported signature algorithm ${sigOid}`, info)
+    }
+    const signedBytes = Buffer.concat([Buffer.from([TAG.SET]), signedAttrs.raw.subarray(1)])
+    const ok = verify(SIGNATURE_HASHES[sigOid] ?? digestHash, signedBytes, certificate.publicKey, signature.value)
+    if (!ok) {
+      return fail('INVALID_TSA_SIGNATURE', 'TSA signature does not verify', info)
+    }
+
+    if (!(certificate.keyUsage ?? []).includes(OID.timeStamping)) {
+      return fail('NOT_TIMESTAMPING_CERT', 'Signer certificate is not for time stamping', info)
+    }
+    const genTime = new Date(info.gen_time)
+    if (genTime < new Date(certificate.validFrom) || genTime > new Date(certificate.validTo)) {
+      return fail('CERT_NOT_VALID_AT_GENTIME', 'Signer certificate was not valid at the timestamp time', info)
+    }
+
+    const trustedCertificates = options.trustedCertificates ?? []
+    const trusted = trustedCertificates.some(trustedCert => {
+      const anchor = new X509Certificate(typeof trustedCert === 'string' ? trustedCert : Buffer.from(trustedCert))
+      return anchor.raw.equals(certificate.raw) ||
+        (certificate.checkIssued(anchor) && certificate.verify(anchor.publicKey))
+    })
+    if (trustedCertificates.length > 0 && !trusted) {
+      return fail('UNTRUSTED_TSA', `TSA certificate is not trusted: ${certificate.subject}`, info)
+    }
+    return { valid: true, info, signer: certificate.subject, trusted }
+  } catch (err) {
+    return fail('MALFORMED_TOKEN', `Malformed timestamp token: ${(err as Error).message}`, info)
+  }
+}
+
+/**
+ * In-process TSA with a throwaway P-256 key and self-signed time-stamping
+ * certificate. Tokens verify like real ones; pin `certificatePem` to trust
+ * only this instance.
+ */
+export class TestTimestampAuthority implements TimestampAuthority {
+  readonly certificate: Buffer
+  private privateKey: KeyObject
+  private serial = BigInt(Date.now())
+  private issuer: Buffer
+  private certSerial: bigint
+
+  constructor(options: { name?: string; validFrom?: Date; validDays?: number } = {}) {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    this.privateKey = privateKey
+    this.issuer = sequence(setOf(sequence(oid(OID.commonName), utf8String(options.name ?? 'JsonAtomic Test TSA'))))
+    this.certSerial = BigInt('0x' + randomBytes(8).toString('hex'))
+    const validFrom = options.validFrom ?? new Date(Date.now() - 60_000)
+    const validTo = new Date(validFrom.getTime() + (options.validDays ?? 365) * 86_400_000)
+
+    const tbs = sequence(
+      explicit(0, integer(2)),
+      integer(this.certSerial),
+      algorithmIdentifier(OID.ecdsaWithSHA256),
+      this.issuer,
+      sequence(utcTime(validFrom), utcTime(validTo)),
+      this.issuer,
+      publicKey.export({ type: 'spki', format: 'der' }),
+      explicit(3, sequence(
+        sequence(oid(OID.extKeyUsage), boolean(true), octetString(sequence(oid(OID.timeStamping))))
+      ))
+    )
+    this.certificate = sequence(tbs, algorithmIdentifier(OID.ecdsaWithSHA256), bitString(sign('sha256', tbs, privateKey)))
+  }
+
+  get certificatePem(): string {
+    return new X509Certificate(this.certificate).toString()
+  }
+
+  async request(timestampRequest: Uint8Array): Promise<Uint8Array> {
+    return this.respond(timestampRequest)
+  }
+
+  /**
+   * Answer a TimeStampReq with a TimeStampResp
+   */
+  respond(timestampRequest: Uint8Array): Buffer {
+    let imprint: DerNode
+    let nonce: DerNode | undefined
+    let certReq = false
+    try {
+      const req = expectTag(parseDer(timestampRequest), TAG.SEQUENCE)
+      imprint = expectTag(req.children[1], TAG.SEQUENCE)
+      const hash = HASH_OIDS[readOid(imprint.children[0].children[0])]
+      if (!hash || hash === 'sha1' || imprint.children[1].value.length !== createHash(hash).digest().length) {
+        return rejection('unsupported or malformed message imprint')
+      }
+      nonce = req.children.slice(2).find(node => node.tag === TAG.INTEGER)
+      certReq = req.children.slice(2).some(node => node.tag === TAG.BOOLEAN && node.value[0] !== 0)
+    } catch {
+      return rejection('malformed request')
+    }
+
+    const tstInfo = sequence(
+      integer(1),
+      oid(OID.testPolicy),
+      Buffer.from(imprint.raw),
+      integer(this.serial++),
+      generalizedTime(new Date()),
+      ...(nonce ? [Buffer.from(nonce.raw)] : [])
+    )
+    const signedAttrs = [
+      sequence(oid(OID.contentType), setOf(oid(OID.tstInfo))),
+      sequence(oid(OID.messageDigest), setOf(octetString(createHash('sha256').update(tstInfo).digest()))),
+      sequence(oid(OID.signingCertificateV2), setOf(sequence(sequence(sequence(
+        octetString(createHash('sha256').update(this.certificate).digest())
+      )))))
+    ]
+    const signature = sign('sha256', setOf(...signedAttrs), this.privateKey)
+    const signerInfo = sequence(
+      integer(1),
+      sequence(this.issuer, integer(this.certSerial)),
+      algorithmIdentifier('sha256'),
+      encode(0xa0, Buffer.concat([...signedAttrs].sort(Buffer.compare))),
+      algorithmIdentifier(OID.ecdsaWithSHA256),
+      octetString(signature)
+    )
+    const signedData = sequence(
+      integer(3),
+      setOf(algorithmIdentifier('sha256')),
+      sequence(oid(OID.tstInfo), explicit(0, octetString(tstInfo))),
+      ...(certReq ? [encode(0xa0, this.certificate)] : []),
+      setOf(signerInfo)
+    )
+    return sequence(
+      sequence(integer(0)),
+      sequence(oid(OID.signedData), explicit(0, signedData))
+    )
+  }
+}
+
+function rejection(reason: string): Buffer {
+  return sequence(sequence(integer(2), sequence(utf8String(reason))))
+}
+
+function algorithmIdentifier(algorithm: TimestampHash | string): Buffer {
+  const hashOid = Object.entries(HASH_OIDS).find(([, name]) => name === algorithm)?.[0]
+  return sequence(oid(hashOid ?? algorithm))
+}
+
+/**
+ * The parts of a timestamp token (ContentInfo of a SignedData) verification needs
+ */
+function signedDataOf(contentInfo: DerNode): { tstInfo: DerNode; certificates: DerNode[]; signerInfo: DerNode } {
+  expectTag(contentInfo, TAG.SEQUENCE)
+  if (readOid(contentInfo.children[0]) !== OID.signedData) {
+    throw new TimestampError('Token is not a CMS SignedData')
+  }
+  const signedData = expectTag(expectTag(contentInfo.children[1], 0xa0).children[0], TAG.SEQUENCE)
+  const [, , encapContent, ...rest] = signedData.children
+  if (readOid(encapContent.children[0]) !== OID.tstInfo) {
+    throw new TimestampError('Token content is not a TSTInfo')
+  }
+  const eContent = expectTag(expectTag(encapContent.children[1], 0xa0).children[0], TAG.OCTET_STRING)
+  const signerInfos = expectTag(rest[rest.length - 1], TAG.SET)
+  if (signerInfos.children.length !== 1) {
+    throw new TimestampError(`Token has ${signerInfos.children.length} signer infos, expected 1`)
+  }
+  return {
+    tstInfo: eContent,
+    certificates: rest.find(node => node.tag === 0xa0)?.children ?? [],
+    signerInfo: signerInfos.children[0]
+  }
+}
+
+/** Content bytes of the eContent OCTET STRING: the DER TSTInfo */
+function contentOf(eContent: DerNode): Buffer {
+  return eContent.value
+}
+
+function tstInfoOf(eContent: DerNode): TstInfo {
+  const tstInfo = expectTag(parseDer(contentOf(eContent)), TAG.SEQUENCE)
+  const [, policy, messageImprint, serialNumber, genTime, ...optional] = tstInfo.children
+  const nonce = optional.find(node => node.tag === TAG.INTEGER)
+  return {
+    policy: readOid(policy),
+    hash_alg: HASH_OIDS[readOid(messageImprint.children[0].children[0])] ?? readOid(messageImprint.children[0].children[0]),
+    digest: expectTag(messageImprint.children[1], TAG.OCTET_STRING).value.toString('hex'),
+    serial_number: readInteger(serialNumber).toString(16),
+    gen_time: readTime(genTime).toISOString(),
+    ...(nonce ? { nonce: readInteger(nonce).toString(16) } : {})
+  }
+}
+
+/**
+ * Whether a certificate is the one an IssuerAndSerialNumber names
+ */
+function certificateMatches(certificate: DerNode, sid: DerNode): boolean {
+  if (sid.tag !== TAG.SEQUENCE) {
+    return false
+  }
+  const tbs = certificate.children[0]
+  const offset = tbs.children[0].tag === 0xa0 ? 1 : 0
+  const serial = tbs.children[offset]
+  const issuer = tbs.children[offset + 2]
+  return issuer.raw.equals(sid.children[0].raw) && serial.value.equals(sid.children[1].value)
+}
+
+/**
+ * Check the ESS signing-certificate attribute, when present, against the
+ * signer certificate; returns why it does not match, or null
+ */
+function checkSigningCertificate(attributes: Map<string, DerNode>, certificate: Buffer): string | null {
+  const v2 = attributes.get(OID.signingCertificateV2)
+  const v1 = attributes.get(OID.signingCertificate)
+  const essCertId = (v2 ?? v1)?.children[0]?.children[0]
+  if (!essCertId) {
+    return null
+  }
+  let hash: string = 'sha1'
+  let certHash = essCertId.children[0]
+  if (v2 && certHash.tag === TAG.SEQUENCE) {
+    hash = HASH_OIDS[readOid(certHash.children[0])] ?? ''
+    certHash = essCertId.children[1]
+  } else if (v2) {
+    hash = 'sha256'
+  }
+  if (!hash || !certHash.value.equals(createHash(hash).update(certificate).digest())) {
+    return 'Signing certificate attribute does not match the TSA certificate'
+  }
+  return null
+}
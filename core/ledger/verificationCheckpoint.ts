@@ -0,0 +1,206 @@
+/**
+ * Signed verification checkpoints for incremental verification
+ *
+ * After a clean run the verifier records how far the ledger was verified: the
+ * byte offset and line count of the verified prefix, a SHA-256 of its
+ * (uncompressed) bytes and the chain heads at its end. The checkpoint is
+ * signed, and kept in `<ledger>.verified.json`. A later run re-hashes the
+ * prefix instead of re-verifying it, fails with `PrefixModifiedError` when it
+ * changed, and verifies only the lines appended since.
+ *
+ * Offsets count the bytes of all segments followed by the active file, so a
+ * checkpoint stays valid when the ledger rotates or segments are compressed.
+ */
+
+import { createHash, type Hash } from 'crypto'
+import { existsSync, readFileSync } from 'fs'
+import { basename } from 'path'
+import { Readable } from 'stream'
+import { blake3 } from '@noble/hashes/blake3'
+import { canonicalize } from '../canonical.js'
+import { signHash, verifyHashSignature } from '../crypto.js'
+import { DEFAULT_SIGNATURE_ALG, signatureAlgorithm } from '../signatureAlgorithms.js'
+import type { ChainMode, Signature, SignatureAlg } from '../../types.js'
+import type { KeyRotation } from './keyRotation.js'
+import { writeFileAtomic } from './ledgerFile.js'
+
+const VERIFICATION_CHECKPOINT_CONTEXT = 'JsonAtomic/verification-checkpoint/v1'
+
+/** Chain state at the end of the verified prefix */
+export interface ChainState {
+  lines: number
+  last_hash: string | null
+  chain_heads: Record<string, string>
+  /** Key rotations honored up to here, which still govern the lines after */
+  key_rotations?: KeyRotation[]
+}
+
+/** What the prefix was verified against: a checkpoint made under other settings does not apply */
+export interface VerificationSettings {
+  chain_mode: ChainMode
+  /** Key signatures were checked with, if any */
+  public_key: string | null
+  /** Fingerprint of the keyring trust policy, if any */
+  keyring: string | null
+}
+
+export interface VerificationCheckpoint extends ChainState, VerificationSettings {
+  ledger: string
+  offset: number
+  prefix_sha256: string
+  verified_at: string
+  signature?: Signature
+}
+
+export interface IncrementalOptions {
+  /** Signs new checkpoints; existing ones must be signed by the same key */
+  signingKeyHex: string
+  /** Algorithm of `signingKeyHex` (default: Ed25519) */
+  signingAlg?: SignatureAlg
+  /** Default: `<ledgerPath>.verified.json` */
+  checkpointPath?: string
+}
+
+export class VerificationCheckpointError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VerificationCheckpointError'
+  }
+}
+
+export class PrefixModifiedError extends VerificationCheckpointError {
+  constructor(public offset: number, public lines: number) {
+    super(`Ledger was modified within its first ${offset} bytes (${lines} lines), which were verified at the checkpoint`)
+    this.name = 'PrefixModifiedError'
+  }
+}
+
+export function verificationCheckpointPath(ledgerPath: string): string {
+  return `${ledgerPath}.verified.json`
+}
+
+/**
+ * Hash of a checkpoint body (everything but the signature)
+ */
+export function verificationCheckpointHash(checkpoint: VerificationCheckpoint): string {
+  const body = { ...checkpoint }
+  delete body.signature
+  return Buffer.from(
+    blake3(new TextEncoder().encode(canonicalize(body)), { context: VERIFICATION_CHECKPOINT_CONTEXT })
+  ).toString('hex')
+}
+
+/**
+ * Read the checkpoint, checking it was signed with `signingKeyHex`
+ */
+export function readVerificationCheckpoint(
+  path: string,
+  signingKeyHex: string,
+  alg: SignatureAlg = DEFAULT_SIGNATURE_ALG
+): VerificationCheckpoint | null {
+  if (!existsSync(path)) {
+    return null
+  }
+
+  let checkpoint: VerificationCheckpoint
+  try {
+    checkpoint = JSON.parse(readFileSync(path, 'utf-8'))
+  } catch (err) {
+    throw new VerificationCheckpointError(`Unreadable verification checkpoint ${path}: ${(err as Error).message}`)
+  }
+
+  const algorithm = signatureAlgorithm(alg)
+  if (!algorithm) {
+    throw new VerificationCheckpointError(`Unsupported signature algorithm: ${alg}`)
+  }
+  const publicKey = Buffer.from(algorithm.getPublicKey(Buffer.from(signingKeyHex, 'hex'))).toString('hex')
+  if (
+    !checkpoint.signature ||
+    !verifyHashSignature(verificationCheckpointHash(checkpoint), checkpoint.signature, publicKey)
+  ) {
+    throw new VerificationCheckpointError(`Verification checkpoint ${path} is not signed by the checkpoint key`)
+  }
+  return checkpoint
+}
+
+export function writeVerificationCheckpoint(
+  path: string,
+  checkpoint: VerificationCheckpoint,
+  signingKeyHex: string,
+  alg?: SignatureAlg
+): VerificationCheckpoint {
+  const signed = { ...checkpoint, signature: signHash(verificationCheckpointHash(checkpoint), signingKeyHex, alg) }
+  writeFileAtomic(path, JSON.stringify(signed, null, 2) + '\n')
+  return signed
+}
+
+/**
+ * Hashes the ledger bytes as they are read. With a checkpoint, the verified
+ * prefix is checked against it and left out of the stream.
+ */
+export class PrefixTracker {
+  private hash: Hash = createHash('sha256')
+  private offset = 0
+  private lastByte: number | undefined
+
+  constructor(private checkpoint: VerificationCheckpoint | null) {}
+
+  track(stream: Readable): Readable {
+    const tracker = this
+    const checkpoint = this.checkpoint
+    const skip = checkpoint?.offset ?? 0
+
+    return Readable.from((async function* () {
+      for await (const chunk of stream as AsyncIterable<Buffer>) {
+        let data = chunk
+        if (tracker.offset < skip) {
+          const head = data.subarray(0, skip - tracker.offset)
+          tracker.update(head)
+          data = data.subarray(head.length)
+          if (tracker.offset < skip) continue
+
+          if (tracker.digest() !== checkpoint!.prefix_sha256) {
+            throw new PrefixModifiedError(checkpoint!.offset, checkpoint!.lines)
+          }
+        }
+        if (data.length > 0) {
+          tracker.update(data)
+          yield data
+        }
+      }
+
+      if (tracker.offset < skip) {
+        throw new PrefixModifiedError(checkpoint!.offset, checkpoint!.lines)
+      }
+    })())
+  }
+
+  /**
+   * Checkpoint of everything read, or null when the ledger does not end with a
+   * complete line (a line still being written is left for the next run)
+   */
+  next(ledgerPath: string, state: ChainState, settings: VerificationSettings): VerificationCheckpoint | null {
+    if (this.offset > 0 && this.lastByte !== 0x0a) {
+      return null
+    }
+    return {
+      ledger: basename(ledgerPath),
+      ...settings,
+      offset: this.offset,
+      prefix_sha256: this.digest(),
+      ...state,
+      verified_at: new Date().toISOString()
+    }
+  }
+
+  private update(data: Buffer): void {
+    if (data.length === 0) return
+    this.hash.update(data)
+    this.offset += data.length
+    this.lastByte = data[data.length - 1]
+  }
+
+  private digest(): string {
+    return this.hash.copy().digest('hex')
+  }
+}
@@ -4,21 +4,74 @@
  * Verifies ledger integrity with:
  * - Streaming line-by-line processing (no memory exhaustion)
  * - Hash computation and verification
- * - Signature verification
- * - Chain validation (prev hash checking)
- * - Trace ID filtering and fork detection
+ * - Signature verification, with a single key or a keyring trust policy
+ *   (key validity windows, revocation, owner actors)
+ * - M-of-N multi-signature atomics: the threshold of their policy must be met
+ * - Selectively disclosed atomics: the hash is recomputed from the field
+ *   commitments and the result lists the disclosed and redacted fields
+ * - Chain validation (prev hash checking), globally or per trace_id
+ * - Trace ID filtering and fork detection, in trace chains and in the global
+ *   chain (atomics that share a prev)
+ * - Signed fork resolutions: the canonical branch chains as if there had
+ *   been no fork, and atomics of rejected branches are reported as rejected
+ * - Key rotations: the new key signs only after the rotation, and the
+ *   retired key's signatures after it are flagged
+ * - Fork resolutions and key rotations are read in one pass ahead of the
+ *   checks, and only count when signed under the pinned key or keyring
+ * - Rotated ledgers: sealed segments (compressed or not) are read in order,
+ *   each segment genesis must reference the final hash of the previous
+ *   segment, and segment checksums must match the manifest. A missing
+ *   segment is reported where its lines would be; they are counted, and the
+ *   chain resumes from the last hash the manifest records for it
+ * - Parallel verification: batches of whole lines are hashed and their
+ *   signatures checked on worker threads, then the chain and fork checks run
+ *   over the outcomes in ledger order, so the summary is the same as when
+ *   verifying on the main thread
+ * - Results streamed to a sink instead of kept in memory
+ * - Incremental verification: a signed checkpoint records the verified
+ *   prefix, which later runs only re-hash before verifying the new lines
+ * - Externalized payloads: the blobs valid atomics reference must exist in
+ *   the blob store and match their hashes (checked once per blob, after the
+ *   lines; a failing line's valid result is then followed by an invalid one)
  * - Structured error reporting
  */
 
-import { createReadStream } from 'fs'
+import { createHash } from 'crypto'
+import { createReadStream, existsSync, statSync } from 'fs'
 import { createInterface } from 'readline'
-import { blake3 } from '@noble/hashes/blake3'
-import { ed25519 } from '@noble/curves/ed25519'
-import { canonicalize } from '../canonical.js'
-import type { Atomic, LedgerError, VerificationResult } from '../../types.js'
+import { Readable } from 'stream'
+import { Worker } from 'worker_threads'
+import type { Atomic, BlobRef, ChainMode, LedgerError, VerificationResult } from '../../types.js'
+import { checkBlob, type BlobCheck, type BlobStore } from './blobStore.js'
+import { FORK_RESOLUTION_ACTION, readForkResolution, type ForkResolution } from './forkAnalysis.js'
+import type { Keyring } from './keyring.js'
+import { KEY_ROTATION_ACTION, readKeyRotation, type KeyRotation } from './keyRotation.js'
+import { readLines } from './ledgerFile.js'
+import { LedgerIndex } from './ledgerIndex.js'
+import { isSegmentGenesis, readManifest, segmentPath } from './ledgerRotation.js'
+import { createSegmentReadStream } from './segmentCompression.js'
+import {
+  PrefixTracker,
+  readVerificationCheckpoint,
+  VerificationCheckpointError,
+  verificationCheckpointPath,
+  writeVerificationCheckpoint,
+  type ChainState,
+  type IncrementalOptions,
+  type VerificationCheckpoint
+} from './verificationCheckpoint.js'
+import {
+  checkLine,
+  type LineCheck,
+  type LineCheckContext,
+  type SignatureCheck,
+  type VerifyWorkerData
+} from './verifyWorker.js'
 
 const MAX_LINE_SIZE = 10 * 1024 * 1024 // 10MB per line
-const HASH_CONTEXT = 'JsonAtomic/v1'
+const WORKER_BATCH_BYTES = 1024 * 1024
+/** Key of global chain forks in `VerifySummary.forks` */
+const GLOBAL_CHAIN = 'global'
 
 export interface VerifyOptions {
   verbose?: boolean
@@ -26,15 +79,44 @@ export interface VerifyOptions {
   publicKeyHex?: string
   traceId?: string
   maxLineSize?: number
+  /** Chain layout written by the ledger: one global chain (default) or one per trace_id */
+  chainMode?: ChainMode
+  /** Trust signatures by this keyring instead of `publicKeyHex` or the embedded key */
+  keyring?: Keyring
+  /** Hash and signature checks on this many worker threads (default: on the main thread) */
+  workers?: number
+  /** Bytes of whole lines per worker task (default: 1 MiB) */
+  batchBytes?: number
+  /** Worker entry to load instead of verifyWorker.js next to this module */
+  workerUrl?: URL | string
+  /** Receives each result as soon as it is known; the summary then keeps no results */
+  sink?: (result: VerificationResult) => void
+  /** Verify only the lines appended since the last verification checkpoint, then move it forward */
+  incremental?: IncrementalOptions
+  /**
+   * Signatures a signed atomic needs: `either` the classical or the
+   * post-quantum one (default), or `both`. Any signature present must verify.
+   */
+  signaturePolicy?: SignaturePolicy
+  /** Check that the blobs atomics reference are in this store and match their hashes */
+  blobs?: BlobStore
 }
 
+export type SignaturePolicy = 'either' | 'both'
+
 export interface VerifySummary {
   total: number
   valid: number
   invalid: number
   unsigned: number
+  /** Atomics on branches a fork resolution rejected: neither valid nor invalid */
+  rejected?: number
   results: VerificationResult[]
-  forks?: Map<string, string[]> // trace_id -> list of hashes (forks detected)
+  forks?: Map<string, string[]> // trace_id (`global` in global mode) -> list of hashes (forks detected)
+  /** Checkpoint the run resumed from: its lines were not verified again */
+  resumed?: { lines: number; offset: number }
+  /** Checkpoint saved by an incremental run that found no invalid lines */
+  checkpoint?: VerificationCheckpoint
 }
 
 export class LedgerVerifier {
@@ -55,416 +137,993 @@ export class LedgerVerifier {
     ledgerPath: string,
     options: VerifyOptions = {}
   ): Promise<VerifySummary> {
-    const results: VerificationResult[] = []
-    const chainMap = new Map<string, string>() // trace_id -> last hash
-    const forks = new Map<string, string[]>() // trace_id -> list of hashes
+    const segmentErrors: VerificationResult[] = []
+    const chain = new ChainVerifier(options)
+    const context: LineCheckContext = {
+      publicKey: options.publicKeyHex 
+        ? Uint8Array.from(Buffer.from(options.publicKeyHex, 'hex'))
+        : this.publicKey,
+      traceId: options.traceId,
+      maxLineSize: options.maxLineSize || MAX_LINE_SIZE,
+      keyring: options.keyring
+    }
+    
+    const publicKeyHex = context.publicKey ? Buffer.from(context.publicKey).toString('hex') : null
+    const chainMode = options.chainMode || 'global'
+    
+    let tracker: PrefixTracker | null = null
+    let resumed: VerificationCheckpoint | null = null
+    if (options.incremental) {
+      if (options.traceId) {
+        throw new VerificationCheckpointError('Incremental verification covers the whole ledger and cannot filter by trace_id')
+      }
+      const path = options.incremental.checkpointPath || verificationCheckpointPath(ledgerPath)
+      const checkpoint = readVerificationCheckpoint(path, options.incremental.signingKeyHex, options.incremental.signingAlg)
+      // A checkpoint made with another chain mode or key does not apply: verify everything
+      const applies = checkpoint &&
+        checkpoint.chain_mode === chainMode &&
+        checkpoint.public_key === publicKeyHex &&
+        checkpoint.keyring === (options.keyring?.fingerprint() ?? null)
+      if (applies) {
+        chain.resume(checkpoint, prefixLookup(ledgerPath, checkpoint))
+        resumed = checkpoint
+      }
+      tracker = new PrefixTracker(applies ? checkpoint : null)
+    }
+    chain.bridge(missingSegments(ledgerPath))
+    
+    const { resolutions, rotations } = await readControlAtomics(ledgerPath, context, resumed)
+    chain.honor(resolutions)
+    chain.rotate(rotations)
+    context.rotatedKeys = new Set(rotations.map(rotation => rotation.new_key))
+    
+    const segments = readSegments(ledgerPath, segmentErrors)
+    const stream = tracker ? tracker.track(segments) : segments
     
-    let lineNumber = 0
-    let valid = 0
-    let invalid = 0
-    let unsigned = 0
-    let prevHash: string | null = null
+    if (options.workers && options.workers > 0) {
+      await verifyInWorkers(stream, chain, context, options)
+    } else {
+      await verifyOnMainThread(stream, chain, context)
+    }
     
-    const publicKey = options.publicKeyHex 
-      ? Uint8Array.from(Buffer.from(options.publicKeyHex, 'hex'))
-      : this.publicKey
+    if (options.blobs) {
+      await chain.checkBlobs(options.blobs)
+    }
     
-    const maxLineSize = options.maxLineSize || MAX_LINE_SIZE
+    const summary = chain.finish(segmentErrors)
+    if (tracker && summary.invalid === 0 && !chain.stopped) {
+      const next = tracker.next(ledgerPath, chain.state(), {
+        chain_mode: chainMode,
+        public_key: publicKeyHex,
+        keyring: options.keyring?.fingerprint() ?? null
+      })
+      if (next) {
+        const path = options.incremental!.checkpointPath || verificationCheckpointPath(ledgerPath)
+        summary.checkpoint = writeVerificationCheckpoint(path, next, options.incremental!.signingKeyHex, options.incremental!.signingAlg)
+        console.log(`  📌 Checkpoint saved after line ${next.lines}`)
+      }
+    }
+    return summary
+  }
+}
 
-    return new Promise((resolve, reject) => {
-      const stream = createReadStream(ledgerPath, { encoding: 'utf-8' })
-      const rl = createInterface({ input: stream, crlfDelay: Infinity })
+/**
+ * Check lines as readline splits them, on the main thread
+ */
+function verifyOnMainThread(stream: Readable, chain: ChainVerifier, context: LineCheckContext): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const rl = createInterface({ input: stream, crlfDelay: Infinity })
+
+    rl.on('line', (line: string) => {
+      if (chain.stopped) return
       
-      let stopped = false
+      chain.add(checkLine(line, context))
+      if (chain.stopped) {
+        rl.close()
+      }
+    })
+    
+    rl.on('close', () => {
+      resolve()
+    })
+    
+    rl.on('error', (err) => {
+      reject(err)
+    })
+    
+    stream.on('error', (err) => {
+      reject(err)
+    })
+  })
+}
 
-      rl.on('line', (line: string) => {
-        if (stopped) return
-        
-        lineNumber++
-        
-        // Check line size
-        if (line.length > maxLineSize) {
-          const error: LedgerError = {
-            code: 'LINE_TOO_LARGE',
-            message: `Line exceeds maximum size of ${maxLineSize} bytes`,
-            details: { size: line.length }
-          }
-          
-          invalid++
-          results.push({
-            line: lineNumber,
-            valid: false,
-            hash: 'error',
-            error
-          })
-          
-          if (options.verbose) {
-            console.log(`Line ${lineNumber}: ❌ ${error.code} - ${error.message}`)
+/**
+ * The signature outcome that decides a hybrid-signed atomic: the first that
+ * failed, else a valid one (else none)
+ */
+function decidingSignature(
+  check: Extract<LineCheck, { status: 'checked' }>
+): { signature: SignatureCheck; field: 'signature' | 'pq_signature' } {
+  const pq = check.pqSignature
+  if (!pq || check.signature.status === 'valid' && pq.status === 'valid') {
+    return { signature: check.signature, field: 'signature' }
+  }
+  if (check.signature.status === 'none' || check.signature.status === 'valid') {
+    return { signature: pq, field: 'pq_signature' }
+  }
+  return { signature: check.signature, field: 'signature' }
+}
+
+/**
+ * The checks that depend on earlier lines: applied to the per-line
+ * outcomes in ledger order, it keeps the chain heads, forks and counts
+ */
+class ChainVerifier {
+  stopped = false
+  private lineNumber = 0
+  private valid = 0
+  private invalid = 0
+  private unsigned = 0
+  private rejected = 0
+  private prevHash: string | null = null
+  private results: VerificationResult[] = []
+  private chainMap = new Map<string, string>() // trace_id -> last hash
+  private forks = new Map<string, string[]>() // trace_id (or global) -> list of hashes
+  private seen = new Set<string>() // global mode: hashes on the chain or a branch of it
+  private canonical = new Set<string>() // hashes fork resolutions kept
+  private rejectedBy = new Map<string, ForkResolution>() // hash -> resolution that rejected it
+  private retiredBy = new Map<string, KeyRotation>() // public key -> rotation that retired it
+  private activatedBy = new Map<string, KeyRotation>() // public key -> rotation that introduced it
+  private rotations: KeyRotation[] = []
+  private gaps: SegmentGap[] = []
+  private blobRefs: Array<{ line: number; hash: string; trace_id?: string; pointer: string; ref: BlobRef }> = []
+  private resumed?: { lines: number; offset: number }
+  private inPrefix?: (hash: string) => boolean // global mode: hashes of the verified prefix
+  private chainMode: ChainMode
+  private maxLineSize: number
+
+  constructor(private options: VerifyOptions) {
+    this.chainMode = options.chainMode || 'global'
+    this.maxLineSize = options.maxLineSize || MAX_LINE_SIZE
+  }
+
+  /**
+   * Continue after a verified prefix, whose atomics `inPrefix` finds (the
+   * checkpoint keeps only the chain heads)
+   */
+  resume(checkpoint: VerificationCheckpoint, inPrefix?: (hash: string) => boolean): void {
+    this.lineNumber = checkpoint.lines
+    this.prevHash = checkpoint.last_hash
+    this.chainMap = new Map(Object.entries(checkpoint.chain_heads))
+    this.resumed = { lines: checkpoint.lines, offset: checkpoint.offset }
+    this.inPrefix = inPrefix
+  }
+
+  /**
+   * Apply fork resolutions made for this chain mode
+   */
+  honor(resolutions: ForkResolution[]): void {
+    for (const resolution of resolutions) {
+      if (resolution.chain_mode !== this.chainMode) continue
+      for (const hash of resolution.canonical) {
+        this.canonical.add(hash)
+      }
+      for (const hash of resolution.rejected) {
+        this.rejectedBy.set(hash, resolution)
+      }
+    }
+  }
+
+  /**
+   * Apply key rotations: each key signs only between the rotation that
+   * introduced it and the one that retired it
+   */
+  rotate(rotations: KeyRotation[]): void {
+    for (const rotation of rotations) {
+      this.rotations.push(rotation)
+      if (!this.retiredBy.has(rotation.retired_key)) {
+        this.retiredBy.set(rotation.retired_key, rotation)
+      }
+      if (!this.activatedBy.has(rotation.new_key)) {
+        this.activatedBy.set(rotation.new_key, rotation)
+      }
+    }
+  }
+
+  /**
+   * Account for sealed segments whose file is missing, at their place in
+   * the ledger
+   */
+  bridge(gaps: SegmentGap[]): void {
+    this.gaps = gaps.filter(gap => gap.line > this.lineNumber)
+  }
+
+  state(): ChainState {
+    return {
+      lines: this.lineNumber,
+      last_hash: this.prevHash,
+      chain_heads: Object.fromEntries(this.chainMap),
+      key_rotations: this.rotations.filter(rotation => rotation.line <= this.lineNumber)
+    }
+  }
+
+  add(check: LineCheck): void {
+    if (this.stopped) return
+    this.skipGaps()
+    if (this.stopped) return
+
+    const lineNumber = ++this.lineNumber
+
+    switch (check.status) {
+      case 'too_large': {
+        const error: LedgerError = {
+          code: 'LINE_TOO_LARGE',
+          message: `Line exceeds maximum size of ${this.maxLineSize} bytes`,
+          details: { size: check.size }
+        }
+        this.fail({ line: lineNumber, valid: false, hash: 'error', error }, `${error.code} - ${error.message}`)
+        return
+      }
+      case 'parse_error':
+        this.parseError(lineNumber, check)
+        return
+      case 'skipped':
+        return
+      case 'missing_hash':
+        this.unsigned++
+        this.emit({
+          line: lineNumber,
+          valid: false,
+          hash: 'missing',
+          trace_id: check.trace_id,
+          error: {
+            code: 'MISSING_HASH',
+            message: 'Atomic does not have hash field'
           }
-          
-          if (options.stopOnError) {
-            stopped = true
-            rl.close()
+        })
+        if (this.options.verbose) {
+          console.log(`Line ${lineNumber}: ⚠️  unsigned (trace_id: ${check.trace_id})`)
+        }
+        return
+      case 'hash_mismatch':
+        this.fail({
+          line: lineNumber,
+          valid: false,
+          hash: check.hash,
+          trace_id: check.trace_id,
+          error: {
+            code: 'HASH_MISMATCH',
+            message: check.commitmentError
+              ? `Field commitments do not match the atomic: ${check.commitmentError}`
+              : 'Computed hash does not match stored hash',
+            details: { expected: check.hash, computed: check.computed }
           }
+        }, `hash mismatch (trace_id: ${check.trace_id})`)
+        return
+      case 'checked':
+        this.checkChain(lineNumber, check)
+        return
+    }
+  }
+
+  private checkChain(lineNumber: number, check: Extract<LineCheck, { status: 'checked' }>): void {
+    const failed = (error: LedgerError, description: string) =>
+      this.fail({ line: lineNumber, valid: false, hash: check.hash, trace_id: check.trace_id, error }, description)
+    const traceId = check.trace_id
+
+    // What is appended to a rejected branch stays on it
+    const resolution = this.rejectedBy.get(check.hash) ?? (check.prev ? this.rejectedBy.get(check.prev) : undefined)
+    if (resolution) {
+      this.rejectedBy.set(check.hash, resolution)
+      this.rejected++
+      this.emit({
+        line: lineNumber,
+        valid: false,
+        hash: check.hash,
+        trace_id: traceId,
+        error: {
+          code: 'REJECTED_BRANCH',
+          message: 'Atomic is on a branch rejected by a fork resolution',
+          details: { resolution: resolution.hash, canonical_head: resolution.canonical_head }
+        }
+      })
+      if (this.options.verbose) {
+        console.log(`Line ${lineNumber}: ↪️  rejected branch (trace_id: ${traceId})`)
+      }
+      return
+    }
+
+    // Verify prev chain, continuing across segments
+    if (isSegmentGenesis({ trace_id: traceId, did: check.did } as Atomic)) {
+      if (check.prev !== (this.prevHash ?? undefined)) {
+        failed({
+          code: 'CHAIN_BROKEN',
+          message: 'Segment genesis does not reference the last atomic of the previous segment',
+          details: { expected: this.prevHash, found: check.prev }
+        }, 'segment chain broken')
+        return
+      }
+    } else if (this.chainMode === 'global') {
+      if (check.prev) {
+        if (this.prevHash && check.prev !== this.prevHash && !this.seen.has(check.prev) && !this.inPrefix?.(check.prev)) {
+          failed({
+            code: 'CHAIN_BROKEN',
+            message: 'Previous hash does not match last atomic hash',
+            details: { expected: this.prevHash, found: check.prev }
+          }, `chain broken (trace_id: ${traceId})`)
           return
         }
-        
-        try {
-          const atomic: Atomic = JSON.parse(line)
-          
-          // Filter by trace_id if specified
-          if (options.traceId && atomic.trace_id !== options.traceId) {
-            return // Skip this line
+        // Detect forks: prev is an earlier atomic (or one on a branch), which
+        // already has a successor; no error on the branch a resolution kept
+        if (this.prevHash && check.prev !== this.prevHash && !this.canonical.has(check.hash)) {
+          if (!this.forks.has(GLOBAL_CHAIN)) {
+            this.forks.set(GLOBAL_CHAIN, [this.prevHash])
           }
+          this.forks.get(GLOBAL_CHAIN)!.push(check.hash)
+          this.seen.add(check.hash)
           
-          // Verify hash exists
-          if (!atomic.hash) {
-            const error: LedgerError = {
-              code: 'MISSING_HASH',
-              message: 'Atomic does not have hash field'
-            }
-            
-            unsigned++
-            results.push({
-              line: lineNumber,
-              valid: false,
-              hash: 'missing',
-              trace_id: atomic.trace_id,
-              error
-            })
-            
-            if (options.verbose) {
-              console.log(`Line ${lineNumber}: ⚠️  unsigned (trace_id: ${atomic.trace_id})`)
-            }
-            return
-          }
-          
-          // Compute and verify hash
-          const atomicForHash = { ...atomic }
-          delete (atomicForHash as any).hash
-          delete (atomicForHash as any).signature
-          
-          const canonical = canonicalize(atomicForHash)
-          const computedHash = Buffer.from(
-            blake3(new TextEncoder().encode(canonical), { context: HASH_CONTEXT })
-          ).toString('hex')
-          
-          if (computedHash !== atomic.hash) {
-            const error: LedgerError = {
-              code: 'HASH_MISMATCH',
-              message: 'Computed hash does not match stored hash',
-              details: { expected: atomic.hash, computed: computedHash }
-            }
-            
-            invalid++
-            results.push({
-              line: lineNumber,
-              valid: false,
-              hash: atomic.hash,
-              trace_id: atomic.trace_id,
-              error
-            })
-            
-            if (options.verbose) {
-              console.log(`Line ${lineNumber}: ❌ hash mismatch (trace_id: ${atomic.trace_id})`)
-            }
-            
-            if (options.stopOnError) {
-              stopped = true
-              rl.close()
-            }
-            return
-          }
-          
-          // Verify prev chain within same file
-          if (atomic.prev) {
-            if (prevHash && atomic.prev !== prevHash) {
-              const error: LedgerError = {
-                code: 'CHAIN_BROKEN',
-                message: 'Previous hash does not match last atomic hash',
-                details: { expected: prevHash, found: atomic.prev }
-              }
-              
-              invalid++
-              results.push({
-                line: lineNumber,
-                valid: false,
-                hash: atomic.hash,
-                trace_id: atomic.trace_id,
-                error
-              })
-              
-              if (options.verbose) {
-                console.log(`Line ${lineNumber}: ❌ chain broken (trace_id: ${atomic.trace_id})`)
-              }
-              
-              if (options.stopOnError) {
-                stopped = true
-                rl.close()
-              }
-              return
-            }
-          } else {
-            // Genesis: should only be first atomic without prev
-            if (lineNumber > 1) {
-              const error: LedgerError = {
-                code: 'INVALID_GENESIS',
-                message: 'Genesis atomic (without prev) found after line 1',
-                details: { line: lineNumber }
-              }
-              
-              invalid++
-              results.push({
-                line: lineNumber,
-                valid: false,
-                hash: atomic.hash,
-                trace_id: atomic.trace_id,
-                error
-              })
-              
-              if (options.verbose) {
-                console.log(`Line ${lineNumber}: ❌ invalid genesis (trace_id: ${atomic.trace_id})`)
-              }
-              
-              if (options.stopOnError) {
-                stopped = true
-                rl.close()
-              }
-              return
-            }
-          }
-          
-          // Detect forks by trace_id
-          if (atomic.trace_id) {
-            const lastHash = chainMap.get(atomic.trace_id)
-            if (lastHash) {
-              // Check if this continues the chain or is a fork
-              if (atomic.prev && atomic.prev !== lastHash) {
-                // Fork detected!
-                if (!forks.has(atomic.trace_id)) {
-                  forks.set(atomic.trace_id, [lastHash])
-                }
-                forks.get(atomic.trace_id)!.push(atomic.hash)
-                
-                const error: LedgerError = {
-                  code: 'FORK_DETECTED',
-                  message: 'Multiple chains detected for same trace_id',
-                  details: { trace_id: atomic.trace_id, hashes: forks.get(atomic.trace_id) }
-                }
-                
-                invalid++
-                results.push({
-                  line: lineNumber,
-                  valid: false,
-                  hash: atomic.hash,
-                  trace_id: atomic.trace_id,
-                  error
-                })
-                
-                if (options.verbose) {
-                  console.log(`Line ${lineNumber}: ❌ fork detected (trace_id: ${atomic.trace_id})`)
-                }
-                
-                if (options.stopOnError) {
-                  stopped = true
-                  rl.close()
-                }
-                return
-              }
-            }
-            chainMap.set(atomic.trace_id, atomic.hash)
-          }
-          
-          // Verify signature if present
-          if (atomic.signature) {
-            if (!atomic.signature.alg || atomic.signature.alg !== 'Ed25519') {
-              const error: LedgerError = {
-                code: 'INVALID_SIGNATURE_ALG',
-                message: 'Invalid or missing signature algorithm',
-                details: { alg: atomic.signature.alg }
-              }
-              
-              invalid++
-              results.push({
-                line: lineNumber,
-                valid: false,
-                hash: atomic.hash,
-                trace_id: atomic.trace_id,
-                error
-              })
-              
-              if (options.verbose) {
-                console.log(`Line ${lineNumber}: ❌ invalid signature algorithm (trace_id: ${atomic.trace_id})`)
-              }
-              
-              if (options.stopOnError) {
-                stopped = true
-                rl.close()
-              }
-              return
-            }
-            
-            const keyToUse = publicKey || (atomic.signature.public_key 
-              ? Uint8Array.from(Buffer.from(atomic.signature.public_key, 'hex'))
-              : null)
-            
-            if (keyToUse) {
-              try {
-                const signatureBytes = Uint8Array.from(Buffer.from(atomic.signature.sig, 'hex'))
-                const isValidSig = ed25519.verify(
-                  signatureBytes,
-                  new TextEncoder().encode(atomic.hash),
-                  keyToUse
-                )
-                
-                if (!isValidSig) {
-                  const error: LedgerError = {
-                    code: 'INVALID_SIGNATURE',
-                    message: 'Signature verification failed'
-                  }
-                  
-                  invalid++
-                  results.push({
-                    line: lineNumber,
-                    valid: false,
-                    hash: atomic.hash,
-                    trace_id: atomic.trace_id,
-                    error
-                  })
-                  
-                  if (options.verbose) {
-                    console.log(`Line ${lineNumber}: ❌ invalid signature (trace_id: ${atomic.trace_id})`)
-                  }
-                  
-                  if (options.stopOnError) {
-                    stopped = true
-                    rl.close()
-                  }
-                  return
-                }
-              } catch (err) {
-                const error: LedgerError = {
-                  code: 'SIGNATURE_VERIFY_ERROR',
-                  message: 'Error during signature verification',
-                  details: { error: String(err) }
-                }
-                
-                invalid++
-                results.push({
-                  line: lineNumber,
-                  valid: false,
-                  hash: atomic.hash,
-                  trace_id: atomic.trace_id,
-                  error
-                })
-                
-                if (options.verbose) {
-                  console.log(`Line ${lineNumber}: ❌ signature error (trace_id: ${atomic.trace_id})`)
-                }
-                
-                if (options.stopOnError) {
-                  stopped = true
-                  rl.close()
-                }
-                return
-              }
-            } else {
-              // Signature present but no key to verify
-              unsigned++
-              results.push({
-                line: lineNumber,
-                valid: false,
-                hash: atomic.hash,
-                trace_id: atomic.trace_id,
-                error: {
-                  code: 'NO_PUBLIC_KEY',
-                  message: 'Signature present but no public key provided for verification'
-                }
-              })
-              
-              if (options.verbose) {
-                console.log(`Line ${lineNumber}: ⚠️  cannot verify signature - no key (trace_id: ${atomic.trace_id})`)
-              }
-              return
-            }
-          } else {
-            unsigned++
-          }
-          
-          // All checks passed
-          valid++
-          results.push({
-            line: lineNumber,
-            valid: true,
-            hash: atomic.hash,
-            trace_id: atomic.trace_id
-          })
-          
-          if (options.verbose) {
-            console.log(`Line ${lineNumber}: ✅ valid (hash: ${atomic.hash.slice(0, 12)}...)`)
-          }
-          
-          // Update prev for next iteration
-          prevHash = atomic.hash
-          
-        } catch (error) {
-          const ledgerError: LedgerError = {
-            code: 'PARSE_ERROR',
-            message: error instanceof Error ? error.message : 'Unknown parse error',
-            details: { error: String(error) }
-          }
-          
-          invalid++
-          results.push({
-            line: lineNumber,
-            valid: false,
-            hash: 'error',
-            error: ledgerError
-          })
-          
-          if (options.verbose) {
-            console.log(`Line ${lineNumber}: ❌ parse error: ${ledgerError.message}`)
-          }
-          
-          if (options.stopOnError) {
-            stopped = true
-            rl.close()
-          }
+          failed({
+            code: 'FORK_DETECTED',
+            message: 'Multiple atomics share a previous hash in the global chain',
+            details: { prev: check.prev, hashes: this.forks.get(GLOBAL_CHAIN) }
+          }, `fork detected (trace_id: ${traceId})`)
+          return
         }
-      })
+      } else if (lineNumber > 1) {
+        // Genesis: should only be first atomic without prev
+        failed({
+          code: 'INVALID_GENESIS',
+          message: 'Genesis atomic (without prev) found after line 1',
+          details: { line: lineNumber }
+        }, `invalid genesis (trace_id: ${traceId})`)
+        return
+      }
+    } else if (traceId) {
+      const lastHash = this.chainMap.get(traceId)
       
-      rl.on('close', () => {
-        // Summary
-        console.log('\n📊 Verification Summary:')
-        console.log(`  Total lines: ${lineNumber}`)
-        console.log(`  ✅ Valid: ${valid}`)
-        console.log(`  ❌ Invalid: ${invalid}`)
-        console.log(`  ⚠️  Unsigned: ${unsigned}`)
-        
-        if (forks.size > 0) {
-          console.log(`  🔀 Forks detected: ${forks.size}`)
-          for (const [traceId, hashes] of forks.entries()) {
-            console.log(`     - ${traceId}: ${hashes.length} branches`)
-          }
+      if (!check.prev && lastHash) {
+        failed({
+          code: 'INVALID_GENESIS',
+          message: 'Genesis atomic (without prev) found after start of trace',
+          details: { line: lineNumber, trace_id: traceId }
+        }, `invalid genesis (trace_id: ${traceId})`)
+        return
+      }
+      
+      if (check.prev && !lastHash) {
+        failed({
+          code: 'CHAIN_BROKEN',
+          message: 'Previous hash references no atomic of this trace',
+          details: { expected: null, found: check.prev }
+        }, `chain broken (trace_id: ${traceId})`)
+        return
+      }
+      
+      // Detect forks by trace_id: prev points somewhere other than the trace
+      // head, which is no error on the branch a fork resolution kept
+      if (check.prev && lastHash && check.prev !== lastHash && !this.canonical.has(check.hash)) {
+        if (!this.forks.has(traceId)) {
+          this.forks.set(traceId, [lastHash])
         }
+        this.forks.get(traceId)!.push(check.hash)
         
-        resolve({
-          total: lineNumber,
-          valid,
-          invalid,
-          unsigned,
-          results,
-          forks: forks.size > 0 ? forks : undefined
+        failed({
+          code: 'FORK_DETECTED',
+          message: 'Multiple chains detected for same trace_id',
+          details: { trace_id: traceId, hashes: this.forks.get(traceId) }
+        }, `fork detected (trace_id: ${traceId})`)
+        return
+      }
+    }
+    
+    // Signature outcome, if present: every signature present must verify
+    const { signature, field } = decidingSignature(check)
+    // Failures of the post-quantum signature name it
+    const pq = field === 'pq_signature' ? { signature: field } : undefined
+    const of = pq ? ' (pq_signature)' : ''
+    switch (signature.status) {
+      case 'bad_alg':
+        failed({
+          code: 'INVALID_SIGNATURE_ALG',
+          message: 'Invalid or missing signature algorithm',
+          details: { alg: signature.alg, ...pq }
+        }, `invalid signature algorithm${of} (trace_id: ${traceId})`)
+        return
+      case 'exception':
+        this.parseError(lineNumber, signature)
+        return
+      case 'invalid':
+        failed({
+          code: 'INVALID_SIGNATURE',
+          message: 'Signature verification failed',
+          ...(pq ? { details: pq } : {})
+        }, `invalid signature${of} (trace_id: ${traceId})`)
+        return
+      case 'error':
+        failed({
+          code: 'SIGNATURE_VERIFY_ERROR',
+          message: 'Error during signature verification',
+          details: { error: signature.error, ...pq }
+        }, `signature error${of} (trace_id: ${traceId})`)
+        return
+      case 'untrusted':
+        failed({
+          code: signature.code,
+          message: signature.message,
+          details: { ...signature.details, ...pq }
+        }, `untrusted signature${of}: ${signature.code} (trace_id: ${traceId})`)
+        return
+      case 'no_key':
+        // Signature present but no key to verify
+        this.unsigned++
+        this.emit({
+          line: lineNumber,
+          valid: false,
+          hash: check.hash,
+          trace_id: traceId,
+          error: {
+            code: 'NO_PUBLIC_KEY',
+            message: 'Signature present but no public key provided for verification'
+          }
         })
-      })
+        if (this.options.verbose) {
+          console.log(`Line ${lineNumber}: ⚠️  cannot verify signature - no key (trace_id: ${traceId})`)
+        }
+        return
+      case 'none':
+        if (!check.multisig) {
+          this.unsigned++
+        }
+        break
+      case 'valid':
+        break
+    }
+
+    const rotationError = check.signature.status === 'valid' && check.signer
+      ? this.checkRotation(lineNumber, check.signer)
+      : null
+    if (rotationError) {
+      failed(rotationError, `${rotationError.code} (trace_id: ${traceId})`)
+      return
+    }
+
+    if (this.options.signaturePolicy === 'both' && (check.signature.status === 'none') !== !check.pqSignature) {
+      const missing = check.pqSignature ? 'signature' : 'pq_signature'
+      failed({
+        code: 'HYBRID_SIGNATURE_REQUIRED',
+        message: 'Signature policy requires both a classical and a post-quantum signature',
+        details: { missing }
+      }, `missing ${missing} (trace_id: ${traceId})`)
+      return
+    }
+    
+    const multisig = check.multisig
+    if (multisig?.status === 'invalid_policy') {
+      failed({
+        code: 'INVALID_MULTISIG_POLICY',
+        message: multisig.message
+      }, `invalid multisig policy (trace_id: ${traceId})`)
+      return
+    }
+    if (multisig?.status === 'not_met') {
+      failed({
+        code: 'THRESHOLD_NOT_MET',
+        message: `${multisig.signers.length} of the ${multisig.threshold} required signatures`,
+        details: { threshold: multisig.threshold, signers: multisig.signers, rejected: multisig.rejected }
+      }, `multisig threshold not met: ${multisig.signers.length}/${multisig.threshold} (trace_id: ${traceId})`)
+      return
+    }
+    
+    // All checks passed
+    this.valid++
+    this.emit({
+      line: lineNumber,
+      valid: true,
+      hash: check.hash,
+      trace_id: traceId,
+      ...(check.disclosure ? { disclosure: check.disclosure } : {})
+    })
+    
+    if (this.options.verbose) {
+      console.log(`Line ${lineNumber}: ✅ valid (hash: ${check.hash.slice(0, 12)}...)`)
+      if (check.redacted) {
+        console.log(`  redacted: ${check.redacted.join(', ')}`)
+      }
+    }
+    
+    if (this.options.blobs) {
+      for (const [pointer, ref] of check.blobs ?? []) {
+        this.blobRefs.push({ line: lineNumber, hash: check.hash, trace_id: traceId, pointer, ref })
+      }
+    }
+    
+    // Update chain heads for next iteration
+    this.prevHash = check.hash
+    if (this.chainMode === 'global') {
+      this.seen.add(check.hash)
+    }
+    if (traceId) {
+      this.chainMap.set(traceId, check.hash)
+    }
+  }
+
+  /**
+   * Whether the signing key may sign at this line, given the key rotations
+   */
+  private checkRotation(lineNumber: number, signer: string): LedgerError | null {
+    const retired = this.retiredBy.get(signer)
+    if (retired && lineNumber > retired.line) {
+      return {
+        code: 'KEY_RETIRED',
+        message: 'Signed with a key retired by an earlier key rotation',
+        details: { public_key: signer, rotation: retired.hash, rotation_line: retired.line, new_key: retired.new_key }
+      }
+    }
+    const activated = this.activatedBy.get(signer)
+    if (activated && lineNumber < activated.line) {
+      return {
+        code: 'KEY_NOT_YET_VALID',
+        message: 'Signed with a key before the key rotation that introduced it',
+        details: { public_key: signer, rotation: activated.hash, rotation_line: activated.line }
+      }
+    }
+    return null
+  }
+
+  /**
+   * Check the blobs of the valid atomics, each blob once. An atomic with a
+   * missing or altered blob counts as invalid instead of valid.
+   */
+  async checkBlobs(store: BlobStore): Promise<void> {
+    const checks = new Map<string, Promise<BlobCheck>>()
+    const failedLines = new Set<number>()
+    for (const { line, hash, trace_id, pointer, ref } of this.blobRefs) {
+      if (this.stopped) return
+      if (!checks.has(ref.hash)) {
+        checks.set(ref.hash, checkBlob(ref, store))
+      }
+      const outcome = await checks.get(ref.hash)!
+      if (outcome === 'ok') continue
+
+      if (!failedLines.has(line)) {
+        failedLines.add(line)
+        this.valid--
+      }
+      const error: LedgerError = outcome === 'missing'
+        ? { code: 'BLOB_MISSING', message: 'Referenced blob is not in the blob store', details: { pointer, blob: ref.hash } }
+        : { code: 'BLOB_MISMATCH', message: 'Referenced blob does not match its hash', details: { pointer, blob: ref.hash } }
+      this.fail({ line, valid: false, hash, trace_id, error }, `${error.code} ${pointer} (trace_id: ${trace_id})`)
+    }
+  }
+
+  /**
+   * Report the missing segments that start at the next line and skip their
+   * lines, continuing the chain from their last recorded hash
+   */
+  private skipGaps(): void {
+    while (this.gaps.length > 0 && this.gaps[0].line === this.lineNumber + 1 && !this.stopped) {
+      const gap = this.gaps.shift()!
+      this.fail({
+        line: gap.line,
+        valid: false,
+        hash: gap.last_hash || 'error',
+        error: {
+          code: 'SEGMENT_MISSING',
+          message: `Sealed segment file not found: lines ${gap.line} to ${gap.line + gap.count - 1} were not verified`,
+          details: { file: gap.file, lines: gap.count }
+        }
+      }, `SEGMENT_MISSING - ${gap.file}`)
+      this.lineNumber += gap.count
+      if (gap.last_hash) {
+        this.prevHash = gap.last_hash
+      }
+    }
+  }
+
+  private parseError(lineNumber: number, check: { message: string; error: string }): void {
+    const error: LedgerError = {
+      code: 'PARSE_ERROR',
+      message: check.message,
+      details: { error: check.error }
+    }
+    this.fail({ line: lineNumber, valid: false, hash: 'error', error }, `parse error: ${error.message}`)
+  }
+
+  private fail(result: VerificationResult, description: string): void {
+    this.invalid++
+    this.emit(result)
+    
+    if (this.options.verbose) {
+      console.log(`Line ${result.line}: ❌ ${description}`)
+    }
+    
+    if (this.options.stopOnError) {
+      this.stopped = true
+    }
+  }
+
+  private emit(result: VerificationResult): void {
+    if (this.options.sink) {
+      this.options.sink(result)
+    } else {
+      this.results.push(result)
+    }
+  }
+
+  finish(segmentErrors: VerificationResult[]): VerifySummary {
+    // Missing segments after the last line read
+    if (!this.stopped) {
+      this.skipGaps()
+    }
+    for (const result of segmentErrors) {
+      this.invalid++
+      this.emit(result)
+      if (this.options.verbose) {
+        console.log(`Line ${result.line}: ❌ ${result.error!.code} - ${result.error!.message}`)
+      }
+    }
+    
+    const total = this.lineNumber - (this.resumed?.lines ?? 0)
+    
+    // Summary
+    console.log('\n📊 Verification Summary:')
+    if (this.resumed) {
+      console.log(`  ⏩ Resumed after line ${this.resumed.lines} (verification checkpoint)`)
+    }
+    console.log(`  Total lines: ${total}`)
+    console.log(`  ✅ Valid: ${this.valid}`)
+    console.log(`  ❌ Invalid: ${this.invalid}`)
+    console.log(`  ⚠️  Unsigned: ${this.unsigned}`)
+    if (this.rejected > 0) {
+      console.log(`  ↪️  On rejected branches: ${this.rejected}`)
+    }
+    
+    if (this.forks.size > 0) {
+      console.log(`  🔀 Forks detected: ${this.forks.size}`)
+      for (const [traceId, hashes] of this.forks.entries()) {
+        console.log(`     - ${traceId}: ${hashes.length} branches`)
+      }
+    }
+    
+    return {
+      total,
+      valid: this.valid,
+      invalid: this.invalid,
+      unsigned: this.unsigned,
+      ...(this.rejected > 0 ? { rejected: this.rejected } : {}),
+      results: this.results,
+      forks: this.forks.size > 0 ? this.forks : undefined,
+      ...(this.resumed ? { resumed: this.resumed } : {})
+    }
+  }
+}
+
+/**
+ * Cut the stream into batches of whole lines, check them on a pool of
+ * workers, and hand the outcomes to the chain checks in ledger order. At
+ * most two batches per worker are in flight, which bounds memory.
+ */
+async function verifyInWorkers(
+  stream: Readable,
+  chain: ChainVerifier,
+  context: LineCheckContext,
+  options: VerifyOptions
+): Promise<void> {
+  const workerUrl = options.workerUrl ?? (await import('./verifyWorkerUrl.js')).VERIFY_WORKER_URL
+  const pool = new VerifyWorkerPool(workerUrl, options.workers!, {
+    verifyWorker: true,
+    publicKeyHex: context.publicKey ? Buffer.from(context.publicKey).toString('hex') : null,
+    traceId: context.traceId,
+    maxLineSize: context.maxLineSize,
+    keyring: context.keyring?.entries(),
+    rotatedKeys: context.rotatedKeys ? Array.from(context.rotatedKeys) : undefined
+  })
+  const batchBytes = options.batchBytes || WORKER_BATCH_BYTES
+  const maxInFlight = options.workers! * 2
+  const inFlight: Array<Promise<LineCheck[]>> = []
+
+  const stitch = async (): Promise<void> => {
+    for (const check of await inFlight.shift()!) {
+      chain.add(check)
+    }
+  }
+  const submit = async (bytes: Uint8Array): Promise<void> => {
+    // Copy into an ArrayBuffer of its own, which moves to the worker
+    const task = pool.run(new Uint8Array(bytes).buffer)
+    task.catch(() => undefined) // Reported when its turn comes
+    inFlight.push(task)
+    while (inFlight.length >= maxInFlight && !chain.stopped) {
+      await stitch()
+    }
+  }
+
+  try {
+    let pending: Buffer[] = []
+    let pendingBytes = 0
+    
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      if (chain.stopped) break
       
-      rl.on('error', (err) => {
-        reject(err)
-      })
+      pending.push(chunk)
+      pendingBytes += chunk.length
+      if (pendingBytes < batchBytes) continue
       
-      stream.on('error', (err) => {
-        reject(err)
+      const data = Buffer.concat(pending)
+      const end = data.lastIndexOf(0x0a) + 1
+      pending = end < data.length ? [data.subarray(end)] : []
+      pendingBytes = data.length - end
+      if (end > 0) {
+        await submit(data.subarray(0, end))
+      }
+    }
+    
+    if (!chain.stopped && pendingBytes > 0) {
+      await submit(Buffer.concat(pending))
+    }
+    while (inFlight.length > 0 && !chain.stopped) {
+      await stitch()
+    }
+  } finally {
+    await pool.close()
+  }
+}
+
+interface WorkerTask {
+  batch: ArrayBuffer
+  resolve: (checks: LineCheck[]) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Fixed set of verification workers, one batch at a time each
+ */
+class VerifyWorkerPool {
+  private workers: Worker[] = []
+  private idle: Worker[] = []
+  private queue: WorkerTask[] = []
+  private running = new Map<Worker, WorkerTask>()
+  private failure: Error | null = null
+  private closed = false
+
+  constructor(url: URL | string, size: number, data: VerifyWorkerData) {
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(url, { workerData: data })
+      worker.on('message', (checks: LineCheck[]) => this.done(worker, checks))
+      worker.on('error', err => this.fail(err))
+      worker.on('exit', code => {
+        if (code !== 0) {
+          this.fail(new Error(`Verification worker exited with code ${code}`))
+        }
       })
+      this.workers.push(worker)
+      this.idle.push(worker)
+    }
+  }
+
+  run(batch: ArrayBuffer): Promise<LineCheck[]> {
+    return new Promise((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure)
+        return
+      }
+      this.queue.push({ batch, resolve, reject })
+      this.dispatch()
+    })
+  }
+
+  async close(): Promise<void> {
+    this.closed = true
+    await Promise.all(this.workers.map(worker => worker.terminate()))
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!
+      const task = this.queue.shift()!
+      this.running.set(worker, task)
+      worker.postMessage(task.batch, [task.batch])
+    }
+  }
+
+  private done(worker: Worker, checks: LineCheck[]): void {
+    const task = this.running.get(worker)
+    this.running.delete(worker)
+    this.idle.push(worker)
+    task?.resolve(checks)
+    this.dispatch()
+  }
+
+  private fail(error: Error): void {
+    if (this.closed || this.failure) return
+    
+    this.failure = error
+    for (const task of [...this.running.values(), ...this.queue]) {
+      task.reject(error)
+    }
+    this.running.clear()
+    this.queue = []
+  }
+}
+
+/**
+ * Fork resolutions and key rotations to honor, read in a single pass before
+ * the lines are checked, since both also govern lines written before them.
+ * They only count under a trust root (a pinned key or a keyring): without
+ * one, any key could sign them. After a checkpoint only the unverified
+ * suffix is read: the checkpoint carries the rotations of the prefix, and
+ * resolutions there only concern lines that are not checked again.
+ */
+async function readControlAtomics(
+  ledgerPath: string,
+  context: LineCheckContext,
+  checkpoint: VerificationCheckpoint | null
+): Promise<{ resolutions: ForkResolution[]; rotations: KeyRotation[] }> {
+  const resolutions: ForkResolution[] = []
+  if (!context.publicKey && !context.keyring) {
+    return { resolutions, rotations: [] }
+  }
+  // A checkpoint from before rotations were recorded in it says nothing of them
+  const from = checkpoint?.key_rotations ? checkpoint : null
+  const rotations = [...(from?.key_rotations ?? [])]
+  const rotatedKeys = new Set(rotations.map(rotation => rotation.new_key))
+  const unfiltered: LineCheckContext = { ...context, traceId: undefined, rotatedKeys }
+
+  const skip = from?.offset ?? 0
+  let lineNumber = from?.lines ?? 0
+  let start = 0
+  for (const file of ledgerFiles(ledgerPath)) {
+    const offset = Math.max(0, skip - start)
+    start += file.bytes
+    if (offset >= file.bytes) continue
+    if (!existsSync(file.path)) {
+      // Reported by readSegments; its lines still count
+      lineNumber += file.count
+      continue
+    }
+
+    let expected = offset
+    for await (const { line, offset: lineOffset, end } of readLines(file.path, offset)) {
+      // Blank lines, which readLines skips, are lines of the ledger too
+      lineNumber += lineOffset - expected + 1
+      expected = end
+
+      const resolves = line.includes(FORK_RESOLUTION_ACTION)
+      const rotates = line.includes(KEY_ROTATION_ACTION)
+      if (!resolves && !rotates) continue
+
+      const text = line.toString('utf-8')
+      const check = checkLine(text, unfiltered)
+      if (check.status !== 'checked' || check.signature.status !== 'valid') continue
+
+      const atomic: Atomic = JSON.parse(text)
+      const resolution = resolves ? readForkResolution(atomic) : null
+      if (resolution) {
+        resolutions.push(resolution)
+      }
+      const rotation = rotates && check.multisig?.status === 'met' ? readKeyRotation(atomic, lineNumber) : null
+      if (rotation) {
+        rotations.push(rotation)
+        rotatedKeys.add(rotation.new_key)
+      }
+    }
+  }
+  return { resolutions, rotations }
+}
+
+/**
+ * Sealed segments then the active file, with their uncompressed sizes
+ */
+function ledgerFiles(ledgerPath: string): Array<{ path: string; bytes: number; count: number }> {
+  const files = readManifest(ledgerPath).segments.map(segment => ({
+    path: segmentPath(ledgerPath, segment),
+    bytes: segment.bytes,
+    count: segment.count
+  }))
+  files.push({ path: ledgerPath, bytes: existsSync(ledgerPath) ? statSync(ledgerPath).size : 0, count: 0 })
+  return files
+}
+
+interface SegmentGap {
+  /** First line the segment holds */
+  line: number
+  count: number
+  file: string
+  last_hash?: string
+}
+
+function missingSegments(ledgerPath: string): SegmentGap[] {
+  const gaps: SegmentGap[] = []
+  let line = 1
+  for (const segment of readManifest(ledgerPath).segments) {
+    if (!existsSync(segmentPath(ledgerPath, segment))) {
+      gaps.push({ line, count: segment.count, file: segment.file, last_hash: segment.last_hash })
+    }
+    line += segment.count
+  }
+  return gaps
+}
+
+/**
+ * Read the sealed segments of a rotated ledger and its active file as one
+ * stream of uncompressed bytes. Missing segments are left out (the chain
+ * checks account for them); segments that do not match their manifest
+ * checksums are reported in `errors`.
+ */
+/**
+ * Whether a hash is that of an atomic in the verified prefix, looked up in
+ * the sidecar indexes of its segments and of the active file. The indexes
+ * are only opened when a lookup is needed.
+ */
+function prefixLookup(ledgerPath: string, checkpoint: VerificationCheckpoint): (hash: string) => boolean {
+  let indexes: Array<{ index: LedgerIndex; end: number }> | null = null
+  return hash => {
+    if (!indexes) {
+      indexes = []
+      let remaining = checkpoint.offset
+      for (const segment of readManifest(ledgerPath).segments) {
+        if (remaining <= 0) break
+        const path = segmentPath(ledgerPath, segment)
+        if (existsSync(path)) {
+          indexes.push({ index: new LedgerIndex(path), end: Math.min(remaining, segment.bytes) })
+        }
+        remaining -= segment.bytes
+      }
+      if (remaining > 0) {
+        indexes.push({ index: new LedgerIndex(ledgerPath), end: remaining })
+      }
+    }
+    return indexes.some(({ index, end }) => {
+      const entry = index.getByHash(hash)
+      return entry !== undefined && entry.offset < end
     })
   }
-}
\ No newline at end of file
+}
+
+function readSegments(ledgerPath: string, errors: VerificationResult[]): Readable {
+  const segments = readManifest(ledgerPath).segments
+  if (segments.length === 0) {
+    return createReadStream(ledgerPath)
+  }
+  
+  return Readable.from((async function* () {
+    let line = 1
+    
+    for (const segment of segments) {
+      const path = segmentPath(ledgerPath, segment)
+      const reported = { line, valid: false, hash: segment.last_hash || 'error' }
+      line += segment.count
+      
+      if (!existsSync(path)) {
+        continue
+      }
+      
+      const stored = createHash('sha256')
+      const original = createHash('sha256')
+      for await (const chunk of createSegmentReadStream(path, raw => stored.update(raw))) {
+        original.update(chunk)
+        yield chunk
+      }
+      
+      const checks: Array<[string, string | undefined, string]> = [
+        ['uncompressed', segment.sha256, original.digest('hex')],
+        ['compressed', segment.compressed_sha256, stored.digest('hex')]
+      ]
+      for (const [form, expected, computed] of checks) {
+        if (expected && expected !== computed) {
+          errors.push({
+            ...reported,
+            error: {
+              code: 'SEGMENT_CHECKSUM_MISMATCH',
+              message: `Sealed segment ${form} checksum does not match the manifest`,
+              details: { file: segment.file, expected, computed }
+            }
+          })
+        }
+      }
+    }
+    
+    if (existsSync(ledgerPath)) {
+      yield* createReadStream(ledgerPath)
+    }
+  })())
+}
@@ -0,0 +1,290 @@
+/**
+ * Verification reports for CI, code scanning and auditors
+ *
+ * Renders a `VerifySummary` as:
+ * - JUnit XML: one test case per verified line, named after the line and
+ *   classed by trace_id; failures carry the error code as their type
+ * - SARIF 2.1.0: one result per failing or unverifiable line, with the error
+ *   code as rule id, the ledger line as location and the trace_id in the
+ *   message and properties
+ * - HTML: a single self-contained page (inline styles, no scripts or
+ *   external assets) with the totals, forks and every line that did not verify
+ */
+
+import { basename } from 'path'
+import type { VerificationResult } from '../../types.js'
+import type { VerifySummary } from './verifyLedger.js'
+
+export type ReportFormat = 'junit' | 'sarif' | 'html'
+
+export const REPORT_FORMATS: ReportFormat[] = ['junit', 'sarif', 'html']
+
+export const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+  junit: 'xml',
+  sarif: 'sarif',
+  html: 'html'
+}
+
+export interface ReportOptions {
+  /** Ledger the summary is about, as it should appear in the report */
+  ledgerPath: string
+  generatedAt?: Date
+  toolVersion?: string
+}
+
+interface Rule {
+  description: string
+  /** Unverifiable lines are warnings, everything else an error */
+  level: 'error' | 'warning'
+}
+
+/**
+ * Error codes the verifier reports
+ */
+export const VERIFICATION_RULES: Record<string, Rule> = {
+  LINE_TOO_LARGE: { level: 'error', description: 'Line exceeds the maximum line size' },
+  PARSE_ERROR: { level: 'error', description: 'Line is not a valid JSON atomic' },
+  MISSING_HASH: { level: 'warning', description: 'Atomic has no hash' },
+  HASH_MISMATCH: { level: 'error', description: 'Stored hash does not match the atomic' },
+  CHAIN_BROKEN: { level: 'error', description: 'Previous hash does not match the chain head' },
+  INVALID_GENESIS: { level: 'error', description: 'Atomic without prev after the start of its chain' },
+  FORK_DETECTED: { level: 'error', description: 'Multiple chains for the same trace_id, or atomics sharing a prev' },
+  INVALID_SIGNATURE_ALG: { level: 'error', description: 'Invalid or missing signature algorithm' },
+  INVALID_SIGNATURE: { level: 'error', description: 'Signature verification failed' },
+  HYBRID_SIGNATURE_REQUIRED: { level: 'error', description: 'Classical or post-quantum signature missing under the both policy' },
+  SIGNATURE_VERIFY_ERROR: { level: 'error', description: 'Signature could not be verified' },
+  NO_PUBLIC_KEY: { level: 'warning', description: 'Signature present but no public key to verify it' },
+  UNTRUSTED_KEY: { level: 'error', description: 'Signing key is not in the keyring' },
+  KEY_REVOKED: { level: 'error', description: 'Signed with a revoked or compromised key' },
+  MISSING_SIGNED_AT: { level: 'error', description: 'Signature has no signed_at to check against the keyring' },
+  KEY_NOT_YET_VALID: { level: 'error', description: 'Signed before the signing key became valid' },
+  KEY_RETIRED: { level: 'error', description: 'Signed with a key retired by a key rotation' },
+  KEY_EXPIRED: { level: 'error', description: 'Signed after the signing key expired' },
+  KEY_NOT_ALLOWED_FOR_ACTOR: { level: 'error', description: 'Signing key is not allowed to sign for did.actor' },
+  REJECTED_BRANCH: { level: 'warning', description: 'Atomic is on a branch rejected by a fork resolution' },
+  THRESHOLD_NOT_MET: { level: 'error', description: 'Fewer valid signatures than the multisig threshold' },
+  INVALID_MULTISIG_POLICY: { level: 'error', description: 'Multisig policy cannot be met' },
+  SEGMENT_MISSING: { level: 'error', description: 'Sealed segment file not found' },
+  SEGMENT_CHECKSUM_MISMATCH: { level: 'error', description: 'Sealed segment checksum does not match the manifest' },
+  BLOB_MISSING: { level: 'error', description: 'Referenced blob is not in the blob store' },
+  BLOB_MISMATCH: { level: 'error', description: 'Referenced blob does not match its hash' }
+}
+
+export function renderReport(format: ReportFormat, summary: VerifySummary, options: ReportOptions): string {
+  switch (format) {
+    case 'junit':
+      return renderJUnit(summary, options)
+    case 'sarif':
+      return renderSarif(summary, options)
+    case 'html':
+      return renderHtml(summary, options)
+    default:
+      throw new Error(`Unknown report format: ${format} (expected ${REPORT_FORMATS.join(', ')})`)
+  }
+}
+
+export function renderJUnit(summary: VerifySummary, options: ReportOptions): string {
+  const failures = summary.results.filter(r => !r.valid && levelOf(r) === 'error').length
+  const skipped = summary.results.filter(r => !r.valid && levelOf(r) === 'warning').length
+  const suite = attributes({
+    name: options.ledgerPath,
+    tests: summary.results.length,
+    failures,
+    errors: 0,
+    skipped,
+    timestamp: generatedAt(options).toISOString()
+  })
+
+  const cases = summary.results.map(result => {
+    const testCase = attributes({ name: `line ${result.line}`, classname: result.trace_id ?? basename(options.ledgerPath) })
+    if (result.valid) {
+      return `    <testcase ${testCase}/>`
+    }
+
+    const error = result.error!
+    const body = escapeXml(describe(result))
+    if (levelOf(result) === 'warning') {
+      return `    <testcase ${testCase}>\n      <skipped ${attributes({ message: `${error.code}: ${error.message}` })}/>\n    </testcase>`
+    }
+    return [
+      `    <testcase ${testCase}>`,
+      `      <failure ${attributes({ type: error.code, message: error.message })}>${body}</failure>`,
+      '    </testcase>'
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites ${attributes({ name: 'ledger-verification', tests: summary.results.length, failures, errors: 0, skipped })}>`,
+    `  <testsuite ${suite}>`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n')
+}
+
+export function renderSarif(summary: VerifySummary, options: ReportOptions): string {
+  const failing = summary.results.filter(r => !r.valid)
+  const codes = Array.from(new Set(failing.map(r => r.error!.code))).sort()
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'logline-verify',
+          ...(options.toolVersion ? { version: options.toolVersion } : {}),
+          rules: codes.map(code => ({
+            id: code,
+            shortDescription: { text: VERIFICATION_RULES[code]?.description ?? code },
+            defaultConfiguration: { level: VERIFICATION_RULES[code]?.level ?? 'error' }
+          }))
+        }
+      },
+      invocations: [{
+        executionSuccessful: true,
+        endTimeUtc: generatedAt(options).toISOString()
+      }],
+      results: failing.map(result => ({
+        ruleId: result.error!.code,
+        ruleIndex: codes.indexOf(result.error!.code),
+        level: levelOf(result),
+        message: {
+          text: result.trace_id
+            ? `${result.error!.message} (trace_id: ${result.trace_id})`
+            : result.error!.message
+        },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: options.ledgerPath },
+            region: { startLine: result.line }
+          }
+        }],
+        partialFingerprints: { atomicHash: result.hash },
+        properties: {
+          ...(result.trace_id ? { trace_id: result.trace_id } : {}),
+          hash: result.hash,
+          ...(result.error!.details ? { details: result.error!.details } : {})
+        }
+      })),
+      properties: totals(summary)
+    }]
+  }
+
+  return JSON.stringify(sarif, null, 2) + '\n'
+}
+
+export function renderHtml(summary: VerifySummary, options: ReportOptions): string {
+  const failing = summary.results.filter(r => !r.valid)
+  const status = summary.invalid > 0 ? 'failed' : 'passed'
+
+  const rows = failing.map(result => `        <tr class="${levelOf(result)}">
+          <td>${result.line}</td>
+          <td><code>${escapeXml(result.error!.code)}</code></td>
+          <td>${escapeXml(result.trace_id ?? '')}</td>
+          <td><code>${escapeXml(result.hash)}</code></td>
+          <td>${escapeXml(result.error!.message)}${result.error!.details
+            ? `<pre>${escapeXml(JSON.stringify(result.error!.details, null, 2))}</pre>`
+            : ''}</td>
+        </tr>`)
+
+  const forks = Array.from(summary.forks?.entries() ?? []).map(([traceId, hashes]) => `        <tr>
+          <td>${escapeXml(traceId)}</td>
+          <td>${hashes.map(hash => `<code>${escapeXml(hash)}</code>`).join('<br>')}</td>
+        </tr>`)
+
+  const cards = Object.entries(totals(summary))
+    .map(([label, value]) => `      <div class="card"><span>${value}</span>${label}</div>`)
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Ledger verification: ${escapeXml(basename(options.ledgerPath))}</title>
+  <style>
+    body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+    h1 { font-size: 1.5rem; }
+    .status { padding: .2rem .6rem; border-radius: 4px; color: #fff; text-transform: uppercase; }
+    .status.passed { background: #1a7f37; }
+    .status.failed { background: #cf222e; }
+    .cards { display: flex; gap: 1rem; margin: 1rem 0; }
+    .card { border: 1px solid #d0d7de; border-radius: 6px; padding: .75rem 1rem; min-width: 6rem; }
+    .card span { display: block; font-size: 1.5rem; font-weight: 600; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+    th, td { border: 1px solid #d0d7de; padding: .4rem .6rem; text-align: left; vertical-align: top; }
+    th { background: #f6f8fa; }
+    tr.error td:first-child { border-left: 4px solid #cf222e; }
+    tr.warning td:first-child { border-left: 4px solid #bf8700; }
+    code, pre { font: 12px ui-monospace, monospace; word-break: break-all; }
+    pre { margin: .4rem 0 0; white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  <h1>Ledger verification <span class="status ${status}">${status}</span></h1>
+  <p>Ledger <code>${escapeXml(options.ledgerPath)}</code>, verified ${escapeXml(generatedAt(options).toISOString())}${options.toolVersion ? ` with logline-cli ${escapeXml(options.toolVersion)}` : ''}${summary.resumed ? `, resuming after line ${summary.resumed.lines}` : ''}.</p>
+  <div class="cards">
+${cards.join('\n')}
+  </div>
+${forks.length > 0 ? `  <h2>Forks</h2>
+  <table>
+    <thead><tr><th>trace_id</th><th>Branch hashes</th></tr></thead>
+    <tbody>
+${forks.join('\n')}
+    </tbody>
+  </table>
+` : ''}  <h2>Lines that did not verify</h2>
+${rows.length > 0 ? `  <table>
+    <thead><tr><th>Line</th><th>Code</th><th>trace_id</th><th>Hash</th><th>Message</th></tr></thead>
+    <tbody>
+${rows.join('\n')}
+    </tbody>
+  </table>` : '  <p>None: every line verified.</p>'}
+</body>
+</html>
+`
+}
+
+function levelOf(result: VerificationResult): 'error' | 'warning' {
+  return VERIFICATION_RULES[result.error?.code ?? '']?.level ?? 'error'
+}
+
+function totals(summary: VerifySummary): Record<string, number> {
+  return {
+    total: summary.total,
+    valid: summary.valid,
+    invalid: summary.invalid,
+    unsigned: summary.unsigned,
+    rejected: summary.rejected ?? 0,
+    forks: summary.forks?.size ?? 0
+  }
+}
+
+function describe(result: VerificationResult): string {
+  return [
+    `line: ${result.line}`,
+    ...(result.trace_id ? [`trace_id: ${result.trace_id}`] : []),
+    `hash: ${result.hash}`,
+    ...(result.error?.details ? [`details: ${JSON.stringify(result.error.details)}`] : [])
+  ].join('\n')
+}
+
+function generatedAt(options: ReportOptions): Date {
+  return options.generatedAt ?? new Date()
+}
+
+function attributes(values: Record<string, string | number>): string {
+  return Object.entries(values).map(([name, value]) => `${name}="${escapeXml(String(value))}"`).join(' ')
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    // Not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+}
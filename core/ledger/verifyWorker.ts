@@ -0,0 +1,256 @@
+/**
+ * Per-line verification checks
+ *
+ * The checks that need no state from earlier lines run here: size, JSON
+ * parsing, the trace_id filter, the hash, the signatures and the keyring
+ * trust policy. Each outcome also names the key the signature verified with,
+ * for the key rotation checks, and the blob references. Being stateless, the
+ * checks can run on worker threads for large ledgers; the verifier applies
+ * the chain and fork checks to the outcomes, in ledger order, on the main
+ * thread.
+ *
+ * Loaded as a worker (see `VERIFY_WORKER_URL`), this module verifies batches
+ * of whole lines: it receives the UTF-8 bytes of a batch as an ArrayBuffer
+ * and replies with one `LineCheck` per line.
+ */
+
+import { isMainThread, parentPort, workerData } from 'worker_threads'
+import { hashAtomic } from '../crypto.js'
+import { disclosureReport, type DisclosureReport } from '../disclosure.js'
+import { checkMultiSig, type MultiSigCheck } from '../multisig.js'
+import { isPostQuantumAlg, signatureAlgorithm } from '../signatureAlgorithms.js'
+import type { Atomic, BlobRef, Signature } from '../../types.js'
+import { blobRefs } from './blobStore.js'
+import { Keyring, type KeyringEntry, type KeyTrustFailure } from './keyring.js'
+
+export interface LineCheckContext {
+  publicKey: Uint8Array | null
+  traceId?: string
+  maxLineSize: number
+  /** Trust signatures by the keyring policy instead of a single key */
+  keyring?: Keyring
+  /** New keys of key rotations: trusted in place of the pinned key */
+  rotatedKeys?: Set<string>
+}
+
+/** Outcome of the signature check of an atomic whose hash matched */
+export type SignatureCheck =
+  | { status: 'none' }
+  | { status: 'valid' }
+  | { status: 'bad_alg'; alg: unknown }
+  | { status: 'invalid' }
+  | { status: 'error'; error: string }
+  | { status: 'no_key' }
+  /** Valid, but the keyring does not trust it */
+  | ({ status: 'untrusted' } & KeyTrustFailure)
+  /** Reading the signature threw before it could be checked */
+  | { status: 'exception'; message: string; error: string }
+
+export type LineCheck =
+  | { status: 'too_large'; size: number }
+  | { status: 'parse_error'; message: string; error: string }
+  | { status: 'skipped' }
+  | { status: 'missing_hash'; trace_id?: string }
+  | { status: 'hash_mismatch'; hash: string; trace_id?: string; computed: string; commitmentError?: string }
+  | {
+    status: 'checked'
+    hash: string
+    trace_id?: string
+    prev?: string
+    /** Fields that identify a segment genesis */
+    did?: { actor: unknown; action: unknown }
+    /** Key the signature verified with (the pinned key, when one applies) */
+    signer?: string
+    signature: SignatureCheck
+    /** Outcome of the post-quantum signature, for hybrid-signed atomics */
+    pqSignature?: SignatureCheck
+    /** Threshold outcome, for atomics declaring a multisig policy */
+    multisig?: MultiSigCheck
+    disclosure?: DisclosureReport
+    /** Redacted pointers, in the atomic's own order */
+    redacted?: string[]
+    /** Blob references, by JSON pointer */
+    blobs?: Array<[string, BlobRef]>
+  }
+
+/**
+ * Run the stateless checks on one ledger line
+ */
+export function checkLine(line: string, context: LineCheckContext): LineCheck {
+  if (line.length > context.maxLineSize) {
+    return { status: 'too_large', size: line.length }
+  }
+
+  try {
+    const atomic: Atomic = JSON.parse(line)
+
+    if (context.traceId && atomic.trace_id !== context.traceId) {
+      return { status: 'skipped' }
+    }
+
+    if (!atomic.hash) {
+      return { status: 'missing_hash', trace_id: atomic.trace_id }
+    }
+
+    // Compute the hash (over the field commitments, if any)
+    let computedHash: string
+    let commitmentError: string | undefined
+    try {
+      computedHash = hashAtomic(atomic)
+    } catch (err) {
+      // Malformed commitments fail the hash check; anything else, the line
+      if (!atomic.disclosure) throw err
+      computedHash = 'error'
+      commitmentError = err instanceof Error ? err.message : String(err)
+    }
+
+    if (computedHash !== atomic.hash) {
+      return {
+        status: 'hash_mismatch',
+        hash: atomic.hash,
+        trace_id: atomic.trace_id,
+        computed: computedHash,
+        ...(commitmentError !== undefined ? { commitmentError } : {})
+      }
+    }
+
+    const signature = checkSignature(atomic.signature, atomic, context, context.publicKey)
+    return {
+      status: 'checked',
+      hash: atomic.hash,
+      trace_id: atomic.trace_id,
+      prev: atomic.prev,
+      did: { actor: atomic.did?.actor, action: atomic.did?.action },
+      ...(signature.status === 'valid' || signature.status === 'untrusted'
+        ? { signer: Buffer.from(verificationKey(atomic.signature!, context, context.publicKey)!).toString('hex') }
+        : {}),
+      signature,
+      ...(atomic.pq_signature ? { pqSignature: checkPqSignature(atomic, context) } : {}),
+      ...(atomic.multisig ? { multisig: checkMultiSig(atomic) } : {}),
+      ...(atomic.disclosure ? { disclosure: disclosureReport(atomic.disclosure) } : {}),
+      ...(atomic.disclosure?.redacted ? { redacted: Object.keys(atomic.disclosure.redacted) } : {}),
+      ...withBlobs(atomic)
+    }
+  } catch (error) {
+    return parseError(error)
+  }
+}
+
+/**
+ * The pinned key is the classical signer's: the post-quantum signature is
+ * checked with its embedded key, or trusted by the keyring
+ */
+function checkPqSignature(atomic: Atomic, context: LineCheckContext): SignatureCheck {
+  if (!isPostQuantumAlg(atomic.pq_signature!.alg)) {
+    return { status: 'bad_alg', alg: atomic.pq_signature!.alg }
+  }
+  return checkSignature(atomic.pq_signature, atomic, context, null)
+}
+
+function withBlobs(atomic: Atomic): { blobs?: Array<[string, BlobRef]> } {
+  const blobs = blobRefs(atomic)
+  return blobs.length > 0 ? { blobs } : {}
+}
+
+function checkSignature(
+  signature: Signature | undefined,
+  atomic: Atomic,
+  context: LineCheckContext,
+  pinnedKey: Uint8Array | null
+): SignatureCheck {
+  if (!signature) {
+    return { status: 'none' }
+  }
+  const algorithm = signatureAlgorithm(signature.alg)
+  if (!algorithm) {
+    return { status: 'bad_alg', alg: signature.alg }
+  }
+
+  let keyToUse: Uint8Array | null
+  try {
+    keyToUse = verificationKey(signature, context, pinnedKey)
+  } catch (error) {
+    return { ...parseError(error), status: 'exception' }
+  }
+  if (!keyToUse) {
+    return { status: 'no_key' }
+  }
+
+  try {
+    const signatureBytes = Uint8Array.from(Buffer.from(signature.sig, 'hex'))
+    const isValidSig = algorithm.verify(
+      signatureBytes,
+      new TextEncoder().encode(atomic.hash),
+      keyToUse
+    )
+    if (!isValidSig) {
+      return { status: 'invalid' }
+    }
+  } catch (err) {
+    return { status: 'error', error: String(err) }
+  }
+
+  const untrusted = context.keyring?.check(signature, atomic.did?.actor)
+  return untrusted ? { status: 'untrusted', ...untrusted } : { status: 'valid' }
+}
+
+/**
+ * The key a signature is verified with. The keyring decides whether the
+ * embedded key is trusted, and a key rotation extends the pinned key's trust
+ * to the new key; otherwise the pinned key applies, whatever key the
+ * signature names.
+ */
+function verificationKey(signature: Signature, context: LineCheckContext, pinnedKey: Uint8Array | null): Uint8Array | null {
+  const rotated = typeof signature.public_key === 'string' &&
+    context.rotatedKeys?.has(signature.public_key.toLowerCase())
+  const publicKey = context.keyring || rotated ? null : pinnedKey
+  return publicKey || (signature.public_key
+    ? Uint8Array.from(Buffer.from(signature.public_key, 'hex'))
+    : null)
+}
+
+function parseError(error: unknown): { status: 'parse_error'; message: string; error: string } {
+  return {
+    status: 'parse_error',
+    message: error instanceof Error ? error.message : 'Unknown parse error',
+    error: String(error)
+  }
+}
+
+/**
+ * Split a batch of whole lines the way readline does
+ */
+export function splitLines(text: string): string[] {
+  const lines = text.split(/\r\n|\r|\n/)
+  if (lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+  return lines
+}
+
+export interface VerifyWorkerData {
+  verifyWorker: true
+  publicKeyHex: string | null
+  traceId?: string
+  maxLineSize: number
+  keyring?: KeyringEntry[]
+  rotatedKeys?: string[]
+}
+
+if (!isMainThread && parentPort && (workerData as VerifyWorkerData | undefined)?.verifyWorker) {
+  const data = workerData as VerifyWorkerData
+  const context: LineCheckContext = {
+    publicKey: data.publicKeyHex ? Uint8Array.from(Buffer.from(data.publicKeyHex, 'hex')) : null,
+    traceId: data.traceId,
+    maxLineSize: data.maxLineSize,
+    keyring: data.keyring ? new Keyring(data.keyring) : undefined,
+    rotatedKeys: data.rotatedKeys ? new Set(data.rotatedKeys) : undefined
+  }
+  // Keep a byte order mark, as readline does
+  const decoder = new TextDecoder('utf-8', { ignoreBOM: true })
+  const port = parentPort
+
+  port.on('message', (batch: ArrayBuffer) => {
+    port.postMessage(splitLines(decoder.decode(batch)).map(line => checkLine(line, context)))
+  })
+}
@@ -0,0 +1,7 @@
+/**
+ * Location of the verification worker entry. Kept out of verifyLedger.ts,
+ * which loads it only when verifying on worker threads, so that the verifier
+ * itself does not depend on `import.meta` and still loads as CommonJS.
+ */
+
+export const VERIFY_WORKER_URL = new URL('./verifyWorker.js', import.meta.url)
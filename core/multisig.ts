@@ -0,0 +1,119 @@
+/**
+ * M-of-N multi-signature atomics
+ *
+ * An atomic declares the signatures it needs in `multisig` ("2 of these 3
+ * keys") before it is hashed, so the policy is covered by the hash. The
+ * signatures themselves sign the hash: the producer's `signature` and the
+ * `cosignatures` added by the other parties, which (like `signature`) are
+ * outside the hash. Co-signing an atomic therefore leaves its hash, and
+ * every earlier signature, valid.
+ *
+ * The atomic verifies once `threshold` distinct keys of the policy have a
+ * valid signature, as counted by the `CrossSignManager` of those keys.
+ */
+
+import { hashAtomic, signHash } from './crypto.js'
+import { isPublicKeyHex } from './signatureAlgorithms.js'
+import { CrossSignManager, type ThresholdResult } from './security/crossSign.js'
+import type { Atomic, MultiSigPolicy, Signature, SignatureAlg } from '../types.js'
+
+export class MultiSigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MultiSigError'
+  }
+}
+
+export type MultiSigCheck =
+  | ({ status: 'met' } & ThresholdResult)
+  | ({ status: 'not_met' } & ThresholdResult)
+  | { status: 'invalid_policy'; message: string }
+
+/**
+ * Why a policy cannot be met, or null if it is well-formed
+ */
+export function validateMultiSigPolicy(policy: MultiSigPolicy): string | null {
+  if (!Array.isArray(policy?.public_keys) || policy.public_keys.length === 0) {
+    return 'Multisig policy lists no keys'
+  }
+  const invalid = policy.public_keys.find(key => !isPublicKeyHex(key))
+  if (invalid !== undefined) {
+    return `Invalid public key in multisig policy: ${invalid}`
+  }
+  const keys = new Set(policy.public_keys.map(key => key.toLowerCase()))
+  if (keys.size !== policy.public_keys.length) {
+    return 'Multisig policy lists a key twice'
+  }
+  if (!Number.isInteger(policy.threshold) || policy.threshold < 1 || policy.threshold > keys.size) {
+    return `Multisig threshold must be between 1 and ${keys.size}, got ${policy.threshold}`
+  }
+  return null
+}
+
+/**
+ * Declare the signatures an atomic needs, in place. Must happen before the
+ * atomic is hashed.
+ */
+export function requireSignatures(atomic: Atomic, policy: MultiSigPolicy): Atomic {
+  if (atomic.hash) {
+    throw new MultiSigError('The multisig policy must be set before the atomic is hashed')
+  }
+  const invalid = validateMultiSigPolicy(policy)
+  if (invalid) {
+    throw new MultiSigError(invalid)
+  }
+  atomic.multisig = {
+    threshold: policy.threshold,
+    public_keys: policy.public_keys.map(key => key.toLowerCase())
+  }
+  return atomic
+}
+
+/**
+ * Add a co-signature to a hashed multisig atomic. Returns a copy; the hash
+ * is unchanged.
+ */
+export function cosignAtomic(atomic: Atomic, privateKeyHex: string, alg?: SignatureAlg): Atomic {
+  if (!atomic.hash) {
+    throw new MultiSigError('Only hashed atomics can be co-signed')
+  }
+  if (!atomic.multisig) {
+    throw new MultiSigError('Atomic declares no multisig policy')
+  }
+  if (hashAtomic(atomic) !== atomic.hash) {
+    throw new MultiSigError('Atomic does not match its hash')
+  }
+
+  const cosignature = signHash(atomic.hash, privateKeyHex, alg)
+  const publicKey = cosignature.public_key
+  if (!atomic.multisig.public_keys.some(key => key.toLowerCase() === publicKey)) {
+    throw new MultiSigError(`Key ${publicKey} is not in the atomic's multisig policy`)
+  }
+  if (signaturesOf(atomic).some(signature => signature.public_key?.toLowerCase() === publicKey)) {
+    throw new MultiSigError(`Atomic is already signed by ${publicKey}`)
+  }
+
+  return { ...atomic, cosignatures: [...(atomic.cosignatures ?? []), cosignature] }
+}
+
+/**
+ * Count the valid signatures of an atomic's multisig policy keys
+ */
+export function checkMultiSig(atomic: Atomic): MultiSigCheck {
+  const policy = atomic.multisig!
+  const invalid = validateMultiSigPolicy(policy)
+  if (invalid) {
+    return { status: 'invalid_policy', message: invalid }
+  }
+
+  const result = CrossSignManager.fromKeys(policy.public_keys)
+    .verifyThreshold(atomic.hash ?? '', signaturesOf(atomic), policy.threshold)
+  return { status: result.met ? 'met' : 'not_met', ...result }
+}
+
+function signaturesOf(atomic: Atomic): Signature[] {
+  return [
+    ...(atomic.signature ? [atomic.signature] : []),
+    ...(Array.isArray(atomic.cosignatures) ? atomic.cosignatures : [])
+  ]
+}
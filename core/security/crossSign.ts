@@ -2,12 +2,33 @@
  * 6. Cross-signing entre múltiplos nodes (ledger federado)
  */
 import { ed25519 } from "@noble/curves/ed25519"
+import { signatureAlgorithm } from "../signatureAlgorithms.js"
+
+/**
+ * Outcome of checking a set of signatures against an M-of-N threshold
+ */
+export interface ThresholdResult {
+  met: boolean
+  threshold: number
+  /** Registered nodes with a valid signature, each counted once */
+  signers: string[]
+  /** Keys of signatures that did not verify or whose node is not registered */
+  rejected: string[]
+}
 
 export class CrossSignManager {
   private networkKeys: Set<string> = new Set()
 
+  static fromKeys(pubKeysHex: string[]): CrossSignManager {
+    const manager = new CrossSignManager()
+    for (const pk of pubKeysHex) {
+      manager.registerNode(pk)
+    }
+    return manager
+  }
+
   registerNode(pubKeyHex: string) {
-    this.networkKeys.add(pubKeyHex)
+    this.networkKeys.add(pubKeyHex.toLowerCase())
   }
 
   verifyAny(data: string, signatureHex: string): boolean {
@@ -20,4 +41,42 @@ export class CrossSignManager {
     }
     return false
   }
-}
\ No newline at end of file
+
+  /**
+   * Verify a signature made by a given registered node, with the node's algorithm
+   */
+  verifyBy(data: string, signatureHex: string, pubKeyHex: string, alg: string = "Ed25519"): boolean {
+    const pk = pubKeyHex.toLowerCase()
+    const algorithm = signatureAlgorithm(alg)
+    if (!this.networkKeys.has(pk) || !algorithm) {
+      return false
+    }
+    return algorithm.verify(
+      Uint8Array.from(Buffer.from(signatureHex, "hex")),
+      new TextEncoder().encode(data),
+      Uint8Array.from(Buffer.from(pk, "hex"))
+    )
+  }
+
+  /**
+   * Check that at least `threshold` distinct registered nodes signed the data
+   */
+  verifyThreshold(
+    data: string,
+    signatures: Array<{ public_key: string; sig: string; alg?: string }>,
+    threshold: number
+  ): ThresholdResult {
+    const signers: string[] = []
+    const rejected: string[] = []
+    for (const { public_key, sig, alg } of signatures) {
+      const pk = String(public_key ?? "").toLowerCase()
+      if (signers.includes(pk)) continue
+      if (this.verifyBy(data, String(sig ?? ""), pk, alg)) {
+        signers.push(pk)
+      } else {
+        rejected.push(pk)
+      }
+    }
+    return { met: signers.length >= threshold, threshold, signers, rejected }
+  }
+}
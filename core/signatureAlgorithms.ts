@@ -0,0 +1,143 @@
+/**
+ * Signature algorithm registry
+ *
+ * Signatures name their algorithm in `signature.alg`; signing and
+ * verification look it up here. Built in:
+ * - `Ed25519` (default)
+ * - `ES256`: ECDSA over P-256 with SHA-256, as WebCrypto signs
+ * - `ES256K`: ECDSA over secp256k1 with SHA-256, as wallet keys sign
+ * - `ML-DSA-65` (FIPS 204), `SLH-DSA-SHA2-128s` and `SLH-DSA-SHA2-128f`
+ *   (FIPS 205): post-quantum, for the `pq_signature` of hybrid-signed atomics
+ *
+ * All algorithms sign the UTF-8 bytes of the hex hash. Keys and signatures
+ * are hex: ECDSA public keys are SEC1 points (compressed when generated
+ * here, uncompressed as WebCrypto exports them), ECDSA signatures are r || s
+ * (64 bytes, as WebCrypto produces them; DER is accepted too). ML-DSA
+ * private keys are the 32-byte key generation seed, SLH-DSA private keys the
+ * FIPS 205 secret key (which ends with the public key).
+ *
+ * Algorithms registered at runtime are not known to verification worker
+ * threads, which only have the built-in ones.
+ */
+
+import { ed25519 } from '@noble/curves/ed25519'
+import { p256 } from '@noble/curves/p256'
+import { secp256k1 } from '@noble/curves/secp256k1'
+import { sha256 } from '@noble/hashes/sha256'
+import { randomBytes } from '@noble/hashes/utils'
+import { ml_dsa65 } from '@noble/post-quantum/ml-dsa'
+import { slh_dsa_sha2_128f, slh_dsa_sha2_128s } from '@noble/post-quantum/slh-dsa'
+import type { SignatureAlg } from '../types.js'
+
+export interface SignatureAlgorithm {
+  generatePrivateKey(): Uint8Array
+  getPublicKey(privateKey: Uint8Array): Uint8Array
+  sign(message: Uint8Array, privateKey: Uint8Array): Uint8Array
+  /** False (not an exception) for malformed keys and signatures */
+  verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array): boolean
+  /** Resists quantum attacks: may sign `pq_signature` */
+  postQuantum?: boolean
+}
+
+export const DEFAULT_SIGNATURE_ALG: SignatureAlg = 'Ed25519'
+export const DEFAULT_PQ_SIGNATURE_ALG: SignatureAlg = 'ML-DSA-65'
+
+const algorithms = new Map<string, SignatureAlgorithm>()
+
+export function registerSignatureAlgorithm(alg: string, algorithm: SignatureAlgorithm): void {
+  algorithms.set(alg, algorithm)
+}
+
+/**
+ * The registered algorithm, or undefined if `alg` is unknown
+ */
+export function signatureAlgorithm(alg: unknown): SignatureAlgorithm | undefined {
+  return typeof alg === 'string' ? algorithms.get(alg) : undefined
+}
+
+export function signatureAlgorithms(): string[] {
+  return Array.from(algorithms.keys())
+}
+
+export function isPostQuantumAlg(alg: unknown): boolean {
+  return signatureAlgorithm(alg)?.postQuantum === true
+}
+
+/**
+ * Whether a hex string has the shape of a public key of a built-in algorithm
+ */
+export function isPublicKeyHex(hex: unknown): boolean {
+  return typeof hex === 'string' &&
+    /^(?:[0-9a-fA-F]{64}|0[23][0-9a-fA-F]{64}|04[0-9a-fA-F]{128}|[0-9a-fA-F]{3904})$/.test(hex)
+}
+
+registerSignatureAlgorithm('Ed25519', {
+  generatePrivateKey: () => ed25519.utils.randomPrivateKey(),
+  getPublicKey: privateKey => ed25519.getPublicKey(privateKey),
+  sign: (message, privateKey) => ed25519.sign(message, privateKey),
+  verify: (signature, message, publicKey) => {
+    try {
+      return ed25519.verify(signature, message, publicKey)
+    } catch {
+      return false
+    }
+  }
+})
+
+registerSignatureAlgorithm('ES256', ecdsa(p256, { lowS: false }))
+registerSignatureAlgorithm('ES256K', ecdsa(secp256k1, { lowS: true }))
+
+registerSignatureAlgorithm('ML-DSA-65', {
+  generatePrivateKey: () => randomBytes(32),
+  getPublicKey: seed => ml_dsa65.keygen(seed).publicKey,
+  sign: (message, seed) => ml_dsa65.sign(ml_dsa65.keygen(seed).secretKey, message),
+  verify: (signature, message, publicKey) => {
+    try {
+      return ml_dsa65.verify(publicKey, message, signature)
+    } catch {
+      return false
+    }
+  },
+  postQuantum: true
+})
+
+registerSignatureAlgorithm('SLH-DSA-SHA2-128s', slhDsa(slh_dsa_sha2_128s))
+registerSignatureAlgorithm('SLH-DSA-SHA2-128f', slhDsa(slh_dsa_sha2_128f))
+
+/**
+ * ECDSA with SHA-256. WebCrypto does not normalize s, so P-256 accepts both halves.
+ */
+function ecdsa(curve: typeof p256, options: { lowS: boolean }): SignatureAlgorithm {
+  return {
+    generatePrivateKey: () => curve.utils.randomPrivateKey(),
+    getPublicKey: privateKey => curve.getPublicKey(privateKey, true),
+    sign: (message, privateKey) => curve.sign(sha256(message), privateKey).toCompactRawBytes(),
+    verify: (signature, message, publicKey) => {
+      try {
+        return curve.verify(signature, sha256(message), publicKey, options)
+      } catch {
+        return false
+      }
+    }
+  }
+}
+
+/**
+ * SLH-DSA with 128-bit security: the small (`s`) variant signs slowly, the
+ * fast (`f`) one makes signatures twice as large
+ */
+function slhDsa(signer: typeof slh_dsa_sha2_128s): SignatureAlgorithm {
+  return {
+    generatePrivateKey: () => signer.keygen(randomBytes(48)).secretKey,
+    getPublicKey: secretKey => secretKey.slice(32),
+    sign: (message, secretKey) => signer.sign(secretKey, message),
+    verify: (signature, message, publicKey) => {
+      try {
+        return signer.verify(publicKey, message, signature)
+      } catch {
+        return false
+      }
+    },
+    postQuantum: true
+  }
+}
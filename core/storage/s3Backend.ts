@@ -4,7 +4,8 @@
  * Requer Deno.env: S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY, S3_SECRET_KEY
  * Usa https://deno.land/x/s3/mod.ts (AWS S3 compatível)
  */
-import { S3Client, PutObjectCommand, GetObjectCommand } from "npm:@aws-sdk/client-s3"
+import { S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand } from "npm:@aws-sdk/client-s3"
+import { blobHash, type BlobStore } from "../ledger/blobStore.ts"
 
 export class S3StorageBackend {
   private s3: S3Client
@@ -40,4 +41,37 @@ export class S3StorageBackend {
     // Response Body é um stream
     return new Uint8Array(await resp.Body.transformToByteArray())
   }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      await this.s3.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }))
+      return true
+    } catch (err) {
+      if ((err as { name?: string }).name === "NotFound") return false
+      throw err
+    }
+  }
+}
+
+/**
+ * Blob store de conteúdo endereçado (BLAKE3) no bucket: blobs/<hash>
+ */
+export class S3BlobStore implements BlobStore {
+  constructor(private backend: S3StorageBackend = new S3StorageBackend(), private prefix = "blobs/") {}
+
+  async put(bytes: Uint8Array): Promise<string> {
+    const hash = blobHash(bytes)
+    if (!(await this.has(hash))) {
+      await this.backend.put(this.prefix + hash, bytes)
+    }
+    return hash
+  }
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    return (await this.has(hash)) ? this.backend.get(this.prefix + hash) : null
+  }
+
+  has(hash: string): Promise<boolean> {
+    return this.backend.has(this.prefix + hash)
+  }
 }
\ No newline at end of file
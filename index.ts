@@ -1,15 +1,41 @@
 export { Ledger } from './core/ledger/ledger.js'
-export { LedgerVerifier } from './core/ledger/verifyLedger.js'
-export { canonicalize } from './core/canonical.js'
-export { signAtomic, verifySignature, generateKeyPair } from './core/crypto.js'
+export { TenantLedgerRouter } from './core/ledger/ledgerRotation.js'
+export { ledgerRotation } from './core/config/index.js'
+export { ledgerEvents } from './core/ledger/ledgerEvents.js'
+export { LedgerVerifier, type SignaturePolicy } from './core/ledger/verifyLedger.js'
+export { PrefixModifiedError, VerificationCheckpointError } from './core/ledger/verificationCheckpoint.js'
+export { Keyring, KeyringError, type KeyringEntry } from './core/ledger/keyring.js'
+export { createKeyRotation, readKeyRotation, KeyRotationError, type KeyRotation } from './core/ledger/keyRotation.js'
+export { migrateLedger, upgradeAtomic, MigrationError, type MigrationReport } from './core/ledger/ledgerMigration.js'
+export { analyzeForks, createForkResolution, ForkResolutionError, type ForkAnalysis } from './core/ledger/forkAnalysis.js'
+export { renderReport, renderJUnit, renderSarif, renderHtml } from './core/ledger/verifyReport.js'
+export { MerkleLog, verifyCheckpoint } from './core/ledger/merkleLog.js'
+export { verifyInclusion, verifyConsistency } from './core/ledger/merkle.js'
+export { parseFilter, compileFilter, FilterSyntaxError } from './core/ledger/filterExpression.js'
+export { LedgerAggregator } from './core/ledger/ledgerAggregation.js'
+export { FileTenantKeyStore, type TenantKeyStore } from './core/ledger/tenantKeys.js'
+export { Keystore, KeystoreError, resolvePrivateKey, type KeystoreEntry } from './core/ledger/keystore.js'
+export { decryptAtomic, isEncrypted, TenantKeyDestroyedError } from './core/ledger/payloadEncryption.js'
+export { FileBlobStore, BlobError, externalizeBlobs, resolveBlobs, type BlobStore } from './core/ledger/blobStore.js'
+export { createAnchor, verifyAnchor, readAnchors, AnchorError } from './core/ledger/anchor.js'
+export { HttpTimestampAuthority, TestTimestampAuthority, verifyTimestampToken, TimestampError, type TimestampAuthority } from './core/ledger/timestamp.js'
+export { canonicalize, canonicalizeJcs, canonicalizerFor, CANONICALIZATION_JCS, CANONICALIZATION_LEGACY } from './core/canonical.js'
+export { signAtomic, addPqSignature, verifySignature, generateKeyPair } from './core/crypto.js'
+export { registerSignatureAlgorithm, signatureAlgorithms, type SignatureAlgorithm } from './core/signatureAlgorithms.js'
+export { redactAtomic, disclosureReport } from './core/disclosure.js'
+export { requireSignatures, cosignAtomic, checkMultiSig, MultiSigError } from './core/multisig.js'
 export { ContractValidator, CORE_CONTRACTS } from './core/contracts/validator.js'
 export { CodeExecutor, AtomicExecutor } from './core/execution/executor.js'
 
 // Re-export types
 export type {
   Atomic,
+  BlobRef,
+  CanonicalizationId,
   Contract,
   ExecutionResult,
+  MultiSigPolicy,
+  SignatureAlg,
   VerificationResult
 } from './types.js'
 
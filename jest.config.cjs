@@ -0,0 +1,22 @@
+/**
+ * The sources are ES modules with `.js` import suffixes; ts-jest compiles the
+ * suites to CommonJS so `jest` and `__dirname` are available, and the
+ * suffixes are mapped back to the `.ts` sources. Deno `npm:` specifiers
+ * (minicore/core) resolve to the installed packages.
+ */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/__tests__'],
+  // Shared fixtures (e.g. __tests__/ledger/helpers.ts) are not suites
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      isolatedModules: true,
+      tsconfig: { module: 'commonjs', target: 'ES2022', esModuleInterop: true }
+    }]
+  },
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+    '^npm:(@noble/[a-z-]+)@[^/]+/(.*)$': '$1/$2'
+  }
+}
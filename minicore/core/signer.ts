@@ -1,15 +1,56 @@
 /**
- * Cryptographic signing and verification using BLAKE3 + Ed25519
+ * Cryptographic signing and verification using BLAKE3 + Ed25519 (or ECDSA)
  * Compatible with the main JSON✯Atomic crypto module
  */
 
 import { blake3 } from 'npm:@noble/hashes@1.4.0/blake3'
+import { sha256 } from 'npm:@noble/hashes@1.4.0/sha256'
 import { ed25519 } from 'npm:@noble/curves@1.4.0/ed25519'
+import { p256 } from 'npm:@noble/curves@1.4.0/p256'
+import { secp256k1 } from 'npm:@noble/curves@1.4.0/secp256k1'
 
 const HASH_CONTEXT = 'JsonAtomic/v1'
 
+/** Canonicalization ids, recorded in `canonicalization` (absent: the original one) */
+export const CANONICALIZATION_LEGACY = 'JsonAtomic/c14n/v1'
+export const CANONICALIZATION_JCS = 'JsonAtomic/jcs/v1'
+
+export type SignatureAlg = 'Ed25519' | 'ES256' | 'ES256K'
+
+interface Algorithm {
+  randomPrivateKey(): Uint8Array
+  getPublicKey(privateKey: Uint8Array): Uint8Array
+  sign(message: Uint8Array, privateKey: Uint8Array): Uint8Array
+  verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array): boolean
+}
+
+/**
+ * Same algorithms as the main crypto module: ECDSA signs the SHA-256 of the
+ * message, with compact signatures and compressed keys
+ */
+const ALGORITHMS: Record<SignatureAlg, Algorithm> = {
+  Ed25519: {
+    randomPrivateKey: () => ed25519.utils.randomPrivateKey(),
+    getPublicKey: privateKey => ed25519.getPublicKey(privateKey),
+    sign: (message, privateKey) => ed25519.sign(message, privateKey),
+    verify: (signature, message, publicKey) => ed25519.verify(signature, message, publicKey)
+  },
+  ES256: {
+    randomPrivateKey: () => p256.utils.randomPrivateKey(),
+    getPublicKey: privateKey => p256.getPublicKey(privateKey, true),
+    sign: (message, privateKey) => p256.sign(sha256(message), privateKey).toCompactRawBytes(),
+    verify: (signature, message, publicKey) => p256.verify(signature, sha256(message), publicKey, { lowS: false })
+  },
+  ES256K: {
+    randomPrivateKey: () => secp256k1.utils.randomPrivateKey(),
+    getPublicKey: privateKey => secp256k1.getPublicKey(privateKey, true),
+    sign: (message, privateKey) => secp256k1.sign(sha256(message), privateKey).toCompactRawBytes(),
+    verify: (signature, message, publicKey) => secp256k1.verify(signature, sha256(message), publicKey)
+  }
+}
+
 export interface Signature {
-  alg: 'Ed25519'
+  alg: SignatureAlg
   public_key: string
   sig: string
   signed_at: string
@@ -22,11 +63,12 @@ export interface SignedSpan {
 }
 
 /**
- * Generate Ed25519 keypair
+ * Generate a keypair (Ed25519 by default)
  */
-export function generateKeyPair(): { publicKey: string; privateKey: string } {
-  const privateKey = ed25519.utils.randomPrivateKey()
-  const publicKey = ed25519.getPublicKey(privateKey)
+export function generateKeyPair(alg: SignatureAlg = 'Ed25519'): { publicKey: string; privateKey: string } {
+  const algorithm = algorithmFor(alg)
+  const privateKey = algorithm.randomPrivateKey()
+  const publicKey = algorithm.getPublicKey(privateKey)
   
   return {
     privateKey: bytesToHex(privateKey),
@@ -43,8 +85,8 @@ export function hashSpan(span: Record<string, unknown>): string {
   delete spanForHash.hash
   delete spanForHash.signature
   
-  // Canonicalize (simple JSON.stringify with sorted keys)
-  const canonical = canonicalize(spanForHash)
+  // Canonicalize with the span's canonicalization
+  const canonical = canonicalizerFor(span.canonicalization)(spanForHash)
   
   // Hash with domain separation
   const encoder = new TextEncoder()
@@ -57,17 +99,22 @@ export function hashSpan(span: Record<string, unknown>): string {
  */
 export function signSpan(
   span: Record<string, unknown>,
-  privateKeyHex: string
+  privateKeyHex: string,
+  alg: SignatureAlg = 'Ed25519'
 ): SignedSpan {
+  const algorithm = algorithmFor(alg)
+  if (span.canonicalization === undefined) {
+    span = { ...span, canonicalization: CANONICALIZATION_JCS }
+  }
   const hash = hashSpan(span)
   const privateKey = hexToBytes(privateKeyHex)
-  const publicKey = ed25519.getPublicKey(privateKey)
+  const publicKey = algorithm.getPublicKey(privateKey)
   
   const encoder = new TextEncoder()
-  const signatureBytes = ed25519.sign(encoder.encode(hash), privateKey)
+  const signatureBytes = algorithm.sign(encoder.encode(hash), privateKey)
   
   const signature: Signature = {
-    alg: 'Ed25519',
+    alg,
     public_key: bytesToHex(publicKey),
     sig: bytesToHex(signatureBytes),
     signed_at: new Date().toISOString()
@@ -92,7 +139,8 @@ export function verifySpan(
   }
   
   const sig = signedSpan.signature as Signature
-  if (sig.alg !== 'Ed25519' || !sig.public_key || !sig.sig) {
+  const algorithm = Object.hasOwn(ALGORITHMS, sig.alg) ? ALGORITHMS[sig.alg] : undefined
+  if (!algorithm || !sig.public_key || !sig.sig) {
     return false
   }
   
@@ -104,16 +152,24 @@ export function verifySpan(
   // Verify the signature
   const encoder = new TextEncoder()
   try {
-    return ed25519.verify(signatureBytes, encoder.encode(signedSpan.hash), publicKey)
+    return algorithm.verify(signatureBytes, encoder.encode(signedSpan.hash), publicKey)
   } catch {
     return false
   }
 }
 
+function algorithmFor(alg: SignatureAlg): Algorithm {
+  if (!Object.hasOwn(ALGORITHMS, alg)) {
+    throw new Error(`Unsupported signature algorithm: ${alg}`)
+  }
+  return ALGORITHMS[alg]
+}
+
 /**
- * Canonicalize an object to deterministic JSON string
+ * Canonicalize an object to deterministic JSON string (the original
+ * canonicalization, for spans that name none)
  */
-function canonicalize(obj: unknown): string {
+export function canonicalize(obj: unknown): string {
   if (obj === null) return 'null'
   if (obj === undefined) return 'undefined'
   
@@ -136,6 +192,57 @@ function canonicalize(obj: unknown): string {
   return JSON.stringify(obj)
 }
 
+/**
+ * RFC 8785 (JCS) canonical JSON, as the main crypto module writes it for
+ * `JsonAtomic/jcs/v1`
+ */
+export function canonicalizeJcs(value: unknown): string {
+  const json = serializeJcs(value)
+  if (json === undefined) {
+    throw new Error('Cannot canonicalize type: undefined')
+  }
+  return json
+}
+
+function serializeJcs(value: unknown): string | undefined {
+  if (typeof (value as { toJSON?: unknown } | null)?.toJSON === 'function') {
+    value = (value as { toJSON(): unknown }).toJSON()
+  }
+  if (value === null) return 'null'
+
+  switch (typeof value) {
+    case 'undefined':
+      return undefined
+    case 'boolean':
+      return value ? 'true' : 'false'
+    case 'number':
+      if (!Number.isFinite(value)) throw new Error('Cannot canonicalize non-finite number')
+      return String(value)
+    case 'string':
+      if (/[\uD800-\uDFFF]/u.test(value)) throw new Error('Cannot canonicalize a string with a lone surrogate')
+      return JSON.stringify(value)
+    case 'object': {
+      if (Array.isArray(value)) {
+        return `[${value.map(item => serializeJcs(item) ?? 'null').join(',')}]`
+      }
+      const entries = Object.keys(value)
+        .sort()
+        .map(key => [key, serializeJcs((value as Record<string, unknown>)[key])])
+        .filter(([, member]) => member !== undefined)
+        .map(([key, member]) => `${JSON.stringify(key)}:${member}`)
+      return `{${entries.join(',')}}`
+    }
+  }
+
+  throw new Error(`Cannot canonicalize type: ${typeof value}`)
+}
+
+function canonicalizerFor(id: unknown): (value: unknown) => string {
+  if (id === undefined || id === CANONICALIZATION_LEGACY) return canonicalize
+  if (id === CANONICALIZATION_JCS) return canonicalizeJcs
+  throw new Error(`Unknown canonicalization: ${String(id)}`)
+}
+
 /**
  * Convert bytes to hex string
  */
@@ -36,7 +36,7 @@ export class Minicore {
     
     // Auto-generate keypair if not provided
     if (!config.privateKey || !config.publicKey) {
-      const keys = generateKeyPair()
+      const keys = generateKeyPair(config.alg)
       this.config.privateKey = config.privateKey || keys.privateKey
       this.config.publicKey = config.publicKey || keys.publicKey
     }
@@ -115,7 +115,7 @@ export async function executeSpan(
   // Step 5: Sign if not in dry run mode and keys are available
   if (!config.dry_run && config.privateKey) {
     logs.push('Signing span')
-    const signed = signSpan(result as Record<string, unknown>, config.privateKey)
+    const signed = signSpan(result as Record<string, unknown>, config.privateKey, config.alg)
     return signed as ExecutionResult
   }
   
@@ -222,7 +222,7 @@ function createErrorResult(
   
   // Sign errors if configured
   if (!config.dry_run && config.privateKey) {
-    return signSpan(result as Record<string, unknown>, config.privateKey) as ExecutionResult
+    return signSpan(result as Record<string, unknown>, config.privateKey, config.alg) as ExecutionResult
   }
   
   return {
@@ -38,7 +38,9 @@ export {
   hashSpan,
   signSpan,
   verifySpan,
-  verifyHash
+  verifyHash,
+  canonicalizeJcs,
+  CANONICALIZATION_JCS
 } from './signer.ts'
 
 export {
@@ -109,6 +111,7 @@ export type {
   PolicyConfig,
   PolicyResult,
   Signature,
+  SignatureAlg,
   SignedSpan,
   ExecutionResult,
   MinicoreConfig,
@@ -1,23 +1,65 @@
 /**
  * Cryptographic signing and verification using BLAKE3 + Ed25519
+ * (or ECDSA: ES256 over P-256, ES256K over secp256k1)
  * Compatible with JSON✯Atomic DV25Seal specification
  */
 
 import { blake3 } from '@noble/hashes/blake3'
+import { sha256 } from '@noble/hashes/sha256'
 import { ed25519 } from '@noble/curves/ed25519'
-import type { Signature, SignedSpan, KeyPair } from './types.ts'
+import { p256 } from '@noble/curves/p256'
+import { secp256k1 } from '@noble/curves/secp256k1'
+import type { Signature, SignatureAlg, SignedSpan, KeyPair } from './types.ts'
 
 /** Domain separation context for BLAKE3 hashing */
 const HASH_CONTEXT = 'JsonAtomic/v1'
 
+/** Canonicalization ids, recorded in `canonicalization` (absent: the original one) */
+export const CANONICALIZATION_LEGACY = 'JsonAtomic/c14n/v1'
+export const CANONICALIZATION_JCS = 'JsonAtomic/jcs/v1'
+
+interface Algorithm {
+  randomPrivateKey(): Uint8Array
+  getPublicKey(privateKey: Uint8Array): Uint8Array
+  sign(message: Uint8Array, privateKey: Uint8Array): Uint8Array
+  verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array): boolean
+}
+
+/**
+ * Signature algorithms, as in the JSON✯Atomic core: ECDSA signs the SHA-256
+ * of the message, with compact (r || s) signatures and compressed keys
+ */
+const ALGORITHMS: Record<SignatureAlg, Algorithm> = {
+  Ed25519: {
+    randomPrivateKey: () => ed25519.utils.randomPrivateKey(),
+    getPublicKey: privateKey => ed25519.getPublicKey(privateKey),
+    sign: (message, privateKey) => ed25519.sign(message, privateKey),
+    verify: (signature, message, publicKey) => ed25519.verify(signature, message, publicKey)
+  },
+  ES256: {
+    randomPrivateKey: () => p256.utils.randomPrivateKey(),
+    getPublicKey: privateKey => p256.getPublicKey(privateKey, true),
+    sign: (message, privateKey) => p256.sign(sha256(message), privateKey).toCompactRawBytes(),
+    verify: (signature, message, publicKey) => p256.verify(signature, sha256(message), publicKey, { lowS: false })
+  },
+  ES256K: {
+    randomPrivateKey: () => secp256k1.utils.randomPrivateKey(),
+    getPublicKey: privateKey => secp256k1.getPublicKey(privateKey, true),
+    sign: (message, privateKey) => secp256k1.sign(sha256(message), privateKey).toCompactRawBytes(),
+    verify: (signature, message, publicKey) => secp256k1.verify(signature, sha256(message), publicKey)
+  }
+}
+
 /**
- * Generate a new Ed25519 keypair
+ * Generate a new keypair
  * 
+ * @param alg - Signature algorithm (default Ed25519)
  * @returns Keypair with private and public keys in hex format
  */
-export function generateKeyPair(): KeyPair {
-  const privateKey = ed25519.utils.randomPrivateKey()
-  const publicKey = ed25519.getPublicKey(privateKey)
+export function generateKeyPair(alg: SignatureAlg = 'Ed25519'): KeyPair {
+  const algorithm = algorithmFor(alg)
+  const privateKey = algorithm.randomPrivateKey()
+  const publicKey = algorithm.getPublicKey(privateKey)
   
   return {
     privateKey: bytesToHex(privateKey),
@@ -38,8 +80,8 @@ export function hashSpan(span: Record<string, unknown>): string {
   delete spanForHash.hash
   delete spanForHash.signature
   
-  // Canonicalize to deterministic JSON
-  const canonical = canonicalize(spanForHash)
+  // Canonicalize with the span's canonicalization
+  const canonical = canonicalizerFor(span.canonicalization)(spanForHash)
   
   // Hash with domain separation
   const encoder = new TextEncoder()
@@ -50,25 +92,31 @@ export function hashSpan(span: Record<string, unknown>): string {
 
 /**
  * Sign a span with a private key
- * Creates a BLAKE3 hash and Ed25519 signature
+ * Creates a BLAKE3 hash and a signature with the given algorithm
  * 
  * @param span - Span to sign
- * @param privateKeyHex - Ed25519 private key in hex format
+ * @param privateKeyHex - Private key in hex format
+ * @param alg - Signature algorithm of the key (default Ed25519)
  * @returns Signed span with hash and signature
  */
 export function signSpan(
   span: Record<string, unknown>,
-  privateKeyHex: string
+  privateKeyHex: string,
+  alg: SignatureAlg = 'Ed25519'
 ): SignedSpan {
+  const algorithm = algorithmFor(alg)
+  if (span.canonicalization === undefined) {
+    span = { ...span, canonicalization: CANONICALIZATION_JCS }
+  }
   const hash = hashSpan(span)
   const privateKey = hexToBytes(privateKeyHex)
-  const publicKey = ed25519.getPublicKey(privateKey)
+  const publicKey = algorithm.getPublicKey(privateKey)
   
   const encoder = new TextEncoder()
-  const signatureBytes = ed25519.sign(encoder.encode(hash), privateKey)
+  const signatureBytes = algorithm.sign(encoder.encode(hash), privateKey)
   
   const signature: Signature = {
-    alg: 'Ed25519',
+    alg,
     public_key: bytesToHex(publicKey),
     sig: bytesToHex(signatureBytes),
     signed_at: new Date().toISOString()
@@ -98,7 +146,8 @@ export function verifySpan(
   }
   
   const sig = signedSpan.signature
-  if (sig.alg !== 'Ed25519' || !sig.public_key || !sig.sig) {
+  const algorithm = Object.hasOwn(ALGORITHMS, sig.alg) ? ALGORITHMS[sig.alg] : undefined
+  if (!algorithm || !sig.public_key || !sig.sig) {
     return false
   }
   
@@ -110,7 +159,7 @@ export function verifySpan(
   // Verify the signature against the hash
   const encoder = new TextEncoder()
   try {
-    return ed25519.verify(signatureBytes, encoder.encode(signedSpan.hash), publicKey)
+    return algorithm.verify(signatureBytes, encoder.encode(signedSpan.hash), publicKey)
   } catch {
     return false
   }
@@ -129,12 +178,13 @@ export function verifyHash(signedSpan: SignedSpan): boolean {
 
 /**
  * Canonicalize an object to deterministic JSON string
- * Sorts keys recursively and handles all JSON types
+ * The original canonicalization, used for spans that name none so their
+ * hashes still verify. New spans are hashed with `canonicalizeJcs`.
  * 
  * @param obj - Object to canonicalize
  * @returns Canonical JSON string
  */
-function canonicalize(obj: unknown): string {
+export function canonicalize(obj: unknown): string {
   if (obj === null) return 'null'
   if (obj === undefined) return 'undefined'
   
@@ -157,6 +207,84 @@ function canonicalize(obj: unknown): string {
   return JSON.stringify(obj)
 }
 
+/**
+ * RFC 8785 (JCS) canonical JSON, as the JSON✯Atomic core writes it for
+ * `JsonAtomic/jcs/v1`: keys sorted by UTF-16 code units, strings escaped as
+ * JSON.stringify does and not Unicode normalized, numbers in their shortest
+ * round-trip form. Checked against test-vectors/canonicalization.json.
+ *
+ * @param value - Value to canonicalize
+ * @returns Canonical JSON string
+ * @throws Error for non-finite numbers, lone surrogates and non-JSON types
+ */
+export function canonicalizeJcs(value: unknown): string {
+  const json = serializeJcs(value)
+  if (json === undefined) {
+    throw new Error('Cannot canonicalize type: undefined')
+  }
+  return json
+}
+
+function serializeJcs(value: unknown): string | undefined {
+  if (typeof (value as { toJSON?: unknown } | null)?.toJSON === 'function') {
+    value = (value as { toJSON(): unknown }).toJSON()
+  }
+  if (value === null) return 'null'
+
+  switch (typeof value) {
+    case 'undefined':
+      return undefined
+    case 'boolean':
+      return value ? 'true' : 'false'
+    case 'number':
+      if (!Number.isFinite(value)) throw new Error('Cannot canonicalize non-finite number')
+      return String(value)
+    case 'string':
+      if (/[\uD800-\uDFFF]/u.test(value)) throw new Error('Cannot canonicalize a string with a lone surrogate')
+      return JSON.stringify(value)
+    case 'object': {
+      if (Array.isArray(value)) {
+        return `[${value.map(item => serializeJcs(item) ?? 'null').join(',')}]`
+      }
+      const entries = Object.keys(value)
+        .sort()
+        .map(key => [key, serializeJcs((value as Record<string, unknown>)[key])])
+        .filter(([, member]) => member !== undefined)
+        .map(([key, member]) => `${JSON.stringify(key)}:${member}`)
+      return `{${entries.join(',')}}`
+    }
+  }
+
+  throw new Error(`Cannot canonicalize type: ${typeof value}`)
+}
+
+/**
+ * The canonicalization a span's `canonicalization` field names
+ *
+ * @param id - Canonicalization id (undefined: the original one)
+ * @returns Canonicalization function
+ * @throws Error if the id is unknown
+ */
+function canonicalizerFor(id: unknown): (value: unknown) => string {
+  if (id === undefined || id === CANONICALIZATION_LEGACY) return canonicalize
+  if (id === CANONICALIZATION_JCS) return canonicalizeJcs
+  throw new Error(`Unknown canonicalization: ${String(id)}`)
+}
+
+/**
+ * Look up a signature algorithm
+ * 
+ * @param alg - Algorithm name
+ * @returns The algorithm
+ * @throws Error if the algorithm is not supported
+ */
+function algorithmFor(alg: SignatureAlg): Algorithm {
+  if (!Object.hasOwn(ALGORITHMS, alg)) {
+    throw new Error(`Unsupported signature algorithm: ${alg}`)
+  }
+  return ALGORITHMS[alg]
+}
+
 /**
  * Convert bytes to hex string
  * 
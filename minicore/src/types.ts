@@ -67,12 +67,17 @@ export interface PolicyResult {
   policy_applied: string[]
 }
 
+/**
+ * Supported signature algorithms
+ */
+export type SignatureAlg = 'Ed25519' | 'ES256' | 'ES256K'
+
 /**
  * Cryptographic signature structure
  */
 export interface Signature {
   /** Signature algorithm */
-  alg: 'Ed25519'
+  alg: SignatureAlg
   /** Public key in hex format */
   public_key: string
   /** Signature in hex format */
@@ -87,6 +92,8 @@ export interface Signature {
 export interface SignedSpan extends Span {
   /** BLAKE3 hash of the span */
   hash: string
+  /** Canonical JSON the hash was computed with (absent: the original one) */
+  canonicalization?: 'JsonAtomic/c14n/v1' | 'JsonAtomic/jcs/v1'
   /** Ed25519 signature */
   signature?: Signature
 }
@@ -109,10 +116,12 @@ export interface ExecutionResult extends SignedSpan {
  * Minicore configuration
  */
 export interface MinicoreConfig {
-  /** Ed25519 private key (hex) - auto-generated if not provided */
+  /** Private key (hex) - auto-generated if not provided */
   privateKey?: string
-  /** Ed25519 public key (hex) - auto-generated if not provided */
+  /** Public key (hex) - auto-generated if not provided */
   publicKey?: string
+  /** Signature algorithm of the keys (default Ed25519) */
+  alg?: SignatureAlg
   /** Default execution timeout in milliseconds */
   timeout?: number
   /** Dry run mode - validate but don't execute */
@@ -3,7 +3,7 @@ import Editor from '@monaco-editor/react';
 import type { editor } from 'monaco-editor';
 import { 
   Atomic, 
-  canonicalize, 
+  canonicalizerFor, 
   hashAtomic, 
   signAtomic, 
   verifySignature, 
@@ -89,7 +89,7 @@ function App() {
     if (!atomic) return;
 
     try {
-      const canonical = canonicalize(atomic);
+      const canonical = canonicalizerFor(atomic.canonicalization)(atomic);
       setOutput(canonical);
       setError('');
       setValidationErrors([]);
@@ -28,17 +28,22 @@ export interface Atomic {
   signature?: Signature;
   prev?: string;
   metadata?: Record<string, any>;
+  canonicalization?: 'JsonAtomic/c14n/v1' | 'JsonAtomic/jcs/v1';
   [key: string]: any;
 }
 
 const HASH_CONTEXT = 'JsonAtomic/v1';
 
+/** Canonicalization ids, recorded in `canonicalization` (absent: the original one) */
+export const CANONICALIZATION_LEGACY = 'JsonAtomic/c14n/v1';
+export const CANONICALIZATION_JCS = 'JsonAtomic/jcs/v1';
+
 /**
  * Deterministic JSON serialization (Canonical JSON)
  * 
- * NOTE: This is a custom implementation similar to RFC 8785 JCS.
- * Unicode strings are NOT normalized (no NFC/NFD).
- * For cross-platform determinism, normalize inputs before canonicalization.
+ * NOTE: This is the original custom implementation, similar to RFC 8785 JCS.
+ * It is kept for atomics that name no canonicalization; new atomics are
+ * hashed with canonicalizeJcs.
  */
 export function canonicalize(obj: any): string {
   if (obj === null) return 'null';
@@ -71,13 +76,75 @@ export function canonicalize(obj: any): string {
   throw new Error(`Cannot canonicalize type: ${type}`);
 }
 
+/**
+ * RFC 8785 (JCS) canonical JSON, as the core writes it for `JsonAtomic/jcs/v1`
+ * 
+ * Keys are sorted by UTF-16 code units and numbers written in their shortest
+ * round-trip form. Unicode strings are NOT normalized (RFC 8785 forbids it).
+ * Checked against test-vectors/canonicalization.json.
+ */
+export function canonicalizeJcs(value: any): string {
+  const json = serializeJcs(value);
+  if (json === undefined) {
+    throw new Error('Cannot canonicalize type: undefined');
+  }
+  return json;
+}
+
+function serializeJcs(value: any): string | undefined {
+  if (typeof value?.toJSON === 'function') {
+    value = value.toJSON();
+  }
+  if (value === null) return 'null';
+  
+  const type = typeof value;
+  
+  if (type === 'undefined') return undefined;
+  
+  if (type === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  
+  if (type === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error('Cannot canonicalize non-finite number');
+    }
+    return String(value);
+  }
+  
+  if (type === 'string') {
+    if (/[\uD800-\uDFFF]/u.test(value)) {
+      throw new Error('Cannot canonicalize a string with a lone surrogate');
+    }
+    return JSON.stringify(value);
+  }
+  
+  if (Array.isArray(value)) {
+    const items = value.map(item => serializeJcs(item) ?? 'null');
+    return `[${items.join(',')}]`;
+  }
+  
+  if (type === 'object') {
+    const pairs: string[] = [];
+    for (const key of Object.keys(value).sort()) {
+      const member = serializeJcs(value[key]);
+      if (member !== undefined) {
+        pairs.push(`${JSON.stringify(key)}:${member}`);
+      }
+    }
+    return `{${pairs.join(',')}}`;
+  }
+  
+  throw new Error(`Cannot canonicalize type: ${type}`);
+}
+
 /**
  * Hash an atomic using BLAKE3 with domain separation
  */
 export function hashAtomic(atomic: Atomic): string {
   // Remove hash and signature fields before hashing
   const { hash, signature, ...atomicWithoutHash } = atomic;
-  const canonical = canonicalize(atomicWithoutHash);
+  const canonical = canonicalizerFor(atomic.canonicalization)(atomicWithoutHash);
   const hashBytes = blake3(canonical, { context: HASH_CONTEXT });
   return bytesToHex(hashBytes);
 }
@@ -264,5 +331,15 @@ export function createAtomic(params: {
       created_at: new Date().toISOString()
     },
     trace_id: params.trace_id || generateUUID(),
+    canonicalization: CANONICALIZATION_JCS,
   };
 }
+
+/**
+ * The canonicalization an atomic's `canonicalization` field names
+ */
+export function canonicalizerFor(id: string | undefined): (value: any) => string {
+  if (id === undefined || id === CANONICALIZATION_LEGACY) return canonicalize;
+  if (id === CANONICALIZATION_JCS) return canonicalizeJcs;
+  throw new Error(`Unknown canonicalization: ${id}`);
+}
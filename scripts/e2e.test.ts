@@ -11,20 +11,21 @@ import { exportLedgerNDJSON } from "../tools/exporter/auditTrailExporter.ts"
 
 // 1. Cria atomic span simples
 const atomic = {
+  schema_version: "1.1.0",
   entity_type: "function",
   intent: "run_code",
   this: "add",
+  trace_id: crypto.randomUUID(),
   did: { actor: "executor", action: "run_code" },
   input: { args: [4, 7] },
   metadata: {
-    trace_id: crypto.randomUUID(),
     created_at: new Date().toISOString(),
     owner_id: Deno.env.get("USER") || "e2e"
   }
 }
 // 2. Assina atomic
 const signed = await signAtomic(atomic, Deno.env.get('SIGNING_KEY_HEX'))
-atomic.curr_hash = signed.curr_hash
+atomic.hash = signed.hash
 atomic.signature = signed.signature
 
 // 3. Append ao ledger local
@@ -47,5 +48,5 @@ await exportLedgerNDJSON("./data/ledger.jsonl", "./audit.ndjson")
 console.log("Audit exported to ./audit.ndjson")
 
 // 7. Consulta por trace_id
-const lookup = await ledger.query({ trace_id: atomic.metadata.trace_id })
+const lookup = await ledger.query({ trace_id: atomic.trace_id })
 console.log("Query by trace_id found", lookup.length, "spans.")
\ No newline at end of file
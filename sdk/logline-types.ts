@@ -4,9 +4,11 @@
  */
 
 export type Atomic = {
+  schema_version: "1.1.0"
   entity_type: string
   intent?: string
   this: string
+  trace_id?: string
   prev?: string
   input?: Record<string, any>
   output?: Record<string, any>
@@ -22,14 +24,13 @@ export type Atomic = {
   metadata?: {
     owner_id?: string
     tenant_id?: string
-    trace_id?: string
     parent_id?: string
     tags?: string[]
     created_at?: string
     version?: string
   }
-  curr_hash?: string
-  signature?: string
+  hash?: string
+  signature?: { alg: string; public_key: string; sig: string; signed_at?: string }
 }
 
 export type VerificationResult = {
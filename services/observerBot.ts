@@ -8,12 +8,13 @@ interface ObserverOpts {
   verbose?: boolean
 }
 
-// ObserverBot: monitora pendentes e dispara execução
+// ObserverBot: segue o ledger e dispara execução dos pendentes
 export class ObserverBot {
   private ledger: Ledger
   private executor: AtomicExecutor
   private opts: ObserverOpts
   private running = false
+  private abort?: AbortController
 
   constructor(opts: ObserverOpts = {}) {
     this.opts = {
@@ -28,41 +29,36 @@ export class ObserverBot {
 
   async start() {
     this.running = true
-    console.log(`[ObserverBot] Started, polling every ${this.opts.pollIntervalMs}ms`)
+    this.abort = new AbortController()
+    console.log(`[ObserverBot] Started, following ledger (fallback poll every ${this.opts.pollIntervalMs}ms)`)
 
-    while (this.running) {
-      try {
-        const pendingAtomics = await this.ledger.scan({
-          limit: this.opts.maxPending,
-          status: 'pending'
-        })
+    // Reage a cada atomic pendente, incluindo os já existentes no ledger
+    const pending = this.ledger.follow({
+      from: '0',
+      filter: atomic => atomic.status?.state === 'pending',
+      pollIntervalMs: this.opts.pollIntervalMs,
+      signal: this.abort.signal
+    })
 
-        if (pendingAtomics.items.length === 0 && this.opts.verbose) {
-          console.log('[ObserverBot] No pending atomics.')
+    try {
+      for await (const atomic of pending) {
+        if (this.opts.verbose) {
+          console.log(`[ObserverBot] Executing span: ${atomic.trace_id} (${atomic.entity_type}/${atomic.intent})`)
         }
-
-        for (const item of pendingAtomics.items) {
-          const atomic = item.atomic
-          if (this.opts.verbose) {
-            console.log(`[ObserverBot] Executing span: ${atomic.metadata?.trace_id} (${atomic.entity_type}/${atomic.intent})`)
-          }
-          try {
-            await this.executor.processAtomic(atomic)
-          } catch (err) {
-            console.error(`[ObserverBot] ERROR executing: ${err.message}`)
-          }
+        try {
+          await this.executor.processAtomic(atomic)
+        } catch (err) {
+          console.error(`[ObserverBot] ERROR executing: ${err.message}`)
         }
-      } catch (err) {
-        console.error(`[ObserverBot] Scan error: ${err.message}`)
       }
-
-      // Aguarda próximo ciclo
-      await new Promise(res => setTimeout(res, this.opts.pollIntervalMs))
+    } catch (err) {
+      console.error(`[ObserverBot] Follow error: ${err.message}`)
     }
   }
 
   stop() {
     this.running = false
+    this.abort?.abort()
     console.log('[ObserverBot] Stopped.')
   }
 }
@@ -20,6 +20,8 @@ export class PolicyAgent {
   private executor: AtomicExecutor
   private opts: PolicyAgentOpts
   private running = false
+  private abort?: AbortController
+  private timers: Set<ReturnType<typeof setTimeout>> = new Set()
 
   constructor(opts: PolicyAgentOpts = {}) {
     this.opts = {
@@ -35,50 +37,64 @@ export class PolicyAgent {
 
   async start() {
     this.running = true
-    console.log(`[PolicyAgent] Started, polling every ${this.opts.pollIntervalMs}ms`)
-    while (this.running) {
-      try {
-        // Busca spans com expired TTL, throttle, etc.
-        const atomics = await this.ledger.scan({
-          limit: this.opts.maxActive,
-          status: 'pending'
-        })
-        for (const item of atomics.items) {
-          const atomic = item.atomic
-          if (atomic.policy) {
-            if (atomic.policy.ttl && atomic.when?.started_at) {
-              const now = Date.now()
-              const started = new Date(atomic.when.started_at).getTime()
-              const ttlMs = atomic.policy.ttl * 1000
-              if (now - started > ttlMs) {
-                // TTL expirou: aciona policy if_not / fallback
-                if (atomic.policy.if_not) {
-                  if (this.opts.verbose) {
-                    console.log(`[PolicyAgent] TTL expired for span ${atomic.metadata?.trace_id}`)
-                  }
-                  await this.executor.processAtomic(
-                    {
-                      ...atomic,
-                      policy: undefined,
-                      intent: atomic.policy.if_not,
-                      status: { state: 'pending' }
-                    }
-                  )
-                }
-              }
-            }
-            // Outras políticas podem ser agregadas aqui
+    this.abort = new AbortController()
+    console.log(`[PolicyAgent] Started, following ledger (fallback poll every ${this.opts.pollIntervalMs}ms)`)
+
+    const pending = this.ledger.follow({
+      from: '0',
+      filter: atomic => atomic.status?.state === 'pending' && !!atomic.policy,
+      pollIntervalMs: this.opts.pollIntervalMs,
+      signal: this.abort.signal
+    })
+
+    try {
+      for await (const atomic of pending) {
+        // TTL: agenda a expiração em vez de reavaliar em loop
+        if (atomic.policy.ttl && atomic.when?.started_at) {
+          if (this.timers.size >= this.opts.maxActive!) {
+            console.warn(`[PolicyAgent] Too many active TTL timers, skipping span ${atomic.trace_id}`)
+            continue
           }
+          const started = new Date(atomic.when.started_at).getTime()
+          const delay = Math.max(0, started + atomic.policy.ttl * 1000 - Date.now())
+          const timer = setTimeout(() => {
+            this.timers.delete(timer)
+            this.onTtlExpired(atomic)
+          }, delay)
+          this.timers.add(timer)
         }
-      } catch (err) {
-        console.error(`[PolicyAgent] Error: ${err.message}`)
+        // Outras políticas podem ser agregadas aqui
       }
-      await new Promise(res => setTimeout(res, this.opts.pollIntervalMs))
+    } catch (err) {
+      console.error(`[PolicyAgent] Error: ${err.message}`)
+    }
+  }
+
+  private async onTtlExpired(atomic: any) {
+    // TTL expirou: aciona policy if_not / fallback
+    if (!atomic.policy.if_not) return
+    if (this.opts.verbose) {
+      console.log(`[PolicyAgent] TTL expired for span ${atomic.trace_id}`)
+    }
+    try {
+      await this.executor.processAtomic(
+        {
+          ...atomic,
+          policy: undefined,
+          intent: atomic.policy.if_not,
+          status: { state: 'pending' }
+        }
+      )
+    } catch (err) {
+      console.error(`[PolicyAgent] Error: ${err.message}`)
     }
   }
 
   stop() {
     this.running = false
+    this.abort?.abort()
+    for (const timer of this.timers) clearTimeout(timer)
+    this.timers.clear()
     console.log('[PolicyAgent] Stopped.')
   }
 }
\ No newline at end of file
@@ -2,7 +2,7 @@ import { Ledger } from '../core/ledger/ledger.ts'
 import { AtomicExecutor } from '../core/execution/executor.ts'
 
 /**
- * ScheduledTrigger: dispara spans agendados por when.scheduled_at
+ * ScheduledTrigger: segue o ledger e dispara spans agendados por when.scheduled_at
  */
 
 interface ScheduledTriggerOpts {
@@ -17,6 +17,8 @@ export class ScheduledTrigger {
   private executor: AtomicExecutor
   private opts: ScheduledTriggerOpts
   private running = false
+  private abort?: AbortController
+  private timers: Set<ReturnType<typeof setTimeout>> = new Set()
 
   constructor(opts: ScheduledTriggerOpts = {}) {
     this.opts = {
@@ -31,34 +33,47 @@ export class ScheduledTrigger {
 
   async start() {
     this.running = true
-    console.log(`[ScheduledTrigger] Started, polling every ${this.opts.pollIntervalMs}ms`)
-    while (this.running) {
-      try {
-        const atomics = await this.ledger.scan({
-          limit: this.opts.maxScheduled,
-          status: 'pending'
-        })
-        const now = new Date()
-        for (const item of atomics.items) {
-          const atomic = item.atomic
-          // Dispara se agendado para antes de agora
-          const scheduledAt = atomic.when?.scheduled_at ? new Date(atomic.when.scheduled_at) : null
-          if (scheduledAt && scheduledAt <= now) {
-            if (this.opts.verbose) {
-              console.log(`[ScheduledTrigger] Executing scheduled span: ${atomic.metadata?.trace_id}`)
-            }
+    this.abort = new AbortController()
+    console.log(`[ScheduledTrigger] Started, following ledger (fallback poll every ${this.opts.pollIntervalMs}ms)`)
+
+    const scheduled = this.ledger.follow({
+      from: '0',
+      filter: atomic => atomic.status?.state === 'pending' && !!atomic.when?.scheduled_at,
+      pollIntervalMs: this.opts.pollIntervalMs,
+      signal: this.abort.signal
+    })
+
+    try {
+      for await (const atomic of scheduled) {
+        if (this.timers.size >= this.opts.maxScheduled!) {
+          console.warn(`[ScheduledTrigger] Too many scheduled spans, skipping ${atomic.trace_id}`)
+          continue
+        }
+        // Dispara no horário agendado (imediatamente se já passou)
+        const delay = Math.max(0, new Date(atomic.when.scheduled_at).getTime() - Date.now())
+        const timer = setTimeout(async () => {
+          this.timers.delete(timer)
+          if (this.opts.verbose) {
+            console.log(`[ScheduledTrigger] Executing scheduled span: ${atomic.trace_id}`)
+          }
+          try {
             await this.executor.processAtomic(atomic)
+          } catch (err) {
+            console.error(`[ScheduledTrigger] Error: ${err.message}`)
           }
-        }
-      } catch (err) {
-        console.error(`[ScheduledTrigger] Error: ${err.message}`)
+        }, delay)
+        this.timers.add(timer)
       }
-      await new Promise(res => setTimeout(res, this.opts.pollIntervalMs))
+    } catch (err) {
+      console.error(`[ScheduledTrigger] Error: ${err.message}`)
     }
   }
 
   stop() {
     this.running = false
+    this.abort?.abort()
+    for (const timer of this.timers) clearTimeout(timer)
+    this.timers.clear()
     console.log('[ScheduledTrigger] Stopped.')
   }
 }
\ No newline at end of file
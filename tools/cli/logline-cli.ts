@@ -2,16 +2,48 @@
 
 import { parse } from "https://deno.land/std/flags/mod.ts"
 import { Ledger } from '../../core/ledger/ledger.ts'
-import { LedgerVerifier } from '../../core/ledger/verifyLedger.ts'
-import { canonicalize } from '../../core/canonical.ts'
-import { signAtomic, generateKeyPair, hashAtomic } from '../../core/crypto.ts'
-import type { Atomic } from '../../types.ts'
+import { LedgerVerifier, type SignaturePolicy } from '../../core/ledger/verifyLedger.ts'
+import { PrefixModifiedError, VerificationCheckpointError } from '../../core/ledger/verificationCheckpoint.ts'
+import { Keyring, KeyringError } from '../../core/ledger/keyring.ts'
+import { createKeyRotation, KEY_ROTATION_TRACE_ID, KeyRotationError } from '../../core/ledger/keyRotation.ts'
+import { migrateLedger, MigrationError } from '../../core/ledger/ledgerMigration.ts'
+import { Keystore, KeystoreError, resolvePrivateKey } from '../../core/ledger/keystore.ts'
+import { FileBlobStore, type BlobStore } from '../../core/ledger/blobStore.ts'
+import { S3BlobStore } from '../../core/storage/s3Backend.ts'
+import { createAnchor, readAnchors, verifyAnchor, AnchorError, type AnchorSubject } from '../../core/ledger/anchor.ts'
+import { TEST_TSA, timestampAuthority, TimestampError } from '../../core/ledger/timestamp.ts'
+import { analyzeForks, createForkResolution, ForkResolutionError } from '../../core/ledger/forkAnalysis.ts'
+import { renderReport, REPORT_EXTENSIONS, REPORT_FORMATS, type ReportFormat } from '../../core/ledger/verifyReport.ts'
+import { CANONICALIZATION_JCS, canonicalize } from '../../core/canonical.ts'
+import { addPqSignature, signAtomic, generateKeyPair, hashAtomic } from '../../core/crypto.ts'
+import {
+  DEFAULT_PQ_SIGNATURE_ALG,
+  DEFAULT_SIGNATURE_ALG,
+  isPostQuantumAlg,
+  signatureAlgorithms
+} from '../../core/signatureAlgorithms.ts'
+import { redactAtomic } from '../../core/disclosure.ts'
+import { cosignAtomic, MultiSigError, requireSignatures } from '../../core/multisig.ts'
+import { MerkleLog, verifyCheckpoint, type MerkleCheckpoint } from '../../core/ledger/merkleLog.ts'
+import { verifyConsistency, verifyInclusion } from '../../core/ledger/merkle.ts'
+import { compressSealedSegments } from '../../core/ledger/ledgerRotation.ts'
+import { FilterSyntaxError } from '../../core/ledger/filterExpression.ts'
+import { TIME_BUCKETS, type TimeBucket } from '../../core/ledger/ledgerAggregation.ts'
+import { checkCompression, type SegmentCompression } from '../../core/ledger/segmentCompression.ts'
+import { FileTenantKeyStore } from '../../core/ledger/tenantKeys.ts'
+import { decryptAtomic, TenantKeyDestroyedError } from '../../core/ledger/payloadEncryption.ts'
+import type { Atomic, ChainMode, SignatureAlg } from '../../types.ts'
 
 const VERSION = '1.1.0'
 
 const args = parse(Deno.args, {
-  string: ['ledger', 'key', 'trace-id', 'output', 'input', 'public-key', 'private-key'],
-  boolean: ['help', 'version', 'verbose', 'stop-on-error', 'no-exec', 'dry-run'],
+  string: ['ledger', 'key', 'trace-id', 'output', 'input', 'public-key', 'private-key', 'chain-mode',
+    'hash', 'tree-size', 'old-size', 'new-size', 'checkpoint', 'compression',
+    'tenant-id', 'keys-dir', 'fields', 'where', 'group-by', 'bucket', 'time-field', 'workers',
+    'report', 'report-file', 'keyring', 'canonical', 'actor', 'reason',
+    'threshold', 'signers', 'alg', 'pq-key', 'pq-alg', 'signature-policy', 'keystore', 'label', 'passphrase-file',
+    'blobs', 'tsa-url', 'tsa-cert', 'subject', 'new-key', 'new-alg', 'target', 'map'],
+  boolean: ['help', 'version', 'verbose', 'stop-on-error', 'no-exec', 'dry-run', 'decrypt', 'incremental', 'resign'],
   alias: {
     h: 'help',
     v: 'version',
@@ -72,22 +104,79 @@ USAGE:
 COMMANDS:
   verify              Verify ledger integrity (streaming, no memory limits)
   sign <file>         Sign atomic from JSON file
-  query               Query atomics by trace_id
-  generate-keys       Generate new Ed25519 key pair
-  rotate              Rotate signing keys (placeholder)
-  anchor              Anchor ledger state (placeholder)
+  cosign <file>       Add a co-signature to a multisig atomic (its hash is unchanged)
+  query               Query atomics by trace_id or filter expression
+  generate-keys       Generate a new key pair (Ed25519, or --alg ES256 / ES256K / ML-DSA-65 / SLH-DSA-SHA2-128s)
+  keys <action>       Passphrase-encrypted keystore: create, list, export-public <label>, delete <label>
+  rotate              Hand signing over to a new key: a rotation atomic signed by the old and the new key
+  anchor              Timestamp the ledger root (or last hash) with an RFC 3161 TSA and append an anchor
+  verify-anchor       Verify an anchor's timestamp token against the ledger (default: the latest anchor)
   lint                Lint ledger file for schema compliance
-  migrate             Migrate ledger from v1.0 to v1.1 (placeholder)
-  stats               Show ledger statistics
+  migrate             Rewrite a v1.0 ledger as a new 1.1.0 ledger, with an old-to-new hash mapping
+  stats               Show ledger statistics, or aggregate with --group-by/--bucket
   hash <file>         Compute hash of atomic from JSON file
+  checkpoint          Sign and publish a Merkle checkpoint (or show the latest)
+  prove-inclusion     Produce a Merkle inclusion proof for an atomic hash
+  prove-consistency   Produce a Merkle consistency proof between two tree sizes
+  verify-proof        Verify an inclusion or consistency proof from a JSON file
+  compress            Compress sealed ledger segments (gzip or zstd)
+  shred-tenant        Destroy a tenant's payload encryption keys (crypto-shredding)
+  redact              Drop fields from committed atomics; hashes and signatures still verify
+  forks               Rebuild the branches of forked chains: common ancestor, signers, timestamps
+  resolve-fork        Append a signed fork resolution marking the canonical branch
 
 OPTIONS:
   --ledger, -l <path>       Ledger file path (default: ./data/ledger.jsonl)
   --key, -k <hex>           Public key for verification
-  --private-key <hex>       Private key for signing
+  --private-key <hex>       Private key for signing, or a keystore reference: keystore:<label or id>
+  --alg <name>              Signature algorithm: Ed25519, ES256 (P-256), ES256K (secp256k1),
+                            post-quantum ML-DSA-65, SLH-DSA-SHA2-128s, SLH-DSA-SHA2-128f
+                            (default: SIGNING_KEY_ALG or Ed25519)
+  --pq-key <hex>            Post-quantum private key: sign also adds a pq_signature (default: SIGNING_PQ_KEY_HEX)
+  --pq-alg <name>           Algorithm of --pq-key (default: SIGNING_PQ_KEY_ALG or ML-DSA-65)
+  --signature-policy <p>    Signatures a signed atomic needs: either (classical or post-quantum, default) or both
   --public-key <hex>        Public key (alternative to --key)
+  --keystore <dir>          Encrypted keystore directory (default: KEYSTORE_DIR or ./data/keystore)
+  --label <name>            Label of a keystore key (keys create), or where rotate stores the key it generates
+  --new-key <hex>           Incoming private key for rotate, or keystore:<label> (default: generate one)
+  --new-alg <name>          Algorithm of the incoming key (default: the outgoing key's)
+  --passphrase-file <file>  File holding the keystore passphrase (default: KEYSTORE_PASSPHRASE, else prompt)
+  --threshold <m>           Signatures a multisig atomic needs (sign, with --signers)
+  --signers <keys>          Comma-separated public keys allowed to sign a multisig atomic
+  --keyring <file>          Trusted keys with owners, validity windows and revocations (default: LEDGER_KEYRING)
   --trace-id <id>           Trace ID for queries/filtering
+  --where <expr>            Filter expression for query/stats (e.g. 'status.state = "failed" AND did.actor = "llm"')
+  --group-by <paths>        Comma-separated field paths to aggregate by (e.g. did.actor,status.state)
+  --bucket <size>           Time bucket for stats: minute, hour, day, week, month
+  --time-field <path>       Field placing atomics in time (default: when.started_at, then metadata.created_at)
+  --chain-mode <mode>       Hash chain layout: global, trace (default: LEDGER_CHAIN_MODE or global)
+  --workers <n>             Verify hashes and signatures on n worker threads
+  --incremental             Verify only lines appended since the last signed verification checkpoint
+  --blobs <dir|s3>          Check that externalized payloads are in this blob store and match their hashes
+                            (default: BLOB_STORE)
+  --report <format>         Also write a verification report: junit, sarif, html
+  --report-file <path>      Report file (default: ledger-verification.xml|.sarif|.html)
   --input, -i <file>        Input file for operations
+  --hash <hex>              Atomic hash for inclusion proofs, or the anchor verify-anchor checks
+  --tree-size <n>           Tree size for inclusion proofs (default: current)
+  --old-size <n>            Older tree size for consistency proofs
+  --new-size <n>            Newer tree size for consistency proofs (default: current)
+  --checkpoint <file>       Signed checkpoint the proof root must match (verify-proof), or where
+                            --incremental keeps its progress (default: <ledger>.verified.json)
+  --compression <codec>     Segment compression: gzip, zstd (default: gzip)
+  --tenant-id <id>          Tenant whose keys to shred
+  --keys-dir <path>         Tenant key directory (default: TENANT_KEYS_DIR)
+  --decrypt                 Decrypt encrypted payloads in query results
+  --fields <list>           Comma-separated fields to redact (e.g. input.env,output.stdout)
+  --canonical <hash>        Head of the branch a fork resolution keeps
+  --actor <name>            Actor recorded on a fork resolution, anchor, key rotation or migration (default: ledger)
+  --reason <text>           Reason recorded on a fork resolution or key rotation
+  --tsa-url <url>           RFC 3161 timestamp authority, or test for the built-in test TSA (default: TSA_URL)
+  --subject <what>          What anchor timestamps: root (Merkle root, default) or last-hash
+  --tsa-cert <pem>          PEM certificate of the TSA (or its CA) verify-anchor trusts (default: TSA_CERT; required)
+  --target <path>           Ledger migrate writes (default: <ledger>.v1.1.0.jsonl); must not exist
+  --map <file>              Old-to-new hash mapping migrate writes (default: <target>.map.jsonl)
+  --resign                  Re-sign the atomics migrate rewrites with --private-key (default: drop their signatures)
   --output, -o <format>     Output format: json, ndjson, table (default: table)
   --verbose                 Verbose output
   --stop-on-error           Stop verification on first error
@@ -96,11 +185,25 @@ OPTIONS:
   --version, -v             Show version
 
 PERMISSION REQUIREMENTS:
-  verify:         --allow-read
+  verify:         --allow-read (--allow-write --allow-env with --incremental or --report, --allow-net --allow-env with --blobs s3)
   sign:           --allow-read --allow-write --allow-env
+  cosign:         --allow-read --allow-env
   query:          --allow-read
   generate-keys:  (no permissions needed)
+  keys:           --allow-read --allow-write --allow-env
   stats:          --allow-read
+  checkpoint:     --allow-read --allow-write --allow-env
+  prove-*:        --allow-read
+  verify-proof:   --allow-read --allow-env
+  compress:       --allow-read --allow-write
+  shred-tenant:   --allow-read --allow-write --allow-env
+  redact:         --allow-read
+  forks:          --allow-read
+  resolve-fork:   --allow-read --allow-write --allow-env
+  rotate:         --allow-read --allow-write --allow-env
+  anchor:         --allow-read --allow-write --allow-env --allow-net
+  verify-anchor:  --allow-read --allow-env
+  migrate:        --allow-read --allow-write --allow-env
 
 EXAMPLES:
   # Verify ledger with streaming
@@ -109,18 +212,100 @@ EXAMPLES:
   # Verify with trace_id filtering and stop on first error
   logline-cli verify --trace-id "550e8400-e29b-41d4-a716-446655440000" --stop-on-error
   
+  # Verify, including the payloads moved to the blob store
+  logline-cli verify --ledger ./data/ledger.jsonl --blobs ./data/blobs
+  
   # Sign an atomic
   logline-cli sign --input atomic.json --private-key <hex> --output json
   
+  # A decision that needs 2 of 3 parties: sign, then co-sign, then append
+  logline-cli sign --input decision.json --private-key <hex> --threshold 2 --signers <pk1>,<pk2>,<pk3> --output json > decision.signed.json
+  logline-cli cosign --input decision.signed.json --private-key <hex2> --output json > decision.cosigned.json
+  
   # Compute hash of atomic
   logline-cli hash --input atomic.json
   
   # Generate new key pair
   logline-cli generate-keys
   
+  # Sign with a P-256 key, as WebCrypto partners do
+  logline-cli generate-keys --alg ES256 --output json > p256.json
+  logline-cli sign --input atomic.json --alg ES256 --private-key <hex>
+  
+  # Hybrid signing for long-lived records: Ed25519 plus ML-DSA, and require both
+  logline-cli generate-keys --alg ML-DSA-65 --output json > ml-dsa.json
+  logline-cli sign --input atomic.json --private-key <hex> --pq-key <ml-dsa-hex> --output json
+  logline-cli verify --signature-policy both
+  
+  # Keep signing keys encrypted at rest and sign by reference
+  logline-cli keys create --label node-1 --passphrase-file ~/.logline-passphrase
+  logline-cli keys list
+  logline-cli keys export-public node-1 --output json
+  logline-cli sign --input atomic.json --private-key keystore:node-1 --passphrase-file ~/.logline-passphrase
+  
   # Query by trace ID with JSON output
   logline-cli query --trace-id "550e8400-e29b-41d4-a716-446655440000" --output json
   
+  # Query with a filter expression
+  logline-cli query --where 'did.actor in ("llm", "agent") AND when.started_at >= "2024-01-01"'
+  logline-cli query --where 'this startswith "payments/" OR output.stderr matches /timeout/i'
+
+  # Daily failure rate and duration percentiles per actor
+  logline-cli stats --group-by did.actor --bucket day
+  logline-cli stats --group-by metadata.tenant_id,status.state --where 'intent = "run_code"' --output json
+
+  # Verify a ledger chained per trace_id
+  logline-cli verify --chain-mode trace
+
+  # Verify a very large ledger on 8 worker threads, streaming results
+  logline-cli verify --workers 8 --output ndjson > results.ndjson
+
+  # Trust only keyring keys, within their validity windows and owners
+  logline-cli verify --keyring ./keyring.json
+
+  # Nightly: verify only what was appended since the last run
+  logline-cli verify --incremental --private-key <hex>
+
+  # Reports for CI test results, code scanning and auditors
+  logline-cli verify --report junit --report-file ledger-verification.xml
+  logline-cli verify --report sarif
+  logline-cli verify --report html --report-file audit-2024-06.html
+
+  # Publish a signed checkpoint and prove an atomic is covered by it
+  logline-cli checkpoint --private-key <hex> --output json > checkpoint.json
+  logline-cli prove-inclusion --hash <atomic-hash> --output json > proof.json
+  logline-cli verify-proof --input proof.json --checkpoint checkpoint.json --key <hex>
+
+  # Prove the ledger only grew since an older checkpoint
+  logline-cli prove-consistency --old-size 100 --output json
+
+  # Compress sealed segments of a rotated ledger
+  logline-cli compress --compression zstd
+
+  # Make everything a tenant ever stored unreadable
+  logline-cli shred-tenant --tenant-id acme --keys-dir ./data/tenant-keys
+
+  # Share a ledger excerpt without secrets, then check it as the partner would
+  logline-cli redact --input excerpt.jsonl --fields input.env,output.stdout,metadata.owner_id > shared.jsonl
+  logline-cli verify --ledger shared.jsonl --verbose
+
+  # Inspect a fork, then keep the branch signed by the right node
+  logline-cli forks --chain-mode trace --trace-id "550e8400-e29b-41d4-a716-446655440000"
+  logline-cli resolve-fork --chain-mode trace --trace-id "550e8400-e29b-41d4-a716-446655440000" \\
+    --canonical <branch-head> --actor auditor --reason "node-2 replayed stale input" --private-key <hex>
+
+  # Retire the node key: the new key goes to the keystore and the keyring, and signs from now on
+  logline-cli rotate --private-key keystore:node-1 --label node-2 --keyring ./keyring.json --reason "yearly rotation"
+  logline-cli verify --keyring ./keyring.json
+
+  # Timestamp the ledger root with a TSA, then check the anchor against a pinned TSA certificate
+  logline-cli anchor --tsa-url https://freetsa.org/tsr --private-key <hex>
+  logline-cli verify-anchor --tsa-cert ./tsa.pem --output json
+
+  # Migrate a v1.0 ledger: the original is left as it is
+  logline-cli migrate --ledger ./data/ledger.jsonl --target ./data/ledger.v1.1.0.jsonl --private-key <hex> --resign
+  logline-cli verify --ledger ./data/ledger.v1.1.0.jsonl
+
   # Dry run verification
   logline-cli verify --dry-run --verbose
 `)
@@ -134,6 +319,73 @@ if (args.version) {
 
 const ledgerPath = args.ledger || './data/ledger.jsonl'
 const outputFormat = (args.output || 'table') as OutputFormat
+const chainMode = (args['chain-mode'] || Deno.env.get('LEDGER_CHAIN_MODE') || 'global') as ChainMode
+
+function signatureAlg(): SignatureAlg {
+  const alg = args.alg || Deno.env.get('SIGNING_KEY_ALG') || DEFAULT_SIGNATURE_ALG
+  if (!signatureAlgorithms().includes(alg)) {
+    exitWithError('INVALID_ALG', `Unsupported signature algorithm: ${alg}`, { expected: signatureAlgorithms() })
+  }
+  return alg as SignatureAlg
+}
+
+function pqSignatureAlg(): SignatureAlg {
+  const alg = args['pq-alg'] || Deno.env.get('SIGNING_PQ_KEY_ALG') || DEFAULT_PQ_SIGNATURE_ALG
+  if (!isPostQuantumAlg(alg)) {
+    exitWithError('INVALID_ALG', `Not a post-quantum signature algorithm: ${alg}`, {
+      expected: signatureAlgorithms().filter(isPostQuantumAlg)
+    })
+  }
+  return alg as SignatureAlg
+}
+
+function keystore(): Keystore {
+  return new Keystore(args.keystore || Deno.env.get('KEYSTORE_DIR') || './data/keystore')
+}
+
+function keystorePassphrase(): string | undefined {
+  const file = args['passphrase-file']
+  if (file) {
+    return Deno.readTextFileSync(file).replace(/\r?\n$/, '')
+  }
+  return Deno.env.get('KEYSTORE_PASSPHRASE') || prompt('Keystore passphrase:') || undefined
+}
+
+/**
+ * Blob store of externalized payloads: a directory, or s3 for the S3 backend
+ */
+function blobStore(value: string | undefined): BlobStore | undefined {
+  if (!value) {
+    return undefined
+  }
+  return value === 's3' ? new S3BlobStore() : new FileBlobStore(value)
+}
+
+/**
+ * A private key given as hex or as a keystore reference (keystore:<label>),
+ * which also tells the key's algorithm
+ */
+function privateKeyOption(value: string | undefined): { privateKeyHex: string; alg?: SignatureAlg } | undefined {
+  if (!value) {
+    return undefined
+  }
+  try {
+    return resolvePrivateKey(value, keystore, keystorePassphrase)
+  } catch (err) {
+    if (err instanceof KeystoreError) {
+      exitWithError('KEYSTORE_ERROR', err.message)
+    }
+    throw err
+  }
+}
+
+function tenantKeyStore(): FileTenantKeyStore {
+  const dir = args['keys-dir'] || Deno.env.get('TENANT_KEYS_DIR')
+  if (!dir) {
+    exitWithError('MISSING_KEYS_DIR', 'Tenant key directory required', { usage: '--keys-dir <path> or TENANT_KEYS_DIR' })
+  }
+  return new FileTenantKeyStore(dir!, { masterKeyHex: Deno.env.get('TENANT_MASTER_KEY_HEX') || undefined })
+}
 
 switch (command) {
   case 'verify': {
@@ -144,6 +396,25 @@ switch (command) {
     
     const publicKey = args.key || args['public-key'] || Deno.env.get('PUBLIC_KEY_HEX')
     const traceId = args['trace-id']
+    const workers = args.workers ? parseInt(args.workers, 10) : undefined
+    if (workers !== undefined && !(workers > 0)) {
+      exitWithError('INVALID_WORKERS', 'Worker count must be a positive integer', { workers: args.workers })
+    }
+    const report = args.report as ReportFormat | undefined
+    if (report && !REPORT_FORMATS.includes(report)) {
+      exitWithError('INVALID_REPORT', `Unknown report format: ${report}`, { expected: REPORT_FORMATS })
+    }
+    const signingKey = args.incremental ? privateKeyOption(args['private-key'] || Deno.env.get('SIGNING_KEY_HEX')) : undefined
+    if (args.incremental && !signingKey) {
+      exitWithError('MISSING_KEY', 'Private key required to sign verification checkpoints', {
+        usage: '--private-key <hex|keystore:label> or SIGNING_KEY_HEX env var'
+      })
+    }
+    const keyringPath = args.keyring || Deno.env.get('LEDGER_KEYRING')
+    const signaturePolicy = args['signature-policy'] as SignaturePolicy | undefined
+    if (signaturePolicy && !['either', 'both'].includes(signaturePolicy)) {
+      exitWithError('INVALID_SIGNATURE_POLICY', `Unknown signature policy: ${signaturePolicy}`, { expected: ['either', 'both'] })
+    }
     const verifier = new LedgerVerifier(publicKey)
     
     try {
@@ -151,14 +422,31 @@ switch (command) {
         verbose: args.verbose,
         publicKeyHex: publicKey,
         traceId,
-        stopOnError: args['stop-on-error']
+        stopOnError: args['stop-on-error'],
+        chainMode,
+        keyring: keyringPath ? Keyring.load(keyringPath) : undefined,
+        signaturePolicy,
+        blobs: blobStore(args.blobs || Deno.env.get('BLOB_STORE')),
+        workers,
+        // NDJSON results are written as they come instead of kept in memory
+        // Reports need every result
+        sink: outputFormat === 'ndjson' && !report ? r => console.log(JSON.stringify(r)) : undefined,
+        incremental: args.incremental
+          ? { signingKeyHex: signingKey!.privateKeyHex, signingAlg: signingKey!.alg ?? signatureAlg(), checkpointPath: args.checkpoint }
+          : undefined
       })
       
       if (outputFormat === 'json') {
         console.log(JSON.stringify(result, null, 2))
-      } else if (outputFormat === 'ndjson') {
+      } else if (outputFormat === 'ndjson' && report) {
         result.results.forEach(r => console.log(JSON.stringify(r)))
       }
+      
+      if (report) {
+        const reportFile = args['report-file'] || `ledger-verification.${REPORT_EXTENSIONS[report]}`
+        await Deno.writeTextFile(reportFile, renderReport(report, result, { ledgerPath, toolVersion: VERSION }))
+        console.error(`📝 ${report} report written to ${reportFile}`)
+      }
       // Table format already printed by verifier
       
       // Exit with error if any invalid
@@ -166,6 +454,15 @@ switch (command) {
         Deno.exit(1)
       }
     } catch (err) {
+      if (err instanceof PrefixModifiedError) {
+        exitWithError('PREFIX_MODIFIED', err.message, { offset: err.offset, lines: err.lines })
+      }
+      if (err instanceof VerificationCheckpointError) {
+        exitWithError('INVALID_CHECKPOINT', err.message)
+      }
+      if (err instanceof KeyringError) {
+        exitWithError('INVALID_KEYRING', err.message)
+      }
       exitWithError('VERIFY_ERROR', 'Verification failed', { error: String(err) })
     }
     break
@@ -177,9 +474,9 @@ switch (command) {
       exitWithError('MISSING_INPUT', 'Input file required', { usage: '--input <file>' })
     }
     
-    const privateKey = args['private-key'] || Deno.env.get('SIGNING_KEY_HEX')
-    if (!privateKey) {
-      exitWithError('MISSING_KEY', 'Private key required', { usage: '--private-key <hex> or SIGNING_KEY_HEX env var' })
+    const privateKeyValue = args['private-key'] || Deno.env.get('SIGNING_KEY_HEX')
+    if (!privateKeyValue) {
+      exitWithError('MISSING_KEY', 'Private key required', { usage: '--private-key <hex|keystore:label> or SIGNING_KEY_HEX env var' })
     }
     
     if (dryRun) {
@@ -187,20 +484,61 @@ switch (command) {
       break
     }
     
+    const privateKey = privateKeyOption(privateKeyValue)!
+    const pqKey = privateKeyOption(args['pq-key'] || Deno.env.get('SIGNING_PQ_KEY_HEX'))
     try {
       const content = await Deno.readTextFile(inputFile)
       const atomic: Atomic = JSON.parse(content)
+      if (!atomic.hash && atomic.canonicalization === undefined) {
+        atomic.canonicalization = CANONICALIZATION_JCS
+      }
+      if (args.threshold || args.signers) {
+        requireSignatures(atomic, {
+          threshold: Number(args.threshold || 1),
+          public_keys: (args.signers || '').split(',').map((k: string) => k.trim()).filter(Boolean)
+        })
+      }
       
-      const { hash, signature } = await signAtomic(atomic, privateKey)
-      const signedAtomic = { ...atomic, hash, signature }
+      const { hash, signature } = await signAtomic(atomic, privateKey.privateKeyHex, privateKey.alg ?? signatureAlg())
+      let signedAtomic: Atomic = { ...atomic, hash, signature }
+      if (pqKey) {
+        signedAtomic = addPqSignature(signedAtomic, pqKey.privateKeyHex, pqKey.alg ?? pqSignatureAlg())
+      }
       
       formatOutput(signedAtomic, outputFormat)
     } catch (err) {
+      if (err instanceof MultiSigError) {
+        exitWithError('INVALID_MULTISIG', err.message)
+      }
       exitWithError('SIGN_ERROR', 'Signing failed', { error: String(err) })
     }
     break
   }
 
+  case 'cosign': {
+    const inputFile = args.input
+    if (!inputFile) {
+      exitWithError('MISSING_INPUT', 'Input file required', { usage: '--input <file>' })
+    }
+    
+    const privateKey = privateKeyOption(args['private-key'] || Deno.env.get('SIGNING_KEY_HEX'))
+    if (!privateKey) {
+      exitWithError('MISSING_KEY', 'Private key required', { usage: '--private-key <hex|keystore:label> or SIGNING_KEY_HEX env var' })
+    }
+    
+    try {
+      const atomic: Atomic = JSON.parse(await Deno.readTextFile(inputFile))
+      const cosigned = cosignAtomic(atomic, privateKey!.privateKeyHex, privateKey!.alg ?? signatureAlg())
+      formatOutput(cosigned, outputFormat === 'table' ? 'json' : outputFormat)
+    } catch (err) {
+      if (err instanceof MultiSigError) {
+        exitWithError('INVALID_MULTISIG', err.message)
+      }
+      exitWithError('COSIGN_ERROR', 'Co-signing failed', { error: String(err) })
+    }
+    break
+  }
+
   case 'hash': {
     const inputFile = args.input
     if (!inputFile) {
@@ -220,21 +558,109 @@ switch (command) {
   }
 
   case 'generate-keys': {
-    const keys = generateKeyPair()
+    const alg = signatureAlg()
+    const keys = generateKeyPair(alg)
     
     if (outputFormat === 'json' || outputFormat === 'ndjson') {
-      formatOutput(keys, outputFormat)
+      formatOutput({ alg, ...keys }, outputFormat)
     } else {
-      console.log('Generated Ed25519 Key Pair:')
+      console.log(`Generated ${alg} Key Pair:`)
       console.log('\nPrivate Key (SIGNING_KEY_HEX):')
       console.log(keys.privateKey)
       console.log('\nPublic Key (PUBLIC_KEY_HEX):')
       console.log(keys.publicKey)
+      if (isPostQuantumAlg(alg)) {
+        console.log(`\nFor hybrid signing, set SIGNING_PQ_KEY_HEX to this private key and SIGNING_PQ_KEY_ALG=${alg}`)
+      } else if (alg !== DEFAULT_SIGNATURE_ALG) {
+        console.log(`\nSigning with this key needs SIGNING_KEY_ALG=${alg} (or --alg ${alg})`)
+      }
       console.log('\n⚠️  Keep the private key secure! Do not commit to version control.')
     }
     break
   }
 
+  case 'keys': {
+    const action = args._[1] as string | undefined
+    const name = (args._[2] as string | undefined) ?? args.label
+    try {
+      switch (action) {
+        case 'create': {
+          if (!args.label) {
+            exitWithError('MISSING_LABEL', 'Key label required', { usage: 'keys create --label <name>' })
+          }
+          const passphrase = keystorePassphrase()
+          if (!passphrase) {
+            exitWithError('MISSING_PASSPHRASE', 'Passphrase required', {
+              usage: '--passphrase-file <file> or KEYSTORE_PASSPHRASE env var'
+            })
+          }
+          // --private-key imports an existing key instead of generating one
+          const entry = await keystore().create(args.label!, passphrase!, {
+            alg: signatureAlg(),
+            privateKeyHex: args['private-key']
+          })
+          if (outputFormat === 'table') {
+            console.log(`Created ${entry.alg} key ${entry.label} (${entry.id})`)
+            console.log('\nPublic Key (PUBLIC_KEY_HEX):')
+            console.log(entry.public_key)
+            console.log(`\nSign with --private-key keystore:${entry.label} (or SIGNING_KEY_HEX=keystore:${entry.label})`)
+          } else {
+            formatOutput(entry, outputFormat)
+          }
+          break
+        }
+        case 'list': {
+          const entries = keystore().list()
+          if (outputFormat !== 'table') {
+            formatOutput(entries, outputFormat)
+          } else if (entries.length === 0) {
+            console.log('No keys in keystore')
+          } else {
+            for (const entry of entries) {
+              console.log(`${entry.id}  ${entry.label}  ${entry.alg}  ${entry.public_key.slice(0, 16)}...  ${entry.created_at}`)
+            }
+          }
+          break
+        }
+        case 'export-public': {
+          if (!name) {
+            exitWithError('MISSING_LABEL', 'Key label or id required', { usage: 'keys export-public <label>' })
+          }
+          const { id, label, alg, public_key } = keystore().get(name!)
+          formatOutput({ id, label, alg, public_key }, outputFormat)
+          break
+        }
+        case 'delete': {
+          if (!name) {
+            exitWithError('MISSING_LABEL', 'Key label or id required', { usage: 'keys delete <label>' })
+          }
+          if (dryRun) {
+            console.log('🔍 Dry run mode: would delete key', name)
+            break
+          }
+          const entry = await keystore().delete(name!)
+          if (outputFormat === 'table') {
+            console.log(`Deleted key ${entry.label} (${entry.id})`)
+            console.log(`Signatures it made still verify with public key ${entry.public_key}`)
+          } else {
+            formatOutput(entry, outputFormat)
+          }
+          break
+        }
+        default:
+          exitWithError('UNKNOWN_KEYS_ACTION', `Unknown keys action: ${action ?? '(none)'}`, {
+            expected: ['create', 'list', 'export-public', 'delete']
+          })
+      }
+    } catch (err) {
+      if (err instanceof KeystoreError) {
+        exitWithError('KEYSTORE_ERROR', err.message)
+      }
+      exitWithError('KEYS_ERROR', 'Keystore operation failed', { error: String(err) })
+    }
+    break
+  }
+
   case 'lint': {
     // Placeholder for schema validation
     console.log('📋 Linting ledger file...')
@@ -243,23 +669,222 @@ switch (command) {
   }
 
   case 'rotate': {
-    // Placeholder for key rotation
-    console.log('🔄 Key rotation...')
-    console.log('⚠️  Not implemented yet - will rotate signing keys')
+    const retiredValue = args['private-key'] || Deno.env.get('SIGNING_KEY_HEX')
+    if (!retiredValue) {
+      exitWithError('MISSING_KEY', 'Private key of the outgoing key required', {
+        usage: '--private-key <hex|keystore:label> or SIGNING_KEY_HEX env var'
+      })
+    }
+    const newAlg = args['new-alg']
+    if (newAlg && !signatureAlgorithms().includes(newAlg)) {
+      exitWithError('INVALID_ALG', `Unsupported signature algorithm: ${newAlg}`, { expected: signatureAlgorithms() })
+    }
+    if (args['new-key'] && args.label) {
+      exitWithError('INVALID_OPTIONS', '--label names a generated key; --new-key is already stored', {
+        usage: '--new-key <hex|keystore:label> or --label <name>'
+      })
+    }
+
+    try {
+      const outgoing = privateKeyOption(retiredValue)!
+      const retired = { privateKeyHex: outgoing.privateKeyHex, alg: outgoing.alg ?? signatureAlg() }
+
+      // The incoming key: given, or generated (and kept in the keystore with --label)
+      let generated: { publicKey: string; privateKey: string } | undefined
+      let next: { privateKeyHex: string; alg: SignatureAlg }
+      if (args['new-key']) {
+        const incoming = privateKeyOption(args['new-key'])!
+        next = { privateKeyHex: incoming.privateKeyHex, alg: incoming.alg ?? (newAlg as SignatureAlg) ?? retired.alg }
+      } else {
+        const alg = (newAlg as SignatureAlg) ?? retired.alg
+        generated = generateKeyPair(alg)
+        next = { privateKeyHex: generated.privateKey, alg }
+      }
+
+      const ledger = new Ledger(ledgerPath, { chainMode })
+      const heads = ledger.getChainHeads()
+      const rotation = createKeyRotation(retired, next, {
+        actor: args.actor || 'ledger',
+        reason: args.reason,
+        prev: chainMode === 'trace' ? heads.traces[KEY_ROTATION_TRACE_ID] : heads.global
+      })
+      const { retired_key: retiredKey, new_key: newKey } = rotation.input as { retired_key: string; new_key: string }
+      if (dryRun) {
+        console.log('🔍 Dry run mode: would append')
+        formatOutput(rotation, 'json')
+        break
+      }
+
+      // Check the keyring takes the rotation before anything is written
+      const keyringPath = args.keyring || Deno.env.get('LEDGER_KEYRING')
+      const keyring = keyringPath ? Keyring.load(keyringPath) : undefined
+      keyring?.rotate(retiredKey, newKey, new Date(rotation.signature!.signed_at!), args.label)
+
+      // Store the key before the ledger starts trusting it
+      let stored: string | undefined
+      if (generated && args.label) {
+        const passphrase = keystorePassphrase()
+        if (!passphrase) {
+          exitWithError('MISSING_PASSPHRASE', 'Passphrase required', {
+            usage: '--passphrase-file <file> or KEYSTORE_PASSPHRASE env var'
+          })
+        }
+        const entry = await keystore().create(args.label, passphrase!, { alg: next.alg, privateKeyHex: next.privateKeyHex })
+        stored = `keystore:${entry.label}`
+      }
+
+      await ledger.append(rotation)
+      keyring?.save(keyringPath!)
+
+      if (outputFormat === 'table') {
+        console.log(`Rotated ${retiredKey.slice(0, 16)}... -> ${newKey.slice(0, 16)}... (${next.alg})`)
+        console.log(`Rotation atomic: ${rotation.hash}`)
+        if (keyringPath) {
+          console.log(`Keyring ${keyringPath}: new key trusted, old key revoked`)
+        }
+        if (stored) {
+          console.log(`\nSign with --private-key ${stored} (or SIGNING_KEY_HEX=${stored})`)
+        } else if (generated) {
+          console.log('\nNew Private Key (SIGNING_KEY_HEX):')
+          console.log(generated.privateKey)
+          console.log('\n⚠️  Keep the private key secure! Do not commit to version control.')
+        }
+      } else {
+        formatOutput({
+          rotation: rotation.hash,
+          retired_key: retiredKey,
+          new_key: newKey,
+          new_alg: next.alg,
+          ...(stored ? { private_key: stored } : generated ? { private_key: generated.privateKey } : {}),
+          ...(keyringPath ? { keyring: keyringPath } : {})
+        }, outputFormat)
+      }
+    } catch (err) {
+      if (err instanceof KeyRotationError || err instanceof KeyringError || err instanceof KeystoreError) {
+        exitWithError('ROTATION_FAILED', err.message)
+      }
+      exitWithError('ROTATE_ERROR', 'Key rotation failed', { error: String(err) })
+    }
     break
   }
 
   case 'anchor': {
-    // Placeholder for anchoring
-    console.log('⚓ Anchoring ledger state...')
-    console.log('⚠️  Not implemented yet - will anchor to blockchain/timestamping service')
+    const tsaUrl = args['tsa-url'] || Deno.env.get('TSA_URL')
+    if (!tsaUrl) {
+      exitWithError('MISSING_TSA', 'Timestamp authority required', { usage: `--tsa-url <url|${TEST_TSA}> or TSA_URL env var` })
+    }
+    const subjects: Record<string, AnchorSubject> = { root: 'merkle_root', 'last-hash': 'last_hash' }
+    const subject = subjects[args.subject || 'root']
+    if (!subject) {
+      exitWithError('INVALID_SUBJECT', `Unknown anchor subject: ${args.subject}`, { usage: '--subject root|last-hash' })
+    }
+    const privateKeyValue = args['private-key'] || Deno.env.get('SIGNING_KEY_HEX')
+    if (!privateKeyValue) {
+      exitWithError('MISSING_KEY', 'Private key required', { usage: '--private-key <hex|keystore:label> or SIGNING_KEY_HEX env var' })
+    }
+
+    try {
+      const anchor = await createAnchor(ledgerPath, timestampAuthority(tsaUrl!), {
+        actor: args.actor || 'ledger',
+        tsa: tsaUrl!,
+        subject
+      })
+      if (dryRun) {
+        console.log('🔍 Dry run mode: would append')
+        formatOutput(anchor, 'json')
+        break
+      }
+
+      const privateKey = privateKeyOption(privateKeyValue)!
+      const { atomic: stored } = await new Ledger(ledgerPath, {
+        chainMode,
+        signingKeyHex: privateKey.privateKeyHex,
+        signingAlg: privateKey.alg ?? signatureAlg()
+      }).appendAtomic(anchor)
+      const { tree_size, value, gen_time } = stored.input!
+      formatOutput(outputFormat === 'table'
+        ? { anchor: stored.hash, subject, tree_size, value, gen_time, tsa: tsaUrl }
+        : stored, outputFormat)
+    } catch (err) {
+      if (err instanceof AnchorError || err instanceof TimestampError) {
+        exitWithError('ANCHOR_FAILED', err.message)
+      }
+      exitWithError('ANCHOR_ERROR', 'Anchoring failed', { error: String(err) })
+    }
+    break
+  }
+
+  case 'verify-anchor': {
+    try {
+      const anchors = await readAnchors(ledgerPath)
+      const anchor = args.hash ? anchors.find(a => a.hash === args.hash) : anchors[anchors.length - 1]
+      if (!anchor) {
+        exitWithError('ANCHOR_NOT_FOUND', args.hash ? `No anchor with hash ${args.hash}` : 'Ledger has no anchors')
+      }
+
+      const certFile = args['tsa-cert'] || Deno.env.get('TSA_CERT')
+      if (!certFile) {
+        console.error('⚠️  No TSA certificate pinned (--tsa-cert or TSA_CERT): the anchor cannot be trusted')
+      }
+      const result = verifyAnchor(anchor!, ledgerPath, {
+        trustedCertificates: certFile ? [await Deno.readTextFile(certFile)] : []
+      })
+      formatOutput(outputFormat === 'table'
+        ? {
+          anchor: result.hash,
+          valid: result.valid,
+          subject: result.subject,
+          tree_size: result.tree_size,
+          gen_time: result.timestamp?.gen_time,
+          tsa: result.signer,
+          trusted: result.trusted,
+          ...(result.error ? { error: `[${result.error.code}] ${result.error.message}` } : {})
+        }
+        : result, outputFormat)
+
+      if (!result.valid) {
+        Deno.exit(1)
+      }
+    } catch (err) {
+      exitWithError('VERIFY_ANCHOR_ERROR', 'Anchor verification failed', { error: String(err) })
+    }
     break
   }
 
   case 'migrate': {
-    // Placeholder for migration
-    console.log('🔄 Migrating ledger from v1.0 to v1.1...')
-    console.log('⚠️  Not implemented yet - will migrate schema version')
+    const target = args.target || ledgerPath.replace(/(\.jsonl)?$/, '.v1.1.0.jsonl')
+    const privateKeyValue = args['private-key'] || Deno.env.get('SIGNING_KEY_HEX')
+    if (!privateKeyValue) {
+      exitWithError('MISSING_KEY', 'Private key required to sign the migration', {
+        usage: '--private-key <hex|keystore:label> or SIGNING_KEY_HEX env var'
+      })
+    }
+    if (dryRun) {
+      console.log('🔍 Dry run mode: would migrate', ledgerPath, 'to', target)
+      break
+    }
+
+    try {
+      const privateKey = privateKeyOption(privateKeyValue)!
+      const report = await migrateLedger(ledgerPath, target, {
+        actor: args.actor || 'ledger',
+        reason: args.reason,
+        signingKeyHex: privateKey.privateKeyHex,
+        signingAlg: privateKey.alg ?? signatureAlg(),
+        resign: args.resign,
+        chainMode,
+        mappingPath: args.map
+      })
+      formatOutput(report, outputFormat)
+      if (outputFormat === 'table' && report.dropped_signatures > 0) {
+        console.log(`\n⚠️  ${report.dropped_signatures} signatures no longer match their atomics and were dropped (use --resign)`)
+      }
+    } catch (err) {
+      if (err instanceof MigrationError) {
+        exitWithError('MIGRATION_FAILED', err.message)
+      }
+      exitWithError('MIGRATE_ERROR', 'Migration failed', { error: String(err) })
+    }
     break
   }
 
@@ -269,6 +894,42 @@ switch (command) {
       break
     }
     
+    const groupBy = args['group-by']?.split(',').map((f: string) => f.trim()).filter(Boolean)
+    const bucket = args.bucket as TimeBucket | undefined
+    if (bucket && !TIME_BUCKETS.includes(bucket)) {
+      exitWithError('INVALID_BUCKET', `Unknown bucket: ${bucket}`, { usage: `--bucket ${TIME_BUCKETS.join('|')}` })
+    }
+    
+    if (groupBy?.length || bucket || args.where) {
+      try {
+        const ledger = new Ledger(ledgerPath)
+        const result = await ledger.aggregate({ groupBy, bucket, timeField: args['time-field'], where: args.where })
+        
+        if (outputFormat === 'table') {
+          console.log(`Aggregated ${result.total} atomic(s) into ${result.groups.length} group(s):`)
+          for (const group of result.groups) {
+            const labels = [
+              ...(group.bucket ? [group.bucket] : []),
+              ...Object.entries(group.key).map(([path, value]) => `${path}=${value}`)
+            ]
+            const duration = group.duration_ms
+              ? `  ${Object.entries(group.duration_ms.percentiles).map(([p, ms]) => `${p}=${ms}ms`).join(' ')}`
+              : ''
+            console.log(`  ${labels.join(' ') || '(all)'}: ${group.count} atomic(s), ` +
+              `${(group.failure_rate * 100).toFixed(1)}% failed${duration}`)
+          }
+        } else {
+          formatOutput(outputFormat === 'ndjson' ? result.groups : result, outputFormat)
+        }
+      } catch (err) {
+        if (err instanceof FilterSyntaxError) {
+          exitWithError('INVALID_FILTER', err.message, { where: args.where })
+        }
+        exitWithError('STATS_ERROR', 'Failed to aggregate', { error: String(err) })
+      }
+      break
+    }
+    
     try {
       const ledger = new Ledger(ledgerPath)
       const stats = await ledger.getStats()
@@ -301,23 +962,310 @@ switch (command) {
     
     const ledger = new Ledger(ledgerPath)
     const traceId = args['trace-id']
-    if (!traceId) {
-      exitWithError('MISSING_TRACE_ID', 'Trace ID required', { usage: '--trace-id <uuid>' })
+    const where = args.where
+    if (!traceId && !where) {
+      exitWithError('MISSING_FILTER', 'Trace ID or filter expression required', {
+        usage: '--trace-id <uuid> or --where <expression>'
+      })
     }
     
     try {
-      const results = await ledger.query({ trace_id: traceId })
+      let results = await ledger.query({ trace_id: traceId, where })
+      if (args.decrypt) {
+        const keyStore = tenantKeyStore()
+        // Shredded payloads stay as they are stored: ciphertext nobody can open
+        results = results.map(atomic => {
+          try {
+            return decryptAtomic(atomic, keyStore)
+          } catch (err) {
+            if (err instanceof TenantKeyDestroyedError) return atomic
+            throw err
+          }
+        })
+      }
       
       if (outputFormat === 'table') {
         console.log(`Found ${results.length} atomic(s):`)
       }
       formatOutput(results, outputFormat)
     } catch (err) {
+      if (err instanceof FilterSyntaxError) {
+        exitWithError('INVALID_FILTER', err.message, { where })
+      }
       exitWithError('QUERY_ERROR', 'Query failed', { error: String(err) })
     }
     break
   }
 
+  case 'checkpoint': {
+    if (dryRun) {
+      console.log('🔍 Dry run mode: would checkpoint', ledgerPath)
+      break
+    }
+
+    const privateKey = privateKeyOption(args['private-key'] || Deno.env.get('SIGNING_KEY_HEX'))
+    const merkleLog = new MerkleLog(ledgerPath)
+
+    try {
+      const checkpoint = privateKey
+        ? await merkleLog.publishCheckpoint(privateKey.privateKeyHex, privateKey.alg ?? signatureAlg())
+        : merkleLog.latestCheckpoint()
+      if (!checkpoint) {
+        exitWithError('NO_CHECKPOINT', 'No checkpoint published yet', {
+          usage: '--private-key <hex|keystore:label> or SIGNING_KEY_HEX env var to publish one'
+        })
+      }
+      formatOutput(checkpoint, outputFormat)
+    } catch (err) {
+      exitWithError('CHECKPOINT_ERROR', 'Checkpoint failed', { error: String(err) })
+    }
+    break
+  }
+
+  case 'prove-inclusion': {
+    const hash = args.hash
+    if (!hash) {
+      exitWithError('MISSING_HASH', 'Atomic hash required', { usage: '--hash <hex>' })
+    }
+
+    try {
+      const treeSize = args['tree-size'] ? Number(args['tree-size']) : undefined
+      const proof = new MerkleLog(ledgerPath).proveInclusion(hash, treeSize)
+      formatOutput(proof, outputFormat)
+    } catch (err) {
+      exitWithError('PROOF_ERROR', 'Failed to produce inclusion proof', { error: String(err) })
+    }
+    break
+  }
+
+  case 'prove-consistency': {
+    const oldSize = args['old-size']
+    if (!oldSize) {
+      exitWithError('MISSING_SIZE', 'Old tree size required', { usage: '--old-size <n> [--new-size <n>]' })
+    }
+
+    try {
+      const newSize = args['new-size'] ? Number(args['new-size']) : undefined
+      const proof = new MerkleLog(ledgerPath).proveConsistency(Number(oldSize), newSize)
+      formatOutput(proof, outputFormat)
+    } catch (err) {
+      exitWithError('PROOF_ERROR', 'Failed to produce consistency proof', { error: String(err) })
+    }
+    break
+  }
+
+  case 'verify-proof': {
+    const inputFile = args.input
+    if (!inputFile) {
+      exitWithError('MISSING_INPUT', 'Proof file required', { usage: '--input <file>' })
+    }
+
+    try {
+      const proof = JSON.parse(await Deno.readTextFile(inputFile))
+      const isInclusion = 'audit_path' in proof
+      const valid = isInclusion ? verifyInclusion(proof) : verifyConsistency(proof)
+
+      let checkpointValid: boolean | undefined
+      if (args.checkpoint) {
+        const checkpoint: MerkleCheckpoint = JSON.parse(await Deno.readTextFile(args.checkpoint))
+        const publicKey = args.key || args['public-key'] || Deno.env.get('PUBLIC_KEY_HEX')
+        if (!publicKey) {
+          exitWithError('MISSING_KEY', 'Node public key required to verify a checkpoint', {
+            usage: '--checkpoint <file> --key <hex> or PUBLIC_KEY_HEX env var'
+          })
+        }
+        const size = isInclusion ? proof.tree_size : proof.new_size
+        const root = isInclusion ? proof.root : proof.new_root
+        checkpointValid = verifyCheckpoint(checkpoint, publicKey) &&
+          checkpoint.tree_size === size &&
+          checkpoint.root === root
+      }
+
+      const result = {
+        type: isInclusion ? 'inclusion' : 'consistency',
+        valid,
+        ...(checkpointValid !== undefined ? { checkpoint_valid: checkpointValid } : {})
+      }
+      formatOutput(result, outputFormat)
+
+      if (!valid || checkpointValid === false) {
+        Deno.exit(1)
+      }
+    } catch (err) {
+      exitWithError('VERIFY_PROOF_ERROR', 'Proof verification failed', { error: String(err) })
+    }
+    break
+  }
+
+  case 'compress': {
+    let compression: SegmentCompression = 'gzip'
+    try {
+      compression = checkCompression(args.compression || 'gzip')
+    } catch (err) {
+      exitWithError('INVALID_COMPRESSION', (err as Error).message, { usage: '--compression gzip|zstd' })
+    }
+
+    if (dryRun) {
+      console.log('🔍 Dry run mode: would compress sealed segments of', ledgerPath)
+      break
+    }
+
+    try {
+      const segments = await compressSealedSegments(ledgerPath, compression)
+      if (outputFormat === 'table') {
+        console.log(`Compressed ${segments.length} segment(s):`)
+        for (const segment of segments) {
+          console.log(`  ${segment.file}: ${segment.bytes} -> ${segment.compressed_bytes} bytes`)
+        }
+      } else {
+        formatOutput(segments, outputFormat)
+      }
+    } catch (err) {
+      exitWithError('COMPRESS_ERROR', 'Compression failed', { error: String(err) })
+    }
+    break
+  }
+
+  case 'shred-tenant': {
+    const tenantId = args['tenant-id']
+    if (!tenantId) {
+      exitWithError('MISSING_TENANT_ID', 'Tenant ID required', { usage: '--tenant-id <id>' })
+    }
+
+    if (dryRun) {
+      console.log('🔍 Dry run mode: would destroy the encryption keys of tenant', tenantId)
+      break
+    }
+
+    try {
+      const destroyed = await tenantKeyStore().shred(tenantId)
+      if (outputFormat === 'table') {
+        console.log(`Destroyed ${destroyed.length} key(s) of tenant ${tenantId}`)
+        console.log('Its encrypted payloads can no longer be read; the ledger still verifies.')
+      } else {
+        formatOutput({ tenant_id: tenantId, destroyed_keys: destroyed }, outputFormat)
+      }
+    } catch (err) {
+      exitWithError('SHRED_ERROR', 'Shredding failed', { error: String(err) })
+    }
+    break
+  }
+
+  case 'redact': {
+    const inputFile = args.input
+    if (!inputFile) {
+      exitWithError('MISSING_INPUT', 'Input file required', { usage: '--input <file>' })
+    }
+    const fields = (args.fields || '').split(',').map((f: string) => f.trim()).filter(Boolean)
+    if (fields.length === 0) {
+      exitWithError('MISSING_FIELDS', 'Fields to redact required', { usage: '--fields input.env,output.stdout' })
+    }
+
+    try {
+      // A single JSON atomic or an NDJSON excerpt
+      const content = (await Deno.readTextFile(inputFile)).trim()
+      let atomics: Atomic[]
+      let single = true
+      try {
+        atomics = [JSON.parse(content)]
+      } catch {
+        single = false
+        atomics = content.split('\n').filter(Boolean).map(line => JSON.parse(line))
+      }
+
+      const redacted = atomics.map(atomic => redactAtomic(atomic, fields))
+      formatOutput(single ? redacted[0] : redacted, single && outputFormat === 'table' ? 'json' : 'ndjson')
+    } catch (err) {
+      exitWithError('REDACT_ERROR', 'Redaction failed', { error: String(err) })
+    }
+    break
+  }
+
+  case 'forks': {
+    try {
+      const forks = await analyzeForks(ledgerPath, { chainMode, traceId: args['trace-id'] })
+      if (outputFormat !== 'table') {
+        formatOutput(forks, outputFormat)
+        break
+      }
+
+      console.log(`Found ${forks.length} fork(s)`)
+      for (const fork of forks) {
+        const ancestor = fork.common_ancestor
+        console.log(`\n🔀 ${fork.trace_id ?? 'global chain'}`)
+        console.log(`  Common ancestor: ${ancestor ? `${ancestor.hash} (line ${ancestor.line})` : 'none (separate genesis atomics)'}`)
+        for (const branch of fork.branches) {
+          const marks = [
+            branch.longest ? 'longest' : '',
+            branch.canonical === true ? 'canonical' : branch.canonical === false ? 'rejected' : ''
+          ].filter(Boolean)
+          console.log(`  Branch ${branch.head}${marks.length > 0 ? ` [${marks.join(', ')}]` : ''}`)
+          console.log(`    ${branch.length} atomic(s), lines ${branch.atomics.map(a => a.line).join(', ')}`)
+          console.log(`    Signers: ${branch.signers.join(', ') || '(unsigned)'}`)
+          console.log(`    Actors: ${branch.actors.join(', ')}`)
+          if (branch.first_at) {
+            console.log(`    From ${branch.first_at} to ${branch.last_at}`)
+          }
+        }
+        if (fork.resolution) {
+          console.log(`  Resolved by ${fork.resolution.hash} (line ${fork.resolution.line})${fork.resolution.reason ? `: ${fork.resolution.reason}` : ''}`)
+        }
+      }
+    } catch (err) {
+      exitWithError('FORK_ANALYSIS_ERROR', 'Fork analysis failed', { error: String(err) })
+    }
+    break
+  }
+
+  case 'resolve-fork': {
+    const canonical = args.canonical
+    if (!canonical) {
+      exitWithError('MISSING_CANONICAL', 'Head of the canonical branch required', { usage: '--canonical <hash>' })
+    }
+    const privateKeyValue = args['private-key'] || Deno.env.get('SIGNING_KEY_HEX')
+    if (!privateKeyValue) {
+      exitWithError('MISSING_KEY', 'Private key required', { usage: '--private-key <hex|keystore:label> or SIGNING_KEY_HEX env var' })
+    }
+
+    try {
+      const traceId = args['trace-id']
+      const forks = await analyzeForks(ledgerPath, { chainMode, traceId })
+      const fork = forks.find(f => f.branches.some(branch => branch.head === canonical))
+      if (!fork) {
+        exitWithError('FORK_NOT_FOUND', `No fork has a branch with head ${canonical}`, {
+          forks: forks.map(f => f.trace_id ?? 'global chain')
+        })
+      }
+
+      const resolution = createForkResolution(fork!, canonical, {
+        actor: args.actor || 'ledger',
+        reason: args.reason,
+        chainMode
+      })
+      if (dryRun) {
+        console.log('🔍 Dry run mode: would append')
+        formatOutput(resolution, 'json')
+        break
+      }
+
+      const privateKey = privateKeyOption(privateKeyValue)!
+      const { atomic: stored } = await new Ledger(ledgerPath, {
+        chainMode,
+        signingKeyHex: privateKey.privateKeyHex,
+        signingAlg: privateKey.alg ?? signatureAlg()
+      }).appendAtomic(resolution)
+      formatOutput(outputFormat === 'table'
+        ? { resolution: stored.hash, canonical_head: canonical, rejected: (stored.input!.rejected as string[]).length }
+        : stored, outputFormat)
+    } catch (err) {
+      if (err instanceof ForkResolutionError) {
+        exitWithError('INVALID_RESOLUTION', err.message)
+      }
+      exitWithError('RESOLVE_FORK_ERROR', 'Fork resolution failed', { error: String(err) })
+    }
+    break
+  }
+
   default:
     exitWithError('UNKNOWN_COMMAND', `Unknown command: ${command}`, { 
       hint: 'Run with --help for usage information' 
@@ -4,19 +4,30 @@
  */
 import { Application, Router } from "https://deno.land/x/oak/mod.ts"
 import { Ledger } from "../../core/ledger/ledger.ts"
-import { canonicalize } from "../../core/canonical.ts"
-import { signAtomic } from "../../core/crypto.ts"
+import { upgradeAtomic } from "../../core/ledger/ledgerMigration.ts"
+import { Keystore, resolvePrivateKey } from "../../core/ledger/keystore.ts"
+import type { SignatureAlg } from "../../types.ts"
 
-const ledger = new Ledger("./data/ledger.ndjson")
+// Chave de assinatura como na REST API: hex ou keystore:<label> (KEYSTORE_PASSPHRASE), algoritmo de SIGNING_KEY_ALG
+const SIGNING_KEY = Deno.env.get("SIGNING_KEY_HEX")
+const signingKey = SIGNING_KEY
+  ? resolvePrivateKey(
+    SIGNING_KEY,
+    () => new Keystore(Deno.env.get("KEYSTORE_DIR") || "./data/keystore"),
+    () => Deno.env.get("KEYSTORE_PASSPHRASE")
+  )
+  : undefined
+const ledger = new Ledger("./data/ledger.ndjson", {
+  signingKeyHex: signingKey?.privateKeyHex,
+  signingAlg: signingKey?.alg ?? (Deno.env.get("SIGNING_KEY_ALG") || undefined) as SignatureAlg | undefined
+})
 const router = new Router()
 
 router.post("/append", async ctx => {
-  const atomic = await ctx.request.body({ type: "json" }).value
-  // Validação embutida via canonicalize
-  atomic.curr_hash = canonicalize(atomic)
-  atomic.signature = await signAtomic(atomic, Deno.env.get('SIGNING_KEY_HEX'))
-  await ledger.append(atomic)
-  ctx.response.body = { ok: true }
+  // Aceita também atomics no formato v1.0 (curr_hash, metadata.trace_id); o ledger calcula hash e assinatura
+  const atomic = upgradeAtomic(await ctx.request.body({ type: "json" }).value)
+  const { atomic: stored } = await ledger.appendAtomic(atomic)
+  ctx.response.body = { ok: true, hash: stored.hash }
 })
 
 router.get("/scan", async ctx => {
@@ -1,24 +1,29 @@
 /**
  * 15. Audit Trail Exporter
  * Exporta ledger como NDJSON assinado para auditoria externa.
+ * Lê todos os segmentos (inclusive os comprimidos) via Ledger.stream().
  */
 import { Ledger } from "../../core/ledger/ledger.ts"
 import { canonicalize } from "../../core/canonical.ts"
 
 export async function exportLedgerNDJSON(ledgerPath: string, outPath: string) {
   const ledger = new Ledger(ledgerPath)
-  const all = await ledger.scan({ limit: 1000000 }) // Exporta tudo
-  const lines = []
-  for (const item of all.items) {
-    const atomic = item.atomic
-    lines.push(JSON.stringify({
-      canonical: canonicalize(atomic),
-      curr_hash: atomic.curr_hash,
-      signature: atomic.signature
-    }))
+  const encoder = new TextEncoder()
+  const file = await Deno.open(outPath, { write: true, create: true, truncate: true })
+  const writer = file.writable.getWriter()
+  try {
+    for await (const atomic of ledger.stream()) {
+      const line = JSON.stringify({
+        canonical: canonicalize(atomic),
+        hash: atomic.hash,
+        signature: atomic.signature
+      })
+      await writer.write(encoder.encode(line + "\n"))
+    }
+  } finally {
+    await writer.close()
   }
-  await Deno.writeTextFile(outPath, lines.join("\n"))
   console.log(`Ledger exportado para NDJSON: ${outPath}`)
 }
 
-// Uso: await exportLedgerNDJSON('./data/ledger.jsonl', './audit.ndjson')
\ No newline at end of file
+// Uso: await exportLedgerNDJSON('./data/ledger.jsonl', './audit.ndjson')
@@ -44,7 +44,7 @@ export function atomicToRow(atomic: Atomic): Record<string, string> {
   // Outros padrões típicos JSON✯Atomic
   if (atomic.entity_type) row.entity_type = atomic.entity_type
   if (atomic.intent) row.intent = atomic.intent
-  if (atomic.metadata?.trace_id) row.trace_id = atomic.metadata.trace_id
+  if (atomic.trace_id) row.trace_id = atomic.trace_id
   if (atomic.metadata?.created_at) row.created_at = atomic.metadata.created_at
   if (atomic.metadata?.owner_id) row.owner_id = atomic.metadata.owner_id
 
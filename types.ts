@@ -2,8 +2,20 @@
  * Core type definitions for JSON✯Atomic
  */
 
+/** Signature algorithms; see core/signatureAlgorithms.ts */
+export type SignatureAlg =
+  | 'Ed25519'
+  | 'ES256'
+  | 'ES256K'
+  | 'ML-DSA-65'
+  | 'SLH-DSA-SHA2-128s'
+  | 'SLH-DSA-SHA2-128f'
+
+/** Canonical JSON an atomic is hashed with; see core/canonical.ts */
+export type CanonicalizationId = 'JsonAtomic/c14n/v1' | 'JsonAtomic/jcs/v1'
+
 export interface Signature {
-  alg: 'Ed25519'
+  alg: SignatureAlg
   public_key: string
   sig: string
   signed_at?: string
@@ -24,16 +36,16 @@ export interface Atomic {
     reason?: string
   }
   input?: {
-    content?: string
-    bytes_b64?: string
+    content?: string | BlobRef
+    bytes_b64?: string | BlobRef
     args?: unknown[]
     env?: Record<string, unknown>
     [key: string]: unknown
   }
   payload?: Record<string, unknown>
   output?: {
-    stdout?: string
-    stderr?: string
+    stdout?: string | BlobRef
+    stderr?: string | BlobRef
     result?: unknown
     error?: string
     [key: string]: unknown
@@ -60,6 +72,42 @@ export interface Atomic {
     created_at: string
     version?: string
   }
+  /** Canonicalization the hash was computed with (covered by it); absent: JsonAtomic/c14n/v1 */
+  canonicalization?: CanonicalizationId
+  /** Salted field commitments (selective disclosure); see core/disclosure.ts */
+  disclosure?: FieldDisclosure
+  /** Signatures the atomic needs to verify (covered by the hash); see core/multisig.ts */
+  multisig?: MultiSigPolicy
+  /** Signatures of the hash beside `signature`; like it, not covered by the hash */
+  cosignatures?: Signature[]
+  /** Post-quantum signature of the hash, beside `signature` (hybrid signing) */
+  pq_signature?: Signature
+}
+
+export interface MultiSigPolicy {
+  /** Distinct keys that must sign */
+  threshold: number
+  /** Keys allowed to sign (hex) */
+  public_keys: string[]
+}
+
+/** Payload moved to a blob store; see core/ledger/blobStore.ts */
+export interface BlobRef {
+  scheme: 'JsonAtomic/blob/v1'
+  /** BLAKE3 of the bytes (hex) */
+  hash: string
+  size: number
+  media_type: string
+  /** How the bytes were written inline */
+  encoding: 'base64' | 'utf-8'
+}
+
+export interface FieldDisclosure {
+  scheme: 'JsonAtomic/sd/v1'
+  /** Salt of each disclosed field, by JSON pointer */
+  salts: Record<string, string>
+  /** Commitment of each redacted field, by JSON pointer */
+  redacted?: Record<string, string>
 }
 
 export type PolicyAction = string | {
@@ -98,6 +146,11 @@ export interface VerificationResult {
   hash: string
   trace_id?: string
   error?: LedgerError
+  /** Disclosed and redacted fields of an atomic hashed with field commitments */
+  disclosure?: {
+    disclosed: string[]
+    redacted: string[]
+  }
 }
 
 export interface LedgerError {
@@ -113,9 +166,27 @@ export interface LedgerScanOptions {
   trace_id?: string
 }
 
+/**
+ * How `prev` links are assigned: one chain for the whole ledger, or one per trace_id
+ */
+export type ChainMode = 'global' | 'trace'
+
+/**
+ * When the active ledger segment is sealed and a new one started
+ */
+export type RotationPolicy = 'daily' | 'weekly' | 'monthly' | 'size'
+
+export interface LedgerChainHeads {
+  mode: ChainMode
+  global?: string
+  traces: Record<string, string>
+}
+
 export interface LedgerQueryOptions {
   trace_id?: string
   entity_type?: string
   owner_id?: string
   tenant_id?: string
+  /** Filter expression, e.g. `status.state = "failed" AND did.actor in ("llm", "agent")` */
+  where?: string
 }